@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * SmoothBrains – wrinkle point golden corpus check
+ * Runs every case in supabase/functions/evaluate-wrinkle-points/golden.json through the rubric in
+ * supabase/functions/_shared/wrinkle-rubric.ts with a local LLM stub instead of Groq, and fails if a
+ * case lands outside its expected range or scores differently on a second run.
+ * Requires: node >= 18, esbuild (installed with vite)
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const ROOT = process.cwd();
+const RUBRIC = path.join(ROOT, 'supabase/functions/_shared/wrinkle-rubric.ts');
+const CORPUS = path.join(ROOT, 'supabase/functions/evaluate-wrinkle-points/golden.json');
+const log = (...a) => console.log('[wrinkle-golden]', ...a);
+
+// The rubric is Deno-flavoured TypeScript; bundle it to a temporary ES module node can import
+async function loadRubric() {
+  const outfile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'wrinkle-')), 'rubric.mjs');
+  await build({ entryPoints: [RUBRIC], outfile, bundle: true, format: 'esm', platform: 'neutral', logLevel: 'silent' });
+  try {
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    fs.rmSync(path.dirname(outfile), { recursive: true, force: true });
+  }
+}
+
+// Local stand-in for Groq: answers with the case's `stub` value and records every prompt it saw
+function stubLLM(answer) {
+  const calls = [];
+  const tieBreaker = async (prompt) => {
+    calls.push(prompt);
+    return answer ?? null;
+  };
+  return { tieBreaker, calls };
+}
+
+const rubric = await loadRubric();
+const { cases } = JSON.parse(fs.readFileSync(CORPUS, 'utf8'));
+const failures = [];
+
+for (const c of cases) {
+  const input = {
+    message: c.message,
+    currentIdea: c.currentIdea,
+    history: c.history,
+    currentWrinklePoints: c.currentWrinklePoints ?? 0
+  };
+
+  const first = stubLLM(c.stub);
+  const result = await rubric.evaluateWrinklePoints(input, first.tieBreaker);
+  const repeat = await rubric.evaluateWrinklePoints(input, stubLLM(c.stub).tieBreaker);
+
+  const [min, max] = c.expected;
+  const inRange = result.pointChange >= min && result.pointChange <= max;
+  const stable = repeat.pointChange === result.pointChange;
+  const tie = result.tieBreak ? ` tie@${result.tieBreak.boundary}:${result.tieBreak.decision}` : first.calls.length ? ' tie:kept' : '';
+
+  log(`${inRange && stable ? 'ok  ' : 'FAIL'} ${c.id.padEnd(22)} ${String(result.pointChange).padStart(4)} in [${min}, ${max}]  q=${result.quality} ${result.band}${tie}`);
+
+  if (!inRange) failures.push(`${c.id}: ${result.pointChange} outside [${min}, ${max}] (scores ${JSON.stringify(result.scores)})`);
+  if (!stable) failures.push(`${c.id}: scored ${result.pointChange} then ${repeat.pointChange}`);
+}
+
+if (failures.length) {
+  console.error(`\n${failures.length} golden case(s) failed (rubric ${rubric.RUBRIC_VERSION}):`);
+  failures.forEach(f => console.error(' -', f));
+  process.exit(1);
+}
+
+log(`All ${cases.length} cases pass (rubric ${rubric.RUBRIC_VERSION})`);
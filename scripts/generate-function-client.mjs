@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+/**
+ * SmoothBrains – edge function client generator and contract check
+ * Reads the contracts in supabase/functions/_shared/function-contracts.ts and writes the typed client
+ * in src/integrations/supabase/functions.ts.
+ *
+ * Usage:
+ *   node scripts/generate-function-client.mjs            regenerate the client
+ *   node scripts/generate-function-client.mjs --check    fail when
+ *     - the frontend invokes a function name that has no contract
+ *     - a contract has no supabase/functions/<name>/index.ts (pending contracts only warn)
+ *     - a deployed function has no contract
+ *     - the generated client is out of date
+ *
+ * Names passed as variables are not visible to the scan; type them as FunctionName so tsc checks them.
+ * Requires: node >= 18, esbuild (installed with vite), zod
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const ROOT = process.cwd();
+const FUNCTIONS = path.join(ROOT, 'supabase/functions');
+const CONTRACTS = path.join(FUNCTIONS, '_shared/function-contracts.ts');
+const CLIENT = path.join(ROOT, 'src/integrations/supabase/functions.ts');
+const CHECK = process.argv.includes('--check');
+const log = (...a) => console.log('[function-contracts]', ...a);
+
+// Calls whose first argument is an edge function name
+const INVOKE = /\b(?:functions\.invoke|invokeSupabaseFunction|invokeFunction|invokeEdgeFunction)\s*(?:<[^>()]*>)?\(\s*(['"`])([^'"`$]+)\1/g;
+
+// The contracts import zod from esm.sh; bundle them against the local zod so node can load them
+async function loadContracts() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'contracts-'));
+  const outfile = path.join(dir, 'contracts.mjs');
+  try {
+    await build({
+      entryPoints: [CONTRACTS],
+      outfile,
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      logLevel: 'silent',
+      plugins: [{
+        name: 'esm-sh',
+        setup(b) {
+          b.onResolve({ filter: /^https:\/\/esm\.sh\// }, async args => {
+            const pkg = args.path.match(/^https:\/\/esm\.sh\/((?:@[^/]+\/)?[^@/]+)@/)?.[1];
+            const resolved = pkg ? await b.resolve(pkg, { kind: args.kind, resolveDir: ROOT }) : null;
+            return resolved && !resolved.errors.length ? { path: resolved.path } : { errors: [{ text: `Cannot resolve ${args.path} locally` }] };
+          });
+        }
+      }]
+    });
+    return (await import(pathToFileURL(outfile).href)).FUNCTION_CONTRACTS;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const pad = depth => '  '.repeat(depth);
+const propertyKey = key => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`);
+
+// TypeScript for the zod schema kinds the contracts use
+function toType(schema, depth) {
+  const def = schema._def;
+  switch (def.typeName) {
+    case 'ZodString': return 'string';
+    case 'ZodNumber': return 'number';
+    case 'ZodBoolean': return 'boolean';
+    case 'ZodUnknown':
+    case 'ZodAny': return 'unknown';
+    case 'ZodLiteral': return JSON.stringify(def.value);
+    case 'ZodEnum': return def.values.map(v => `'${v}'`).join(' | ');
+    case 'ZodNullable': return `${toType(def.innerType, depth)} | null`;
+    case 'ZodOptional':
+    case 'ZodDefault': return toType(def.innerType, depth);
+    case 'ZodEffects': return toType(def.schema, depth);
+    case 'ZodUnion': return def.options.map(o => toType(o, depth)).join(' | ');
+    case 'ZodRecord': return `Record<string, ${toType(def.valueType, depth)}>`;
+    case 'ZodArray': {
+      const item = toType(def.type, depth);
+      return /[|{]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'ZodObject': {
+      const lines = Object.entries(def.shape()).map(([key, value]) => {
+        const optional = value.isOptional() ? '?' : '';
+        return `${pad(depth + 1)}${propertyKey(key)}${optional}: ${toType(value, depth + 1)};`;
+      });
+      if (def.unknownKeys === 'passthrough') lines.push(`${pad(depth + 1)}[key: string]: unknown;`);
+      return lines.length ? `{\n${lines.join('\n')}\n${pad(depth)}}` : 'Record<string, never>';
+    }
+    default:
+      throw new Error(`function-contracts: no TypeScript mapping for ${def.typeName}`);
+  }
+}
+
+function renderClient(contracts) {
+  const names = Object.keys(contracts).sort();
+  const pending = names.filter(name => contracts[name].pending);
+  const entries = names.map(name => {
+    const c = contracts[name];
+    return [
+      `  /** ${c.description}${c.pending ? ' (not deployed yet)' : ''} */`,
+      `  '${name}': {`,
+      `    request: ${toType(c.request, 2)};`,
+      `    response: ${toType(c.response, 2)};`,
+      '  };'
+    ].join('\n');
+  });
+
+  return `// This file is automatically generated by scripts/generate-function-client.mjs from
+// supabase/functions/_shared/function-contracts.ts. Do not edit it directly.
+import { supabase } from './client';
+
+export interface FunctionContracts {
+${entries.join('\n')}
+}
+
+export type FunctionName = keyof FunctionContracts;
+export type FunctionRequest<N extends FunctionName> = FunctionContracts[N]['request'];
+export type FunctionResponse<N extends FunctionName> = FunctionContracts[N]['response'];
+
+export const FUNCTION_NAMES: readonly FunctionName[] = [
+${names.map(name => `  '${name}',`).join('\n')}
+];
+
+// Declared for callers that already exist; invoking one fails until the function is deployed
+export const PENDING_FUNCTIONS: readonly FunctionName[] = [${pending.map(name => `'${name}'`).join(', ')}];
+
+/**
+ * supabase.functions.invoke with the request and response types of the function's contract.
+ */
+export function invokeEdgeFunction<N extends FunctionName>(name: N, body: FunctionRequest<N>) {
+  return supabase.functions.invoke<FunctionResponse<N>>(name, { body });
+}
+`;
+}
+
+function listSources(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSources(full);
+    return /\.tsx?$/.test(entry.name) ? [full] : [];
+  });
+}
+
+// Every literal function name the frontend invokes, with where it was seen
+function frontendReferences() {
+  const refs = new Map();
+  for (const file of listSources(path.join(ROOT, 'src'))) {
+    if (file === CLIENT) continue;
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    lines.forEach((line, i) => {
+      if (/^\s*(\/\/|\*)/.test(line)) return;
+      for (const match of line.matchAll(INVOKE)) {
+        const name = match[2];
+        if (!refs.has(name)) refs.set(name, []);
+        refs.get(name).push(`${path.relative(ROOT, file)}:${i + 1}`);
+      }
+    });
+  }
+  return refs;
+}
+
+function check(contracts, client) {
+  const problems = [];
+  const warnings = [];
+  const deployed = fs.readdirSync(FUNCTIONS).filter(name => fs.existsSync(path.join(FUNCTIONS, name, 'index.ts')));
+
+  for (const [name, sites] of frontendReferences()) {
+    if (!contracts[name]) problems.push(`${name} is invoked but has no contract (${sites.join(', ')})`);
+  }
+  for (const [name, c] of Object.entries(contracts)) {
+    const exists = deployed.includes(name);
+    if (c.pending && exists) problems.push(`${name} is deployed; remove its pending marker`);
+    else if (c.pending) warnings.push(`${name} is not deployed yet: ${c.pending}`);
+    else if (!exists) problems.push(`${name} has a contract but no supabase/functions/${name}/index.ts`);
+  }
+  for (const name of deployed) {
+    if (!contracts[name]) problems.push(`supabase/functions/${name} has no contract`);
+  }
+  const current = fs.existsSync(CLIENT) ? fs.readFileSync(CLIENT, 'utf8') : '';
+  if (current !== client) problems.push(`${path.relative(ROOT, CLIENT)} is out of date; run npm run generate:function-client`);
+
+  warnings.forEach(w => log('warning:', w));
+  return problems;
+}
+
+const contracts = await loadContracts();
+const client = renderClient(contracts);
+
+if (CHECK) {
+  const problems = check(contracts, client);
+  if (problems.length) {
+    console.error(`\n${problems.length} problem(s):`);
+    problems.forEach(p => console.error(' -', p));
+    process.exit(1);
+  }
+  log(`${Object.keys(contracts).length} contracts match the frontend, the deployed functions and the generated client`);
+} else {
+  fs.writeFileSync(CLIENT, client);
+  log(`wrote ${path.relative(ROOT, CLIENT)} (${Object.keys(contracts).length} functions)`);
+}
@@ -0,0 +1,14 @@
+// Prints the key id of a ledger signing key, for VITE_LEDGER_SIGNING_KEY_IDS.
+// Usage: LEDGER_SIGNING_KEY='{"kty":"EC",...}' node scripts/ledger-key-id.mjs
+// The id is the SHA-256 of the public half in canonical JSON, as in src/lib/ownership-certificate.ts.
+import { createHash } from 'node:crypto';
+
+const raw = process.env.LEDGER_SIGNING_KEY;
+if (!raw) {
+  console.error('[ledger-key-id] Set LEDGER_SIGNING_KEY to the JWK the idea-ledger function signs with');
+  process.exit(1);
+}
+
+const { crv, kty, x, y } = JSON.parse(raw);
+const canonical = `{"crv":${JSON.stringify(crv)},"kty":${JSON.stringify(kty)},"x":${JSON.stringify(x)},"y":${JSON.stringify(y)}}`;
+console.log(createHash('sha256').update(canonical).digest('hex'));
@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+/**
+ * SmoothBrains – offline edge function runner
+ * Invokes a function handler from supabase/functions with the request stored in a fixture case,
+ * serves its outbound fetches from the recorded responses and diffs the JSON output against the
+ * case snapshot. No network and no provider keys are needed in replay mode.
+ *
+ * Cases live in supabase/functions/<function>/fixtures/<case>.json:
+ *   { description, request: { method?, headers?, body }, recordedAt, env, fetches, ignore?, snapshot }
+ *
+ * Usage:
+ *   node scripts/replay-edge-function.mjs                          replay every case of every function
+ *   node scripts/replay-edge-function.mjs <function> [case]        replay one function / case
+ *   node scripts/replay-edge-function.mjs <function> <case> --record [--body '<json>']
+ *       run against live providers with keys from the environment and (re)write the case
+ *   --update    replay and accept the current output as the new snapshot
+ *   --verbose   show the function's own console output
+ *
+ * Time is frozen at the case's recordedAt and Math.random is seeded in both modes, so a replay
+ * produces exactly what the recording run returned.
+ * Requires: node >= 18, esbuild (installed with vite)
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const ROOT = process.cwd();
+const FUNCTIONS = path.join(ROOT, 'supabase/functions');
+const log = (...a) => console.log('[replay]', ...a);
+
+const argv = process.argv.slice(2);
+const flags = new Set(argv.filter(a => a.startsWith('--')));
+const bodyIndex = argv.indexOf('--body');
+const bodyArg = bodyIndex === -1 ? null : argv[bodyIndex + 1];
+const [fnName, caseName] = argv.filter((a, i) => !a.startsWith('--') && (bodyIndex === -1 || i !== bodyIndex + 1));
+const RECORD = flags.has('--record');
+const UPDATE = flags.has('--update');
+const VERBOSE = flags.has('--verbose');
+
+const SECRET_ENV = /KEY|SECRET|TOKEN|PASSWORD/i;
+
+// Deno-only imports are swapped for local equivalents: `serve` hands the handler to the runner,
+// esm.sh packages come from node_modules, and anything else must not be needed offline
+const denoShims = {
+  name: 'deno-shims',
+  setup(b) {
+    b.onResolve({ filter: /^https?:\/\// }, async args => {
+      if (/deno\.land\/std@[^/]+\/http\/server\.ts$/.test(args.path)) return { path: 'serve', namespace: 'shim' };
+      if (/deno\.land\/x\/xhr@/.test(args.path)) return { path: 'empty', namespace: 'shim' };
+      const pkg = args.path.match(/^https:\/\/esm\.sh\/((?:@[^/]+\/)?[^@/]+)@/)?.[1];
+      if (pkg) {
+        const resolved = await b.resolve(pkg, { kind: args.kind, resolveDir: ROOT });
+        if (!resolved.errors.length) return { path: resolved.path };
+      }
+      return { errors: [{ text: `${args.path} has no offline equivalent in scripts/replay-edge-function.mjs` }] };
+    });
+    b.onLoad({ filter: /.*/, namespace: 'shim' }, args => ({
+      contents: args.path === 'serve' ? 'export function serve(handler) { globalThis.__edgeHandler = handler; }' : '',
+      loader: 'js'
+    }));
+  }
+};
+
+async function bundle(fn, dir) {
+  const outfile = path.join(dir, `${fn}.mjs`);
+  await build({
+    entryPoints: [path.join(FUNCTIONS, fn, 'index.ts')],
+    outfile,
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    logLevel: 'silent',
+    plugins: [denoShims],
+    // Bundled CommonJS dependencies still require node builtins
+    banner: { js: "import { createRequire as __createRequire } from 'node:module'; const require = __createRequire(import.meta.url);" }
+  });
+  return outfile;
+}
+
+async function loadRecorder(dir) {
+  const outfile = path.join(dir, 'fetch-recorder.mjs');
+  await build({ entryPoints: [path.join(FUNCTIONS, '_shared/fetch-recorder.ts')], outfile, bundle: true, format: 'esm', platform: 'neutral', logLevel: 'silent' });
+  return import(pathToFileURL(outfile).href);
+}
+
+function mulberry32(seed) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Installs frozen time, seeded randomness, Deno.env and fetch for one run; returns a restore function
+function installSandbox({ now, env, fetchImpl }) {
+  const saved = { Date: globalThis.Date, random: Math.random, fetch: globalThis.fetch, Deno: globalThis.Deno, console: { ...console } };
+  const RealDate = saved.Date;
+  const fixed = new RealDate(now).getTime();
+
+  globalThis.Date = class extends RealDate {
+    constructor(...args) {
+      super(...(args.length ? args : [fixed]));
+    }
+    static now() {
+      return fixed;
+    }
+  };
+  Math.random = mulberry32(fixed % 2147483647);
+  globalThis.fetch = fetchImpl;
+  globalThis.Deno = { env: { get: env, toObject: () => ({}) } };
+  if (!VERBOSE) {
+    for (const level of ['log', 'info', 'warn', 'error', 'debug']) console[level] = () => {};
+  }
+
+  return () => {
+    globalThis.Date = saved.Date;
+    Math.random = saved.random;
+    globalThis.fetch = saved.fetch;
+    globalThis.Deno = saved.Deno;
+    Object.assign(console, saved.console);
+  };
+}
+
+async function invoke(modulePath, fn, fixture, run) {
+  const { method = 'POST', headers = {}, body } = fixture.request;
+  const restore = installSandbox({ now: fixture.recordedAt, env: run.env, fetchImpl: run.fetch });
+  try {
+    delete globalThis.__edgeHandler;
+    await import(`${pathToFileURL(modulePath).href}?run=${++invoke.count}`);
+    const handler = globalThis.__edgeHandler;
+    if (!handler) throw new Error(`${fn}/index.ts did not call serve()`);
+
+    const response = await handler(new Request(`http://localhost:54321/functions/v1/${fn}`, {
+      method,
+      headers: { 'content-type': 'application/json', ...headers },
+      body: method === 'GET' ? undefined : JSON.stringify(body ?? {})
+    }));
+    const text = await response.text();
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = text;
+    }
+    return { status: response.status, body: parsed };
+  } finally {
+    restore();
+  }
+}
+invoke.count = 0;
+
+const matches = (pattern, at) => {
+  const p = pattern.split('.');
+  return p.length <= at.length && p.every((seg, i) => seg === '*' || seg === at[i]);
+};
+
+function diff(expected, actual, ignore, at = [], out = []) {
+  if (ignore.some(pattern => matches(pattern, at))) return out;
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object' && Array.isArray(expected) === Array.isArray(actual)) {
+    for (const key of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+      diff(expected[key], actual[key], ignore, [...at, key], out);
+    }
+  } else if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    out.push({ path: at.join('.') || '(root)', expected, actual });
+  }
+  return out;
+}
+
+const short = value => {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+function listCases() {
+  const fns = fnName ? [fnName] : fs.readdirSync(FUNCTIONS).filter(f => fs.existsSync(path.join(FUNCTIONS, f, 'fixtures')));
+  return fns.flatMap(fn => {
+    const dir = path.join(FUNCTIONS, fn, 'fixtures');
+    if (caseName) return [{ fn, name: caseName, file: path.join(dir, `${caseName}.json`) }];
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort().map(f => ({ fn, name: f.replace(/\.json$/, ''), file: path.join(dir, f) }));
+  });
+}
+
+async function record(recorder, modulePath, { fn, name, file }) {
+  const existing = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+  const request = bodyArg ? { method: 'POST', body: JSON.parse(bodyArg) } : existing?.request;
+  if (!request) throw new Error(`${fn}/${name}: new cases need --body '<json request body>'`);
+
+  const fixture = {
+    description: existing?.description ?? '',
+    request,
+    recordedAt: new Date(Math.floor(Date.now() / 1000) * 1000).toISOString(),
+    env: {},
+    fetches: [],
+    ...(existing?.ignore ? { ignore: existing.ignore } : {})
+  };
+  const env = key => {
+    const value = process.env[key];
+    if (value) fixture.env[key] = SECRET_ENV.test(key) ? recorder.REDACTED : value;
+    return value;
+  };
+
+  const output = await invoke(modulePath, fn, fixture, { env, fetch: recorder.createRecordingFetch(globalThis.fetch, fixture.fetches) });
+  fixture.snapshot = output;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  log(`recorded ${fn}/${name}: ${fixture.fetches.length} fetch(es), status ${output.status}`);
+  return [];
+}
+
+async function replay(recorder, modulePath, { fn, name, file }) {
+  if (!fs.existsSync(file)) return [`${fn}/${name}: no fixture at ${path.relative(ROOT, file)} (record it with --record)`];
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const replayer = recorder.createReplayFetch(fixture.fetches ?? []);
+  const env = key => fixture.env?.[key];
+
+  const output = await invoke(modulePath, fn, fixture, { env, fetch: replayer.fetch });
+  const problems = replayer.misses.map(r => `${fn}/${name}: unrecorded request ${r.method} ${r.url}`);
+  const unused = replayer.unused().length;
+
+  if (UPDATE) {
+    fixture.snapshot = output;
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    log(`updated ${fn}/${name} snapshot (status ${output.status})`);
+    return problems;
+  }
+
+  const changes = diff(fixture.snapshot ?? null, output, fixture.ignore ?? []);
+  changes.slice(0, 20).forEach(c => problems.push(`${fn}/${name}: ${c.path} expected ${short(c.expected)}, got ${short(c.actual)}`));
+  if (changes.length > 20) problems.push(`${fn}/${name}: ...and ${changes.length - 20} more difference(s)`);
+
+  log(`${problems.length ? 'FAIL' : 'ok  '} ${`${fn}/${name}`.padEnd(48)} status ${output.status}  ${fixture.fetches?.length ?? 0} fetch(es)${unused ? `, ${unused} unused` : ''}`);
+  return problems;
+}
+
+const cases = listCases();
+if (!cases.length) {
+  log(fnName ? `No fixtures for ${fnName}` : 'No fixtures found');
+  process.exit(fnName ? 1 : 0);
+}
+if (RECORD && (!fnName || !caseName)) {
+  console.error('--record needs a function and a case name');
+  process.exit(1);
+}
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'edge-replay-'));
+const failures = [];
+try {
+  const recorder = await loadRecorder(tmp);
+  const bundles = new Map();
+  for (const c of cases) {
+    try {
+      if (!bundles.has(c.fn)) bundles.set(c.fn, await bundle(c.fn, tmp));
+      failures.push(...await (RECORD ? record : replay)(recorder, bundles.get(c.fn), c));
+    } catch (error) {
+      failures.push(`${c.fn}/${c.name}: ${error.errors?.[0]?.text ?? error.message}`);
+    }
+  }
+} finally {
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+
+if (failures.length) {
+  console.error(`\n${failures.length} problem(s):`);
+  failures.forEach(f => console.error(' -', f));
+  process.exit(1);
+}
+
+log(`${cases.length} case(s) ${RECORD ? 'recorded' : UPDATE ? 'updated' : 'match their snapshots'}`);
+process.exit(0);
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+/**
+ * SmoothBrains – shared module generator and drift check
+ * Code used by both the edge functions (Deno, esm.sh imports) and the app (Vite, npm imports) lives
+ * once under supabase/functions/_shared and is copied into src by this script.
+ *
+ * Usage:
+ *   node scripts/sync-shared-modules.mjs            regenerate the client copies
+ *   node scripts/sync-shared-modules.mjs --check    fail when
+ *     - a generated client copy is out of date
+ *     - TIER_ENTITLEMENTS (_shared/entitlements.ts) and SUBSCRIPTION_TIERS (src/lib/subscription-tiers.ts)
+ *       disagree on a tier's quotas, feature flags or Stripe product
+ *
+ * Requires: node >= 18, esbuild (installed with vite)
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const ROOT = process.cwd();
+const CHECK = process.argv.includes('--check');
+const log = (...a) => console.log('[shared-modules]', ...a);
+
+// Server source -> generated client copy. Sources may only import from esm.sh packages the app
+// also depends on; those imports are rewritten to the bare package name.
+const GENERATED = [
+  { source: 'supabase/functions/_shared/tile-output-schemas.ts', target: 'src/lib/tile-schemas.ts' },
+  { source: 'supabase/functions/_shared/ooxml.ts', target: 'src/lib/ooxml.ts' },
+];
+
+function renderCopy({ source, target }) {
+  const code = fs.readFileSync(path.join(ROOT, source), 'utf8');
+  const local = code.match(/from\s+['"]\.{1,2}\/[^'"]+['"]/);
+  if (local) throw new Error(`${source} cannot be copied to ${target}: it imports ${local[0]}`);
+  const rewritten = code.replace(/(['"])https:\/\/esm\.sh\/((?:@[^/]+\/)?[^@/'"]+)@[^'"]*\1/g, '$1$2$1');
+  return [
+    `// This file is automatically generated by scripts/sync-shared-modules.mjs from`,
+    `// ${source}. Do not edit it directly.`,
+    rewritten
+  ].join('\n');
+}
+
+// Bundle a TypeScript module (resolving esm.sh imports against node_modules) and import it
+async function loadModule(file) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shared-modules-'));
+  const outfile = path.join(dir, 'module.mjs');
+  try {
+    await build({
+      entryPoints: [path.join(ROOT, file)],
+      outfile,
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      logLevel: 'silent',
+      plugins: [{
+        name: 'esm-sh',
+        setup(b) {
+          b.onResolve({ filter: /^https:\/\/esm\.sh\// }, async args => {
+            const pkg = args.path.match(/^https:\/\/esm\.sh\/((?:@[^/]+\/)?[^@/]+)@/)?.[1];
+            const resolved = pkg ? await b.resolve(pkg, { kind: args.kind, resolveDir: ROOT }) : null;
+            return resolved && !resolved.errors.length ? { path: resolved.path } : { errors: [{ text: `Cannot resolve ${args.path} locally` }] };
+          });
+        }
+      }]
+    });
+    return await import(pathToFileURL(outfile).href);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function checkTiers() {
+  const problems = [];
+  const { TIER_ENTITLEMENTS, PRODUCT_TIERS } = await loadModule('supabase/functions/_shared/entitlements.ts');
+  const { SUBSCRIPTION_TIERS } = await loadModule('src/lib/subscription-tiers.ts');
+
+  for (const [tier, server] of Object.entries(TIER_ENTITLEMENTS)) {
+    const client = SUBSCRIPTION_TIERS[tier];
+    if (!client) {
+      problems.push(`tier ${tier} is missing from SUBSCRIPTION_TIERS`);
+      continue;
+    }
+    const expected = { ideasPerMonth: server.ideasPerMonth, exportsPerMonth: server.exportsPerMonth, ...server.features };
+    for (const [key, value] of Object.entries(expected)) {
+      if (client.features[key] !== value) {
+        problems.push(`${tier}.${key} is ${JSON.stringify(value)} on the server but ${JSON.stringify(client.features[key])} in SUBSCRIPTION_TIERS`);
+      }
+    }
+  }
+  for (const tier of Object.keys(SUBSCRIPTION_TIERS)) {
+    if (!TIER_ENTITLEMENTS[tier]) problems.push(`tier ${tier} is missing from TIER_ENTITLEMENTS`);
+  }
+
+  const clientProducts = Object.entries(SUBSCRIPTION_TIERS).filter(([, t]) => t.product_id).map(([tier, t]) => [t.product_id, tier]);
+  for (const [product, tier] of clientProducts) {
+    if (PRODUCT_TIERS[product] !== tier) problems.push(`product ${product} is ${tier} in SUBSCRIPTION_TIERS but ${PRODUCT_TIERS[product] ?? 'unknown'} on the server`);
+  }
+  for (const product of Object.keys(PRODUCT_TIERS)) {
+    if (!clientProducts.some(([p]) => p === product)) problems.push(`product ${product} is missing from SUBSCRIPTION_TIERS`);
+  }
+  return problems;
+}
+
+const copies = GENERATED.map(entry => ({ ...entry, code: renderCopy(entry) }));
+
+if (CHECK) {
+  const problems = await checkTiers();
+  for (const { source, target, code } of copies) {
+    const current = fs.existsSync(path.join(ROOT, target)) ? fs.readFileSync(path.join(ROOT, target), 'utf8') : '';
+    if (current !== code) problems.push(`${target} is out of date with ${source}; run npm run generate:shared-modules`);
+  }
+  if (problems.length) {
+    console.error(`\n${problems.length} problem(s):`);
+    problems.forEach(p => console.error(' -', p));
+    process.exit(1);
+  }
+  log(`${copies.length} generated module(s) are current and the tier entitlements match`);
+} else {
+  for (const { target, code } of copies) {
+    fs.writeFileSync(path.join(ROOT, target), code);
+    log(`wrote ${target}`);
+  }
+}
@@ -25,14 +25,18 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/integrations/supabase/functions';
 import { ChatMessage as Message, BriefFields } from '@/types/chat';
 import { computeEvidenceMetrics, isVagueAnswer } from '@/lib/brief-scoring';
 import { runEnterpriseAnalysis } from '@/lib/analysis-engine';
 import type { AnalysisResult } from '@/types/analysis';
 // Normalized import paths
 import { LS_KEYS, LS_UI_KEYS } from '@/lib/storage-keys';
-import { buildMarkdownReport, triggerDownload } from '@/lib/export-report';
+import { buildReportBundle } from '@/lib/export-report';
+import { getCacheForIdea } from '@/lib/cache-utils';
+import type { TileData } from '@/lib/data-hub-orchestrator';
 import { useToast } from '@/hooks/use-toast';
+import { useGatedReportExport } from '@/hooks/useReportExport';
 import { useAuth } from '@/contexts/EnhancedAuthContext';
 import { useSession } from '@/contexts/SimpleSessionContext';
 import { scheduleIdle } from '@/lib/idle';
@@ -133,6 +137,7 @@ export default function ChatGPTStyleChat({
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const exportBundle = useGatedReportExport();
   const { user } = useAuth();
   // Removed legacy per-component session persistence (handled by SessionContext)
   const titleGeneratedRef = useRef(false);
@@ -148,9 +153,9 @@ export default function ChatGPTStyleChat({
     if (!idea || titleGeneratedRef.current) return;
     titleGeneratedRef.current = true;
     try {
-      const { data, error } = await supabase.functions.invoke('generate-session-title', { body: { idea } });
+      const { data, error } = await invokeEdgeFunction('generate-session-title', { idea });
       if (error) throw error;
-      const finalTitle = (data as any)?.title || 'Idea Session';
+      const finalTitle = data?.title || 'Idea Session';
       if (currentSession) {
         await supabase.from('brainstorming_sessions').update({ name: finalTitle }).eq('id', currentSession.id);
         localStorage.setItem('currentSessionTitle', finalTitle);
@@ -259,8 +264,9 @@ export default function ChatGPTStyleChat({
           viabilityLabel: ''
         }
       };
-      const md = buildMarkdownReport(result);
-      triggerDownload('pmf-analysis-report.md', md);
+      // Include the hub tiles when the dashboard has already loaded them for this idea
+      const hub = getCacheForIdea<{ tiles?: Record<string, TileData> }>('datahub', currentIdea.trim().toLowerCase());
+      void exportBundle(() => buildReportBundle({ idea: currentIdea, brief, analysis: result, tiles: hub?.tiles ?? {} }), 'pdf');
       return;
     }
 
@@ -1,11 +1,60 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
 import { format } from 'date-fns';
+import type { ScoreChangeCause, ScoreHistoryEdit } from '@/lib/score-history';
 
 interface ScoreHistoryChartProps {
+  // idea_scores rows or score-history entries (which add model_version and causes)
   history: any[];
+  // Idea edits from idea_evolution, drawn as markers on the same timeline
+  edits?: ScoreHistoryEdit[];
 }
 
-export function ScoreHistoryChart({ history }: ScoreHistoryChartProps) {
+const CAUSE_LABELS: Record<ScoreChangeCause, string> = {
+  edit: 'Idea edit',
+  data: 'New market data',
+  model: 'Scoring model change',
+  unexplained: 'Unexplained'
+};
+
+interface ChartPoint {
+  time: number;
+  fullDate: string;
+  pmf: number;
+  confidence: number | null;
+  delta: number | null;
+  causes: ScoreChangeCause[];
+  modelVersion: string | null;
+  changedFactors: string[];
+}
+
+function HistoryTooltip({ active, payload }: { active?: boolean; payload?: { payload: ChartPoint }[] }) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="rounded-lg border bg-background p-2 text-xs shadow-sm space-y-1">
+      <p className="font-medium">{point.fullDate}</p>
+      <p>
+        PMF Score: <span className="font-semibold">{point.pmf}</span>
+        {point.delta !== null && point.delta !== 0 && (
+          <span className={point.delta > 0 ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+            ({point.delta > 0 ? '+' : ''}{point.delta})
+          </span>
+        )}
+      </p>
+      {point.confidence !== null && <p>AI Confidence: {point.confidence}%</p>}
+      {point.causes.length > 0 && (
+        <p className="text-muted-foreground">Why: {point.causes.map(c => CAUSE_LABELS[c]).join(', ')}</p>
+      )}
+      {point.changedFactors.length > 0 && (
+        <p className="text-muted-foreground">Changed: {point.changedFactors.join(', ')}</p>
+      )}
+      {point.modelVersion && <p className="text-muted-foreground">Model {point.modelVersion}</p>}
+    </div>
+  );
+}
+
+export function ScoreHistoryChart({ history, edits = [] }: ScoreHistoryChartProps) {
   if (!history || history.length === 0) {
     return (
       <div className="h-64 flex items-center justify-center text-muted-foreground">
@@ -15,51 +64,46 @@ export function ScoreHistoryChart({ history }: ScoreHistoryChartProps) {
   }
 
   // Transform data for chart
-  const chartData = history
+  const chartData: ChartPoint[] = [...history]
     .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
     .map(score => ({
-      date: format(new Date(score.created_at), 'MMM d'),
-      fullDate: format(new Date(score.created_at), 'PPP'),
+      time: new Date(score.created_at).getTime(),
+      fullDate: format(new Date(score.created_at), 'PPp'),
       pmf: score.pmf_score,
       confidence: score.ai_confidence ? Math.round(score.ai_confidence * 100) : null,
+      delta: score.delta ?? null,
+      causes: score.causes || [],
+      modelVersion: score.model_version || null,
+      changedFactors: score.changed_factors || [],
     }));
 
+  const start = chartData[0].time;
+  const end = chartData[chartData.length - 1].time;
+  const editMarkers = edits
+    .map(edit => ({ ...edit, time: new Date(edit.created_at).getTime() }))
+    .filter(edit => edit.time >= start && edit.time <= end);
+
   return (
     <div className="h-64">
       <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+        <LineChart data={chartData} margin={{ top: 15, right: 30, left: 0, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-          <XAxis 
-            dataKey="date" 
-            className="text-xs" 
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(time: number) => format(new Date(time), 'MMM d')}
+            className="text-xs"
             tick={{ fill: 'hsl(var(--muted-foreground))' }}
           />
-          <YAxis 
-            domain={[0, 100]} 
+          <YAxis
+            domain={[0, 100]}
             className="text-xs"
             tick={{ fill: 'hsl(var(--muted-foreground))' }}
           />
-          <Tooltip 
-            contentStyle={{
-              backgroundColor: 'hsl(var(--background))',
-              border: '1px solid hsl(var(--border))',
-              borderRadius: '8px',
-              fontSize: '12px'
-            }}
-            labelStyle={{ color: 'hsl(var(--foreground))' }}
-            formatter={(value: any, name: string) => {
-              if (name === 'pmf') return [value, 'PMF Score'];
-              if (name === 'confidence') return [value + '%', 'AI Confidence'];
-              return [value, name];
-            }}
-            labelFormatter={(label, payload) => {
-              if (payload && payload[0]) {
-                return payload[0].payload.fullDate;
-              }
-              return label;
-            }}
-          />
-          <Legend 
+          <Tooltip content={<HistoryTooltip />} />
+          <Legend
             wrapperStyle={{ fontSize: '12px' }}
             formatter={(value) => {
               if (value === 'pmf') return 'PMF Score';
@@ -67,19 +111,33 @@ export function ScoreHistoryChart({ history }: ScoreHistoryChartProps) {
               return value;
             }}
           />
-          <Line 
-            type="monotone" 
-            dataKey="pmf" 
-            stroke="hsl(var(--primary))" 
+          {editMarkers.map(edit => (
+            <ReferenceLine
+              key={edit.version_number}
+              x={edit.time}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="2 4"
+              label={{
+                value: edit.restored_from !== null ? `v${edit.version_number} (restore)` : `v${edit.version_number}`,
+                position: 'top',
+                fontSize: 10,
+                fill: 'hsl(var(--muted-foreground))'
+              }}
+            />
+          ))}
+          <Line
+            type="monotone"
+            dataKey="pmf"
+            stroke="hsl(var(--primary))"
             strokeWidth={2}
             dot={{ fill: 'hsl(var(--primary))', r: 4 }}
             activeDot={{ r: 6 }}
           />
           {chartData.some(d => d.confidence !== null) && (
-            <Line 
-              type="monotone" 
-              dataKey="confidence" 
-              stroke="hsl(var(--muted-foreground))" 
+            <Line
+              type="monotone"
+              dataKey="confidence"
+              stroke="hsl(var(--muted-foreground))"
               strokeWidth={2}
               strokeDasharray="5 5"
               dot={{ fill: 'hsl(var(--muted-foreground))', r: 3 }}
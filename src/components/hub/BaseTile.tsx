@@ -251,6 +251,7 @@ export function BaseTile({
         tileData={data}
         tileTitle={title}
         idea={currentIdea}
+        tileType={tileType}
       />
     </Card>
   );
@@ -10,13 +10,17 @@ import {
   Minus, AlertCircle, CheckCircle, XCircle,
   FileText, Sparkles, Activity, BarChart3,
   Brain, Zap, Target, Shield, ChevronDown, ChevronUp, RefreshCw,
-  Users, DollarSign, ArrowRight, Search
+  Users, DollarSign, ArrowRight, Search, Clock
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import React, { useState } from "react";
 import { TileData } from "@/lib/data-hub-orchestrator";
 import { cn } from "@/lib/utils";
+import { formatDataPoint } from "@/lib/tile-schemas";
 import { motion, AnimatePresence } from "framer-motion";
 import { useSession } from "@/contexts/SimpleSessionContext";
+import { UpgradeNudge } from "@/components/subscription/UpgradeNudge";
+import { fromTileEntitlement, toUpgradeNudgeProps } from "@/lib/entitlements";
 
 interface DataHubTileProps {
   title: string;
@@ -95,6 +99,24 @@ export function DataHubTile({ title, tileType = "default", data, Icon, loading,
     return icons[tileType];
   };
   
+  if (data?.entitlement) {
+    return (
+      <Card className={cn("relative overflow-hidden border-border/50 bg-card/30 backdrop-blur-xl shadow-xl", className)}>
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-muted/50">
+              {icon}
+            </div>
+            <CardTitle className="text-base font-semibold">{title}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <UpgradeNudge {...toUpgradeNudgeProps(fromTileEntitlement(data.entitlement))} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!data && !loading) {
     return (
       <motion.div
@@ -267,6 +289,7 @@ export function DataHubTile({ title, tileType = "default", data, Icon, loading,
   // Determine primary metric display
   const primaryMetric = getPrimaryMetric(tileType, data);
   const qualityColor = getQualityColor(data?.dataQuality);
+  const missingDataPoints = data?.missingDataPoints ?? [];
   const confidenceIcon = getConfidenceIcon(data?.confidence || 0);
   const tileStyle = getTileStyle();
   const accentIcon = getAccentIcon();
@@ -294,10 +317,30 @@ export function DataHubTile({ title, tileType = "default", data, Icon, loading,
                     Simulated
                   </Badge>
                 )}
+                {!isUsingFallback && missingDataPoints.length > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="ml-1 text-xs text-warning border-warning/40"
+                    title={`Missing: ${missingDataPoints.map(formatDataPoint).join(", ")}`}
+                  >
+                    Partial data
+                  </Badge>
+                )}
               </CardTitle>
               <div className="flex items-center gap-1 flex-shrink-0">
                 {!isCollapsed && (
                   <>
+                    {data?.generatedAt && (
+                      <Badge
+                        variant="outline"
+                        className={cn("text-xs whitespace-nowrap hidden md:flex items-center gap-1", data.stale && "text-warning border-warning/40")}
+                        title={data.stale ? "Past its freshness window, refreshing in the background" : data.expiresAt ? `Fresh until ${new Date(data.expiresAt).toLocaleString()}` : undefined}
+                      >
+                        <Clock className="h-3 w-3" />
+                        {formatDistanceToNow(new Date(data.generatedAt), { addSuffix: true })}
+                        {data.stale && " · refreshing"}
+                      </Badge>
+                    )}
                     <Badge 
                       variant="outline" 
                       className={cn("text-xs whitespace-nowrap hidden lg:flex items-center gap-1 transition-colors", qualityColor)}
@@ -362,6 +405,15 @@ export function DataHubTile({ title, tileType = "default", data, Icon, loading,
               >
                 <CardContent>
                   <div className="space-y-4">
+              {!isUsingFallback && missingDataPoints.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md border border-warning/30 bg-warning/5 px-3 py-2 text-xs text-muted-foreground">
+                  <AlertCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-warning" />
+                  <span>
+                    Partial data: no reliable value found for {missingDataPoints.map(formatDataPoint).join(", ")}.
+                  </span>
+                </div>
+              )}
+
               {/* Display primary insight if available */}
               {(data as any)?.primaryInsight && (
                 <div className="p-3 rounded-lg bg-gradient-to-r from-primary/10 to-accent/10 border border-primary/20">
@@ -1666,6 +1718,7 @@ export function DataHubTile({ title, tileType = "default", data, Icon, loading,
         tileData={data}
         tileTitle={title}
         idea={currentIdea}
+        tileType={tileType === 'default' ? undefined : tileType}
       />
     </>
   );
@@ -16,6 +16,7 @@ import {
   BarChart3, Sparkles
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import type { FunctionName } from '@/integrations/supabase/functions';
 import { optimizedQueue } from '@/lib/optimized-request-queue';
 import { cn } from '@/lib/utils';
 import { TileInsightsDialog } from './TileInsightsDialog';
@@ -177,7 +178,7 @@ export function DataTile({
       // Fallback to specific edge functions
       console.warn(`Primary fetch failed for ${tileType}, trying fallback:`, primaryError);
       
-      const fallbackFunctions: Record<string, string> = {
+      const fallbackFunctions: Record<string, FunctionName> = {
         market_trends: 'market-trends',
         google_trends: 'google-trends',
         web_search: 'web-search',
@@ -186,7 +187,7 @@ export function DataTile({
         youtube_analytics: 'youtube-ai-insights',
         twitter_buzz: 'twitter-ai-insights',
         amazon_reviews: 'amazon-public',
-        competitor_analysis: 'competitor-analysis',
+        competitor_analysis: 'competitive-landscape',
         target_audience: 'dashboard-insights',
         pricing_strategy: 'dashboard-insights',
         market_size: 'dashboard-insights',
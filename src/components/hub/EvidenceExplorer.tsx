@@ -6,9 +6,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { 
   ExternalLink, Search, FileText, Calendar, 
-  DollarSign, Globe, Filter
+  DollarSign, Globe, Filter, Quote
 } from "lucide-react";
 import { useState, useMemo } from "react";
+import type { TileData } from "@/lib/data-hub-orchestrator";
+import { resolveMetricEvidence } from "@/lib/evidence-graph";
 
 interface Citation {
   id: string;
@@ -35,15 +37,19 @@ interface EvidenceExplorerProps {
   onOpenChange: (open: boolean) => void;
   evidenceStore: Citation[];
   providerLog: ProviderLogEntry[];
+  // Tiles whose metrics carry provenance, keyed by tile type
+  tiles?: Record<string, TileData | null>;
 }
 
 export function EvidenceExplorer({ 
   open, 
   onOpenChange, 
   evidenceStore = [], 
-  providerLog = [] 
+  providerLog = [],
+  tiles = {}
 }: EvidenceExplorerProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectedMetric, setSelectedMetric] = useState<{ tile: string; metric: string } | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   
@@ -79,6 +85,22 @@ export function EvidenceExplorer({
   const totalCost = safeProviderLog.reduce((sum, p) => sum + (p.estimatedCost || 0), 0);
   const totalDeduped = safeProviderLog.reduce((sum, p) => sum + (p.dedupeCount || 0), 0);
   
+  // Metrics that can be traced back to evidence
+  const tracedMetrics = useMemo(() => {
+    return Object.entries(tiles || {}).flatMap(([tile, data]) =>
+      Object.entries(data?.provenance || {}).map(([metric, provenance]) => ({
+        tile,
+        metric,
+        provenance,
+        value: (data?.metrics as Record<string, unknown> | undefined)?.[metric]
+      }))
+    );
+  }, [tiles]);
+
+  const selectedMetricEvidence = selectedMetric
+    ? resolveMetricEvidence(tiles?.[selectedMetric.tile], selectedMetric.metric, safeEvidenceStore)
+    : [];
+  
   // Get unique providers
   const providers = Array.from(new Set(safeProviderLog.map(p => p.provider || 'unknown'))).filter(Boolean) as string[];
   
@@ -96,10 +118,13 @@ export function EvidenceExplorer({
         </SheetHeader>
         
         <Tabs defaultValue="evidence" className="mt-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="evidence">
               Evidence ({safeEvidenceStore.length})
             </TabsTrigger>
+            <TabsTrigger value="metrics">
+              Metrics ({tracedMetrics.length})
+            </TabsTrigger>
             <TabsTrigger value="providers">
               Providers ({providers.length})
             </TabsTrigger>
@@ -200,6 +225,95 @@ export function EvidenceExplorer({
             </ScrollArea>
           </TabsContent>
           
+          <TabsContent value="metrics" className="space-y-4">
+            <ScrollArea className="h-[calc(100vh-250px)]">
+              <div className="space-y-3">
+                {tracedMetrics.length > 0 ? (
+                  tracedMetrics.map(({ tile, metric, provenance, value }) => {
+                    const isSelected = selectedMetric?.tile === tile && selectedMetric.metric === metric;
+                    return (
+                      <div key={`${tile}:${metric}`} className="border rounded-lg">
+                        <button
+                          type="button"
+                          className="w-full text-left p-3 hover:bg-muted/30 transition-colors"
+                          onClick={() => setSelectedMetric(isSelected ? null : { tile, metric })}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <p className="text-xs text-muted-foreground">{tile.replace(/_/g, ' ')}</p>
+                              <h4 className="font-medium text-sm">
+                                {metric}
+                                {value != null && typeof value !== 'object' && (
+                                  <span className="ml-2 font-semibold">{String(value)}</span>
+                                )}
+                              </h4>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Badge variant="secondary" className="text-xs uppercase">
+                                {provenance.method}
+                              </Badge>
+                              <Badge variant="outline" className="text-xs">
+                                {Math.round(provenance.confidence * 100)}%
+                              </Badge>
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {provenance.evidenceIds.length} source{provenance.evidenceIds.length === 1 ? '' : 's'}
+                            {provenance.snippets?.length ? ` · ${provenance.snippets.length} exact match${provenance.snippets.length === 1 ? '' : 'es'}` : ''}
+                          </p>
+                        </button>
+
+                        {isSelected && (
+                          <div className="border-t p-3 space-y-3 bg-muted/10">
+                            {selectedMetricEvidence.length > 0 ? (
+                              selectedMetricEvidence.map(({ evidence, snippet }) => (
+                                <div key={evidence.id} className="space-y-1">
+                                  <div className="flex items-center justify-between gap-2">
+                                    <span className="text-xs font-medium line-clamp-1">{evidence.title}</span>
+                                    {evidence.url && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => window.open(evidence.url, '_blank')}
+                                      >
+                                        <ExternalLink className="h-3 w-3" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                  {snippet ? (
+                                    <p className="text-xs flex gap-1">
+                                      <Quote className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                      <span>{snippet}</span>
+                                    </p>
+                                  ) : (
+                                    <p className="text-xs text-muted-foreground italic">
+                                      Value was inferred from this source; no verbatim match.
+                                    </p>
+                                  )}
+                                  <Badge variant="outline" className="text-xs">
+                                    {evidence.source}
+                                  </Badge>
+                                </div>
+                              ))
+                            ) : (
+                              <p className="text-xs text-muted-foreground">
+                                The sources behind this metric are no longer in the evidence store.
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No metrics with recorded provenance yet
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+          
           <TabsContent value="providers" className="space-y-4">
             {/* Provider Summary */}
             <div className="grid grid-cols-3 gap-3">
@@ -277,4 +391,6 @@ export function EvidenceExplorer({
       </SheetContent>
     </Sheet>
   );
-}
\ No newline at end of file
+}
+
+export default EvidenceExplorer;
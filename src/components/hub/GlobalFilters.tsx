@@ -4,11 +4,15 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { X, Filter, Download, RefreshCw } from 'lucide-react';
+import { X, Filter, RefreshCw } from 'lucide-react';
+import { ReportExportMenu } from '@/components/hub/ReportExportMenu';
+import type { ReportFormat } from '@/lib/export-report';
 
 interface GlobalFiltersProps {
   onFiltersChange: (filters: IdeaFilters) => void;
-  onExport: () => void;
+  onExport: (format: ReportFormat) => void;
+  onImport?: (file: File) => void;
+  exporting?: ReportFormat | null;
   onRefresh: () => void;
   currentFilters?: IdeaFilters;
 }
@@ -16,6 +20,8 @@ interface GlobalFiltersProps {
 export function GlobalFilters({ 
   onFiltersChange, 
   onExport, 
+  onImport,
+  exporting,
   onRefresh, 
   currentFilters
 }: GlobalFiltersProps) {
@@ -85,15 +91,7 @@ export function GlobalFilters({
               <RefreshCw className="h-4 w-4" />
               Refresh All
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onExport}
-              className="gap-2"
-            >
-              <Download className="h-4 w-4" />
-              Export PDF
-            </Button>
+            <ReportExportMenu onExport={onExport} onImport={onImport} exporting={exporting} />
           </div>
         </div>
         
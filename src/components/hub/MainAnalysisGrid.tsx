@@ -22,7 +22,7 @@ import {
   TrendingUp, Users, MessageSquare, Activity, 
   Search, Newspaper, DollarSign, Building2, Globe
 } from "lucide-react";
-import { fetchTiles, refreshTile } from '@/lib/api/dataHubClient';
+import { streamTiles, refreshTile } from '@/lib/api/dataHubClient';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, RefreshCw, Bug } from 'lucide-react';
 
@@ -105,28 +105,45 @@ export function MainAnalysisGrid({ tiles, loading = false, viewMode, onRefreshTi
     } catch {}
   }, [lockedIdea, hasLockedIdea]);
 
+  const streamAbortRef = React.useRef<AbortController | null>(null);
   const hydrateFromServer = useCallback(async (force?: boolean) => {
     if (!lockedIdea || !hasLockedIdea || requestedTileIds.length === 0) {
       console.log('[MainAnalysisGrid] No locked idea available, skipping fetch');
       return;
     }
+    // A newer load (or unmount) supersedes this one; aborting also stops the server-side work
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
     setNetworkLoading(true);
     try {
-      const res = await fetchTiles(lockedIdea, { tiles: requestedTileIds, forceRefresh: force });
-      if (res?.tiles) {
-        setFetchedTiles(res.tiles);
-        setTileErrors({});
-        setMeta(res.meta || null);
-        persistCache(res.tiles, res.meta);
-      }
+      const res = await streamTiles(lockedIdea, {
+        tiles: requestedTileIds,
+        forceRefresh: force,
+        signal: controller.signal,
+        // Show each tile as soon as the server finishes it
+        onTile: (id, data) => {
+          setFetchedTiles(prev => ({ ...prev, [id]: data }));
+          setTileErrors(prev => { const copy = { ...prev }; delete copy[id]; return copy; });
+        }
+      });
+      setTileErrors({});
+      setMeta(res.meta || null);
+      persistCache(res.tiles, res.meta);
     } catch (e: any) {
+      if (controller.signal.aborted) return;
       console.error('[MainAnalysisGrid] bulk fetch error', e);
       setTileErrors(prev => ({ ...prev, _bulk: e?.message || 'Failed to fetch tiles' }));
     } finally {
-      setNetworkLoading(false);
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+        setNetworkLoading(false);
+      }
     }
   }, [lockedIdea, hasLockedIdea, requestedTileIds, persistCache]);
 
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
   // Debounce initial server hydration to allow cache hydration + layout settle
   useEffect(() => {
     const t = setTimeout(() => { hydrateFromServer(false); }, 150);
@@ -536,6 +536,7 @@ export function MarketTrendsTile({ idea, className }: MarketTrendsTileProps) {
         tileData={{ trends } as any}
         tileTitle="Market Trends Analysis"
         idea={idea}
+        tileType="market_trends"
       />
     </Card>
   );
@@ -38,11 +38,11 @@ export function MarketValidation({ idea }: MarketValidationProps) {
         optimizedQueue.invokeFunction('market-trends', { 
           idea, keywords: idea.split(' ').slice(0, 3) 
         }),
-        optimizedQueue.invokeFunction('competitor-analysis', { idea })
+        optimizedQueue.invokeFunction('competitive-landscape', { idea })
       ]);
 
       if (trendsRes) setMarketData(trendsRes.trends);
-      if (competitorsRes) setCompetitors(competitorsRes.competitors);
+      if (competitorsRes) setCompetitors(competitorsRes.data);
     } catch (error) {
       console.error('Error fetching market data:', error);
     } finally {
@@ -324,6 +324,7 @@ export function OptimizedDataTile({
         tileData={data}
         tileTitle={title}
         idea={currentIdea}
+        tileType={tileType}
       />
     </>
   );
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { optimizedQueue } from '@/lib/optimized-request-queue';
+import type { FunctionName } from '@/integrations/supabase/functions';
 import { BaseTile, useTileData } from './BaseTile';
 import { TileInsightsDialog } from './TileInsightsDialog';
 import { SmoothBrainsDialog } from './SmoothBrainsDialog';
@@ -39,11 +40,11 @@ export function QuickStatsTile({
     if (!currentIdea) return null;
 
     // Map tile types to their respective functions
-    const functionMap = {
-      'pmf_score': 'smoothbrains-score',
-      'market_size': 'market-size',
-      'competition': 'competition',
-      'sentiment': 'sentiment'
+    const functionMap: Record<string, FunctionName> = {
+      'pmf_score': 'calculate-smoothbrains-score',
+      'market_size': 'market-size-analysis',
+      'competition': 'competitive-landscape',
+      'sentiment': 'unified-sentiment'
     };
 
     const functionName = functionMap[tileType];
@@ -1209,6 +1209,7 @@ ${batch.map((post, idx) => `${idx}. Title: "${post.title}"
         tileData={data as any}
         tileTitle="Reddit Sentiment"
         idea={lockedIdea}
+        tileType="reddit_sentiment"
       />
     </Card>
   );
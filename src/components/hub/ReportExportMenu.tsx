@@ -0,0 +1,74 @@
+import { useRef } from 'react';
+import { Download, FileJson, FileText, FileType, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ReportFormat } from '@/lib/export-report';
+
+interface ReportExportMenuProps {
+  onExport: (format: ReportFormat) => void;
+  onImport?: (file: File) => void;
+  exporting?: ReportFormat | null;
+  disabled?: boolean;
+}
+
+export function ReportExportMenu({ onExport, onImport, exporting, disabled }: ReportExportMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (file) onImport?.(file);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={disabled || !!exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => onExport('pdf')}>
+            <FileText className="h-4 w-4 mr-2" />
+            PDF report
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onExport('docx')}>
+            <FileType className="h-4 w-4 mr-2" />
+            Word report (.docx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onExport('json')}>
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON bundle
+          </DropdownMenuItem>
+          {onImport && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import JSON bundle...
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {onImport && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      )}
+    </>
+  );
+}
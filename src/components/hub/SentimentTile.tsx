@@ -819,6 +819,7 @@ export function SentimentTile({ className }: SentimentTileProps) {
         tileData={data as any}
         tileTitle="Market Sentiment"
         idea={currentIdea}
+        tileType="sentiment"
       />
     </Card>
   );
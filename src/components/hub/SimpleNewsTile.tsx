@@ -374,6 +374,7 @@ export function SimpleNewsTile({ className }: SimpleNewsTileProps) {
         tileData={{ trends, totalArticles, overallSentiment } as any}
         tileTitle="News Trends Analysis"
         idea={currentIdea}
+        tileType="news_analysis"
       />
     </Card>
   );
@@ -7,10 +7,32 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   Brain, TrendingUp, AlertTriangle, CheckCircle, 
   XCircle, Target, Calculator, BarChart3, 
-  Zap, Shield, Users, DollarSign 
+  Zap, Shield, Users, DollarSign, ArrowUpRight 
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// One entry per score factor from calculate-smoothbrains-score, sorted by score_gain
+interface FactorSensitivity {
+  component: string;
+  weight: number;
+  input: number;
+  target_input: number | null;
+  component_score: number;
+  target_component_score: number | null;
+  score_gain: number;
+}
+
+const FACTOR_LABELS: Record<string, { label: string; input: string; hint: string }> = {
+  wrinklePoints: { label: 'Wrinkle Points', input: 'wrinkle points', hint: 'Answer more of the refinement questions in depth' },
+  marketOpportunity: { label: 'Market Opportunity', input: 'growth-adjusted market per competitor ($B)', hint: 'Target a larger or faster-growing segment, or a less crowded one' },
+  productMarketFit: { label: 'Product-Market Fit', input: 'PMF signal', hint: 'Validate demand with customer interviews and early sign-ups' },
+  executionViability: { label: 'Execution Viability', input: 'execution difficulty (1-10)', hint: 'Narrow the first version to something simpler to build' },
+  ideaRefinement: { label: 'Idea Refinement', input: 'refinement', hint: 'Keep iterating on the idea in chat and answer follow-ups' },
+  sentiment: { label: 'Market Sentiment', input: 'sentiment', hint: 'Test reception with a landing page or survey' }
+};
+
+const formatInput = (value: number) => String(Number(value.toFixed(value >= 10 ? 0 : 2)));
+
 interface SmoothBrainsDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -26,6 +48,8 @@ export function SmoothBrainsDialog({ isOpen, onClose, data }: SmoothBrainsDialog
   const score = actualData.score || 0;
   const tier = actualData.tier || 'Unknown';
   const tierColor = actualData.tierColor || 'gray';
+  const sensitivity: FactorSensitivity[] = actualData.sensitivity || actualData.json?.sensitivity || [];
+  const modelVersion: string | undefined = actualData.model_version || actualData.json?.model_version;
   
   const getTierColorClass = (color: string) => {
     switch(color) {
@@ -96,8 +120,9 @@ export function SmoothBrainsDialog({ isOpen, onClose, data }: SmoothBrainsDialog
           </Card>
 
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="levers">What Moves It</TabsTrigger>
               <TabsTrigger value="formula">Formula</TabsTrigger>
               <TabsTrigger value="breakdown">Breakdown</TabsTrigger>
               <TabsTrigger value="benchmarks">Benchmarks</TabsTrigger>
@@ -198,6 +223,58 @@ export function SmoothBrainsDialog({ isOpen, onClose, data }: SmoothBrainsDialog
                 )}
               </TabsContent>
 
+              <TabsContent value="levers" className="space-y-3 px-1">
+                {sensitivity.length > 0 ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Points your score would gain if one factor improved to the top of its current band, with everything else unchanged.
+                      {modelVersion && <span className="ml-1">Score model {modelVersion}.</span>}
+                    </p>
+                    {sensitivity.map((factor, idx) => {
+                      const labels = FACTOR_LABELS[factor.component] || { label: factor.component, input: 'input', hint: '' };
+                      const maxGain = Math.max(sensitivity[0].score_gain, 1);
+
+                      return (
+                        <Card key={factor.component} className={cn(idx === 0 && factor.score_gain > 0 && "border-primary ring-2 ring-primary/20")}>
+                          <CardContent className="pt-4 space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+                                <span className="text-sm font-medium">{labels.label}</span>
+                                {idx === 0 && factor.score_gain > 0 && <Badge variant="default">Biggest lever</Badge>}
+                              </div>
+                              <span className={cn("text-sm font-bold", factor.score_gain > 0 ? "text-green-600" : "text-muted-foreground")}>
+                                {factor.score_gain > 0 ? `+${factor.score_gain} pts` : 'Maxed out'}
+                              </span>
+                            </div>
+                            <Progress value={(Math.max(factor.score_gain, 0) / maxGain) * 100} className="h-2" />
+                            <div className="flex justify-between text-xs text-muted-foreground">
+                              <span>
+                                {factor.target_input !== null
+                                  ? `${labels.input}: ${formatInput(factor.input)} → ${formatInput(factor.target_input)}`
+                                  : `${labels.input}: ${formatInput(factor.input)}`}
+                              </span>
+                              <span>Weight: {(factor.weight * 100).toFixed(0)}%</span>
+                            </div>
+                            {factor.score_gain > 0 && labels.hint && (
+                              <p className="text-xs text-muted-foreground">{labels.hint}</p>
+                            )}
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </>
+                ) : (
+                  <Card>
+                    <CardContent className="pt-4 text-center">
+                      <p className="text-sm text-muted-foreground">
+                        Sensitivity analysis is available once the score has been recalculated
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+
               <TabsContent value="formula" className="space-y-4 px-1">
                 {actualData.formula && (
                   <div className="space-y-4">
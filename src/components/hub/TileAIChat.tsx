@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Brain, Send, Sparkles, MessageSquare, Loader2 } from 'lucide-react';
+import { Brain, Send, Sparkles, MessageSquare, Loader2, RotateCcw, ExternalLink, FlaskConical } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -8,10 +8,13 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { optimizedQueue } from '@/lib/optimized-request-queue';
+import { askTileAnalyst, clearTileChat, loadTileChat, type TileChatCitations, type WhatIfScenario } from '@/lib/tile-analyst';
+import { EntitlementDenial, getEntitlementDenial, toUpgradeNudgeProps } from '@/lib/entitlements';
+import { UpgradeNudge } from '@/components/subscription/UpgradeNudge';
 import ReactMarkdown from 'react-markdown';
 
 interface Message {
@@ -19,6 +22,8 @@ interface Message {
   content: string;
   timestamp: Date;
   suggestions?: string[];
+  citations?: TileChatCitations | null;
+  whatIfs?: WhatIfScenario[];
 }
 
 interface TileAIChatProps {
@@ -27,6 +32,70 @@ interface TileAIChatProps {
   tileData: any;
   tileTitle: string;
   idea: string;
+  // Hub tile name (market_size, reddit_sentiment...); guessed from tileTitle when omitted
+  tileType?: string;
+}
+
+const tileLabel = (tile: string) => tile.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+function Citations({ citations }: { citations: TileChatCitations }) {
+  if (!citations.tiles.length && !citations.sources.length) return null;
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+      {citations.tiles.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Tiles:</span>
+          {citations.tiles.map(t => (
+            <Badge key={t.tile} variant="secondary" className="text-xs font-normal" title={t.metrics.join(', ')}>
+              {tileLabel(t.tile)}{t.stale ? ' (stale)' : ''}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {citations.sources.length > 0 && (
+        <ul className="space-y-1">
+          {citations.sources.map(s => (
+            <li key={s.id} className="text-xs flex items-start gap-1.5">
+              <span className="font-medium text-muted-foreground">[{s.id}]</span>
+              <a href={s.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all inline-flex items-center gap-1">
+                {s.title || s.url}
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function WhatIfCards({ whatIfs }: { whatIfs: WhatIfScenario[] }) {
+  return (
+    <div className="ml-14 grid gap-2 sm:grid-cols-2">
+      {whatIfs.map((w, i) => {
+        const delta = w.score.after - w.score.before;
+        return (
+          <div key={i} className="rounded-xl border border-border/50 bg-card px-4 py-3 shadow-sm">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <FlaskConical className="h-4 w-4 text-accent" />
+              {w.label}
+            </p>
+            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+              {w.changes.map(c => (
+                <li key={c.factor}>{c.factor}: {c.from} → {c.to}</li>
+              ))}
+            </ul>
+            <p className="mt-2 text-sm">
+              Score {w.score.before} → <span className="font-semibold">{w.score.after}</span>{' '}
+              <span className={delta >= 0 ? 'text-green-600' : 'text-red-600'}>({delta >= 0 ? '+' : ''}{delta})</span>
+              <span className="text-xs text-muted-foreground"> · {w.score.category}</span>
+            </p>
+            {w.rationale && <p className="mt-1 text-xs text-muted-foreground">{w.rationale}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
 export function TileAIChat({ 
@@ -34,24 +103,55 @@ export function TileAIChat({
   onOpenChange, 
   tileData, 
   tileTitle,
-  idea 
+  idea,
+  tileType
 }: TileAIChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [denial, setDenial] = useState<EntitlementDenial | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
   const { toast } = useToast();
 
+  const welcomeMessage = (): Message => ({
+    role: 'assistant',
+    content: `Hello! I'm here to help you analyze the ${tileTitle} data for "${idea}", alongside everything else the hub has gathered for it. What would you like to know?`,
+    timestamp: new Date()
+  });
+
   useEffect(() => {
-    if (open && messages.length === 0) {
-      // Add initial welcome message
-      setMessages([{
-        role: 'assistant',
-        content: `Hello! I'm here to help you analyze the ${tileTitle} data for "${idea}". What would you like to know?`,
-        timestamp: new Date()
-      }]);
-    }
-  }, [open, tileData, idea, tileTitle]);
+    // Reloaded on every open: the conversation is shared with the chats on the idea's other tiles
+    if (!open || !idea) return;
+    let cancelled = false;
+
+    setHistoryLoading(true);
+    loadTileChat(idea)
+      .then(saved => {
+        if (cancelled) return;
+        setMessages(saved.length
+          ? saved.map(m => ({
+              role: m.role,
+              content: m.content,
+              timestamp: new Date(m.created_at),
+              suggestions: m.suggestions,
+              citations: m.citations,
+              whatIfs: m.what_ifs
+            }))
+          : [welcomeMessage()]);
+      })
+      .catch(error => {
+        console.error('Failed to load tile chat history:', error);
+        if (!cancelled) setMessages([welcomeMessage()]);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, idea]);
 
   useEffect(() => {
     // Auto-scroll to bottom when new messages are added
@@ -77,26 +177,35 @@ export function TileAIChat({
     setLoading(true);
 
     try {
-      const data = await optimizedQueue.invokeFunction('tile-ai-chat', {
+      // The server keeps the conversation, so only the new question is sent
+      const data = await askTileAnalyst({
+        idea,
         message: messageText,
-        tileData,
+        tile: tileType,
         tileTitle,
-        idea,
-        chatHistory: messages
+        tileData
       });
 
-      
-
       const assistantMessage: Message = {
         role: 'assistant',
         content: data.response || "I apologize, but I couldn't generate a response. Please try again.",
         timestamp: new Date(),
-        suggestions: data.suggestions || []
+        suggestions: data.suggestions,
+        citations: data.citations,
+        whatIfs: data.whatIfs
       };
 
       setMessages(prev => [...prev, assistantMessage]);
+      setDenial(null);
     } catch (error: any) {
       console.error('Chat error:', error);
+
+      // Plan limits get an upgrade prompt instead of an error message
+      const entitlementDenial = await getEntitlementDenial(error);
+      if (entitlementDenial) {
+        setDenial(entitlementDenial);
+        return;
+      }
       
       let errorMessage = 'Failed to get response. Please try again.';
       if (error.message?.includes('429')) {
@@ -123,6 +232,22 @@ export function TileAIChat({
     }
   };
 
+  const startNewConversation = async () => {
+    try {
+      await clearTileChat(idea);
+      setMessages([welcomeMessage()]);
+      setDenial(null);
+    } catch (error) {
+      console.error('Failed to clear tile chat:', error);
+      toast({
+        title: "Chat Error",
+        description: 'Could not start a new conversation. Please try again.',
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -140,9 +265,21 @@ export function TileAIChat({
             </div>
             {tileTitle} Analysis Assistant
           </DialogTitle>
-          <DialogDescription className="mt-2 text-sm text-muted-foreground">
-            Explore insights and analysis for {tileTitle.toLowerCase()} data
-          </DialogDescription>
+          <div className="mt-2 flex items-center justify-between gap-4">
+            <DialogDescription className="text-sm text-muted-foreground">
+              Explore {tileTitle.toLowerCase()} data alongside every other tile and source for this idea
+            </DialogDescription>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 gap-1.5 text-xs shrink-0"
+              onClick={startNewConversation}
+              disabled={loading || historyLoading || messages.length <= 1}
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              New conversation
+            </Button>
+          </div>
         </DialogHeader>
 
         <div className="flex-1 flex flex-col overflow-hidden bg-gradient-to-b from-background to-muted/20">
@@ -182,6 +319,7 @@ export function TileAIChat({
                           >
                             {message.content}
                           </ReactMarkdown>
+                          {message.citations && <Citations citations={message.citations} />}
                         </div>
                       ) : (
                         <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
@@ -200,6 +338,10 @@ export function TileAIChat({
                     )}
                   </div>
                   
+                  {message.role === 'assistant' && message.whatIfs && message.whatIfs.length > 0 && (
+                    <WhatIfCards whatIfs={message.whatIfs} />
+                  )}
+
                   {/* Response Suggestions */}
                   {message.role === 'assistant' && 
                    message.suggestions && 
@@ -229,6 +371,13 @@ export function TileAIChat({
                 </div>
               ))}
               
+              {historyLoading && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading conversation...
+                </div>
+              )}
+
               {loading && (
                 <div className="flex gap-3 justify-start">
                   <div className="flex-shrink-0 w-10 h-10 rounded-full bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center shadow-sm">
@@ -245,6 +394,12 @@ export function TileAIChat({
             </div>
           </ScrollArea>
 
+          {denial && (
+            <div className="px-6">
+              <UpgradeNudge {...toUpgradeNudgeProps(denial)} />
+            </div>
+          )}
+
           {/* Input Area */}
           <div className="px-6 py-5 border-t bg-gradient-to-r from-background via-muted/30 to-background backdrop-blur-sm">
             <div className="flex gap-3">
@@ -253,7 +408,7 @@ export function TileAIChat({
                 onChange={(e) => setInput(e.target.value)}
                 onKeyPress={handleKeyPress}
                 placeholder={`Ask about ${tileTitle.toLowerCase()} insights, trends, analysis...`}
-                disabled={loading}
+                disabled={loading || historyLoading}
                 className="flex-1 h-11 px-4 bg-background/80 backdrop-blur-sm border-border/50 focus:border-primary/50 transition-colors"
               />
               <Button
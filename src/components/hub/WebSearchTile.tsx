@@ -635,6 +635,7 @@ export function WebSearchTile({ idea, className }: WebSearchTileProps) {
         tileData={data as any}
         tileTitle="Web Intelligence"
         idea={idea}
+        tileType="web_search"
       />
     </Card>
   );
@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Loader2, RotateCcw, TrendingUp, TrendingDown, Minus, GitCompare } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useLedger } from '@/hooks/useLedger';
+import { useScoreHistory } from '@/hooks/useScoreHistory';
+import { ScoreHistoryChart } from '@/components/ai/ScoreHistoryChart';
+import { LockedIdeaManager } from '@/lib/lockedIdeaManager';
+import {
+  IdeaVersion,
+  diffWords,
+  getIdeaVersions,
+  recordIdeaVersion,
+  tileMetricDeltas
+} from '@/lib/idea-evolution';
+
+interface IdeaHistoryProps {
+  sessions: { id: string; name: string }[];
+}
+
+function formatMetric(value: number | null): string {
+  if (value === null) return '—';
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : String(Number(value.toFixed(2)));
+}
+
+function DeltaBadge({ delta }: { delta: number | null }) {
+  if (delta === null) return <Badge variant="outline">n/a</Badge>;
+  const Icon = delta > 0 ? TrendingUp : delta < 0 ? TrendingDown : Minus;
+  const className = delta > 0 ? 'bg-green-100 text-green-800' : delta < 0 ? 'bg-red-100 text-red-800' : '';
+  return (
+    <Badge variant="secondary" className={`gap-1 ${className}`}>
+      <Icon className="h-3 w-3" />
+      {delta > 0 ? '+' : ''}{formatMetric(delta)}
+    </Badge>
+  );
+}
+
+export function IdeaHistory({ sessions }: IdeaHistoryProps) {
+  const { toast } = useToast();
+  const { recordVersion } = useLedger();
+  const [sessionId, setSessionId] = useState<string>(sessions[0]?.id || '');
+  const [versions, setVersions] = useState<IdeaVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const { history: scoreHistory, edits, refresh: refreshScores } = useScoreHistory(sessionId);
+
+  useEffect(() => {
+    if (!sessionId && sessions.length) setSessionId(sessions[0].id);
+  }, [sessions, sessionId]);
+
+  const loadVersions = useCallback(async () => {
+    if (!sessionId) return;
+    setLoading(true);
+    try {
+      const loaded = await getIdeaVersions(sessionId);
+      setVersions(loaded);
+      // Default to comparing the latest rewrite with the one before it
+      setToVersion(loaded.length ? loaded[loaded.length - 1].version_number : null);
+      setFromVersion(loaded.length > 1 ? loaded[loaded.length - 2].version_number : loaded[0]?.version_number ?? null);
+    } catch (error) {
+      console.error('Error loading idea versions:', error);
+      setVersions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const from = versions.find(v => v.version_number === fromVersion) || null;
+  const to = versions.find(v => v.version_number === toVersion) || null;
+
+  const diff = useMemo(() => (from && to ? diffWords(from.idea_text, to.idea_text) : []), [from, to]);
+  const metricDeltas = useMemo(
+    () => (from && to ? tileMetricDeltas(from.changes.tile_metrics, to.changes.tile_metrics) : []),
+    [from, to]
+  );
+  const scoreDelta = from?.pmf_score != null && to?.pmf_score != null ? to.pmf_score - from.pmf_score : null;
+
+  const handleRestore = async (version: IdeaVersion) => {
+    setRestoring(version.version_number);
+    try {
+      const restored = await recordIdeaVersion({
+        ideaId: version.idea_id,
+        ideaText: version.idea_text,
+        pmfScore: version.pmf_score,
+        tileMetrics: version.changes.tile_metrics,
+        source: 'restore',
+        restoredFrom: version.version_number
+      });
+      if (!restored) throw new Error('Sign in to restore a version');
+      // recordVersion reports its own failure; the idea only changes once both writes are in
+      if (!await recordVersion(restored.id)) {
+        await loadVersions();
+        return;
+      }
+      LockedIdeaManager.getInstance().setLockedIdea(version.idea_text);
+
+      toast({
+        title: `Version ${version.version_number} restored`,
+        description: 'The idea is locked again and the restore is recorded on the ledger',
+        duration: 4000
+      });
+      await Promise.all([loadVersions(), refreshScores()]);
+    } catch (error) {
+      console.error('Error restoring idea version:', error);
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Could not restore this version',
+        variant: 'destructive'
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!sessions.length) {
+    return (
+      <div className="py-8 text-center">
+        <History className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">Create a session to start tracking idea versions.</p>
+      </div>
+    );
+  }
+
+  const latest = versions[versions.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Idea History
+          </CardTitle>
+          <CardDescription>
+            Every scored rewrite is saved as a version. Compare two to see which change moved the score.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={sessionId} onValueChange={setSessionId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a session" />
+            </SelectTrigger>
+            <SelectContent>
+              {sessions.map(session => (
+                <SelectItem key={session.id} value={session.id}>{session.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span className="ml-2">Loading versions...</span>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No versions yet. Versions are saved each time the dashboard scores this session's idea.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-[320px] overflow-y-auto">
+              {[...versions].reverse().map(version => (
+                <div key={version.id} className="flex items-start justify-between gap-3 p-3 rounded-lg border">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap mb-1">
+                      <Badge variant="outline">v{version.version_number}</Badge>
+                      {version.pmf_score != null && (
+                        <Badge variant={version.pmf_score >= 70 ? 'default' : 'secondary'}>PMF: {version.pmf_score}</Badge>
+                      )}
+                      {version.changes.restored_from !== undefined && (
+                        <Badge variant="secondary">Restored from v{version.changes.restored_from}</Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{version.idea_text}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRestore(version)}
+                    disabled={restoring !== null || version.id === latest?.id}
+                    title="Lock this version as your current idea"
+                  >
+                    {restoring === version.version_number
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <RotateCcw className="h-4 w-4 mr-1" />}
+                    {restoring === version.version_number ? '' : 'Restore this version'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {scoreHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Score Over Time
+            </CardTitle>
+            <CardDescription>Dashed markers are idea versions; hover a point to see what moved the score.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScoreHistoryChart history={scoreHistory} edits={edits} />
+          </CardContent>
+        </Card>
+      )}
+
+      {versions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Compare Versions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {([['From', fromVersion, setFromVersion], ['To', toVersion, setToVersion]] as const).map(([label, value, setValue]) => (
+                <Select key={label} value={value !== null ? String(value) : undefined} onValueChange={v => setValue(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={label} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={String(version.version_number)}>
+                        {label}: v{version.version_number}{version.pmf_score != null ? ` (PMF ${version.pmf_score})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+
+            {from && to && (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">PMF score</span>
+                  <span className="text-muted-foreground">{from.pmf_score ?? '—'} → {to.pmf_score ?? '—'}</span>
+                  <DeltaBadge delta={scoreDelta} />
+                </div>
+
+                <div className="p-3 rounded-lg border bg-muted/30 text-sm leading-relaxed">
+                  {diff.map((part, i) => (
+                    <span
+                      key={i}
+                      className={
+                        part.type === 'added'
+                          ? 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100'
+                          : part.type === 'removed'
+                            ? 'bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100'
+                            : ''
+                      }
+                    >
+                      {part.text}{' '}
+                    </span>
+                  ))}
+                </div>
+
+                {metricDeltas.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tile</TableHead>
+                        <TableHead>Metric</TableHead>
+                        <TableHead className="text-right">v{from.version_number}</TableHead>
+                        <TableHead className="text-right">v{to.version_number}</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {metricDeltas.map(delta => (
+                        <TableRow key={`${delta.tile}.${delta.metric}`}>
+                          <TableCell className="capitalize">{delta.tile.replace(/_/g, ' ')}</TableCell>
+                          <TableCell>{delta.metric}</TableCell>
+                          <TableCell className="text-right">{formatMetric(delta.from)}</TableCell>
+                          <TableCell className="text-right">{formatMetric(delta.to)}</TableCell>
+                          <TableCell className="text-right"><DeltaBadge delta={delta.delta} /></TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No tile metrics changed between these versions.</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default IdeaHistory;
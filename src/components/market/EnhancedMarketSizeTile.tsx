@@ -929,6 +929,7 @@ export function EnhancedMarketSizeTile({ idea, className, initialData, onRefresh
         tileData={marketData}
         tileTitle="Market Size"
         idea={currentIdea}
+        tileType="market_size"
       />
     </Card>
   );
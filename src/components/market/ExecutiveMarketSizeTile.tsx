@@ -23,6 +23,8 @@ import {
 } from 'recharts';
 import { formatMoney, formatPercent } from '@/utils/dataFormatting';
 import { supabase } from '@/integrations/supabase/client';
+import { EntitlementDenial, getEntitlementDenial, toUpgradeNudgeProps } from '@/lib/entitlements';
+import { UpgradeNudge } from '@/components/subscription/UpgradeNudge';
 
 interface ExecutiveMarketSizeTileProps {
   dataHub?: any;
@@ -71,6 +73,7 @@ export function ExecutiveMarketSizeTile({
   const [hoveredMetric, setHoveredMetric] = useState<string | null>(null);
   const [showAIChat, setShowAIChat] = useState(false);
   const [fetchAttempted, setFetchAttempted] = useState(false);
+  const [denial, setDenial] = useState<EntitlementDenial | null>(null);
   
   useEffect(() => {
     console.log('[ExecutiveMarketSizeTile] State Debug:', {
@@ -164,6 +167,11 @@ export function ExecutiveMarketSizeTile({
       }
     } catch (error) {
       console.error('[ExecutiveMarketSizeTile] Error fetching market data:', error);
+      const entitlementDenial = await getEntitlementDenial(error);
+      if (entitlementDenial) {
+        setDenial(entitlementDenial);
+        return;
+      }
       toast.error(`Failed to fetch market analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
@@ -249,6 +257,7 @@ export function ExecutiveMarketSizeTile({
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {denial && <UpgradeNudge {...toUpgradeNudgeProps(denial)} />}
           <div className="flex flex-col items-center justify-center py-8 space-y-4">
             {!hasLockedIdea ? (
               <div className="text-center space-y-4">
@@ -690,6 +699,7 @@ export function ExecutiveMarketSizeTile({
         tileData={marketData as any}
         tileTitle="Market Size Analysis"
         idea={lockedIdea}
+        tileType="market_size"
       />
     </Card>
   );
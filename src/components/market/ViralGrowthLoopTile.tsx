@@ -525,6 +525,7 @@ export function ViralGrowthLoopTile({
         tileData={viralData}
         tileTitle="Viral Growth Loop"
         idea={currentIdea}
+        tileType="viral_growth_loop"
       />
     </Card>
   );
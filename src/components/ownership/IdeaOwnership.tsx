@@ -15,11 +15,13 @@ import {
   Clock,
   Sparkles,
   Eye,
-  Zap
+  Zap,
+  Flag
 } from 'lucide-react';
 import { useAuth } from '@/contexts/EnhancedAuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useLedger } from '@/hooks/useLedger';
+import { OwnershipChallenges } from '@/components/ownership/OwnershipChallenges';
 import { motion } from 'framer-motion';
 
 interface IdeaOwnershipProps {
@@ -97,6 +99,9 @@ export function IdeaOwnership({ ideaId, ideaText, className = '', compact = fals
   };
 
   if (isOwned && ownershipData) {
+    const ownerId: string | undefined = ownershipData.ownership?.current_owner_id ?? user?.id;
+    const openChallenges: number = ownershipData.pending_challenges?.length || 0;
+
     if (compact) {
       return (
         <motion.div 
@@ -110,6 +115,12 @@ export function IdeaOwnership({ ideaId, ideaText, className = '', compact = fals
             <span className="font-medium">Idea Owned & Secured</span>
             <CheckCircle className="h-4 w-4 text-green-600" />
           </div>
+          {openChallenges > 0 && (
+            <Badge variant="outline" className="gap-1 border-yellow-300 bg-yellow-50 text-yellow-800">
+              <Flag className="h-3 w-3" />
+              {openChallenges} open {openChallenges === 1 ? 'dispute' : 'disputes'}
+            </Badge>
+          )}
           <Button 
             variant="ghost" 
             size="sm"
@@ -131,7 +142,7 @@ export function IdeaOwnership({ ideaId, ideaText, className = '', compact = fals
             Idea Owned
           </CardTitle>
           <CardDescription className="text-green-700">
-            You are the verified owner of this idea
+            {user?.id === ownerId ? 'You are the verified owner of this idea' : 'This idea has a verified owner'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -169,6 +180,8 @@ export function IdeaOwnership({ ideaId, ideaText, className = '', compact = fals
           >
             View All Owned Ideas
           </Button>
+
+          <OwnershipChallenges ideaId={ideaId} ownerId={ownerId} />
         </CardContent>
       </Card>
     );
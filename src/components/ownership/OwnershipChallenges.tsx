@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Flag,
+  Scale,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Loader2,
+  MessageSquare,
+  SearchCheck
+} from 'lucide-react';
+import { useAuth } from '@/contexts/EnhancedAuthContext';
+import { useLedger, OwnershipChallenge, ChallengeAnalysis } from '@/hooks/useLedger';
+import { formatDistanceToNow } from 'date-fns';
+
+interface OwnershipChallengesProps {
+  ideaId: string;
+  ownerId?: string;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<OwnershipChallenge['status'], { label: string; className: string }> = {
+  pending: { label: 'Awaiting owner response', className: 'bg-yellow-100 text-yellow-800' },
+  responded: { label: 'Under review', className: 'bg-blue-100 text-blue-800' },
+  resolved: { label: 'Upheld', className: 'bg-red-100 text-red-800' },
+  rejected: { label: 'Dismissed', className: 'bg-green-100 text-green-800' }
+};
+
+const RECOMMENDATION_LABELS: Record<ChallengeAnalysis['recommendation'], string> = {
+  uphold: 'Ledger evidence supports the challenger',
+  dismiss: 'Ledger evidence supports the owner',
+  review: 'Needs manual review'
+};
+
+export function OwnershipChallenges({ ideaId, ownerId, className = '' }: OwnershipChallengesProps) {
+  const { user } = useAuth();
+  const {
+    getChallenges,
+    respondToChallenge,
+    analyzeChallenge,
+    resolveChallenge,
+    isDisputeResolver,
+    loading
+  } = useLedger();
+  const [challenges, setChallenges] = useState<OwnershipChallenge[]>([]);
+  const [isResolver, setIsResolver] = useState(false);
+  const [responseStatement, setResponseStatement] = useState<Record<string, string>>({});
+  const [responseEvidence, setResponseEvidence] = useState<Record<string, string>>({});
+  const [resolutionNotes, setResolutionNotes] = useState<Record<string, string>>({});
+
+  const loadChallenges = useCallback(async () => {
+    setChallenges(await getChallenges(ideaId));
+  }, [ideaId, getChallenges]);
+
+  useEffect(() => {
+    loadChallenges();
+  }, [loadChallenges]);
+
+  useEffect(() => {
+    isDisputeResolver().then(setIsResolver);
+  }, [isDisputeResolver]);
+
+  const isOwner = !!user && user.id === ownerId;
+
+  const handleRespond = async (challengeId: string) => {
+    const ok = await respondToChallenge(challengeId, {
+      statement: responseStatement[challengeId] || '',
+      evidence: (responseEvidence[challengeId] || '').split('\n').filter(e => e.trim())
+    });
+    if (ok) loadChallenges();
+  };
+
+  const handleAnalyze = async (challengeId: string) => {
+    const analysis = await analyzeChallenge(challengeId);
+    if (analysis) {
+      setChallenges(prev => prev.map(c => c.id === challengeId ? { ...c, analysis } : c));
+    }
+  };
+
+  const handleResolve = async (challengeId: string, outcome: 'upheld' | 'dismissed') => {
+    const ok = await resolveChallenge(challengeId, outcome, resolutionNotes[challengeId] || '');
+    if (ok) loadChallenges();
+  };
+
+  if (!challenges.length) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <h4 className="font-medium flex items-center gap-2">
+        <Flag className="h-4 w-4" />
+        Ownership Challenges
+      </h4>
+
+      {challenges.map((challenge) => {
+        const status = STATUS_STYLES[challenge.status] || STATUS_STYLES.pending;
+        const isChallenger = user?.id === challenge.challenger_id;
+        const isOpen = challenge.status === 'pending' || challenge.status === 'responded';
+        const claim = (challenge.challenge_data || {}) as { description?: string; reasoning?: string };
+
+        return (
+          <div key={challenge.id} className="p-3 border rounded-lg space-y-3 bg-background/60">
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="capitalize">
+                    {challenge.challenge_type.replace(/_/g, ' ')}
+                  </Badge>
+                  <Badge className={status.className}>{status.label}</Badge>
+                  {isChallenger && <Badge variant="secondary">Your challenge</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Filed {formatDistanceToNow(new Date(challenge.created_at), { addSuffix: true })}
+                  {challenge.challenge_block && ` · block #${challenge.challenge_block}`}
+                </p>
+              </div>
+            </div>
+
+            {claim.description && <p className="text-sm">{claim.description}</p>}
+
+            {/* Owner's counter-evidence */}
+            {challenge.response_data && (
+              <div className="text-sm p-2 rounded bg-muted/50 space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1">
+                  <MessageSquare className="h-3 w-3" />
+                  Owner response
+                  {challenge.response_block && ` · block #${challenge.response_block}`}
+                </p>
+                <p>{challenge.response_data.statement}</p>
+                {challenge.response_data.evidence.length > 0 && (
+                  <ul className="text-xs text-muted-foreground list-disc pl-4">
+                    {challenge.response_data.evidence.map((e, i) => <li key={i} className="break-all">{e}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Automated ledger checks */}
+            {challenge.analysis && (
+              <div className="text-xs p-2 rounded border space-y-1">
+                <p className="font-medium flex items-center gap-1">
+                  <SearchCheck className="h-3 w-3" />
+                  {RECOMMENDATION_LABELS[challenge.analysis.recommendation]}
+                </p>
+                <p className="text-muted-foreground">{challenge.analysis.prior_art.detail}</p>
+                <p className="text-muted-foreground">
+                  Challenger evidence on ledger: {challenge.analysis.challenger_evidence.filter(e => e.anchored_at).length}/{challenge.analysis.challenger_evidence.length}
+                  {' · '}Owner evidence on ledger: {challenge.analysis.owner_evidence.filter(e => e.anchored_at).length}/{challenge.analysis.owner_evidence.length}
+                </p>
+                {challenge.analysis.challenger_evidence_predates_idea && (
+                  <p className="text-red-600">Some challenger evidence was anchored before this idea was registered</p>
+                )}
+              </div>
+            )}
+
+            {/* Final decision */}
+            {challenge.resolution && (
+              <div className="text-sm p-2 rounded bg-muted/50 space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1">
+                  <Scale className="h-3 w-3" />
+                  {challenge.resolution.outcome === 'upheld' ? 'Challenge upheld' : 'Challenge dismissed'}
+                  {challenge.resolved_at && ` ${formatDistanceToNow(new Date(challenge.resolved_at), { addSuffix: true })}`}
+                  {challenge.resolution_block && ` · block #${challenge.resolution_block}`}
+                </p>
+                {challenge.resolution.notes && <p>{challenge.resolution.notes}</p>}
+              </div>
+            )}
+
+            {isOwner && challenge.status === 'pending' && (
+              <div className="space-y-2">
+                <Separator />
+                <Textarea
+                  value={responseStatement[challenge.id] || ''}
+                  onChange={(e) => setResponseStatement(prev => ({ ...prev, [challenge.id]: e.target.value }))}
+                  placeholder="Explain why you are the rightful owner..."
+                  rows={3}
+                />
+                <Textarea
+                  value={responseEvidence[challenge.id] || ''}
+                  onChange={(e) => setResponseEvidence(prev => ({ ...prev, [challenge.id]: e.target.value }))}
+                  placeholder="Counter-evidence, one per line (URLs, documents or SHA-256 hashes)"
+                  rows={3}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => handleRespond(challenge.id)}
+                  disabled={loading || !(responseStatement[challenge.id] || '').trim()}
+                  className="w-full"
+                >
+                  {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <MessageSquare className="h-4 w-4 mr-2" />}
+                  Submit Response
+                </Button>
+              </div>
+            )}
+
+            {isResolver && isOpen && (
+              <div className="space-y-2">
+                <Separator />
+                <Textarea
+                  value={resolutionNotes[challenge.id] || ''}
+                  onChange={(e) => setResolutionNotes(prev => ({ ...prev, [challenge.id]: e.target.value }))}
+                  placeholder="Resolution notes..."
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleAnalyze(challenge.id)} disabled={loading}>
+                    <SearchCheck className="h-4 w-4 mr-2" />
+                    Run Checks
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleResolve(challenge.id, 'dismissed')} disabled={loading}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Dismiss
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => handleResolve(challenge.id, 'upheld')} disabled={loading}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Uphold
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
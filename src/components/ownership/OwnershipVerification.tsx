@@ -20,9 +20,14 @@ import {
   Copy,
   Eye,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Link2Off,
+  Download,
+  FileCheck
 } from 'lucide-react'
-import { useLedger, OwnershipProof, LedgerEntry } from '@/hooks/useLedger'
+import { useLedger, OwnershipProof, LedgerEntry, LedgerIntegrityReport } from '@/hooks/useLedger'
+import { verifyOwnershipCertificate, CertificateVerification } from '@/lib/ownership-certificate'
+import { LEDGER_SIGNING_KEY_IDS } from '@/lib/ledger-signing-keys'
 import { useAuth } from '@/contexts/EnhancedAuthContext'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
@@ -41,6 +46,8 @@ export function OwnershipVerification({ ideaId, className }: OwnershipVerificati
   const [challengeReasoning, setChallengeReasoning] = useState('')
   const [isVerified, setIsVerified] = useState<boolean | null>(null)
   const [isOwner, setIsOwner] = useState<boolean | null>(null)
+  const [integrityReport, setIntegrityReport] = useState<LedgerIntegrityReport | null>(null)
+  const [certificateCheck, setCertificateCheck] = useState<CertificateVerification | null>(null)
 
   const { 
     loading, 
@@ -48,7 +55,8 @@ export function OwnershipVerification({ ideaId, className }: OwnershipVerificati
     verifyOwnership, 
     createChallenge, 
     getOwnershipProof,
-    checkLedgerIntegrity 
+    checkLedgerIntegrity,
+    getOwnershipCertificate
   } = useLedger()
   
   const { user } = useAuth()
@@ -76,6 +84,47 @@ export function OwnershipVerification({ ideaId, className }: OwnershipVerificati
     }
   }
 
+  const handleCheckIntegrity = async () => {
+    const report = await checkLedgerIntegrity(ideaId)
+    if (report) {
+      setIntegrityReport(report)
+    }
+  }
+
+  const handleExportCertificate = async () => {
+    const certificate = await getOwnershipCertificate(ideaId)
+    if (!certificate) return
+
+    // Check the certificate the same way a third party would before handing it out
+    const verification = await verifyOwnershipCertificate(certificate, { trustedKeyIds: LEDGER_SIGNING_KEY_IDS })
+    setCertificateCheck(verification)
+
+    const blob = new Blob([JSON.stringify(certificate, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `ownership-certificate-${ideaId}.json`
+    a.click()
+    setTimeout(() => URL.revokeObjectURL(url), 2000)
+  }
+
+  const handleVerifyCertificateFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const verification = await verifyOwnershipCertificate(JSON.parse(await file.text()), { trustedKeyIds: LEDGER_SIGNING_KEY_IDS })
+      setCertificateCheck(verification)
+    } catch {
+      toast({
+        title: 'Invalid Certificate',
+        description: 'The selected file is not an ownership certificate',
+        variant: 'destructive'
+      })
+    }
+  }
+
   const handleCreateChallenge = async () => {
     if (!challengeType || !challengeDescription || !challengeReasoning) {
       toast({
@@ -142,6 +191,25 @@ export function OwnershipVerification({ ideaId, className }: OwnershipVerificati
     return new Date(timestamp).toLocaleString()
   }
 
+  const getIssueLabel = (issue: string) => {
+    switch (issue) {
+      case 'hash_mismatch':
+        return 'Block contents altered'
+      case 'broken_link':
+        return 'Previous-hash link broken'
+      case 'merkle_mismatch':
+        return 'Merkle root mismatch'
+      case 'missing_block':
+        return 'Points to a missing block'
+      case 'not_a_transfer':
+        return 'Points to a non-transfer block'
+      case 'stale_transfer':
+        return 'Out of date with latest transfer'
+      default:
+        return issue.replace(/_/g, ' ')
+    }
+  }
+
   return (
     <Card className={className}>
       <CardHeader>
@@ -333,13 +401,155 @@ export function OwnershipVerification({ ideaId, className }: OwnershipVerificati
               <Button
                 variant="outline"
                 size="sm"
-                onClick={checkLedgerIntegrity}
+                onClick={handleCheckIntegrity}
                 disabled={loading}
               >
                 <Shield className="h-4 w-4 mr-2" />
                 Check Integrity
               </Button>
             </div>
+
+            {/* Ownership Certificate */}
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportCertificate}
+                disabled={loading}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export Certificate
+              </Button>
+
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <FileCheck className="h-4 w-4 mr-2" />
+                  Verify Certificate
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleVerifyCertificateFile}
+                  />
+                </label>
+              </Button>
+            </div>
+
+            {certificateCheck && (
+              <div className={cn(
+                'p-3 rounded-lg border space-y-2',
+                certificateCheck.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              )}>
+                <div className="flex items-center gap-2">
+                  {certificateCheck.valid ? (
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-red-600" />
+                  )}
+                  <span className="font-medium">
+                    {certificateCheck.valid ? 'Certificate Valid' : 'Certificate Invalid'}
+                  </span>
+                </div>
+                {certificateCheck.checks.map((check) => (
+                  <div key={check.name} className="text-xs flex items-start gap-2">
+                    {check.passed ? (
+                      <CheckCircle className="h-3 w-3 text-green-600 mt-0.5" />
+                    ) : (
+                      <AlertTriangle className="h-3 w-3 text-red-600 mt-0.5" />
+                    )}
+                    <span>
+                      {check.name}
+                      {check.detail && <span className="text-muted-foreground"> — {check.detail}</span>}
+                    </span>
+                  </div>
+                ))}
+                <div className="text-xs font-mono text-muted-foreground">
+                  Signing key: {certificateCheck.keyId.substring(0, 16)}...
+                </div>
+              </div>
+            )}
+
+            {/* Tamper Report */}
+            {integrityReport && (
+              <div className={cn(
+                'p-3 rounded-lg border space-y-3',
+                integrityReport.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              )}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {integrityReport.valid ? (
+                      <CheckCircle className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <AlertTriangle className="h-5 w-5 text-red-600" />
+                    )}
+                    <span className="font-medium">
+                      {integrityReport.valid ? 'Ledger Intact' : 'Tampering Detected'}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {integrityReport.checked_blocks} blocks · {formatTimestamp(integrityReport.checked_at)}
+                  </span>
+                </div>
+
+                {integrityReport.first_broken_block !== null && (
+                  <p className="text-sm">
+                    First broken block: <Badge variant="destructive">#{integrityReport.first_broken_block}</Badge>
+                  </p>
+                )}
+
+                {integrityReport.broken_blocks.length > 0 && (
+                  <div className="space-y-1">
+                    <h5 className="text-sm font-medium">Broken Blocks</h5>
+                    {integrityReport.broken_blocks.map((block, i) => (
+                      <div key={`${block.block_number}-${block.issue}-${i}`} className="text-xs">
+                        <Badge variant="outline" className="mr-2">#{block.block_number}</Badge>
+                        {getIssueLabel(block.issue)}
+                        {block.expected && (
+                          <span className="block font-mono text-muted-foreground mt-1">
+                            expected {block.expected.substring(0, 16)}... got {(block.actual || 'none').substring(0, 16)}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {integrityReport.orphaned_entries.length > 0 && (
+                  <div className="space-y-1">
+                    <h5 className="text-sm font-medium flex items-center gap-1">
+                      <Link2Off className="h-4 w-4" />
+                      Orphaned Entries
+                    </h5>
+                    {integrityReport.orphaned_entries.map((entry) => (
+                      <div key={entry.block_number} className="text-xs">
+                        <Badge variant="outline" className="mr-2">#{entry.block_number}</Badge>
+                        {entry.idea_id === ideaId ? 'This idea' : `Idea ${entry.idea_id.substring(0, 8)}`}
+                        {' '}links to an unknown block
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {integrityReport.ownership_mismatches.length > 0 && (
+                  <div className="space-y-1">
+                    <h5 className="text-sm font-medium">Ownership Records</h5>
+                    {integrityReport.ownership_mismatches.map((mismatch) => (
+                      <div key={mismatch.idea_id} className="text-xs">
+                        Last transfer block {mismatch.recorded_block !== null ? `#${mismatch.recorded_block}` : 'unset'}:
+                        {' '}{getIssueLabel(mismatch.reason)}
+                        {mismatch.expected_block !== null && ` (ledger says #${mismatch.expected_block})`}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {integrityReport.merkle_batches.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {integrityReport.merkle_batches.filter(b => b.valid).length}/{integrityReport.merkle_batches.length} batched Merkle roots valid
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -1,37 +1,84 @@
 import { useEffect, useState } from "react";
-import { createClient } from "@supabase/supabase-js";
+import {
+  Referral,
+  ReferralRewardRules,
+  REFERRAL_REASON_LABELS,
+  getMyReferrals,
+  getOrCreateReferralCode,
+  getReferralRewardRules,
+} from "@/lib/referrals";
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  credited: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
 
 export default function ReferralPanel({ userId }: { userId: string }) {
   const [code, setCode] = useState<string>("");
+  const [rules, setRules] = useState<ReferralRewardRules | null>(null);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
 
   useEffect(() => {
     (async () => {
       if (!userId) return;
-      const { data } = await supabase.from("referral_codes").select("code").eq("referrer_user_id", userId).limit(1).maybeSingle();
-      if (data?.code) return setCode(data.code);
-      const newCode = (Math.random().toString(36).slice(2, 8) + userId.slice(0,4)).toLowerCase();
-      await supabase.from("referral_codes").insert({ code: newCode, referrer_user_id: userId });
-      setCode(newCode);
+      try {
+        const [myCode, activeRules, myReferrals] = await Promise.all([
+          getOrCreateReferralCode(userId),
+          getReferralRewardRules(),
+          getMyReferrals(userId),
+        ]);
+        setCode(myCode);
+        setRules(activeRules);
+        setReferrals(myReferrals);
+      } catch (error) {
+        console.error("Error loading referrals:", error);
+      }
     })();
   }, [userId]);
 
   const base = typeof window !== "undefined" ? window.location.origin : "https://smoothbrains.ai";
   const url = `${base}/?ref=${code}`;
+  const decided = referrals.filter(r => r.status === "pending" || r.status === "credited" || r.status === "rejected");
+  const earned = referrals.reduce((sum, r) => sum + (r.status === "credited" ? r.referrer_reward : 0), 0);
 
   return (
     <div className="rounded-2xl border p-4 flex flex-col gap-2">
-      <div className="font-semibold">Invite friends — both of you get 20 credits</div>
+      <div className="font-semibold">
+        {rules
+          ? `Invite friends — you get ${rules.referrer_reward} credits, they get ${rules.referee_reward}`
+          : "Invite friends and earn credits"}
+      </div>
+      {rules && (
+        <div className="text-xs text-muted-foreground">Referrer rewards are capped at {rules.monthly_referrer_cap} friends per month.</div>
+      )}
       <input className="w-full rounded border px-3 py-2" readOnly value={url} onFocus={(e)=>e.currentTarget.select()} />
       <div className="flex gap-2">
         <a className="rounded px-3 py-2 border" href={`https://twitter.com/intent/tweet?text=${encodeURIComponent("Get free AI credits on SmoothBrains")}&url=${encodeURIComponent(url)}`} target="_blank">Share X</a>
         <a className="rounded px-3 py-2 border" href={`https://www.linkedin.com/sharing/share-offsite/?url=${encodeURIComponent(url)}`} target="_blank">Share LinkedIn</a>
         <button className="rounded px-3 py-2 border" onClick={() => navigator.clipboard.writeText(url)}>Copy</button>
       </div>
+
+      {decided.length > 0 && (
+        <div className="mt-2 flex flex-col gap-1">
+          <div className="text-sm font-medium">Your referrals · {earned} credits earned</div>
+          <ul className="flex flex-col gap-1">
+            {decided.map(r => (
+              <li key={r.id} className="flex items-start justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div>{new Date(r.processed_at || r.created_at).toLocaleDateString()}</div>
+                  {r.reason && (
+                    <div className="text-xs text-muted-foreground">{REFERRAL_REASON_LABELS[r.reason] || r.reason}</div>
+                  )}
+                </div>
+                <span className={`rounded px-2 py-0.5 text-xs capitalize ${STATUS_STYLES[r.status]}`}>
+                  {r.status === "credited" ? `credited +${r.referrer_reward}` : r.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Presentation, FileDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { UpgradeNudge } from '@/components/subscription/UpgradeNudge';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useToast } from '@/hooks/use-toast';
+import { EntitlementDenial, getEntitlementDenial, toUpgradeNudgeProps } from '@/lib/entitlements';
+import { downloadPitchDeck, type PitchDeckFormat } from '@/lib/pitch-deck';
+
+interface PitchDeckExportMenuProps {
+  ideaId: string;
+}
+
+export function PitchDeckExportMenu({ ideaId }: PitchDeckExportMenuProps) {
+  const { toast } = useToast();
+  const { getRemainingExports, refreshUsage } = useSubscription();
+  const [exporting, setExporting] = useState<PitchDeckFormat | null>(null);
+  const [denial, setDenial] = useState<EntitlementDenial | null>(null);
+  const remaining = getRemainingExports();
+
+  const handleExport = async (format: PitchDeckFormat) => {
+    setExporting(format);
+    try {
+      const deck = await downloadPitchDeck(ideaId, format);
+      setDenial(null);
+      toast({
+        title: 'Pitch deck ready',
+        description: deck.narrated
+          ? `${deck.slides.length} slides built from ${deck.tiles.length} data tiles`
+          : `${deck.slides.length} slides built from tile summaries; AI narratives were unavailable`,
+      });
+    } catch (error) {
+      const entitlementDenial = await getEntitlementDenial(error);
+      if (entitlementDenial) {
+        setDenial(entitlementDenial);
+        return;
+      }
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Could not generate the pitch deck',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+      refreshUsage();
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={!!exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Presentation className="h-4 w-4 mr-1" />}
+            {exporting ? 'Building deck...' : 'Pitch Deck'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            {remaining === -1 ? 'Unlimited exports' : `${remaining} export${remaining === 1 ? '' : 's'} left this month`}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleExport('pptx')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            PowerPoint (.pptx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('pdf')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            PDF
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {denial && (
+        <div className="basis-full">
+          <UpgradeNudge {...toUpgradeNudgeProps(denial)} />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { useSubscription } from "@/contexts/SubscriptionContext";
+import { CreditStatementEntry, describeCreditEntry, getCreditStatement } from "@/lib/credits-wallet";
+
+export function CreditStatement() {
+  const { user, refreshWallet } = useSubscription();
+  const userId = user?.id;
+  const [balance, setBalance] = useState(0);
+  const [entries, setEntries] = useState<CreditStatementEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadStatement = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const statement = await getCreditStatement(userId);
+      setBalance(statement.balance);
+      setEntries(statement.entries);
+      await refreshWallet();
+    } catch (error) {
+      console.error("Error loading credit statement:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, refreshWallet]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              AI Credits Statement
+            </CardTitle>
+            <CardDescription>Plan credits, referral bonuses and usage in one balance</CardDescription>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-muted-foreground">Balance</p>
+            <p className="text-2xl font-bold">{balance.toLocaleString()}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No credit activity yet.</p>
+        ) : (
+          <div className="max-h-[360px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {entry.created_at ? format(new Date(entry.created_at), "MMM d, yyyy HH:mm") : "—"}
+                    </TableCell>
+                    <TableCell>{describeCreditEntry(entry)}</TableCell>
+                    <TableCell className={`text-right font-medium ${entry.delta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {entry.delta > 0 ? "+" : ""}{entry.delta.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.balance.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <Button variant="outline" size="sm" onClick={loadStatement} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
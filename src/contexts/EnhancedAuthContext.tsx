@@ -1,4 +1,5 @@
 import { LS_KEYS } from '@/lib/storage-keys';
+import { claimStoredReferral } from '@/lib/referrals';
 import { createContext, useContext, useEffect, useState, useRef } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
@@ -495,6 +496,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             }
             const from = location.state?.from?.pathname;
             if (from) navigate(from);
+            // Defer referral claim to avoid async work inside callback
+            setTimeout(() => {
+              claimStoredReferral().catch(error => console.warn('[Auth] Referral claim failed', error));
+            }, 0);
           }
           try { window.dispatchEvent(new CustomEvent('auth:state-changed', { detail: event })); } catch {}
         } else {
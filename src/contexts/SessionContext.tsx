@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/integrations/supabase/functions';
 import { LS_KEYS } from '@/lib/storage-keys';
 import { useAlerts } from '@/contexts/AlertContext';
 
@@ -272,7 +273,7 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         const tooGeneric = currentName.length < 5 || ['session','ideas','concept','vision','analysis'].includes(currentName.toLowerCase());
         if (tooGeneric && (sessionState?.chatHistory?.length || 0) > 0) {
           const transcript = (sessionState.chatHistory as any[]).slice(-25).map(m => `${m.type === 'user' ? 'User' : 'Bot'}: ${m.content}`).join('\n');
-          const { data: compData } = await supabase.functions.invoke('generate-session-composite-name', { body: { transcript } });
+          const { data: compData } = await invokeEdgeFunction('generate-session-title', { transcript });
           if (compData?.title) {
             await supabase.from('brainstorming_sessions').update({ name: compData.title }).eq('id', mappedSession.id);
             setCurrentSession(prev => prev ? { ...prev, name: compData.title } : prev);
@@ -1,112 +1,11 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getCreditBalance, spendAICredits } from '@/lib/credits-wallet';
+import { SUBSCRIPTION_TIERS, type SubscriptionTier } from '@/lib/subscription-tiers';
 
-export const SUBSCRIPTION_TIERS = {
-  free: {
-    name: '🧠 Free',
-    product_id: null,
-    price_id: null,
-    price: 'Free',
-    features: {
-      ideasPerMonth: 2,
-      aiCreditsPerMonth: 50,
-      refreshInterval: 'manual',
-      exportsPerMonth: 0,
-      seats: 1,
-      projects: 1,
-      basicAnalytics: true,
-      advancedAnalytics: false,
-      aiInsights: false,
-      collaboration: false,
-      marketAnalysis: false,
-      exportData: false,
-      prioritySupport: false,
-      apiAccess: false,
-      batchAnalysis: false,
-      trendForecasting: false,
-      autoRefresh: false
-    }
-  },
-  basic: {
-    name: '🧩 Basic',
-    product_id: 'prod_T7Cs2e5UUZ0eov',
-    price_id: 'price_1SAySTJtb0GRtBUmTWxAeuKJ',
-    price: '$12/month',
-    features: {
-      ideasPerMonth: 10,
-      aiCreditsPerMonth: 500,
-      refreshInterval: '24h',
-      exportsPerMonth: 3,
-      seats: 1,
-      projects: 3,
-      basicAnalytics: true,
-      advancedAnalytics: false,
-      aiInsights: false,
-      collaboration: false,
-      marketAnalysis: true,
-      exportData: true,
-      prioritySupport: false,
-      apiAccess: false,
-      batchAnalysis: false,
-      trendForecasting: false,
-      autoRefresh: true
-    }
-  },
-  pro: {
-    name: '🚀 Pro',
-    product_id: 'prod_T7CsnetIz8NE1N',
-    price_id: 'price_1SAySeJtb0GRtBUmYQ36t8rG',
-    price: '$29/month',
-    features: {
-      ideasPerMonth: -1, // unlimited
-      aiCreditsPerMonth: 3000,
-      refreshInterval: '6h',
-      exportsPerMonth: 20,
-      seats: 3,
-      projects: -1, // unlimited
-      basicAnalytics: true,
-      advancedAnalytics: true,
-      aiInsights: true,
-      collaboration: true,
-      marketAnalysis: true,
-      exportData: true,
-      prioritySupport: true,
-      apiAccess: false,
-      batchAnalysis: true,
-      trendForecasting: true,
-      autoRefresh: true
-    }
-  },
-  enterprise: {
-    name: '🏆 Enterprise',
-    product_id: 'prod_T7CsCuGP8R6RrO',
-    price_id: 'price_1SAySoJtb0GRtBUm7TgSNxQt',
-    price: '$99/month',
-    features: {
-      ideasPerMonth: -1, // unlimited
-      aiCreditsPerMonth: 10000,
-      refreshInterval: '1h',
-      exportsPerMonth: -1, // unlimited
-      seats: 10,
-      projects: -1, // unlimited
-      basicAnalytics: true,
-      advancedAnalytics: true,
-      aiInsights: true,
-      collaboration: true,
-      marketAnalysis: true,
-      exportData: true,
-      prioritySupport: true,
-      apiAccess: true,
-      batchAnalysis: true,
-      trendForecasting: true,
-      autoRefresh: true
-    }
-  }
-} as const;
-
-export type SubscriptionTier = keyof typeof SUBSCRIPTION_TIERS;
+export { SUBSCRIPTION_TIERS, type SubscriptionTier };
 
 interface UsageLimits {
   ideas_used: number;
@@ -125,6 +24,8 @@ interface SubscriptionContextType {
     subscription_end: string | null;
   };
   usage: UsageLimits;
+  // AI credit wallet balance (sum of credits_ledger): plan grants plus referral bonuses minus usage
+  creditBalance: number;
   loading: boolean;
   checkSubscription: () => Promise<void>;
   canAccess: (feature: keyof typeof SUBSCRIPTION_TIERS.free.features) => boolean;
@@ -132,8 +33,13 @@ interface SubscriptionContextType {
   getRemainingAICredits: () => number;
   getRemainingExports: () => number;
   canUseFeature: (feature: string) => { allowed: boolean; reason?: string };
-  incrementUsage: (type: 'ideas' | 'ai_credits' | 'exports' | 'projects', amount?: number) => Promise<boolean>;
+  incrementUsage: {
+    // Debits the wallet atomically; resolves to the remaining balance, or null if it was too low
+    (type: 'ai_credits', amount?: number): Promise<number | null>;
+    (type: 'ideas' | 'exports' | 'projects', amount?: number): Promise<boolean>;
+  };
   refreshUsage: () => Promise<void>;
+  refreshWallet: () => Promise<void>;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
@@ -153,6 +59,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     seats_used: 1,
     projects_used: 0,
   });
+  const [creditBalance, setCreditBalance] = useState(0);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -206,6 +113,11 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
         product_id: data?.product_id || null,
         subscription_end: data?.subscription_end || null,
       });
+
+      // check-subscription issues this month's grant and reports the resulting balance
+      if (typeof data?.credit_balance === 'number') {
+        setCreditBalance(data.credit_balance);
+      }
     } catch (error) {
       console.error('Error checking subscription:', error);
       setSubscription({
@@ -248,6 +160,17 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     }
   };
 
+  const userId = user?.id;
+  const refreshWallet = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setCreditBalance(await getCreditBalance(userId));
+    } catch (error) {
+      console.error('Error fetching credit balance:', error);
+    }
+  }, [userId]);
+
   const getRemainingIdeas = (): number => {
     const limit = SUBSCRIPTION_TIERS[subscription.tier].features.ideasPerMonth;
     if (limit === -1) return -1; // Return -1 for unlimited (not Infinity)
@@ -255,8 +178,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
   };
 
   const getRemainingAICredits = (): number => {
-    const limit = SUBSCRIPTION_TIERS[subscription.tier].features.aiCreditsPerMonth;
-    return Math.max(0, limit - usage.ai_credits_used);
+    return Math.max(0, creditBalance);
   };
 
   const getRemainingExports = (): number => {
@@ -284,7 +206,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       if (remaining === 0) {
         return { 
           allowed: false, 
-          reason: `You've used all ${tierFeatures.aiCreditsPerMonth} AI credits for this month. Upgrade or purchase add-on credits.` 
+          reason: `You've used all your AI credits, including the ${tierFeatures.aiCreditsPerMonth} included this month. Upgrade or invite friends for bonus credits.` 
         };
       }
     }
@@ -314,11 +236,29 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     return { allowed: true };
   };
 
-  const incrementUsage = async (type: 'ideas' | 'ai_credits' | 'exports' | 'projects', amount: number = 1): Promise<boolean> => {
-    if (!user) return false;
+  async function incrementUsage(type: 'ai_credits', amount?: number): Promise<number | null>;
+  async function incrementUsage(type: 'ideas' | 'exports' | 'projects', amount?: number): Promise<boolean>;
+  async function incrementUsage(type: 'ideas' | 'ai_credits' | 'exports' | 'projects', amount: number = 1): Promise<number | boolean | null> {
+    if (!user) return type === 'ai_credits' ? null : false;
     
     try {
-      const { data, error } = await supabase.rpc('increment_usage', {
+      if (type === 'ai_credits') {
+        const remaining = await spendAICredits(user.id, amount);
+        if (remaining === null) {
+          toast({
+            title: 'Out of AI credits',
+            description: 'Upgrade your plan or invite friends to earn bonus credits.',
+            variant: 'destructive'
+          });
+          await refreshWallet();
+          return null;
+        }
+        setCreditBalance(remaining);
+        await refreshUsage();
+        return remaining;
+      }
+
+      const { error } = await supabase.rpc('increment_usage', {
         _user_id: user.id,
         _type: type,
         _amount: amount
@@ -337,9 +277,9 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
         description: 'Failed to update usage. Please try again.',
         variant: 'destructive'
       });
-      return false;
+      return type === 'ai_credits' ? null : false;
     }
-  };
+  }
 
   useEffect(() => {
     // Check current auth status
@@ -372,6 +312,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
           seats_used: 1,
           projects_used: 0,
         });
+        setCreditBalance(0);
       }
     });
 
@@ -387,11 +328,17 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     };
   }, []);
 
+  // Referral bonuses and server-side debits change the balance outside this context
+  useEffect(() => {
+    refreshWallet();
+  }, [refreshWallet]);
+
   return (
     <SubscriptionContext.Provider value={{
       user,
       subscription,
       usage,
+      creditBalance,
       loading,
       checkSubscription,
       canAccess,
@@ -401,6 +348,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       canUseFeature,
       incrementUsage,
       refreshUsage,
+      refreshWallet,
     }}>
       {children}
     </SubscriptionContext.Provider>
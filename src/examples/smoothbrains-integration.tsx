@@ -12,6 +12,7 @@ import { usePMF } from '@/hooks/usePMF';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { downloadPitchDeck } from '@/lib/pitch-deck';
 
 // ============================================
 // Example 1: Adding AI Coach to Idea View
@@ -98,25 +99,19 @@ export function DashboardWithLiveContext({ ideaId }: { ideaId: string }) {
 // Example 4: Generate Pitch Deck
 // ============================================
 
-export function GeneratePitchDeckButton({ ideaId, userId }: { ideaId: string; userId: string }) {
+export function GeneratePitchDeckButton({ ideaId }: { ideaId: string }) {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
 
   const handleGenerateDeck = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('generate-pitch-deck', {
-        body: { idea_id: ideaId, user_id: userId },
-      });
-
-      if (error) throw error;
-
-      // Download or display the pitch deck
-      console.log('Generated pitch deck:', data.pitch_deck);
+      // Builds the deck from the idea's hub tiles and downloads it; counts as one export
+      const deck = await downloadPitchDeck(ideaId, 'pptx');
 
       toast({
         title: 'Pitch Deck Generated',
-        description: `Created ${data.pitch_deck.slides.length} slides`,
+        description: `Created ${deck.slides.length} slides`,
       });
     } catch (error: any) {
       toast({
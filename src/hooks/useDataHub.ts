@@ -19,6 +19,14 @@ interface DataHubState {
   lastFetchTime: string | null;
 }
 
+// Hub state read back from an exported report bundle
+export interface DataHubSnapshot {
+  idea: string;
+  tiles: Record<string, TileData>;
+  indices?: DataHubIndices | null;
+  lastFetchTime?: string | null;
+}
+
 // Rate limiting configuration
 const RATE_LIMIT = {
   MIN_INTERVAL: 60000, // 1 minute between refreshes
@@ -591,12 +599,27 @@ export function useDataHub(input: DataHubInput) {
     return refresh();
   }, [refresh]);
   
+  // Marking the idea as fetched keeps the auto-fetch from replacing the restored tiles
+  const restoreSnapshot = useCallback((snapshot: DataHubSnapshot) => {
+    hasFetchedRef.current = true;
+    localStorage.setItem('lastFetchedIdea', snapshot.idea);
+    setState({
+      indices: snapshot.indices ?? null,
+      tiles: snapshot.tiles,
+      loading: false,
+      error: null,
+      summary: null,
+      lastFetchTime: snapshot.lastFetchTime ?? null
+    });
+  }, []);
+  
   return {
     ...state,
     fetchDataHub,
     refresh,
     refreshTile,
     getTileData,
+    restoreSnapshot,
     loadingTasks: [], // Not implemented for legacy hook
     cacheStats: { hits: 0, misses: 0, apiCalls: 0 }
   };
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import { useAuth } from '@/contexts/EnhancedAuthContext'
 import { useToast } from '@/hooks/use-toast'
+import type { OwnershipCertificate } from '@/lib/ownership-certificate'
 
 export interface OwnershipRecord {
   id: string
@@ -38,10 +39,55 @@ export interface OwnershipChallenge {
   challenge_type: 'ownership_dispute' | 'plagiarism_claim' | 'prior_art' | 'authenticity'
   challenge_data: any
   evidence_hash: string
-  status: 'pending' | 'resolved' | 'rejected'
+  status: 'pending' | 'responded' | 'resolved' | 'rejected'
   created_at: string
   resolved_at?: string
-  resolution?: any
+  resolution?: ChallengeResolution | null
+  challenge_block?: number | null
+  response_data?: ChallengeResponse | null
+  response_evidence_hash?: string | null
+  responder_id?: string | null
+  responded_at?: string | null
+  response_block?: number | null
+  analysis?: ChallengeAnalysis | null
+  resolver_id?: string | null
+  resolution_block?: number | null
+}
+
+export interface ChallengeResponse {
+  statement: string
+  evidence: string[]
+}
+
+export interface AnchoredEvidence {
+  hash: string
+  block_number: number | null
+  anchored_at: string | null
+  idea_id: string | null
+}
+
+// Mirrors ChallengeAnalysis in supabase/functions/_shared/dispute-analysis.ts
+export interface ChallengeAnalysis {
+  idea_registered_at: string | null
+  idea_data_hash: string | null
+  prior_art: {
+    verdict: 'challenger_earlier' | 'owner_earlier' | 'inconclusive'
+    prior_idea_id: string | null
+    prior_registered_at: string | null
+    detail: string
+  }
+  challenger_evidence: AnchoredEvidence[]
+  owner_evidence: AnchoredEvidence[]
+  challenger_evidence_predates_idea: boolean
+  recommendation: 'uphold' | 'dismiss' | 'review'
+  analyzed_at: string
+}
+
+export interface ChallengeResolution {
+  outcome: 'upheld' | 'dismissed'
+  notes: string
+  recommendation: ChallengeAnalysis['recommendation']
+  analysis: ChallengeAnalysis
 }
 
 export interface OwnershipProof {
@@ -52,6 +98,32 @@ export interface OwnershipProof {
   verification_url: string
 }
 
+export interface LedgerBrokenBlock {
+  block_number: number
+  issue: 'hash_mismatch' | 'broken_link' | 'merkle_mismatch'
+  expected: string | null
+  actual: string | null
+}
+
+export interface LedgerOwnershipMismatch {
+  idea_id: string
+  recorded_block: number | null
+  expected_block: number | null
+  reason: 'missing_block' | 'not_a_transfer' | 'stale_transfer'
+}
+
+// Mirrors LedgerIntegrityReport in supabase/functions/_shared/ledger-chain.ts
+export interface LedgerIntegrityReport {
+  valid: boolean
+  checked_blocks: number
+  first_broken_block: number | null
+  broken_blocks: LedgerBrokenBlock[]
+  orphaned_entries: { block_number: number; idea_id: string; previous_hash: string | null }[]
+  merkle_batches: { merkle_root: string; blocks: number[]; computed_root: string; valid: boolean }[]
+  ownership_mismatches: LedgerOwnershipMismatch[]
+  checked_at: string
+}
+
 interface UseLedgerReturn {
   loading: boolean
   error: string | null
@@ -60,7 +132,14 @@ interface UseLedgerReturn {
   transferOwnership: (ideaId: string, newOwnerId: string) => Promise<boolean>
   createChallenge: (ideaId: string, challengeData: any) => Promise<string | null>
   getOwnershipProof: (ideaId: string) => Promise<OwnershipProof | null>
-  checkLedgerIntegrity: () => Promise<boolean>
+  checkLedgerIntegrity: (ideaId?: string) => Promise<LedgerIntegrityReport | null>
+  getOwnershipCertificate: (ideaId: string) => Promise<OwnershipCertificate | null>
+  getChallenges: (ideaId: string) => Promise<OwnershipChallenge[]>
+  respondToChallenge: (challengeId: string, response: ChallengeResponse) => Promise<boolean>
+  analyzeChallenge: (challengeId: string) => Promise<ChallengeAnalysis | null>
+  resolveChallenge: (challengeId: string, outcome: ChallengeResolution['outcome'], notes: string) => Promise<boolean>
+  isDisputeResolver: () => Promise<boolean>
+  recordVersion: (versionId: string) => Promise<boolean>
 }
 
 export function useLedger(): UseLedgerReturn {
@@ -333,19 +412,262 @@ export function useLedger(): UseLedgerReturn {
     }
   }, [])
 
-  const checkLedgerIntegrity = useCallback(async (): Promise<boolean> => {
+  const getOwnershipCertificate = useCallback(async (ideaId: string): Promise<OwnershipCertificate | null> => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'get_certificate',
+          idea_id: ideaId
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to issue ownership certificate')
+      }
+
+      return data.certificate
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to issue ownership certificate'
+      setError(errorMessage)
+      toast({
+        title: 'Certificate Failed',
+        description: errorMessage,
+        variant: 'destructive'
+      })
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  const getChallenges = useCallback(async (ideaId: string): Promise<OwnershipChallenge[]> => {
+    // RLS limits rows to the challenger, the idea's owner and dispute resolvers
+    const { data, error: challengesError } = await supabase
+      .from('ownership_challenges')
+      .select('*')
+      .eq('idea_id', ideaId)
+      .order('created_at', { ascending: false })
+
+    if (challengesError) {
+      setError(challengesError.message)
+      return []
+    }
+
+    return (data || []) as unknown as OwnershipChallenge[]
+  }, [])
+
+  const respondToChallenge = useCallback(async (
+    challengeId: string,
+    response: ChallengeResponse
+  ): Promise<boolean> => {
+    if (!user) {
+      setError('User not authenticated')
+      return false
+    }
+
     setLoading(true)
     setError(null)
 
     try {
-      // Simple integrity check - verify we can access ownership data
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'respond_challenge',
+          challenge_id: challengeId,
+          data: response
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to respond to challenge')
+      }
+
       toast({
-        title: 'Ledger Verified',
-        description: 'Blockchain integrity check passed',
-        duration: 3000
+        title: 'Response Recorded',
+        description: 'Your counter-evidence has been anchored on the ledger',
+        duration: 5000
       })
 
       return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to respond to challenge'
+      setError(errorMessage)
+      toast({
+        title: 'Response Failed',
+        description: errorMessage,
+        variant: 'destructive'
+      })
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [user, toast])
+
+  const analyzeChallenge = useCallback(async (challengeId: string): Promise<ChallengeAnalysis | null> => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'analyze_challenge',
+          challenge_id: challengeId
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to analyze challenge')
+      }
+
+      return data.analysis
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to analyze challenge'
+      setError(errorMessage)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const resolveChallenge = useCallback(async (
+    challengeId: string,
+    outcome: ChallengeResolution['outcome'],
+    notes: string
+  ): Promise<boolean> => {
+    if (!user) {
+      setError('User not authenticated')
+      return false
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'resolve_challenge',
+          challenge_id: challengeId,
+          data: { outcome, notes }
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to resolve challenge')
+      }
+
+      toast({
+        title: outcome === 'upheld' ? 'Challenge Upheld' : 'Challenge Dismissed',
+        description: 'The decision has been recorded on the ledger',
+        duration: 5000
+      })
+
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve challenge'
+      setError(errorMessage)
+      toast({
+        title: 'Resolution Failed',
+        description: errorMessage,
+        variant: 'destructive'
+      })
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [user, toast])
+
+  const isDisputeResolver = useCallback(async (): Promise<boolean> => {
+    if (!user) return false
+    const { data } = await supabase.rpc('is_dispute_resolver', { _user_id: user.id })
+    return !!data
+  }, [user])
+
+  // Anchor an idea_evolution row on the ledger as a `version` entry
+  const recordVersion = useCallback(async (versionId: string): Promise<boolean> => {
+    if (!user) {
+      setError('User not authenticated')
+      return false
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'record_version',
+          data: { version_id: versionId }
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to record version')
+      }
+
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record version'
+      setError(errorMessage)
+      toast({
+        title: 'Ledger Entry Failed',
+        description: errorMessage,
+        variant: 'destructive'
+      })
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [user, toast])
+
+  const checkLedgerIntegrity = useCallback(async (ideaId?: string): Promise<LedgerIntegrityReport | null> => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error: ledgerError } = await supabase.functions.invoke('idea-ledger', {
+        body: {
+          operation: 'verify_chain',
+          idea_id: ideaId
+        }
+      })
+
+      if (ledgerError) throw ledgerError
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to check ledger integrity')
+      }
+
+      const report: LedgerIntegrityReport = data.report
+
+      if (report.valid) {
+        toast({
+          title: 'Ledger Verified',
+          description: `All ${report.checked_blocks} blocks passed the integrity check`,
+          duration: 3000
+        })
+      } else {
+        toast({
+          title: 'Ledger Tampering Detected',
+          description: report.first_broken_block !== null
+            ? `Chain breaks at block #${report.first_broken_block}`
+            : 'Ownership records disagree with the ledger',
+          variant: 'destructive'
+        })
+      }
+
+      return report
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to check ledger integrity'
       setError(errorMessage)
@@ -354,7 +676,7 @@ export function useLedger(): UseLedgerReturn {
         description: errorMessage,
         variant: 'destructive'
       })
-      return false
+      return null
     } finally {
       setLoading(false)
     }
@@ -368,7 +690,14 @@ export function useLedger(): UseLedgerReturn {
     transferOwnership,
     createChallenge,
     getOwnershipProof,
-    checkLedgerIntegrity
+    checkLedgerIntegrity,
+    getOwnershipCertificate,
+    getChallenges,
+    respondToChallenge,
+    analyzeChallenge,
+    resolveChallenge,
+    isDisputeResolver,
+    recordVersion
   }
 }
 
@@ -31,8 +31,8 @@ export function useMarketIntelligence(idea: string) {
 
       const responses = await Promise.all(
         queries.map(query =>
-          supabase.functions.invoke('search-web', {
-            body: { query }
+          supabase.functions.invoke('web-search-ai', {
+            body: { query, tileType: 'market_intelligence' }
           })
         )
       );
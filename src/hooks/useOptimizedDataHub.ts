@@ -1,6 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/EnhancedAuthContext';
 import { useDataMode } from '@/contexts/DataModeContext';
 import { useToast } from '@/hooks/use-toast';
 import { OptimizedDashboardService } from '@/services/optimizedDashboardService';
@@ -11,6 +10,11 @@ import { RealTimeMarketService } from '@/services/realTimeMarketService';
 import { formatMoney, formatPercent, sanitizeTileData } from '@/utils/dataFormatting';
 import { CACHE_DURATIONS } from '@/hooks/useCachedSWR';
 import { getCacheKeyForIdea, getCacheForIdea, setCacheForIdea } from '@/lib/cache-utils';
+import { streamTiles } from '@/lib/api/dataHubClient';
+import { toEvidence } from '@/lib/evidence-graph';
+import { recordIdeaVersion, snapshotTileMetrics } from '@/lib/idea-evolution';
+import { recordScoreHistory, SCORE_DATA_TILES } from '@/lib/score-history';
+import type { DataHubSnapshot } from '@/hooks/useDataHub';
 
 interface DataHubState {
   indices: DataHubIndices | null;
@@ -47,7 +51,6 @@ export function useOptimizedDataHub(input: DataHubInput) {
     loadingTasks: []
   });
   
-  const { user } = useAuth();
   const { useMockData } = useDataMode();
   const { toast } = useToast();
   const optimizedService = useRef(OptimizedDashboardService.getInstance());
@@ -471,6 +474,8 @@ export function useOptimizedDataHub(input: DataHubInput) {
               confidence: optimizedData.confidence || 0.7,
               dataQuality: optimizedData.confidence > 0.8 ? 'high' : 
                            optimizedData.confidence > 0.6 ? 'medium' : 'low',
+              provenance: optimizedData.provenance,
+              missingDataPoints: optimizedData.missingDataPoints,
               // IMPORTANT: Preserve rich sentiment data from the data object
               ...(tileType === 'sentiment' && (optimizedData as any).data?.socialSentiment ? {
                 socialSentiment: (optimizedData as any).data.socialSentiment,
@@ -623,7 +628,7 @@ export function useOptimizedDataHub(input: DataHubInput) {
                 explanation: pmfResp.explanation,
                 citations: [],
                 charts: [],
-                json: { breakdown: pmfResp.breakdown, factors: pmfResp.factors },
+                json: { breakdown: pmfResp.breakdown, factors: pmfResp.factors, sensitivity: pmfResp.sensitivity, model_version: pmfResp.model_version },
                 confidence: 0.8,
                 dataQuality: 'high'
               };
@@ -697,7 +702,31 @@ export function useOptimizedDataHub(input: DataHubInput) {
         // CRITICAL: Persist to cache for future tab switches/relogins
         setCacheForIdea('datahub', normalizedIdea, newState);
         console.log('[OptimizedDataHub] ✅ Persisted data to cache for:', input.idea.substring(0, 50));
-        
+
+        // Each scored rewrite becomes a version of the session's idea for the journal history
+        const versionedIdeaId = sessionId || localStorage.getItem('currentSessionId');
+        const pmfScore = Number(tiles.pmf_score?.metrics?.score);
+        if (versionedIdeaId && pmfScore > 0) {
+          recordIdeaVersion({
+            ideaId: versionedIdeaId,
+            ideaText: input.idea,
+            pmfScore,
+            tileMetrics: snapshotTileMetrics(tiles)
+          }).catch(e => console.warn('[OptimizedDataHub] Failed to record idea version:', e));
+
+          // The server recomputes from the factors, so the history holds the inputs behind every score
+          const scoreJson = tiles.pmf_score?.json;
+          if (scoreJson?.factors) {
+            recordScoreHistory({
+              ideaId: versionedIdeaId,
+              ideaText: input.idea,
+              factors: scoreJson.factors,
+              modelVersion: scoreJson.model_version,
+              dataSources: SCORE_DATA_TILES.filter(t => tiles[t])
+            }).catch(e => console.warn('[OptimizedDataHub] Failed to record score history:', e));
+          }
+        }
+
         hasFetchedRef.current = true;
         
         // Dispatch event that tiles are loaded
@@ -720,39 +749,42 @@ export function useOptimizedDataHub(input: DataHubInput) {
       
       // Fallback to original edge function if optimized loading fails
       try {
-        console.log('⚠️ Falling back to original data-hub-orchestrator');
+        console.log('⚠️ Falling back to streamed data-hub tiles');
         
-        const { data, error: fallbackError } = await supabase.functions.invoke('data-hub-orchestrator', {
-          body: {
-            idea: input.idea,
-            userId: user?.id,
-            sessionId: Date.now().toString(),
-            filters: {
-              targetMarkets: input.targetMarkets,
-              audienceProfiles: input.audienceProfiles,
-              geos: input.geos,
-              timeHorizon: input.timeHorizon,
-              competitorHints: input.competitorHints
-            }
+        // Render each tile as soon as the server finishes it instead of waiting for the whole hub
+        const streamed = await streamTiles(input.idea, {
+          forceRefresh,
+          onTile: (tileType, tileData) => {
+            setState(prev => ({
+              ...prev,
+              // First tile in hides the full-page loader; the rest fill in as they arrive
+              loading: false,
+              tiles: { ...prev.tiles, [tileType]: tileData },
+              loadingTasks: prev.loadingTasks.map(t =>
+                t.id === tileType ? { ...t, status: tileData?.error ? "error" as const : "complete" as const } : t
+              )
+            }));
           }
         });
         
-        if (fallbackError) throw fallbackError;
-        
-        setState({
-          indices: data?.indices || null,
-          tiles: data?.tiles || {},
+        setState(prev => ({
+          ...prev,
+          tiles: { ...prev.tiles, ...streamed.tiles },
           loading: false,
           error: null,
-          summary: data?.summary || null,
+          summary: generateSummaryFromTiles(streamed.tiles),
           lastFetchTime: new Date().toISOString(),
-          cacheStats: { hits: 0, misses: 1, apiCalls: 50 }, // Approximate
+          cacheStats: {
+            hits: streamed.meta?.cacheHits?.length || 0,
+            misses: streamed.meta?.generated?.length || 0,
+            apiCalls: streamed.meta?.generated?.length || 0
+          },
           loadingTasks: []
-        });
+        }));
         
         // Dispatch event that tiles are loaded (fallback path)
         window.dispatchEvent(new CustomEvent('dashboard-tiles-loaded', {
-          detail: { tiles: data?.tiles || {}, timestamp: new Date().toISOString() }
+          detail: { tiles: streamed.tiles, timestamp: new Date().toISOString() }
         }));
         
       } catch (fallbackError) {
@@ -773,7 +805,7 @@ export function useOptimizedDataHub(input: DataHubInput) {
         });
       }
     }
-  }, [input, toast, useMockData, user?.id]);
+  }, [input, toast, useMockData]);
   
   // Auto-fetch on mount only if idea changed or no data exists
   useEffect(() => {
@@ -991,13 +1023,33 @@ export function useOptimizedDataHub(input: DataHubInput) {
     return await cache.current.getStats();
   }, []);
   
+  // Marking the idea as fetched keeps the auto-fetch from replacing the restored tiles, and the
+  // persistent cache keeps them across tab switches
+  const restoreSnapshot = useCallback((snapshot: DataHubSnapshot) => {
+    hasFetchedRef.current = true;
+    localStorage.setItem('lastFetchedIdea', snapshot.idea);
+    const restored: DataHubState = {
+      indices: snapshot.indices ?? null,
+      tiles: snapshot.tiles,
+      loading: false,
+      error: null,
+      summary: null,
+      lastFetchTime: snapshot.lastFetchTime ?? null,
+      cacheStats: state.cacheStats,
+      loadingTasks: []
+    };
+    setCacheForIdea('datahub', snapshot.idea.trim().toLowerCase(), restored);
+    setState(restored);
+  }, [state.cacheStats]);
+  
   return {
     ...state,
     fetchDataHub,
     refresh,
     refreshTile,
     getTileData,
-    getCacheStats
+    getCacheStats,
+    restoreSnapshot
   };
 }
 
@@ -1107,7 +1159,8 @@ function generateIndicesFromResponses(responses: any[]): DataHubIndices {
       relatedQueries: [],
       breakoutTerms: []
     },
-    EVIDENCE_STORE: responses.slice(0, 20),
+    // Every response is kept so metric provenance ids always resolve
+    EVIDENCE_STORE: responses.map(toEvidence),
     PROVIDER_LOG: responses.map(r => ({ 
       provider: r.source || 'unknown',
       timestamp: r.timestamp || Date.now(),
@@ -0,0 +1,120 @@
+import { useCallback, useState } from 'react';
+import { toast } from 'sonner';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import type { DataHubSnapshot } from '@/hooks/useDataHub';
+import { invokeEdgeFunction } from '@/integrations/supabase/functions';
+import { getEntitlementDenial, toUpgradeNudgeProps } from '@/lib/entitlements';
+import type { DataHubIndices, TileData } from '@/lib/data-hub-orchestrator';
+import { buildReportBundle, exportReport, parseReportBundle, ReportImportError, type ReportBundle, type ReportFormat } from '@/lib/export-report';
+import { LS_KEYS } from '@/lib/storage-keys';
+import type { AnalysisResult } from '@/types/analysis';
+import type { BriefFields } from '@/types/chat';
+
+interface ReportExportSource {
+  idea: string;
+  sessionName?: string;
+  conversationSummary?: string;
+  tiles: Record<string, TileData>;
+  indices?: DataHubIndices | null;
+  lastFetchTime?: string | null;
+  restoreSnapshot: (snapshot: DataHubSnapshot) => void;
+  // Called after an imported bundle is restored, so the page can switch to its idea and summary
+  onImported?: (bundle: ReportBundle) => void;
+}
+
+// The chat stores the last analysis as { ...pmfAnalysis, meta, answers: brief }
+function readStoredAnalysis(): { analysis?: AnalysisResult; brief?: BriefFields } {
+  try {
+    const raw = localStorage.getItem(LS_KEYS.ideaMetadata);
+    if (!raw) return {};
+    const { meta, answers, ...pmfAnalysis } = JSON.parse(raw);
+    return {
+      analysis: meta && typeof pmfAnalysis.pmfScore === 'number' ? { pmfAnalysis, meta } as AnalysisResult : undefined,
+      brief: answers && typeof answers === 'object' ? answers as BriefFields : undefined
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Download a built report behind the plan's export gate. The record-export function checks and counts
+ * the export against the monthly quota before the file is written; a plan denial is shown instead.
+ * For callers that assemble the bundle themselves (the chat has the analysis in hand).
+ */
+export function useGatedReportExport() {
+  const { canUseFeature, refreshUsage } = useSubscription();
+
+  return useCallback(async (build: () => ReportBundle, format: ReportFormat) => {
+    const gate = [canUseFeature('exportData'), canUseFeature('export')].find(check => !check.allowed);
+    if (gate) {
+      toast.error('Export unavailable', { description: gate.reason });
+      return;
+    }
+
+    try {
+      const bundle = build();
+      const { error } = await invokeEdgeFunction('record-export', { format });
+      if (error) {
+        const denial = await getEntitlementDenial(error);
+        if (denial) {
+          toast.error('Export unavailable', { description: toUpgradeNudgeProps(denial).reason });
+          return;
+        }
+        throw error;
+      }
+
+      const filename = await exportReport(bundle, format);
+      toast.success('Report exported', { description: filename });
+    } catch (error) {
+      console.error('[useReportExport] Export failed:', error);
+      toast.error('Export failed', { description: error instanceof Error ? error.message : 'Could not build the report' });
+    } finally {
+      void refreshUsage();
+    }
+  }, [canUseFeature, refreshUsage]);
+}
+
+export function useReportExport(source: ReportExportSource) {
+  const exportBundle = useGatedReportExport();
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+  const { idea, sessionName, conversationSummary, tiles, indices, lastFetchTime, restoreSnapshot, onImported } = source;
+
+  const exportAs = useCallback(async (format: ReportFormat) => {
+    setExporting(format);
+    try {
+      await exportBundle(() => buildReportBundle({
+        idea,
+        sessionName: sessionName || undefined,
+        conversationSummary: conversationSummary || undefined,
+        ...readStoredAnalysis(),
+        tiles,
+        indices,
+        lastFetchTime
+      }), format);
+    } finally {
+      setExporting(null);
+    }
+  }, [idea, sessionName, conversationSummary, tiles, indices, lastFetchTime, exportBundle]);
+
+  const importBundle = useCallback(async (file: File) => {
+    try {
+      const bundle = parseReportBundle(await file.text());
+      restoreSnapshot({
+        idea: bundle.idea,
+        tiles: bundle.tiles,
+        indices: bundle.indices,
+        lastFetchTime: bundle.lastFetchTime
+      });
+      onImported?.(bundle);
+      toast.success('Analysis restored', {
+        description: `${Object.keys(bundle.tiles).length} tiles from ${new Date(bundle.exportedAt).toLocaleDateString()}`
+      });
+    } catch (error) {
+      if (!(error instanceof ReportImportError)) console.error('[useReportExport] Import failed:', error);
+      toast.error('Import failed', { description: error instanceof Error ? error.message : 'Could not read the report bundle' });
+    }
+  }, [restoreSnapshot, onImported]);
+
+  return { exporting, exportAs, importBundle };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/contexts/EnhancedAuthContext'
+import { fetchScoreHistory, ScoreHistoryPoint, ScoreHistoryEdit } from '@/lib/score-history'
+
+interface UseScoreHistoryReturn {
+  history: ScoreHistoryPoint[]
+  edits: ScoreHistoryEdit[]
+  loading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+// Score computations for an idea (oldest first) plus the idea_evolution edits in between
+export function useScoreHistory(ideaId?: string | null): UseScoreHistoryReturn {
+  const [history, setHistory] = useState<ScoreHistoryPoint[]>([])
+  const [edits, setEdits] = useState<ScoreHistoryEdit[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const refresh = useCallback(async () => {
+    if (!user || !ideaId) {
+      setHistory([])
+      setEdits([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await fetchScoreHistory(ideaId)
+      setHistory(result.history)
+      setEdits(result.edits)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load score history'
+      setError(errorMessage)
+      console.error('Score history fetch error:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, ideaId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    history,
+    edits,
+    loading,
+    error,
+    refresh
+  }
+}
@@ -0,0 +1,1660 @@
+// This file is automatically generated by scripts/generate-function-client.mjs from
+// supabase/functions/_shared/function-contracts.ts. Do not edit it directly.
+import { supabase } from './client';
+
+export interface FunctionContracts {
+  /** Free-form market analysis of an idea */
+  'ai-market-analysis': {
+    request: {
+      idea: string;
+      analysisType?: string;
+      marketData?: unknown;
+      customPrompt?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      analysis?: unknown;
+      analysisType?: string;
+      idea?: string;
+      timestamp?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Amazon review and product signals for an idea */
+  'amazon-public': {
+    request: {
+      query: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Full LLM analysis of an idea, optionally stored against an analysis row */
+  'analyze-idea': {
+    request: {
+      idea: string;
+      analysisId?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      analysis?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Behaviour patterns, opportunities and concerns from session activity */
+  'analyze-patterns': {
+    request: {
+      sessionData: unknown[];
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: {
+      analysis: {
+        patterns: string[];
+        insights: string[];
+        opportunities: string[];
+        concerns: string[];
+        [key: string]: unknown;
+      };
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Explains what one tile means for the idea */
+  'analyze-tile-insight': {
+    request: {
+      tileType: string;
+      tileData?: unknown;
+      ideaContext?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      analysis?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Issues, lists and revokes the caller's API keys; issuing one needs the apiAccess feature */
+  'api-keys': {
+    request: {
+      operation: 'list' | 'create' | 'revoke';
+      name?: string;
+      key_id?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      key?: string;
+      api_key?: unknown;
+      keys?: unknown[];
+      [key: string]: unknown;
+    };
+  };
+  /** SmoothBrains score with breakdown, factors and sensitivity */
+  'calculate-smoothbrains-score': {
+    request: {
+      idea: string;
+      wrinklePoints?: number;
+      marketData?: unknown;
+      competitionData?: unknown;
+      sentimentData?: unknown;
+      chatHistory?: unknown[];
+      userAnswers?: unknown;
+      modelVersion?: string;
+      factors?: Record<string, number>;
+      detailed?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      score: number;
+      category?: string;
+      explanation?: string;
+      breakdown?: unknown;
+      factors?: Record<string, number>;
+      model_version?: string;
+      recommendations?: string[];
+      [key: string]: unknown;
+    };
+  };
+  /** Current user's plan, renewal date and credit balance */
+  'check-subscription': {
+    request: {
+      [key: string]: unknown;
+    };
+    response: {
+      subscribed: boolean;
+      tier: string;
+      product_id?: string | null;
+      subscription_end?: string | null;
+      credit_balance?: number;
+      [key: string]: unknown;
+    };
+  };
+  /** Deletes the current user's ideas and their analyses */
+  'clear-all-ideas': {
+    request: {
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      message: string;
+      deletionSummary?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Chat about the competitive landscape of an idea */
+  'competition-chat': {
+    request: {
+      message?: string;
+      competitionData?: unknown;
+      idea?: string;
+      chatHistory?: unknown[];
+      [key: string]: unknown;
+    };
+    response: {
+      response: string;
+      suggestions?: string[];
+      [key: string]: unknown;
+    };
+  };
+  /** Top competitors, concentration and barriers to entry */
+  'competitive-landscape': {
+    request: {
+      idea: string;
+      depth?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** PMF score with breakdown and prioritised next actions */
+  'compute-pmf-and-next-steps': {
+    request: {
+      idea_id: string;
+      idea_text: string;
+      user_context?: unknown;
+      force_recalculate?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      pmf_score: number;
+      score_breakdown?: unknown;
+      actions: unknown[];
+      confidence?: number;
+      reasoning?: string;
+      from_cache?: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Stripe checkout session for a price */
+  'create-checkout': {
+    request: {
+      price_id: string;
+      [key: string]: unknown;
+    };
+    response: {
+      url: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Stripe billing portal session for the current user */
+  'customer-portal': {
+    request: {
+      [key: string]: unknown;
+    };
+    response: {
+      url: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Dashboard insight cards for one analysis type */
+  'dashboard-insights': {
+    request: {
+      idea?: string;
+      query?: string;
+      context?: unknown;
+      analysisType?: string;
+      conversation?: unknown[];
+      tileType?: string;
+      filters?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      success?: boolean;
+      insights?: unknown;
+      timestamp?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Dashboard insights backed by a live web search */
+  'dashboard-insights-realtime': {
+    request: {
+      idea: string;
+      analysisType?: string;
+      includeWebSearch?: boolean;
+      returnSources?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      insights?: unknown;
+      sources?: unknown[];
+      primarySource?: unknown;
+      analysisType?: string;
+      timestamp?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Builds hub tiles for an idea; streams tile events when asked */
+  'data-hub': {
+    request: {
+      idea: string;
+      tiles?: string[];
+      sessionId?: string;
+      forceRefresh?: boolean;
+      stream?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      tiles?: unknown;
+      meta?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Runs the search fetch plan for the data hub and stores the indices */
+  'data-hub-orchestrator': {
+    request: {
+      input?: unknown;
+      keywords?: string[];
+      fetchPlan?: unknown;
+      userId?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      indices?: unknown;
+      summary?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Rewrites a chat reply in the salty persona */
+  'enhance-salty-response': {
+    request: {
+      basicResponse: string;
+      trickeryType?: string;
+      persistenceLevel?: number;
+      [key: string]: unknown;
+    };
+    response: {
+      enhancedResponse: string;
+      success?: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Structured business analysis combining market and trends data */
+  'enhanced-business-analysis': {
+    request: {
+      idea: string;
+      marketData?: unknown;
+      trendsData?: unknown;
+      analysisType?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      analysisType?: string;
+      insights?: unknown;
+      overall_assessment?: unknown;
+      metadata?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Enterprise plan actions (team reports, custom analyses) */
+  'enterprise-features': {
+    request: {
+      action: string;
+      data?: unknown;
+      [key: string]: unknown;
+    };
+    response: unknown;
+  };
+  /** Scores how much a chat message sharpened the idea */
+  'evaluate-wrinkle-points': {
+    request: {
+      userMessage: string;
+      currentIdea?: string;
+      conversationHistory?: unknown[];
+      currentWrinklePoints?: number;
+      [key: string]: unknown;
+    };
+    response: {
+      pointChange: number;
+      explanation: string;
+      rubric?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Execution plan and resourcing advice for an idea */
+  'execution-insights': {
+    request: {
+      idea: string;
+      stage?: string;
+      resources?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      execution?: unknown;
+      timestamp?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Unit economics and financial projections */
+  'financial-analysis': {
+    request: {
+      idea: string;
+      businessModel?: string;
+      targetMarket?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      financials?: unknown;
+      requestId?: string;
+      timestamp?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Funding activity in the idea's sector (placeholder until a data provider is wired) */
+  'funding-tracker': {
+    request: {
+      idea: string;
+      sector: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** News coverage, sentiment and themes from GDELT */
+  'gdelt-news': {
+    request: {
+      query?: string;
+      idea?: string;
+      startDate?: string;
+      endDate?: string;
+      maxRecords?: number;
+      [key: string]: unknown;
+    };
+    response: {
+      success?: boolean;
+      articles: unknown[];
+      totalArticles?: number;
+      sentiment?: unknown;
+      topThemes?: unknown[];
+      [key: string]: unknown;
+    };
+  };
+  /** Prioritised action items for the idea's current state and goals */
+  'generate-action-items': {
+    request: {
+      idea: string;
+      currentState?: unknown;
+      goals: string[];
+      [key: string]: unknown;
+    };
+    response: {
+      actionItems: Array<{
+        action: string;
+        priority: 'high' | 'medium' | 'low';
+        timeframe: string;
+        impact: string;
+        resources: string[];
+        [key: string]: unknown;
+      }>;
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** One insight card for a market, competition, sentiment, PMF, strategy or risk context */
+  'generate-ai-insights': {
+    request: {
+      type: string;
+      data?: unknown;
+      idea: string;
+      metadata?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Positioning, differentiators, tactics and risks against known competitors */
+  'generate-competitive-strategy': {
+    request: {
+      idea: string;
+      competitors: unknown[];
+      marketData?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      strategy: {
+        positioning: string;
+        differentiators: string[];
+        tactics: string[];
+        risks: string[];
+        [key: string]: unknown;
+      };
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Phased market entry plan with channels and milestones */
+  'generate-market-entry': {
+    request: {
+      idea: string;
+      targetMarket?: unknown;
+      resources: {
+        budget?: number;
+        team?: number;
+        timeline?: string;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+    response: {
+      strategy: {
+        phases: Array<{
+          phase: string;
+          duration: string;
+          goals: string[];
+          metrics: string[];
+          [key: string]: unknown;
+        }>;
+        channels: Array<{
+          channel: string;
+          priority: 'high' | 'medium' | 'low';
+          reasoning: string;
+          [key: string]: unknown;
+        }>;
+        milestones: Array<{
+          milestone: string;
+          timeline: string;
+          success_criteria: string;
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Pitch deck for a saved idea, grounded in its hub tiles; counts as an export, and pptx and pdf also return the file */
+  'generate-pitch-deck': {
+    request: {
+      idea_id: string;
+      format?: 'json' | 'pptx' | 'pdf';
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      pitch_deck: {
+        title: string;
+        subtitle: string;
+        generatedAt: string;
+        slides: Array<{
+          type: 'cover' | 'problem' | 'market' | 'competition' | 'validation' | 'trends' | 'financials' | 'ask';
+          title: string;
+          headline: string;
+          bullets: string[];
+          metrics: Array<{
+            label: string;
+            value: string;
+            [key: string]: unknown;
+          }>;
+          chart?: {
+            title: string;
+            tile: string;
+            points: Array<{
+              label: string;
+              value: number;
+              [key: string]: unknown;
+            }>;
+            [key: string]: unknown;
+          };
+          tiles: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        tiles: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale: boolean;
+          confidence: number;
+          [key: string]: unknown;
+        }>;
+        narrated: boolean;
+        [key: string]: unknown;
+      };
+      file?: {
+        filename: string;
+        mime_type: string;
+        base64: string;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Revenue, user and churn projections for a timeframe */
+  'generate-predictions': {
+    request: {
+      historicalData?: unknown;
+      timeframe: '3months' | '6months' | '1year';
+      idea?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      predictions: {
+        revenue: {
+          projected: number;
+          confidence: number;
+          factors: string[];
+          [key: string]: unknown;
+        };
+        users: {
+          projected: number;
+          confidence: number;
+          factors: string[];
+          [key: string]: unknown;
+        };
+        churn: {
+          projected: number;
+          confidence: number;
+          factors: string[];
+          [key: string]: unknown;
+        };
+        suggestions: string[];
+        [key: string]: unknown;
+      };
+      insight: {
+        title: string;
+        summary: string;
+        details: string[];
+        recommendations: string[];
+        confidence: 'high' | 'medium' | 'low';
+        dataPoints?: Array<{
+          label: string;
+          value: string | number;
+          [key: string]: unknown;
+        }>;
+        nextSteps?: string[];
+        evidence?: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    };
+  };
+  /** Recommendations for one focus area */
+  'generate-recommendations': {
+    request: {
+      idea: string;
+      currentData?: unknown;
+      focusArea: 'growth' | 'validation' | 'monetization' | 'marketing';
+      [key: string]: unknown;
+    };
+    response: {
+      recommendations: string[];
+      [key: string]: unknown;
+    };
+  };
+  /** Short name for a brainstorming session from the idea or the recent transcript */
+  'generate-session-title': {
+    request: {
+      idea?: string;
+      transcript?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      title: string;
+      fallback?: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Suggested answers for an onboarding question */
+  'generate-suggestions': {
+    request: {
+      question: string;
+      ideaDescription?: string;
+      previousAnswers?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      suggestions: string[];
+      [key: string]: unknown;
+    };
+  };
+  /** Search interest and related queries */
+  'google-trends': {
+    request: {
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: unknown;
+  };
+  /** Several analysis types for one idea in a single LLM call */
+  'groq-batch-analysis': {
+    request: {
+      idea: string;
+      analysisTypes: string[];
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      results?: unknown;
+      analysisCount?: number;
+      [key: string]: unknown;
+    };
+  };
+  /** Latency benchmark of extraction variants and A/B evaluation of prompt versions */
+  'groq-benchmark': {
+    request: {
+      action: 'benchmark' | 'evaluate' | 'promote' | 'rollback';
+      samples?: unknown[];
+      variantName?: string;
+      prompt?: string;
+      baselineVersion?: number;
+      candidateVersion?: number;
+      sampleSet?: string;
+      cases?: unknown[];
+      version?: number;
+      evaluationId?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      stats?: unknown;
+      recommendation?: unknown;
+      report?: unknown;
+      evaluation_id?: string | null;
+      [key: string]: unknown;
+    };
+  };
+  /** Running summary of the idea chat */
+  'groq-conversation-summary': {
+    request: {
+      messages: Array<{
+        role?: string;
+        type?: string;
+        content: string;
+        [key: string]: unknown;
+      }>;
+      existingSummary?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      summary: string;
+      sentences?: string[];
+      fallback?: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Extracts one tile's data points from raw source responses */
+  'groq-data-extraction': {
+    request: {
+      tileType: string;
+      requirements?: string;
+      dataPoints: string[];
+      responses: unknown[];
+      [key: string]: unknown;
+    };
+    response: {
+      extraction?: unknown;
+      confidence: number;
+      sources_used?: string[];
+      method?: string;
+      prompt?: string;
+      validation?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Synthesises search results and community data into tile insights */
+  'groq-synthesis': {
+    request: {
+      searchResults?: unknown;
+      pageContent?: unknown;
+      tileType?: string;
+      filters?: unknown;
+      marketTrendsData?: unknown;
+      redditData?: unknown;
+      webSearchData?: unknown;
+      prompt?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      result?: unknown;
+      analysis?: unknown;
+      insights?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Product help chat */
+  'help-support': {
+    request: {
+      message: string;
+      chatHistory?: unknown[];
+      [key: string]: unknown;
+    };
+    response: {
+      reply: string;
+      suggestedQuestions?: string[];
+      [key: string]: unknown;
+    };
+  };
+  /** Fetches several hub tiles in one request */
+  'hub-batch-data': {
+    request: {
+      idea: string;
+      tileTypes: string[];
+      userId?: string;
+      sessionId?: string;
+      filters?: Record<string, unknown>;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      fetchedCount?: number;
+      errorCount?: number;
+      summary?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** One hub tile from live sources */
+  'hub-data-fetcher': {
+    request: {
+      tileType: string;
+      filters?: Record<string, unknown>;
+      [key: string]: unknown;
+    };
+    response: {
+      updatedAt?: string;
+      metrics?: Array<{
+        name: string;
+        value: string | number;
+        unit?: string;
+        confidence?: number;
+        [key: string]: unknown;
+      }>;
+      items?: unknown[];
+      citations?: Array<{
+        url: string;
+        title?: string;
+        source?: string;
+        [key: string]: unknown;
+      }>;
+      assumptions?: string[];
+      notes?: string;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Main idea chat: replies, suggestions and PMF analysis */
+  'idea-chat': {
+    request: {
+      message?: string;
+      conversationHistory?: unknown[];
+      suggestionMode?: boolean;
+      context?: unknown;
+      analysisQuestion?: string;
+      currentIdea?: string;
+      persona?: unknown;
+      stream?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      response?: string;
+      detailedResponse?: string;
+      summaryResponse?: string;
+      content?: string;
+      suggestions?: string[];
+      pmfAnalysis?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Idea ownership ledger: creation, verification, transfers and challenges */
+  'idea-ledger': {
+    request: {
+      operation: 'create' | 'verify' | 'transfer' | 'challenge' | 'get_proof' | 'verify_chain' | 'get_certificate' | 'respond_challenge' | 'analyze_challenge' | 'resolve_challenge' | 'record_version';
+      idea_id?: string;
+      challenge_id?: string;
+      user_id?: string;
+      data?: unknown;
+      signature?: string;
+      challenge_data?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Launch milestones, from the project tracker when connected */
+  'launch-timeline': {
+    request: {
+      idea: string;
+      projectTrackerConnected?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      updatedAt: string;
+      metrics: Array<{
+        name: string;
+        value: string | number;
+        unit?: string;
+        confidence?: number;
+        [key: string]: unknown;
+      }>;
+      milestones: unknown[];
+      empty_state?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Market insights from the onboarding answers */
+  'market-insights': {
+    request: {
+      idea: string;
+      userAnswers?: unknown;
+      category?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      insights?: unknown;
+      category?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Market intelligence (placeholder until a data provider is wired) */
+  'market-intelligence': {
+    request: {
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** TAM, SAM, SOM and growth for an idea, optionally from data hub indices */
+  'market-size-analysis': {
+    request: {
+      idea: string;
+      idea_context?: unknown;
+      data_hub?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      market_size?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Market trend metrics and related links */
+  'market-trends': {
+    request: {
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: {
+      market_trends?: unknown;
+      cross_links?: unknown;
+      visuals_ready?: boolean;
+      confidence?: number;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** News trends and sentiment for an idea */
+  'news-analysis': {
+    request: {
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      news_trends?: unknown;
+      total_articles?: number;
+      overall_sentiment?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Seeds the startup idea catalogue */
+  'populate-startup-ideas': {
+    request: {
+      [key: string]: unknown;
+    };
+    response: {
+      message: string;
+      count: number;
+      [key: string]: unknown;
+    };
+  };
+  /** Checks a report export against the plan and counts it against exportsPerMonth before the app downloads it */
+  'record-export': {
+    request: {
+      format: 'pdf' | 'docx' | 'json';
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Reddit posts, pain points and competitor mentions for an idea */
+  'reddit-research': {
+    request: {
+      idea_text: string;
+      target_subreddits?: string[];
+      time_window?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      summary?: unknown;
+      posts?: unknown[];
+      [key: string]: unknown;
+    };
+  };
+  /** Reddit search summarised for a tile */
+  'reddit-search': {
+    request: {
+      query?: string;
+      idea?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Reddit sentiment, themes and top threads */
+  'reddit-sentiment': {
+    request: {
+      idea: string;
+      industry?: string;
+      geography?: string;
+      timeWindow?: string;
+      analyzeType?: string;
+      detailed?: boolean;
+      [key: string]: unknown;
+    };
+    response: unknown;
+  };
+  /** Positive, neutral and negative split of Reddit discussion */
+  'reddit-sentiment-analyzer': {
+    request: {
+      idea: string;
+      [key: string]: unknown;
+    };
+    response: {
+      positive: number;
+      neutral: number;
+      negative: number;
+      summary?: string;
+      topPosts?: unknown[];
+      totalPosts?: number;
+      [key: string]: unknown;
+    };
+  };
+  /** Referral code lookup, creation and redemption */
+  'referrals': {
+    request: {
+      code?: string;
+      referred_user_id?: string;
+      device_id?: string;
+      [key: string]: unknown;
+    };
+    response: unknown;
+  };
+  /** Rewrites the idea from the conversation so far */
+  'refine-idea': {
+    request: {
+      currentIdea: string;
+      conversationHistory?: unknown[];
+      [key: string]: unknown;
+    };
+    response: {
+      refinedIdea: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Refreshes the live web context stored for an idea */
+  'refresh-live-context': {
+    request: {
+      idea_id?: string;
+      idea_text: string;
+      user_id?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      context?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Lists or records SmoothBrains score history entries */
+  'score-history': {
+    request: {
+      operation: 'list' | 'record';
+      idea_id: string;
+      idea_text?: string;
+      factors?: Record<string, number>;
+      model_version?: string;
+      data_sources?: string[];
+      limit?: number;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      history?: unknown[];
+      edits?: unknown[];
+      entry?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Batched Serper searches for several search types */
+  'serper-batch-search': {
+    request: {
+      idea?: string;
+      query?: string;
+      searchTypes?: string[];
+      tileType?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      results?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Posts the team digest to a Slack webhook */
+  'slack-team-digest': {
+    request: {
+      webhook_url: string;
+      period?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      message: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Sentiment across social platforms */
+  'social-sentiment': {
+    request: {
+      query?: string;
+      idea?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      data?: unknown;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Syncs the user's role with their Stripe subscription */
+  'sync-subscription-role': {
+    request: {
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      role: string;
+      subscriptionEnd?: string | null;
+      stripeCustomerId?: string | null;
+      [key: string]: unknown;
+    };
+  };
+  /** Analyst chat over all of an idea's cached tiles and evidence, persisted per idea */
+  'tile-ai-chat': {
+    request: {
+      operation?: 'ask' | 'history' | 'clear';
+      idea: string;
+      message?: string;
+      tile?: string;
+      tileTitle?: string;
+      tileData?: unknown;
+      [key: string]: unknown;
+    };
+    response: {
+      response?: string;
+      suggestions?: string[];
+      citations?: {
+        tiles: Array<{
+          tile: string;
+          generatedAt?: string;
+          stale?: boolean;
+          confidence: number;
+          metrics: string[];
+          sources: string[];
+          [key: string]: unknown;
+        }>;
+        sources: Array<{
+          id: string;
+          url: string;
+          title: string;
+          source: string;
+          tile?: string;
+          [key: string]: unknown;
+        }>;
+        [key: string]: unknown;
+      };
+      what_ifs?: Array<{
+        label: string;
+        rationale: string;
+        changes: Array<{
+          factor: string;
+          from: number;
+          to: number;
+          [key: string]: unknown;
+        }>;
+        score: {
+          before: number;
+          after: number;
+          category: string;
+          model_version: string;
+          [key: string]: unknown;
+        };
+        [key: string]: unknown;
+      }>;
+      messages?: Array<{
+        id: string;
+        role: 'user' | 'assistant';
+        content: string;
+        tile?: string | null;
+        citations?: {
+          tiles: Array<{
+            tile: string;
+            generatedAt?: string;
+            stale?: boolean;
+            confidence: number;
+            metrics: string[];
+            sources: string[];
+            [key: string]: unknown;
+          }>;
+          sources: Array<{
+            id: string;
+            url: string;
+            title: string;
+            source: string;
+            tile?: string;
+            [key: string]: unknown;
+          }>;
+          [key: string]: unknown;
+        } | null;
+        what_ifs?: Array<{
+          label: string;
+          rationale: string;
+          changes: Array<{
+            factor: string;
+            from: number;
+            to: number;
+            [key: string]: unknown;
+          }>;
+          score: {
+            before: number;
+            after: number;
+            category: string;
+            model_version: string;
+            [key: string]: unknown;
+          };
+          [key: string]: unknown;
+        }>;
+        suggestions?: string[];
+        created_at: string;
+        [key: string]: unknown;
+      }>;
+      success?: boolean;
+      [key: string]: unknown;
+    };
+  };
+  /** Rebuilds one hub tile */
+  'tile-refresh': {
+    request: {
+      idea: string;
+      tile: string;
+      [key: string]: unknown;
+    };
+    response: {
+      success: boolean;
+      tile?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Twitter/X metrics and sentiment summarised by the LLM */
+  'twitter-ai-insights': {
+    request: {
+      idea?: string;
+      idea_text?: string;
+      lang?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      idea?: string;
+      metrics?: unknown;
+      sentiment?: unknown;
+      tweets?: unknown[];
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Twitter/X buzz for an idea */
+  'twitter-search': {
+    request: {
+      query?: string;
+      industry?: string;
+      geo?: string;
+      time_window?: string;
+      idea?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      twitter_buzz?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Sentiment merged from Reddit, social, YouTube and news */
+  'unified-sentiment': {
+    request: {
+      idea: string;
+      detailed?: boolean;
+      [key: string]: unknown;
+    };
+    response: {
+      sentiment?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Engagement metrics (placeholder until an analytics integration is wired) */
+  'user-engagement': {
+    request: {
+      idea?: string;
+      industry?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      updatedAt?: string;
+      metrics?: Array<{
+        name: string;
+        value: string | number;
+        unit?: string;
+        confidence?: number;
+        [key: string]: unknown;
+      }>;
+      items?: unknown[];
+      citations?: Array<{
+        url: string;
+        title?: string;
+        source?: string;
+        [key: string]: unknown;
+      }>;
+      assumptions?: string[];
+      notes?: string;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Clustered web search results with charts */
+  'web-search': {
+    request: {
+      idea?: string;
+      idea_keywords?: string;
+      userId?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      web_search?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** Web search answered in the tile shape */
+  'web-search-ai': {
+    request: {
+      query: string;
+      tileType?: string;
+      filters?: Record<string, unknown>;
+      [key: string]: unknown;
+    };
+    response: {
+      updatedAt?: string;
+      metrics?: Array<{
+        name: string;
+        value: string | number;
+        unit?: string;
+        confidence?: number;
+        [key: string]: unknown;
+      }>;
+      items?: unknown[];
+      citations?: Array<{
+        url: string;
+        title?: string;
+        source?: string;
+        [key: string]: unknown;
+      }>;
+      assumptions?: string[];
+      notes?: string;
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Cached web search for dashboard tiles */
+  'web-search-optimized': {
+    request: {
+      filters?: unknown;
+      requestType?: string;
+      tileType?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      cacheHit?: boolean;
+      updatedAt?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** Profitability signals and competitor pricing from the web */
+  'web-search-profitability': {
+    request: {
+      idea: string;
+      industry?: string;
+      geo?: string;
+      time_window?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      metrics?: Array<{
+        name: string;
+        value: string | number;
+        unit?: string;
+        confidence?: number;
+        [key: string]: unknown;
+      }>;
+      items?: unknown[];
+      competitors?: unknown[];
+      warnings?: string[];
+      error?: string;
+      [key: string]: unknown;
+    };
+  };
+  /** YouTube coverage summarised by the LLM */
+  'youtube-ai-insights': {
+    request: {
+      idea_text?: string;
+      idea?: string;
+      time_window?: string;
+      regionCode?: string;
+      [key: string]: unknown;
+    };
+    response: {
+      idea?: string;
+      youtube_insights?: unknown;
+      summary?: unknown;
+      meta?: unknown;
+      [key: string]: unknown;
+    };
+  };
+  /** YouTube videos and engagement for an idea */
+  'youtube-search': {
+    request: {
+      idea_text?: string;
+      idea?: string;
+      time_window?: string;
+      regionCode?: string;
+      relevanceLanguage?: string;
+      query?: string;
+      maxResults?: number;
+      [key: string]: unknown;
+    };
+    response: {
+      idea?: string;
+      youtube_insights?: unknown;
+      summary?: unknown;
+      meta?: unknown;
+      [key: string]: unknown;
+    };
+  };
+}
+
+export type FunctionName = keyof FunctionContracts;
+export type FunctionRequest<N extends FunctionName> = FunctionContracts[N]['request'];
+export type FunctionResponse<N extends FunctionName> = FunctionContracts[N]['response'];
+
+export const FUNCTION_NAMES: readonly FunctionName[] = [
+  'ai-market-analysis',
+  'amazon-public',
+  'analyze-idea',
+  'analyze-patterns',
+  'analyze-tile-insight',
+  'api-keys',
+  'calculate-smoothbrains-score',
+  'check-subscription',
+  'clear-all-ideas',
+  'competition-chat',
+  'competitive-landscape',
+  'compute-pmf-and-next-steps',
+  'create-checkout',
+  'customer-portal',
+  'dashboard-insights',
+  'dashboard-insights-realtime',
+  'data-hub',
+  'data-hub-orchestrator',
+  'enhance-salty-response',
+  'enhanced-business-analysis',
+  'enterprise-features',
+  'evaluate-wrinkle-points',
+  'execution-insights',
+  'financial-analysis',
+  'funding-tracker',
+  'gdelt-news',
+  'generate-action-items',
+  'generate-ai-insights',
+  'generate-competitive-strategy',
+  'generate-market-entry',
+  'generate-pitch-deck',
+  'generate-predictions',
+  'generate-recommendations',
+  'generate-session-title',
+  'generate-suggestions',
+  'google-trends',
+  'groq-batch-analysis',
+  'groq-benchmark',
+  'groq-conversation-summary',
+  'groq-data-extraction',
+  'groq-synthesis',
+  'help-support',
+  'hub-batch-data',
+  'hub-data-fetcher',
+  'idea-chat',
+  'idea-ledger',
+  'launch-timeline',
+  'market-insights',
+  'market-intelligence',
+  'market-size-analysis',
+  'market-trends',
+  'news-analysis',
+  'populate-startup-ideas',
+  'record-export',
+  'reddit-research',
+  'reddit-search',
+  'reddit-sentiment',
+  'reddit-sentiment-analyzer',
+  'referrals',
+  'refine-idea',
+  'refresh-live-context',
+  'score-history',
+  'serper-batch-search',
+  'slack-team-digest',
+  'social-sentiment',
+  'sync-subscription-role',
+  'tile-ai-chat',
+  'tile-refresh',
+  'twitter-ai-insights',
+  'twitter-search',
+  'unified-sentiment',
+  'user-engagement',
+  'web-search',
+  'web-search-ai',
+  'web-search-optimized',
+  'web-search-profitability',
+  'youtube-ai-insights',
+  'youtube-search',
+];
+
+// Declared for callers that already exist; invoking one fails until the function is deployed
+export const PENDING_FUNCTIONS: readonly FunctionName[] = [];
+
+/**
+ * supabase.functions.invoke with the request and response types of the function's contract.
+ */
+export function invokeEdgeFunction<N extends FunctionName>(name: N, body: FunctionRequest<N>) {
+  return supabase.functions.invoke<FunctionResponse<N>>(name, { body });
+}
@@ -69,30 +69,45 @@ export type Database = {
         Row: {
           billing_period_end: string
           billing_period_start: string
+          cached: boolean
+          completion_tokens: number
           created_at: string
           credits_used: number
           id: string
+          model: string | null
           operation_type: string
+          prompt_tokens: number
+          provider: string | null
           session_id: string | null
           user_id: string
         }
         Insert: {
           billing_period_end: string
           billing_period_start: string
+          cached?: boolean
+          completion_tokens?: number
           created_at?: string
           credits_used?: number
           id?: string
+          model?: string | null
           operation_type: string
+          prompt_tokens?: number
+          provider?: string | null
           session_id?: string | null
           user_id: string
         }
         Update: {
           billing_period_end?: string
           billing_period_start?: string
+          cached?: boolean
+          completion_tokens?: number
           created_at?: string
           credits_used?: number
           id?: string
+          model?: string | null
           operation_type?: string
+          prompt_tokens?: number
+          provider?: string | null
           session_id?: string | null
           user_id?: string
         }
@@ -152,6 +167,39 @@ export type Database = {
         }
         Relationships: []
       }
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       brainstorming_sessions: {
         Row: {
           activity_log: Json
@@ -226,6 +274,57 @@ export type Database = {
           },
         ]
       }
+      credit_tier_grants: {
+        Row: {
+          monthly_credits: number
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          monthly_credits: number
+          tier: string
+          updated_at?: string
+        }
+        Update: {
+          monthly_credits?: number
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      credits_ledger: {
+        Row: {
+          created_at: string | null
+          delta: number
+          id: string
+          idempotency_key: string | null
+          metadata: Json
+          reason: string | null
+          referral_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          delta: number
+          id?: string
+          idempotency_key?: string | null
+          metadata?: Json
+          reason?: string | null
+          referral_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          delta?: number
+          id?: string
+          idempotency_key?: string | null
+          metadata?: Json
+          reason?: string | null
+          referral_id?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       dashboard_data: {
         Row: {
           created_at: string
@@ -273,6 +372,24 @@ export type Database = {
           },
         ]
       }
+      dispute_resolvers: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       exports_usage: {
         Row: {
           billing_period_end: string
@@ -397,6 +514,7 @@ export type Database = {
           data_hash: string
           id: string
           idea_id: string
+          merkle_root: string | null
           metadata: Json | null
           operation_type: string
           previous_hash: string | null
@@ -412,6 +530,7 @@ export type Database = {
           data_hash: string
           id?: string
           idea_id: string
+          merkle_root?: string | null
           metadata?: Json | null
           operation_type: string
           previous_hash?: string | null
@@ -427,6 +546,7 @@ export type Database = {
           data_hash?: string
           id?: string
           idea_id?: string
+          merkle_root?: string | null
           metadata?: Json | null
           operation_type?: string
           previous_hash?: string | null
@@ -739,6 +859,7 @@ export type Database = {
           model: string
           prompt_hash: string
           response: Json
+          schema_version: number
           tokens_used: number | null
         }
         Insert: {
@@ -750,6 +871,7 @@ export type Database = {
           model: string
           prompt_hash: string
           response: Json
+          schema_version?: number
           tokens_used?: number | null
         }
         Update: {
@@ -761,6 +883,7 @@ export type Database = {
           model?: string
           prompt_hash?: string
           response?: Json
+          schema_version?: number
           tokens_used?: number | null
         }
         Relationships: []
@@ -797,6 +920,8 @@ export type Database = {
       }
       ownership_challenges: {
         Row: {
+          analysis: Json | null
+          challenge_block: number | null
           challenge_data: Json
           challenge_type: string
           challenger_id: string
@@ -805,10 +930,19 @@ export type Database = {
           id: string
           idea_id: string
           resolution: Json | null
+          resolution_block: number | null
           resolved_at: string | null
+          resolver_id: string | null
+          responded_at: string | null
+          responder_id: string | null
+          response_block: number | null
+          response_data: Json | null
+          response_evidence_hash: string | null
           status: string
         }
         Insert: {
+          analysis?: Json | null
+          challenge_block?: number | null
           challenge_data: Json
           challenge_type: string
           challenger_id: string
@@ -817,10 +951,19 @@ export type Database = {
           id?: string
           idea_id: string
           resolution?: Json | null
+          resolution_block?: number | null
           resolved_at?: string | null
+          resolver_id?: string | null
+          responded_at?: string | null
+          responder_id?: string | null
+          response_block?: number | null
+          response_data?: Json | null
+          response_evidence_hash?: string | null
           status?: string
         }
         Update: {
+          analysis?: Json | null
+          challenge_block?: number | null
           challenge_data?: Json
           challenge_type?: string
           challenger_id?: string
@@ -829,7 +972,14 @@ export type Database = {
           id?: string
           idea_id?: string
           resolution?: Json | null
+          resolution_block?: number | null
           resolved_at?: string | null
+          resolver_id?: string | null
+          responded_at?: string | null
+          responder_id?: string | null
+          response_block?: number | null
+          response_data?: Json | null
+          response_evidence_hash?: string | null
           status?: string
         }
         Relationships: [
@@ -917,6 +1067,77 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_evaluations: {
+        Row: {
+          baseline_accuracy: number
+          baseline_version: number
+          candidate_accuracy: number
+          candidate_version: number
+          created_at: string
+          id: string
+          prompt_name: string
+          recommendation: string
+          report: Json
+          sample_count: number
+          sample_set: string
+        }
+        Insert: {
+          baseline_accuracy: number
+          baseline_version: number
+          candidate_accuracy: number
+          candidate_version: number
+          created_at?: string
+          id?: string
+          prompt_name: string
+          recommendation: string
+          report: Json
+          sample_count: number
+          sample_set: string
+        }
+        Update: {
+          baseline_accuracy?: number
+          baseline_version?: number
+          candidate_accuracy?: number
+          candidate_version?: number
+          created_at?: string
+          id?: string
+          prompt_name?: string
+          recommendation?: string
+          report?: Json
+          sample_count?: number
+          sample_set?: string
+        }
+        Relationships: []
+      }
+      prompt_promotions: {
+        Row: {
+          evaluation_id: string
+          promoted_at: string
+          prompt_name: string
+          version: number
+        }
+        Insert: {
+          evaluation_id: string
+          promoted_at?: string
+          prompt_name: string
+          version: number
+        }
+        Update: {
+          evaluation_id?: string
+          promoted_at?: string
+          prompt_name?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_promotions_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       realtime_metrics: {
         Row: {
           analysis_id: string
@@ -949,6 +1170,102 @@ export type Database = {
           },
         ]
       }
+      referral_codes: {
+        Row: {
+          code: string
+          created_at: string | null
+          device_id: string | null
+          referrer_user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          device_id?: string | null
+          referrer_user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          device_id?: string | null
+          referrer_user_id?: string
+        }
+        Relationships: []
+      }
+      referral_reward_rules: {
+        Row: {
+          created_at: string
+          is_active: boolean
+          max_referee_account_age: unknown
+          monthly_referrer_cap: number
+          name: string
+          rapid_signup_limit: number
+          rapid_signup_window: unknown
+          referee_reward: number
+          referrer_reward: number
+        }
+        Insert: {
+          created_at?: string
+          is_active?: boolean
+          max_referee_account_age?: unknown
+          monthly_referrer_cap: number
+          name: string
+          rapid_signup_limit: number
+          rapid_signup_window?: unknown
+          referee_reward: number
+          referrer_reward: number
+        }
+        Update: {
+          created_at?: string
+          is_active?: boolean
+          max_referee_account_age?: unknown
+          monthly_referrer_cap?: number
+          name?: string
+          rapid_signup_limit?: number
+          rapid_signup_window?: unknown
+          referee_reward?: number
+          referrer_reward?: number
+        }
+        Relationships: []
+      }
+      referrals: {
+        Row: {
+          code: string
+          created_at: string | null
+          device_id: string | null
+          id: string
+          processed_at: string | null
+          reason: string | null
+          referee_reward: number
+          referred_user_id: string | null
+          referrer_reward: number
+          status: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          device_id?: string | null
+          id?: string
+          processed_at?: string | null
+          reason?: string | null
+          referee_reward?: number
+          referred_user_id?: string | null
+          referrer_reward?: number
+          status?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          device_id?: string | null
+          id?: string
+          processed_at?: string | null
+          reason?: string | null
+          referee_reward?: number
+          referred_user_id?: string | null
+          referrer_reward?: number
+          status?: string | null
+        }
+        Relationships: []
+      }
       refinements: {
         Row: {
           applied_at: string
@@ -987,6 +1304,72 @@ export type Database = {
           },
         ]
       }
+      score_history: {
+        Row: {
+          created_at: string
+          data_sources: string[]
+          factors: Json
+          id: string
+          idea_hash: string | null
+          idea_id: string
+          model_version: string
+          pmf_score: number
+          score_breakdown: Json
+          source: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data_sources?: string[]
+          factors?: Json
+          id?: string
+          idea_hash?: string | null
+          idea_id: string
+          model_version: string
+          pmf_score: number
+          score_breakdown?: Json
+          source?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data_sources?: string[]
+          factors?: Json
+          id?: string
+          idea_hash?: string | null
+          idea_id?: string
+          model_version?: string
+          pmf_score?: number
+          score_breakdown?: Json
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      score_models: {
+        Row: {
+          created_at: string
+          definition: Json
+          is_active: boolean
+          notes: string | null
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          definition: Json
+          is_active?: boolean
+          notes?: string | null
+          version: string
+        }
+        Update: {
+          created_at?: string
+          definition?: Json
+          is_active?: boolean
+          notes?: string | null
+          version?: string
+        }
+        Relationships: []
+      }
       startup_idea_suggestions: {
         Row: {
           category: string | null
@@ -1059,6 +1442,51 @@ export type Database = {
         }
         Relationships: []
       }
+      tile_chat_messages: {
+        Row: {
+          citations: Json | null
+          content: string
+          created_at: string
+          id: string
+          idea_hash: string
+          idea_text: string
+          role: string
+          seq: number
+          suggestions: string[]
+          tile: string | null
+          user_id: string
+          what_ifs: Json
+        }
+        Insert: {
+          citations?: Json | null
+          content: string
+          created_at?: string
+          id?: string
+          idea_hash: string
+          idea_text: string
+          role: string
+          seq?: never
+          suggestions?: string[]
+          tile?: string | null
+          user_id: string
+          what_ifs?: Json
+        }
+        Update: {
+          citations?: Json | null
+          content?: string
+          created_at?: string
+          id?: string
+          idea_hash?: string
+          idea_text?: string
+          role?: string
+          seq?: never
+          suggestions?: string[]
+          tile?: string | null
+          user_id?: string
+          what_ifs?: Json
+        }
+        Relationships: []
+      }
       twitter_cache: {
         Row: {
           created_at: string | null
@@ -1254,6 +1682,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      consume_quota: {
+        Args: { _amount?: number; _limit: number; _type: string; _user_id: string }
+        Returns: boolean
+      }
       create_ledger_entry: {
         Args: {
           p_data_hash: string
@@ -1265,6 +1697,22 @@ export type Database = {
         }
         Returns: number
       }
+      credit_balance: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      credit_referral: {
+        Args: { p_code: string; p_device_id?: string; p_referred_user_id: string }
+        Returns: Json
+      }
+      debit_credits: {
+        Args: { _amount: number; _metadata?: Json; _operation?: string; _user_id: string }
+        Returns: number
+      }
+      ensure_monthly_grant: {
+        Args: { _tier?: string; _user_id: string }
+        Returns: number
+      }
       generate_ownership_token: {
         Args: { p_idea_id: string; p_user_id: string }
         Returns: string
@@ -1311,6 +1759,22 @@ export type Database = {
         Args: { _user_id: string }
         Returns: undefined
       }
+      invalidate_llm_cache_schema: {
+        Args: { p_current_version: number }
+        Returns: number
+      }
+      is_dispute_resolver: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      resolve_pending_referral: {
+        Args: { p_approve: boolean; p_referral_id: string }
+        Returns: Json
+      }
+      spend_ai_credits: {
+        Args: { _amount?: number; _operation?: string; _user_id: string }
+        Returns: number
+      }
       sync_user_subscription: {
         Args: {
           _stripe_customer_id?: string
@@ -1320,6 +1784,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      top_referrers: {
+        Args: Record<PropertyKey, never>
+        Returns: { handle: string; referrals: number }[]
+      }
       verify_ledger_integrity: {
         Args: { end_block?: number; start_block?: number }
         Returns: {
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/integrations/supabase/functions';
 
 export interface InsightContext {
   type: 'market' | 'competition' | 'sentiment' | 'pmf' | 'strategy' | 'risk';
@@ -12,6 +13,18 @@ export interface InsightContext {
   metadata?: any;
 }
 
+/**
+ * A hub tile an insight was grounded in, as cached when the insight was generated
+ */
+export interface InsightEvidence {
+  tile: string;
+  generatedAt?: string;
+  stale?: boolean;
+  confidence: number;
+  metrics: string[];
+  sources: string[];
+}
+
 export interface GeneratedInsight {
   title: string;
   summary: string;
@@ -20,8 +33,12 @@ export interface GeneratedInsight {
   confidence: 'high' | 'medium' | 'low';
   dataPoints?: { label: string; value: string | number }[];
   nextSteps?: string[];
+  evidence?: InsightEvidence[];
 }
 
+// Strategy results carry the insight they were summarised in; fallbacks have none
+export type WithInsight<T> = T & { insight?: GeneratedInsight };
+
 /**
  * Generate AI-powered insights based on context
  */
@@ -76,23 +93,21 @@ export async function generateCompetitiveStrategy(
   idea: string,
   competitors: any[],
   marketData: any
-): Promise<{
+): Promise<WithInsight<{
   positioning: string;
   differentiators: string[];
   tactics: string[];
   risks: string[];
-}> {
+}>> {
   try {
-    const { data, error } = await supabase.functions.invoke('generate-competitive-strategy', {
-      body: {
-        idea,
-        competitors,
-        marketData
-      }
+    const { data, error } = await invokeEdgeFunction('generate-competitive-strategy', {
+      idea,
+      competitors,
+      marketData
     });
 
-    if (error) throw error;
-    return data.strategy;
+    if (error || !data) throw error || new Error('Empty response');
+    return { ...data.strategy, insight: data.insight };
   } catch (error) {
     console.error('Error generating competitive strategy:', error);
     return {
@@ -111,22 +126,20 @@ export async function generateMarketEntryStrategy(
   idea: string,
   targetMarket: any,
   resources: { budget?: number; team?: number; timeline?: string }
-): Promise<{
+): Promise<WithInsight<{
   phases: Array<{ phase: string; duration: string; goals: string[]; metrics: string[] }>;
   channels: Array<{ channel: string; priority: 'high' | 'medium' | 'low'; reasoning: string }>;
   milestones: Array<{ milestone: string; timeline: string; success_criteria: string }>;
-}> {
+}>> {
   try {
-    const { data, error } = await supabase.functions.invoke('generate-market-entry', {
-      body: {
-        idea,
-        targetMarket,
-        resources
-      }
+    const { data, error } = await invokeEdgeFunction('generate-market-entry', {
+      idea,
+      targetMarket,
+      resources
     });
 
-    if (error) throw error;
-    return data.strategy;
+    if (error || !data) throw error || new Error('Empty response');
+    return { ...data.strategy, insight: data.insight };
   } catch (error) {
     console.error('Error generating market entry strategy:', error);
     return {
@@ -162,22 +175,20 @@ export async function generateMarketEntryStrategy(
 export async function analyzeUserPatterns(
   sessionData: any[],
   idea: string
-): Promise<{
+): Promise<WithInsight<{
   patterns: string[];
   insights: string[];
   opportunities: string[];
   concerns: string[];
-}> {
+}>> {
   try {
-    const { data, error } = await supabase.functions.invoke('analyze-patterns', {
-      body: {
-        sessionData,
-        idea
-      }
+    const { data, error } = await invokeEdgeFunction('analyze-patterns', {
+      sessionData,
+      idea
     });
 
-    if (error) throw error;
-    return data.analysis;
+    if (error || !data) throw error || new Error('Empty response');
+    return { ...data.analysis, insight: data.insight };
   } catch (error) {
     console.error('Error analyzing patterns:', error);
     return {
@@ -190,27 +201,27 @@ export async function analyzeUserPatterns(
 }
 
 /**
- * Generate predictive metrics using AI
+ * Generate predictive metrics using AI; pass the idea to ground them in its hub data
  */
 export async function generatePredictiveMetrics(
   historicalData: any,
-  timeframe: '3months' | '6months' | '1year'
-): Promise<{
+  timeframe: '3months' | '6months' | '1year',
+  idea?: string
+): Promise<WithInsight<{
   revenue: { projected: number; confidence: number; factors: string[] };
   users: { projected: number; confidence: number; factors: string[] };
   churn: { projected: number; confidence: number; factors: string[] };
   suggestions: string[];
-}> {
+}>> {
   try {
-    const { data, error } = await supabase.functions.invoke('generate-predictions', {
-      body: {
-        historicalData,
-        timeframe
-      }
+    const { data, error } = await invokeEdgeFunction('generate-predictions', {
+      historicalData,
+      timeframe,
+      idea
     });
 
-    if (error) throw error;
-    return data.predictions;
+    if (error || !data) throw error || new Error('Empty response');
+    return { ...data.predictions, insight: data.insight };
   } catch (error) {
     console.error('Error generating predictions:', error);
     return {
@@ -332,27 +343,27 @@ export async function generateActionItems(
   idea: string,
   currentState: any,
   goals: string[]
-): Promise<Array<{
-  action: string;
-  priority: 'high' | 'medium' | 'low';
-  timeframe: string;
-  impact: string;
-  resources: string[];
+): Promise<WithInsight<{
+  actionItems: Array<{
+    action: string;
+    priority: 'high' | 'medium' | 'low';
+    timeframe: string;
+    impact: string;
+    resources: string[];
+  }>;
 }>> {
   try {
-    const { data, error } = await supabase.functions.invoke('generate-action-items', {
-      body: {
-        idea,
-        currentState,
-        goals
-      }
+    const { data, error } = await invokeEdgeFunction('generate-action-items', {
+      idea,
+      currentState,
+      goals
     });
 
-    if (error) throw error;
-    return data.actionItems;
+    if (error || !data) throw error || new Error('Empty response');
+    return { actionItems: data.actionItems, insight: data.insight };
   } catch (error) {
     console.error('Error generating action items:', error);
-    return [
+    return { actionItems: [
       {
         action: 'Validate core assumptions',
         priority: 'high',
@@ -374,6 +385,6 @@ export async function generateActionItems(
         impact: 'Guide launch efforts',
         resources: ['Marketing expertise', 'Market research']
       }
-    ];
+    ] };
   }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { TileData } from '@/lib/data-hub-orchestrator';
 
 export interface FetchTilesOptions {
   tiles?: string[];
@@ -22,7 +23,8 @@ export async function fetchTiles(idea: string, opts: FetchTilesOptions = {}) {
     body: { idea, tiles, forceRefresh }
   });
   const { data, error } = await withAbort(p, signal);
-  if ((data as any)?.error || error) throw ((data as any)?.error || error);
+  const failure = (data as { error?: unknown } | null)?.error || error;
+  if (failure) throw failure;
   return data;
 }
 
@@ -30,6 +32,102 @@ export async function refreshTile(idea: string, tile: string) {
   const { data, error } = await supabase.functions.invoke('tile-refresh', {
     body: { idea, tile }
   });
-  if ((data as any)?.error || error) throw ((data as any)?.error || error);
+  const failure = (data as { error?: unknown } | null)?.error || error;
+  if (failure) throw failure;
   return data;
 }
+
+// Mirrors DataHubResponseMeta in supabase/functions/_shared/orchestrator-core.ts, plus the request errors data-hub adds
+export interface DataHubResponseMeta {
+  cacheHits: string[];
+  generated: string[];
+  elapsedMs: number;
+  ideaHash: string;
+  timings?: Record<string, { source: 'cache' | 'generated' | 'error'; queuedMs: number; durationMs: number }>;
+  stale?: string[];
+  warnings?: string[];
+  errors?: string[];
+}
+
+export interface StreamTilesOptions extends FetchTilesOptions {
+  onTile?: (tile: string, data: TileData) => void;
+  onMeta?: (meta: DataHubResponseMeta) => void;
+}
+
+export interface StreamTilesResult {
+  success: boolean;
+  tiles: Record<string, TileData>;
+  meta: DataHubResponseMeta | null;
+}
+
+type SseFrame =
+  | { event: 'tile'; data: { tile: string; data: TileData } }
+  | { event: 'meta'; data: DataHubResponseMeta }
+  | { event: 'error'; data: { error?: string } };
+
+// Parse one SSE frame ("event: x\ndata: {...}") into its event name and JSON payload
+function parseSseFrame(frame: string): SseFrame | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  }
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) } as SseFrame;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Streaming variant of fetchTiles: the data-hub function emits each tile as soon as it is ready.
+ * onTile is called per tile, onMeta once at the end; resolves with the same shape as fetchTiles.
+ */
+export async function streamTiles(idea: string, opts: StreamTilesOptions = {}): Promise<StreamTilesResult> {
+  const { tiles, forceRefresh, signal, onTile, onMeta } = opts;
+  const { data: { session } } = await supabase.auth.getSession();
+  const resp = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/data-hub`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`
+    },
+    body: JSON.stringify({ idea, tiles, forceRefresh, stream: true }),
+    signal
+  });
+  if (!resp.ok || !resp.body) {
+    const body = await resp.json().catch(() => null);
+    throw new Error(body?.error || `data-hub stream failed (${resp.status})`);
+  }
+
+  const result: StreamTilesResult = { success: true, tiles: {}, meta: null };
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = parseSseFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      if (!frame) continue;
+      if (frame.event === 'tile') {
+        result.tiles[frame.data.tile] = frame.data.data;
+        onTile?.(frame.data.tile, frame.data.data);
+      } else if (frame.event === 'meta') {
+        result.meta = frame.data;
+        onMeta?.(frame.data);
+      } else if (frame.event === 'error') {
+        throw new Error(frame.data?.error || 'data-hub stream error');
+      }
+    }
+  }
+  return result;
+}
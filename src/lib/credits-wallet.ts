@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * AI credits wallet. The balance is the sum of the user's credits_ledger entries: monthly tier grants,
+ * referral bonuses, expired grants and per-call debits (see the credit_balance / debit_credits SQL functions).
+ */
+
+export type CreditEntryReason =
+  | 'monthly_grant'
+  | 'grant_expired'
+  | 'referral'
+  | 'referred_signup'
+  | 'ai_usage';
+
+export interface CreditStatementEntry {
+  id: string;
+  delta: number;
+  reason: CreditEntryReason | string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  // Wallet balance right after this entry
+  balance: number;
+}
+
+export const CREDIT_REASON_LABELS: Record<string, string> = {
+  monthly_grant: 'Monthly plan credits',
+  grant_expired: 'Unused plan credits expired',
+  referral: 'Referral bonus',
+  referred_signup: 'Signup bonus (referred)',
+  ai_usage: 'AI usage'
+};
+
+export function describeCreditEntry(entry: Pick<CreditStatementEntry, 'reason' | 'metadata'>): string {
+  const label = CREDIT_REASON_LABELS[entry.reason || ''] || entry.reason || 'Adjustment';
+  if (entry.reason === 'monthly_grant' && entry.metadata?.tier) return `${label} (${entry.metadata.tier})`;
+  if (entry.reason === 'ai_usage' && entry.metadata?.operation) return `${label} · ${entry.metadata.operation}`;
+  return label;
+}
+
+export async function getCreditBalance(userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('credit_balance', { _user_id: userId });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Debit AI credits atomically. Resolves to the remaining balance, or null when the balance is too low.
+ */
+export async function spendAICredits(userId: string, amount: number, operation?: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc('spend_ai_credits', {
+    _user_id: userId,
+    _amount: amount,
+    _operation: operation
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Ledger entries newest first, each with the running balance after it
+ */
+export async function getCreditStatement(userId: string, limit = 100): Promise<{ balance: number; entries: CreditStatementEntry[] }> {
+  const [balance, { data, error }] = await Promise.all([
+    getCreditBalance(userId),
+    supabase
+      .from('credits_ledger')
+      .select('id, delta, reason, metadata, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  ]);
+
+  if (error) throw error;
+
+  // Walk back from the current balance so the running total is right even when older rows are cut off
+  let running = balance;
+  const entries = (data || []).map(row => {
+    const entry: CreditStatementEntry = {
+      id: row.id,
+      delta: row.delta,
+      reason: row.reason,
+      metadata: (row.metadata as Record<string, unknown>) || {},
+      created_at: row.created_at || '',
+      balance: running
+    };
+    running -= row.delta;
+    return entry;
+  });
+
+  return { balance, entries };
+}
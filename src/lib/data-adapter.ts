@@ -31,7 +31,7 @@ export const amazonReviewsAdapter = async (ctx: any) => {
 
 // Competitor Analysis Adapter  
 export const competitorAnalysisAdapter = async (ctx: any) => {
-  const { data, error } = await supabase.functions.invoke('competitor-analysis', {
+  const { data, error } = await supabase.functions.invoke('competitive-landscape', {
     body: {
       idea: ctx.idea || ctx.query || '',
       industry: ctx.industry,
@@ -40,7 +40,7 @@ export const competitorAnalysisAdapter = async (ctx: any) => {
   });
   
   if (error) throw error;
-  return data;
+  return data?.data;
 };
 
 // Target Audience Adapter
@@ -73,7 +73,7 @@ export const pricingStrategyAdapter = async (ctx: any) => {
 
 // Market Size Adapter
 export const marketSizeAdapter = async (ctx: any) => {
-  const { data, error } = await supabase.functions.invoke('market-size', {
+  const { data, error } = await supabase.functions.invoke('market-size-analysis', {
     body: {
       idea: ctx.idea || ctx.query || '',
       industry: ctx.industry,
@@ -106,7 +106,7 @@ export const marketSizeAdapter = async (ctx: any) => {
 
 // Growth Projections Adapter
 export const growthProjectionsAdapter = async (ctx: any) => {
-  const { data, error } = await supabase.functions.invoke('growth-projections', {
+  const { data, error } = await supabase.functions.invoke('market-trends', {
     body: {
       idea: ctx.idea || ctx.query || '',
       industry: ctx.industry,
@@ -5,6 +5,7 @@
  */
 
 import { SearchResult, NewsItem, CompetitorData, ReviewData, SocialData, PriceData, TrendsData } from './types';
+import type { TileEntitlement } from './entitlements';
 
 // Core input passed from UI
 export interface DataHubInput {
@@ -63,6 +64,16 @@ export interface ChartData {
   title?: string;
 }
 
+// Per-metric provenance: which evidence produced a metric value and how it was extracted
+export type ExtractionMethod = 'llm' | 'regex';
+
+export interface MetricProvenance {
+  evidenceIds: string[]; // ids in DataHubIndices.EVIDENCE_STORE
+  method: ExtractionMethod; // 'regex' = TILE_REQUIREMENTS localExtractor
+  confidence: number; // 0..1
+  snippets?: { evidenceId: string; text: string }[]; // exact passages containing the value
+}
+
 // Tile payload type (consumed across the app)
 export interface TileData {
   metrics: Record<string, any>;
@@ -73,6 +84,18 @@ export interface TileData {
   confidence: number; // 0..1
   dataQuality: 'high' | 'medium' | 'low';
   insights?: any;
+  // Set when the server could not generate the tile
+  error?: string;
+  // Set instead of data when the user's plan does not cover this tile
+  entitlement?: TileEntitlement;
+  // Server freshness: stale tiles are past expiresAt and being regenerated in the background
+  stale?: boolean;
+  generatedAt?: string;
+  expiresAt?: string;
+  // Keyed by metric name (same keys as `metrics`)
+  provenance?: Record<string, MetricProvenance>;
+  // Required fields from the tile's output schema that could not be extracted
+  missingDataPoints?: string[];
 }
 
 // Aggregated indices produced by edge functions
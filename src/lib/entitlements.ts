@@ -0,0 +1,92 @@
+/**
+ * Client side of supabase/functions/_shared/entitlements.ts. Edge functions deny calls the plan does not
+ * cover with 402 (feature locked, quota or credits used up) or 429 (rate limited) and an `entitlement`
+ * body; these helpers turn that into props for UpgradeNudge.
+ */
+
+export type EntitlementCode =
+  | 'auth_required'
+  | 'feature_locked'
+  | 'quota_exceeded'
+  | 'insufficient_credits'
+  | 'rate_limited';
+
+export interface EntitlementDenial {
+  status: 401 | 402 | 429;
+  message: string;
+  code: EntitlementCode;
+  tier: string;
+  feature: string | null;
+  suggestedTier: 'basic' | 'pro' | 'enterprise' | null;
+  retryAfter: number | null;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  exportData: 'Exports',
+  batchAnalysis: 'Batch analysis',
+  apiAccess: 'API access',
+  marketAnalysis: 'Market analysis',
+  aiInsights: 'AI insights',
+  advancedAnalytics: 'Advanced analytics'
+};
+
+// What data-hub puts on a tile whose provider the caller's plan does not cover (TileData.entitlement)
+export interface TileEntitlement {
+  status: number;
+  error: string;
+  code: EntitlementCode;
+  tier: string;
+  feature: string | null;
+  suggested_tier: EntitlementDenial['suggestedTier'];
+  retry_after: number | null;
+}
+
+export function fromTileEntitlement(entitlement: TileEntitlement): EntitlementDenial {
+  return {
+    status: entitlement.status as EntitlementDenial['status'],
+    message: entitlement.error,
+    code: entitlement.code,
+    tier: entitlement.tier,
+    feature: entitlement.feature,
+    suggestedTier: entitlement.suggested_tier,
+    retryAfter: entitlement.retry_after
+  };
+}
+
+/**
+ * Read an entitlement denial from a supabase.functions.invoke error (FunctionsHttpError keeps the
+ * Response in `context`). Returns null for any other error.
+ */
+export async function getEntitlementDenial(error: unknown): Promise<EntitlementDenial | null> {
+  const response = (error as { context?: unknown })?.context;
+  if (!(response instanceof Response) || ![401, 402, 429].includes(response.status)) return null;
+
+  try {
+    const body = await response.clone().json();
+    if (!body?.entitlement) return null;
+    return {
+      status: response.status as EntitlementDenial['status'],
+      message: body.error,
+      code: body.entitlement.code,
+      tier: body.entitlement.tier,
+      feature: body.entitlement.feature,
+      suggestedTier: body.entitlement.suggested_tier,
+      retryAfter: body.entitlement.retry_after
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function toUpgradeNudgeProps(denial: EntitlementDenial) {
+  const reason = denial.code === 'rate_limited' && denial.retryAfter
+    ? `${denial.message}. Try again in ${denial.retryAfter} seconds, or upgrade for a higher limit.`
+    : denial.message;
+
+  return {
+    reason,
+    currentTier: denial.tier,
+    suggestedTier: denial.suggestedTier ?? undefined,
+    feature: denial.feature ? FEATURE_LABELS[denial.feature] || denial.feature : undefined
+  };
+}
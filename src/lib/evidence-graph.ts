@@ -0,0 +1,145 @@
+import type { CachedApiResponse } from '@/lib/cache/unifiedResponseCache';
+import type { Evidence, ExtractionMethod, MetricProvenance, TileData } from '@/lib/data-hub-orchestrator';
+
+// Bookkeeping fields extractors add next to real metrics
+const NON_METRIC_KEYS = new Set(['confidence', 'timestamp']);
+
+/**
+ * Collect every string and number inside a raw provider payload
+ */
+function collectText(value: unknown, out: string[] = [], depth = 0): string[] {
+  if (value == null || depth > 8) return out;
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (typeof value === 'number') {
+    out.push(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectText(v, out, depth + 1));
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, v]) => {
+      // Keep "key: value" pairs together so labels like "TAM: $4.2B" stay searchable
+      if (typeof v === 'string' || typeof v === 'number') out.push(`${key}: ${v}`);
+      else collectText(v, out, depth + 1);
+    });
+  }
+  return out;
+}
+
+/**
+ * Text forms a metric value may appear as in source material (4200000000 -> "4.2 billion", "4.2b", ...)
+ */
+function valueForms(value: unknown): string[] {
+  if (typeof value === 'string') return value.trim().length >= 2 ? [value.trim()] : [];
+  if (typeof value !== 'number' || !isFinite(value)) return [];
+
+  const forms = new Set<string>([String(value)]);
+  const scales: Array<[number, string[]]> = [
+    [1e12, ['trillion', 't']],
+    [1e9, ['billion', 'b', 'bn']],
+    [1e6, ['million', 'm', 'mm']],
+  ];
+  for (const [scale, units] of scales) {
+    if (Math.abs(value) >= scale) {
+      const scaled = value / scale;
+      const numbers = new Set([String(Number(scaled.toFixed(2))), String(Number(scaled.toFixed(1)))]);
+      numbers.forEach(n => units.forEach(u => {
+        forms.add(`${n} ${u}`);
+        forms.add(`${n}${u}`);
+      }));
+      break;
+    }
+  }
+  return Array.from(forms);
+}
+
+/**
+ * Find the passage in a raw payload that contains a metric value, with surrounding context
+ */
+export function locateSnippet(raw: unknown, value: unknown, radius = 120): string | null {
+  const forms = valueForms(value).map(f => f.toLowerCase());
+  if (!forms.length) return null;
+
+  for (const text of collectText(raw)) {
+    const lower = text.toLowerCase();
+    for (const form of forms) {
+      const index = lower.indexOf(form);
+      if (index === -1) continue;
+      // Avoid matching "4.2" inside "14.25"
+      const before = lower[index - 1];
+      const after = lower[index + form.length];
+      if ((before && /[\d.]/.test(before)) || (after && /\d/.test(after))) continue;
+      const start = Math.max(0, index - radius);
+      const end = Math.min(text.length, index + form.length + radius);
+      return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Record, for every scalar metric in extracted data, the source responses whose content contains it.
+ * When no source contains the value verbatim (typical for LLM-normalized numbers), every source that
+ * was given to the extractor is recorded without a snippet.
+ */
+export function buildMetricProvenance(
+  data: Record<string, unknown> | null | undefined,
+  sources: Pick<CachedApiResponse, 'id' | 'rawResponse'>[],
+  method: ExtractionMethod,
+  confidence: number
+): Record<string, MetricProvenance> {
+  const provenance: Record<string, MetricProvenance> = {};
+  if (!data || typeof data !== 'object') return provenance;
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (NON_METRIC_KEYS.has(key) || value == null || typeof value === 'object') return;
+
+    const snippets = sources
+      .map(source => ({ evidenceId: source.id, text: locateSnippet(source.rawResponse, value) }))
+      .filter((s): s is { evidenceId: string; text: string } => !!s.text);
+
+    provenance[key] = {
+      evidenceIds: snippets.length ? snippets.map(s => s.evidenceId) : sources.map(s => s.id).filter(Boolean),
+      method,
+      // A value found verbatim in a source is better supported than one only inferred from it
+      confidence: snippets.length ? confidence : Math.round(confidence * 0.75 * 100) / 100,
+      snippets: snippets.length ? snippets : undefined
+    };
+  });
+  return provenance;
+}
+
+/**
+ * Convert a cached provider response into an evidence node for DataHubIndices.EVIDENCE_STORE
+ */
+export function toEvidence(response: CachedApiResponse): Evidence {
+  const raw = response.rawResponse || {};
+  const first = Array.isArray(raw) ? raw[0] : (raw.organic?.[0] || raw.results?.[0] || raw.citations?.[0] || raw);
+  return {
+    id: response.id,
+    url: first?.url || first?.link || raw.url || '',
+    title: first?.title || raw.title || `${response.source} response`,
+    source: response.source,
+    snippet: first?.snippet || first?.description || raw.summary || collectText(raw).find(t => t.length > 40)?.slice(0, 300),
+    confidence: response.metadata?.confidence ?? 0.7,
+    tileReferences: response.metadata?.extractedTopics || [],
+    fetchedAt: response.timestamp ? new Date(response.timestamp).toISOString() : undefined
+  };
+}
+
+/**
+ * Resolve a tile metric to the evidence behind it, paired with the exact snippet when one was recorded
+ */
+export function resolveMetricEvidence(
+  tile: TileData | null | undefined,
+  metric: string,
+  evidenceStore: Evidence[]
+): { evidence: Evidence; snippet?: string }[] {
+  const provenance = tile?.provenance?.[metric];
+  if (!provenance) return [];
+  const byId = new Map(evidenceStore.map(e => [e.id, e]));
+  return provenance.evidenceIds.flatMap(id => {
+    const evidence = byId.get(id);
+    if (!evidence) return [];
+    return [{ evidence, snippet: provenance.snippets?.find(s => s.evidenceId === id)?.text }];
+  });
+}
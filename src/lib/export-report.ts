@@ -1,45 +1,283 @@
+import { z } from 'zod';
 import type { AnalysisResult } from '@/types/analysis';
+import type { BriefFields } from '@/types/chat';
+import type { DataHubIndices, TileData } from '@/lib/data-hub-orchestrator';
+import { chartPoints, type ReportChart } from '@/lib/report-charts';
+import { formatDataPoint } from '@/lib/tile-schemas';
+import { BRAND } from '@/branding';
 
-export function buildMarkdownReport(result: AnalysisResult) {
-  const { pmfAnalysis, meta } = result;
-  const lines: string[] = [];
-  lines.push('# SmoothBrains Analysis Report');
-  lines.push(`Generated: ${new Date(meta.completedAt).toLocaleString()}`);
-  lines.push('');
-  lines.push(`**Overall Score:** ${pmfAnalysis.pmfScore}/100`);
-  if (meta.viabilityLabel) lines.push(`**Viability:** ${meta.viabilityLabel}`);
-  lines.push('');
-  lines.push('## Brief Snapshot');
-  Object.entries(meta.briefSnapshot).forEach(([k,v]) => lines.push(`- **${k}**: ${v || '_not provided_'}`));
-  lines.push('');
-  if (meta.validationIssues.length) {
-    lines.push('## Validation Issues');
-    meta.validationIssues.forEach(i => lines.push(`- (${i.severity}) ${i.field}: ${i.message}`));
-    lines.push('');
+/**
+ * Analysis report export. A ReportBundle is the full hub state for one idea: every tile, the hub
+ * indices, the brief snapshot, the chat summary and the PMF analysis. exportReport writes it as a
+ * JSON bundle (re-importable with parseReportBundle) or renders it through buildReportDocument to
+ * PDF or DOCX, both with a table of contents and a citation appendix.
+ */
+
+export type ReportFormat = 'pdf' | 'docx' | 'json';
+
+export const REPORT_BUNDLE_FORMAT = 'smoothbrains-report';
+export const REPORT_BUNDLE_VERSION = 1;
+
+export interface ReportBundle {
+  format: typeof REPORT_BUNDLE_FORMAT;
+  version: typeof REPORT_BUNDLE_VERSION;
+  exportedAt: string;
+  idea: string;
+  sessionName?: string;
+  conversationSummary?: string;
+  brief?: BriefFields;
+  analysis?: AnalysisResult;
+  tiles: Record<string, TileData>;
+  indices?: DataHubIndices | null;
+  lastFetchTime?: string | null;
+}
+
+export type ReportInput = Omit<ReportBundle, 'format' | 'version' | 'exportedAt'>;
+
+export function buildReportBundle(input: ReportInput): ReportBundle {
+  return {
+    format: REPORT_BUNDLE_FORMAT,
+    version: REPORT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...input
+  };
+}
+
+export class ReportImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportImportError';
   }
-  lines.push('## Score Breakdown');
-  if (pmfAnalysis.scoreBreakdown) {
-    try {
-      Object.entries(pmfAnalysis.scoreBreakdown).forEach(([k,v]) => lines.push(`- ${k}: ${v}`));
-    } catch {}
-  } else {
-    lines.push('_No detailed breakdown available_');
+}
+
+// Tiles and indices are checked for shape, not content: a bundle restores what was exported
+const tileSchema = z.object({
+  metrics: z.record(z.unknown()).default({}),
+  explanation: z.string().default(''),
+  citations: z.array(z.object({
+    url: z.string(),
+    title: z.string().default(''),
+    source: z.string().default(''),
+    relevance: z.number().default(0)
+  }).passthrough()).default([]),
+  charts: z.array(z.unknown()).default([]),
+  json: z.unknown().optional(),
+  confidence: z.number().default(0),
+  dataQuality: z.enum(['high', 'medium', 'low']).default('low')
+}).passthrough();
+
+const bundleSchema = z.object({
+  format: z.literal(REPORT_BUNDLE_FORMAT),
+  version: z.literal(REPORT_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  idea: z.string().min(1),
+  sessionName: z.string().optional(),
+  conversationSummary: z.string().optional(),
+  brief: z.record(z.string()).optional(),
+  analysis: z.object({ pmfAnalysis: z.object({ pmfScore: z.number() }).passthrough(), meta: z.record(z.unknown()) }).passthrough().optional(),
+  tiles: z.record(tileSchema),
+  indices: z.record(z.unknown()).nullable().optional(),
+  lastFetchTime: z.string().nullable().optional()
+});
+
+/**
+ * Read a JSON bundle written by exportReport. Throws ReportImportError naming the first problems.
+ */
+export function parseReportBundle(text: string): ReportBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ReportImportError('The file is not valid JSON');
   }
-  if (pmfAnalysis.improvements?.length) {
-    lines.push('');
-    lines.push('## Recommended Improvements');
-    pmfAnalysis.improvements.forEach(i => lines.push(`- ${i}`));
+
+  const parsed = bundleSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 3).map(i => `${i.path.join('.') || 'bundle'}: ${i.message}`);
+    throw new ReportImportError(`Not a ${BRAND} report bundle (${issues.join('; ')})`);
   }
-  if (pmfAnalysis.quickWins?.length) {
-    lines.push('');
-    lines.push('## Quick Wins');
-    pmfAnalysis.quickWins.forEach((q: any) => lines.push(`- ${typeof q === 'string' ? q : q.title || JSON.stringify(q)}`));
+  return parsed.data as unknown as ReportBundle;
+}
+
+// ---- Document model shared by the PDF and DOCX renderers ----------------------------------------
+
+export interface ReportCitation {
+  n: number;
+  url: string;
+  title: string;
+  source: string;
+}
+
+export interface ReportSection {
+  id: string;
+  title: string;
+  // One line under the heading: confidence, data quality, freshness
+  meta?: string;
+  paragraphs: string[];
+  list?: string[];
+  table?: Array<[string, string]>;
+  charts: ReportChart[];
+  // Numbers in the citation appendix
+  citations: number[];
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  sections: ReportSection[];
+  citations: ReportCitation[];
+}
+
+const BRIEF_LABELS: Record<keyof BriefFields, string> = {
+  problem: 'Problem',
+  targetUser: 'Target user',
+  differentiation: 'Differentiation',
+  alternatives: 'Alternatives',
+  monetization: 'Monetization',
+  scenario: 'Scenario',
+  successMetric: 'Success metric'
+};
+
+const MAX_VALUE_CHARS = 300;
+
+const titleCase = (name: string) => formatDataPoint(name).replace(/\b\w/g, c => c.toUpperCase());
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'string') return value.length > MAX_VALUE_CHARS ? `${value.slice(0, MAX_VALUE_CHARS)}...` : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object')) return formatValue(value.join(', '));
+  return formatValue(JSON.stringify(value));
+}
+
+const hasContent = (tile: TileData | undefined): tile is TileData =>
+  !!tile && (Object.keys(tile.metrics || {}).length > 0 || !!tile.explanation?.trim());
+
+export function buildReportDocument(bundle: ReportBundle): ReportDocument {
+  const citations: ReportCitation[] = [];
+  const cite = (c: { url: string; title?: string; source?: string }) => {
+    const existing = citations.find(x => x.url === c.url);
+    if (existing) return existing.n;
+    const n = citations.length + 1;
+    citations.push({ n, url: c.url, title: c.title || c.url, source: c.source || '' });
+    return n;
+  };
+
+  const sections: ReportSection[] = [];
+  const { analysis, brief } = bundle;
+
+  sections.push({
+    id: 'summary',
+    title: 'Executive Summary',
+    paragraphs: [bundle.conversationSummary || bundle.idea],
+    table: [
+      ['Idea', bundle.idea],
+      ...(analysis ? [['Overall score', `${analysis.pmfAnalysis.pmfScore}/100`] as [string, string]] : []),
+      ...(analysis?.meta.viabilityLabel ? [['Viability', analysis.meta.viabilityLabel] as [string, string]] : []),
+      ['Data tiles', String(Object.values(bundle.tiles).filter(hasContent).length)]
+    ],
+    charts: [],
+    citations: []
+  });
+
+  if (brief) {
+    sections.push({
+      id: 'brief',
+      title: 'Brief Snapshot',
+      paragraphs: [],
+      table: (Object.keys(BRIEF_LABELS) as Array<keyof BriefFields>).map(k => [BRIEF_LABELS[k], brief[k] || 'not provided']),
+      charts: [],
+      citations: []
+    });
+  }
+
+  if (analysis) {
+    const { pmfAnalysis, meta } = analysis;
+    const quickWins = (pmfAnalysis.quickWins || []).map(q => (typeof q === 'string' ? q : q?.title || JSON.stringify(q)));
+    sections.push({
+      id: 'score',
+      title: 'Score Breakdown',
+      paragraphs: [
+        ...(pmfAnalysis.improvements?.length ? [`Recommended improvements: ${pmfAnalysis.improvements.join('; ')}`] : []),
+        ...(quickWins.length ? [`Quick wins: ${quickWins.join('; ')}`] : [])
+      ],
+      list: meta.validationIssues?.map(i => `(${i.severity}) ${i.field}: ${i.message}`),
+      table: pmfAnalysis.scoreBreakdown && typeof pmfAnalysis.scoreBreakdown === 'object'
+        ? Object.entries(pmfAnalysis.scoreBreakdown).map(([k, v]) => [titleCase(k), formatValue(v)])
+        : [['Overall score', `${pmfAnalysis.pmfScore}/100`]],
+      charts: [],
+      citations: []
+    });
+  }
+
+  for (const [name, tile] of Object.entries(bundle.tiles).sort(([a], [b]) => a.localeCompare(b))) {
+    if (!hasContent(tile)) continue;
+    const freshness = tile.generatedAt ? `updated ${new Date(tile.generatedAt).toLocaleString()}${tile.stale ? ' (stale)' : ''}` : '';
+    sections.push({
+      id: `tile-${name}`,
+      title: titleCase(name),
+      meta: [`Confidence ${Math.round((tile.confidence ?? 0) * 100)}%`, `data quality ${tile.dataQuality}`, freshness].filter(Boolean).join(' · '),
+      paragraphs: tile.explanation ? [tile.explanation] : [],
+      list: tile.missingDataPoints?.length ? [`Missing data points: ${tile.missingDataPoints.map(formatDataPoint).join(', ')}`] : undefined,
+      table: Object.entries(tile.metrics || {}).map(([k, v]) => [titleCase(k), formatValue(v)]),
+      charts: (tile.charts || []).map(c => chartPoints(c)).filter((c): c is ReportChart => !!c),
+      citations: (tile.citations || []).filter(c => c.url).map(cite)
+    });
   }
-  return lines.join('\n');
+
+  sections.push({
+    id: 'citations',
+    title: 'Citation Appendix',
+    paragraphs: citations.length ? [] : ['No sources were cited.'],
+    list: citations.map(c => `[${c.n}] ${c.title}${c.source ? ` (${c.source})` : ''}: ${c.url}`),
+    charts: [],
+    citations: []
+  });
+
+  return {
+    title: `${BRAND} Analysis Report`,
+    subtitle: bundle.sessionName || bundle.idea,
+    generatedAt: bundle.exportedAt,
+    sections,
+    citations
+  };
+}
+
+// ---- Export --------------------------------------------------------------------------------------
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  json: 'application/json'
+};
+
+export function reportFilename(bundle: ReportBundle, format: ReportFormat) {
+  const slug = (bundle.sessionName || bundle.idea).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'analysis';
+  return `${slug}-report-${bundle.exportedAt.slice(0, 10)}.${format === 'json' ? 'smoothbrains.json' : format}`;
+}
+
+/**
+ * Render the bundle in `format` and download it. Resolves to the file name.
+ */
+export async function exportReport(bundle: ReportBundle, format: ReportFormat): Promise<string> {
+  let content: Blob;
+  if (format === 'json') {
+    content = new Blob([JSON.stringify(bundle, null, 2)], { type: MIME_TYPES.json });
+  } else if (format === 'pdf') {
+    const { renderReportPdf } = await import('@/lib/report-pdf');
+    content = new Blob([renderReportPdf(buildReportDocument(bundle))], { type: MIME_TYPES.pdf });
+  } else {
+    const { renderReportDocx } = await import('@/lib/report-docx');
+    content = new Blob([renderReportDocx(buildReportDocument(bundle))], { type: MIME_TYPES.docx });
+  }
+
+  const filename = reportFilename(bundle, format);
+  triggerDownload(filename, content);
+  return filename;
 }
 
-export function triggerDownload(filename: string, content: string) {
-  const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+export function triggerDownload(filename: string, blob: Blob) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url; a.download = filename; a.style.display='none';
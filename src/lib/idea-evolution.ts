@@ -0,0 +1,210 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { TileData } from '@/lib/data-hub-orchestrator';
+
+/**
+ * Version history for an idea, stored in public.idea_evolution.
+ * A brainstorming session is the idea's identity across rewrites, so idea_id is the session id
+ * and every scored rewrite inside it becomes the next version_number. The ledger references
+ * public.ideas instead, so idea-ledger's record_version resolves the session to its saved idea.
+ */
+
+// Numeric tile metrics keyed by tile type, e.g. { market_size: { tam: 4200000000 } }
+export type TileMetricSnapshot = Record<string, Record<string, number>>;
+
+export interface IdeaVersionChanges {
+  tile_metrics: TileMetricSnapshot;
+  source: 'score' | 'restore';
+  // Set when this version re-locked an earlier one
+  restored_from?: number;
+}
+
+export interface IdeaVersion {
+  id: string;
+  idea_id: string;
+  version_number: number;
+  idea_text: string;
+  pmf_score: number | null;
+  changes: IdeaVersionChanges;
+  created_at: string;
+}
+
+export interface WordDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface MetricDelta {
+  tile: string;
+  metric: string;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+// Above this many word pairs the LCS table gets too large for the browser; fall back to a whole-text swap
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Word-level diff (longest common subsequence over whitespace-separated words)
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach(w => push('removed', w));
+    b.forEach(w => push('added', w));
+    return parts;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
+
+/**
+ * Keep only the numeric metrics of each tile, which is what version deltas compare
+ */
+export function snapshotTileMetrics(tiles: Record<string, TileData | null | undefined>): TileMetricSnapshot {
+  const snapshot: TileMetricSnapshot = {};
+  Object.entries(tiles).forEach(([tileType, tile]) => {
+    const numeric = Object.entries(tile?.metrics || {}).filter(
+      (entry): entry is [string, number] => typeof entry[1] === 'number' && isFinite(entry[1])
+    );
+    if (numeric.length) snapshot[tileType] = Object.fromEntries(numeric);
+  });
+  return snapshot;
+}
+
+export function tileMetricDeltas(from: TileMetricSnapshot, to: TileMetricSnapshot): MetricDelta[] {
+  const deltas: MetricDelta[] = [];
+  const tiles = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+  tiles.forEach(tile => {
+    const metrics = Array.from(new Set([...Object.keys(from[tile] || {}), ...Object.keys(to[tile] || {})])).sort();
+    metrics.forEach(metric => {
+      const before = from[tile]?.[metric] ?? null;
+      const after = to[tile]?.[metric] ?? null;
+      if (before === after) return;
+      deltas.push({
+        tile,
+        metric,
+        from: before,
+        to: after,
+        delta: before !== null && after !== null ? after - before : null
+      });
+    });
+  });
+  return deltas;
+}
+
+function toVersion(row: { changes: Json } & Omit<IdeaVersion, 'changes'>): IdeaVersion {
+  const changes = (row.changes || {}) as Partial<IdeaVersionChanges>;
+  return {
+    ...row,
+    changes: {
+      tile_metrics: changes.tile_metrics || {},
+      source: changes.source || 'score',
+      restored_from: changes.restored_from
+    }
+  };
+}
+
+export async function getIdeaVersions(ideaId: string): Promise<IdeaVersion[]> {
+  const { data, error } = await supabase
+    .from('idea_evolution')
+    .select('*')
+    .eq('idea_id', ideaId)
+    .order('version_number', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toVersion);
+}
+
+// Concurrent saves race for the same version_number; the unique index rejects the loser, which retries
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Append the next version of an idea. Returns null without writing when the text and score
+ * match the latest version, so re-opening a dashboard does not create empty versions.
+ */
+export async function recordIdeaVersion(params: {
+  ideaId: string;
+  ideaText: string;
+  pmfScore: number | null;
+  tileMetrics: TileMetricSnapshot;
+  source?: IdeaVersionChanges['source'];
+  restoredFrom?: number;
+}): Promise<IdeaVersion | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const ideaText = params.ideaText.trim();
+  const pmfScore = params.pmfScore === null ? null : Math.round(params.pmfScore);
+  const source = params.source || 'score';
+  const changes: IdeaVersionChanges = { tile_metrics: params.tileMetrics, source };
+  if (params.restoredFrom !== undefined) changes.restored_from = params.restoredFrom;
+
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('idea_evolution')
+      .select('version_number, idea_text, pmf_score')
+      .eq('idea_id', params.ideaId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    if (source === 'score' && latest && latest.idea_text === ideaText && latest.pmf_score === pmfScore) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('idea_evolution')
+      .insert({
+        idea_id: params.ideaId,
+        user_id: user.id,
+        version_number: (latest?.version_number || 0) + 1,
+        idea_text: ideaText,
+        pmf_score: pmfScore,
+        changes: changes as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505' && attempt < MAX_VERSION_ATTEMPTS) continue;
+    if (error) throw error;
+    return toVersion(data);
+  }
+}
@@ -0,0 +1,7 @@
+// Published key ids of the idea-ledger certificate signing key (LEDGER_SIGNING_KEY), as
+// verifyOwnershipCertificate reports them. `npm run ledger:key-id` prints the id for a key. When the
+// key is rotated, add the new id and keep the old one while certificates it signed are in use.
+export const LEDGER_SIGNING_KEY_IDS: readonly string[] = (import.meta.env.VITE_LEDGER_SIGNING_KEY_IDS ?? '')
+  .split(',')
+  .map((id: string) => id.trim())
+  .filter(Boolean);
@@ -0,0 +1,35 @@
+// This file is automatically generated by scripts/sync-shared-modules.mjs from
+// supabase/functions/_shared/ooxml.ts. Do not edit it directly.
+/**
+ * Office Open XML package helpers shared by the pitch deck (deck-pptx.ts) and the Word report
+ * (src/lib/report-docx.ts, which imports the copy generated into src/lib/ooxml.ts).
+ */
+
+export const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+export const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+export const EMU_PER_INCH = 914400;
+
+// XML 1.0 does not allow control characters other than tab and newlines, even escaped
+const allowedChar = (ch: string) => ch.charCodeAt(0) >= 0x20 || ch === '\t' || ch === '\n' || ch === '\r';
+
+export function escapeXml(text: string): string {
+  return Array.from(text).filter(allowedChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  // Hyperlinks point outside the package
+  external?: boolean;
+}
+
+export function relationships(rels: Relationship[]): string {
+  return `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    rels.map(r => `<Relationship Id="${r.id}" Type="${r.type}" Target="${escapeXml(r.target)}"${r.external ? ' TargetMode="External"' : ''}/>`).join('')
+  }</Relationships>`;
+}
@@ -1,5 +1,6 @@
 import { GlobalRequestManager, invokeSupabaseFunction as baseInvoke, queuedFetch as baseFetch } from './request-queue';
 import { UnifiedResponseCache } from './cache/unifiedResponseCache';
+import type { FunctionName } from '@/integrations/supabase/functions';
 
 // Enhanced client-side request queue with heavy caching and optimization
 export class OptimizedRequestQueue {
@@ -51,7 +52,7 @@ export class OptimizedRequestQueue {
   }
 
   // Optimized Supabase function invocation with heavy caching
-  async invokeFunction(functionName: string, body?: any): Promise<any> {
+  async invokeFunction(functionName: FunctionName, body?: any): Promise<any> {
     const cacheKey = `fn:${functionName}:${JSON.stringify(body || {})}`;
     
     // Check multiple cache layers
@@ -275,7 +276,7 @@ export class OptimizedRequestQueue {
   }
   // Warm cache for common requests
   async warmCache(idea: string): Promise<void> {
-    const warmupFunctions = [
+    const warmupFunctions: Array<{ name: FunctionName; body: Record<string, unknown> }> = [
       { name: 'unified-sentiment', body: { idea, detailed: true } },
       { name: 'reddit-sentiment', body: { idea, detailed: true } },
       { name: 'market-trends', body: { idea } },
@@ -302,9 +303,9 @@ export class OptimizedRequestQueue {
   }
 
   // Batch prefetch for related data
-  async prefetchRelated(functionName: string, body: any): Promise<void> {
+  async prefetchRelated(functionName: FunctionName, body: any): Promise<void> {
     // Define related functions to prefetch
-    const relatedFunctions: Record<string, Array<{ name: string; body?: any }>> = {
+    const relatedFunctions: Partial<Record<FunctionName, Array<{ name: FunctionName; body?: any }>>> = {
       'unified-sentiment': [
         { name: 'reddit-sentiment', body },
         { name: 'social-sentiment', body }
@@ -0,0 +1,232 @@
+// Standalone verifier for ownership certificates issued by the idea-ledger function (get_certificate).
+// It has no imports and only needs Web Crypto, so it runs offline in the browser, Deno or Node 18+
+// and can be handed to third parties as-is.
+
+export interface CertificateEntry {
+  block_number: number;
+  transaction_hash: string;
+  previous_hash: string | null;
+  timestamp: string;
+  operation_type: string;
+  idea_id: string;
+  user_id: string;
+  data_hash: string;
+  signature: string;
+  status?: string;
+  merkle_root?: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+export interface OwnershipCertificate {
+  version: number;
+  certificate_id: string;
+  issued_at: string;
+  idea_id: string;
+  owner_id: string;
+  original_creator_id: string;
+  data_hash: string;
+  entries: CertificateEntry[];
+  ledger: { root: string; size: number; head_block: number };
+  inclusion: { block_number: number; leaf_index: number; path: MerkleStep[] }[];
+  public_key: JsonWebKey;
+  algorithm: 'ES256';
+  signature: string;
+}
+
+export interface CertificateCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface CertificateVerification {
+  // Every check passed, including that a pinned key signed the certificate
+  valid: boolean;
+  // 'untrusted' means every check passed except the signing key, which is not pinned. It is only
+  // reported with allowUntrustedKey; such a certificate proves nothing about the idea's owner.
+  status: 'trusted' | 'untrusted' | 'invalid';
+  checks: CertificateCheck[];
+  // SHA-256 of the public key; compare with the key id the issuer publishes
+  keyId: string;
+}
+
+export interface VerifyCertificateOptions {
+  // Key ids the issuer publishes. The certificate carries its own public key, so without a pinned
+  // key anyone could sign one; an empty list fails every certificate.
+  trustedKeyIds: readonly string[];
+  // Research use only: report a consistent certificate signed by an unknown key as 'untrusted'
+  allowUntrustedKey?: boolean;
+}
+
+const SIGNING_KEY_CHECK = 'Trusted signing key';
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+// Postgres 14+ `extract(epoch from ts)::text`: whole seconds plus six fractional digits
+function pgEpochText(timestamp: string): string {
+  const match = timestamp.trim().replace(' ', 'T').match(/^(.+?T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}(?::?\d{2})?)?$/);
+  if (!match) return (Date.parse(timestamp) / 1000).toFixed(6);
+  const [, base, fraction = '', zone = 'Z'] = match;
+  const offset = zone === 'Z' ? 'Z' : zone.length === 3 ? `${zone}:00` : zone.includes(':') ? zone : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  const seconds = Math.floor(Date.parse(`${base}${offset}`) / 1000);
+  return `${seconds}.${fraction.padEnd(6, '0').slice(0, 6)}`;
+}
+
+// Same field order as public.create_ledger_entry
+function blockHash(entry: CertificateEntry): Promise<string> {
+  return sha256Hex(
+    String(entry.block_number) +
+    (entry.previous_hash ?? '') +
+    entry.operation_type +
+    entry.idea_id +
+    entry.user_id +
+    entry.data_hash +
+    entry.signature +
+    pgEpochText(entry.timestamp)
+  );
+}
+
+async function foldMerklePath(leaf: string, leafIndex: number, path: MerkleStep[]): Promise<string | null> {
+  let hash = leaf;
+  let position = leafIndex;
+  for (const step of path) {
+    // The path must match the leaf position, otherwise an entry could be moved within the tree
+    if ((position % 2 === 1) !== (step.position === 'left')) return null;
+    hash = await sha256Hex(step.position === 'left' ? step.hash + hash : hash + step.hash);
+    position = Math.floor(position / 2);
+  }
+  return hash;
+}
+
+/**
+ * Verify a certificate completely offline: the server signature, every entry hash, each entry's
+ * inclusion in the signed ledger root, and that the named owner follows from the entries.
+ */
+export async function verifyOwnershipCertificate(
+  certificate: OwnershipCertificate,
+  options: VerifyCertificateOptions
+): Promise<CertificateVerification> {
+  const checks: CertificateCheck[] = [];
+  const { signature, ...unsigned } = certificate;
+  const keyId = await sha256Hex(canonicalJson({
+    crv: certificate.public_key?.crv,
+    kty: certificate.public_key?.kty,
+    x: certificate.public_key?.x,
+    y: certificate.public_key?.y
+  }));
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      certificate.public_key,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const passed = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      fromBase64Url(signature),
+      new TextEncoder().encode(canonicalJson(unsigned))
+    );
+    checks.push({ name: 'Server signature', passed, detail: passed ? undefined : 'Certificate was modified after signing' });
+  } catch (e) {
+    checks.push({ name: 'Server signature', passed: false, detail: e instanceof Error ? e.message : 'Invalid public key or signature' });
+  }
+
+  // The ledger root below is only as trustworthy as the key that signed it
+  const trustedKeyIds = options.trustedKeyIds ?? [];
+  const trusted = trustedKeyIds.includes(keyId);
+  checks.push({
+    name: SIGNING_KEY_CHECK,
+    passed: trusted,
+    detail: trusted ? undefined : trustedKeyIds.length ? `Unknown key ${keyId.substring(0, 16)}...` : 'No trusted signing keys are configured'
+  });
+
+  const entries = certificate.entries || [];
+  const create = entries[0];
+  checks.push({
+    name: 'Creation entry',
+    passed: !!create && create.operation_type === 'create' && create.data_hash === certificate.data_hash &&
+      create.user_id === certificate.original_creator_id,
+    detail: create ? undefined : 'Certificate has no ledger entries'
+  });
+
+  const foreign = entries.filter(e => e.idea_id !== certificate.idea_id);
+  const outOfOrder = entries.some((e, i) => i > 0 && e.block_number <= entries[i - 1].block_number);
+  checks.push({
+    name: 'Entries belong to this idea',
+    passed: foreign.length === 0 && !outOfOrder,
+    detail: foreign.length ? `Blocks ${foreign.map(e => e.block_number).join(', ')} belong to another idea` : outOfOrder ? 'Entries are not in block order' : undefined
+  });
+
+  const tampered: number[] = [];
+  for (const entry of entries) {
+    if (await blockHash(entry) !== entry.transaction_hash) tampered.push(entry.block_number);
+  }
+  checks.push({
+    name: 'Entry hashes',
+    passed: tampered.length === 0,
+    detail: tampered.length ? `Blocks ${tampered.join(', ')} do not match their hash` : undefined
+  });
+
+  const notIncluded: number[] = [];
+  for (const entry of entries) {
+    const proof = certificate.inclusion?.find(p => p.block_number === entry.block_number);
+    const root = proof && proof.leaf_index < certificate.ledger.size
+      ? await foldMerklePath(entry.transaction_hash, proof.leaf_index, proof.path)
+      : null;
+    if (root !== certificate.ledger.root) notIncluded.push(entry.block_number);
+  }
+  checks.push({
+    name: 'Ledger inclusion',
+    passed: entries.length > 0 && notIncluded.length === 0,
+    detail: notIncluded.length ? `Blocks ${notIncluded.join(', ')} are not in the signed ledger root` : undefined
+  });
+
+  // Transfers record the new owner in metadata.to_owner
+  const lastTransfer = [...entries].reverse().find(e => e.operation_type === 'transfer');
+  const chainOwner = lastTransfer ? lastTransfer.metadata?.to_owner : create?.user_id;
+  checks.push({
+    name: 'Current owner',
+    passed: !!chainOwner && chainOwner === certificate.owner_id,
+    detail: chainOwner === certificate.owner_id ? undefined : 'Owner does not follow from the creation and transfer entries'
+  });
+
+  const valid = checks.every(c => c.passed);
+  const onlyKeyFailed = checks.every(c => c.passed || c.name === SIGNING_KEY_CHECK);
+  return {
+    valid,
+    status: valid ? 'trusted' : options.allowUntrustedKey && onlyKeyFailed ? 'untrusted' : 'invalid',
+    checks,
+    keyId
+  };
+}
@@ -0,0 +1,29 @@
+import { invokeEdgeFunction, type FunctionResponse } from '@/integrations/supabase/functions';
+
+export type PitchDeck = FunctionResponse<'generate-pitch-deck'>['pitch_deck'];
+export type PitchDeckFormat = 'pptx' | 'pdf';
+
+function downloadBase64(filename: string, mimeType: string, base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.style.display = 'none';
+  document.body.appendChild(a); a.click();
+  setTimeout(() => { URL.revokeObjectURL(url); a.remove(); }, 2000);
+}
+
+/**
+ * Build the deck for a saved idea and download it. Counts as one export; plan denials reject with
+ * the FunctionsHttpError, so callers can read them with getEntitlementDenial.
+ */
+export async function downloadPitchDeck(ideaId: string, format: PitchDeckFormat): Promise<PitchDeck> {
+  const { data, error } = await invokeEdgeFunction('generate-pitch-deck', { idea_id: ideaId, format });
+  if (error) throw error;
+  if (!data?.file) throw new Error('The pitch deck file was not generated');
+
+  downloadBase64(data.file.filename, data.file.mime_type, data.file.base64);
+  return data.pitch_deck;
+}
@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LS_KEYS } from '@/lib/storage-keys';
+
+/**
+ * Client side of the referral flow. Codes arriving as `?ref=` are kept until the visitor signs in,
+ * then claimed through the referrals edge function, which decides and credits in one transaction.
+ */
+
+export type ReferralStatus = 'clicked' | 'signed_up' | 'pending' | 'credited' | 'rejected';
+
+export interface Referral {
+  id: string;
+  code: string;
+  referred_user_id: string | null;
+  status: ReferralStatus;
+  reason: string | null;
+  referrer_reward: number;
+  referee_reward: number;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export interface ReferralRewardRules {
+  referrer_reward: number;
+  referee_reward: number;
+  monthly_referrer_cap: number;
+}
+
+export interface ReferralClaimResult {
+  referral_id: string;
+  status: ReferralStatus;
+  reason: string | null;
+  referrer_reward: number;
+  referee_reward: number;
+  already_processed: boolean;
+}
+
+export const REFERRAL_REASON_LABELS: Record<string, string> = {
+  self_referral: 'You cannot refer yourself',
+  self_referral_device: 'Signed up from the referrer\'s own device',
+  already_referred: 'This user was already referred by someone else',
+  existing_account: 'Only new accounts can use a referral code',
+  duplicate_device: 'Another account on this device already claimed a referral',
+  rapid_signups: 'Held for review after many signups in a short time',
+  monthly_cap_reached: 'Monthly referral reward cap reached; your friend still got their credits',
+  review_rejected: 'Rejected after review'
+};
+
+// Stable per-browser id used for duplicate-device detection
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(LS_KEYS.deviceId);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(LS_KEYS.deviceId, deviceId);
+  }
+  return deviceId;
+}
+
+// Remember a `?ref=` code so it survives the sign-up redirect
+export function captureReferralCode(search: string = window.location.search): void {
+  const code = new URLSearchParams(search).get('ref');
+  if (code) localStorage.setItem(LS_KEYS.referralCode, code.trim().toLowerCase());
+}
+
+// 4xx responses that retrying cannot change (unknown code, wrong user); 401/408/429 may succeed later
+function isDefinitiveRejection(error: unknown): boolean {
+  const response = (error as { context?: unknown })?.context;
+  return response instanceof Response
+    && response.status >= 400 && response.status < 500
+    && ![401, 408, 429].includes(response.status);
+}
+
+/**
+ * Claim a stored referral code for the signed-in user. The code is kept when the request fails
+ * transiently so the next sign-in retries (the server is idempotent, so retrying never
+ * double-credits), and dropped once the server rejects it outright.
+ */
+export async function claimStoredReferral(): Promise<ReferralClaimResult | null> {
+  const code = localStorage.getItem(LS_KEYS.referralCode);
+  if (!code) return null;
+
+  const { data, error } = await supabase.functions.invoke('referrals', {
+    body: { code, device_id: getDeviceId() }
+  });
+
+  if (error) {
+    if (isDefinitiveRejection(error)) localStorage.removeItem(LS_KEYS.referralCode);
+    throw error;
+  }
+  if (data?.error) throw new Error(data.error);
+
+  localStorage.removeItem(LS_KEYS.referralCode);
+  return data as ReferralClaimResult;
+}
+
+export async function getReferralRewardRules(): Promise<ReferralRewardRules | null> {
+  const { data, error } = await supabase
+    .from('referral_reward_rules')
+    .select('referrer_reward, referee_reward, monthly_referrer_cap')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getOrCreateReferralCode(userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('referral_codes')
+    .select('code')
+    .eq('referrer_user_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data?.code) return data.code;
+
+  const code = (Math.random().toString(36).slice(2, 8) + userId.slice(0, 4)).toLowerCase();
+  const { error: insertError } = await supabase
+    .from('referral_codes')
+    .insert({ code, referrer_user_id: userId, device_id: getDeviceId() });
+
+  if (insertError) throw insertError;
+  return code;
+}
+
+// Referrals made with the user's codes, newest first (visible through the referrer RLS policy)
+export async function getMyReferrals(userId: string): Promise<Referral[]> {
+  const { data: codes, error: codesError } = await supabase
+    .from('referral_codes')
+    .select('code')
+    .eq('referrer_user_id', userId);
+
+  if (codesError) throw codesError;
+  if (!codes?.length) return [];
+
+  const { data, error } = await supabase
+    .from('referrals')
+    .select('id, code, referred_user_id, status, reason, referrer_reward, referee_reward, created_at, processed_at')
+    .in('code', codes.map(c => c.code))
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Referral[];
+}
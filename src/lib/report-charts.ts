@@ -0,0 +1,117 @@
+import type { ChartData } from '@/lib/data-hub-orchestrator';
+import { parseNumeric } from '@/lib/tile-schemas';
+
+/**
+ * Tile charts for exported reports. Tiles store chart data in several shapes, so chartPoints reads
+ * them into label/value pairs and renderChartImage draws those as a PNG bar chart that both the PDF
+ * and the DOCX renderer can embed.
+ */
+
+export interface ReportChart {
+  title: string;
+  points: Array<{ label: string; value: number }>;
+}
+
+export interface ChartImage {
+  dataUrl: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const MAX_POINTS = 10;
+const LABEL_KEYS = ['name', 'label', 'category', 'segment', 'region', 'x', 'date', 'month', 'period', 'cluster', 'entity', 'text'];
+const VALUE_KEYS = ['value', 'y', 'count', 'volume', 'score', 'share', 'size', 'mentions', 'amount'];
+
+function objectPoint(entry: Record<string, unknown>): ReportChart['points'][number] | null {
+  const labelKey = LABEL_KEYS.find(k => typeof entry[k] === 'string' || typeof entry[k] === 'number')
+    ?? Object.keys(entry).find(k => typeof entry[k] === 'string');
+  const valueKey = VALUE_KEYS.find(k => parseNumeric(entry[k]) !== null)
+    ?? Object.keys(entry).find(k => k !== labelKey && typeof entry[k] === 'number');
+  const value = valueKey ? parseNumeric(entry[valueKey]) : null;
+  return labelKey && value !== null ? { label: String(entry[labelKey]).slice(0, 32), value } : null;
+}
+
+/**
+ * Label/value pairs for a tile chart: `series` (or `data`) of objects, numbers paired with
+ * `labels`, or a first series holding `data` numbers. Returns null when fewer than two points plot.
+ */
+export function chartPoints(chart: ChartData | Record<string, unknown>): ReportChart | null {
+  const source = chart as Record<string, unknown>;
+  const raw = Array.isArray(source.series) && source.series.length ? source.series : source.data;
+  const labels = Array.isArray(source.labels) ? source.labels.map(String) : [];
+  if (!Array.isArray(raw)) return null;
+
+  let points: ReportChart['points'] = [];
+  if (raw.every(v => typeof v === 'number') && labels.length) {
+    points = raw.map((value, i) => ({ label: labels[i] ?? `#${i + 1}`, value }));
+  } else if (raw.length && Array.isArray((raw[0] as Record<string, unknown>)?.data) && labels.length) {
+    const values = (raw[0] as { data: unknown[] }).data;
+    points = values.map((v, i) => ({ label: labels[i] ?? `#${i + 1}`, value: parseNumeric(v) ?? NaN }));
+  } else {
+    points = raw
+      .map(v => (v && typeof v === 'object' ? objectPoint(v as Record<string, unknown>) : null))
+      .filter((p): p is ReportChart['points'][number] => !!p);
+  }
+
+  points = points.filter(p => Number.isFinite(p.value) && p.value >= 0).slice(0, MAX_POINTS);
+  return points.length >= 2 ? { title: String(source.title || 'Chart'), points } : null;
+}
+
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e12) return `${+(value / 1e12).toFixed(1)}T`;
+  if (abs >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${+(value / 1e3).toFixed(1)}K`;
+  return `${+value.toFixed(1)}`;
+}
+
+const ROW_HEIGHT = 34;
+const WIDTH = 1200;
+
+/**
+ * Horizontal bar chart as a PNG, wide enough to stay sharp in print. Returns null outside the browser.
+ */
+export function renderChartImage(chart: ReportChart): ChartImage | null {
+  if (typeof document === 'undefined') return null;
+
+  const height = 70 + chart.points.length * ROW_HEIGHT;
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, height);
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 24px Helvetica, Arial, sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(chart.title.slice(0, 80), 20, 28);
+
+  const labelW = 320;
+  const valueW = 110;
+  const barMax = WIDTH - labelW - valueW - 40;
+  const max = Math.max(...chart.points.map(p => p.value), 1e-9);
+  ctx.font = '20px Helvetica, Arial, sans-serif';
+
+  chart.points.forEach((point, i) => {
+    const y = 60 + i * ROW_HEIGHT;
+    const barW = Math.max(3, (point.value / max) * barMax);
+    ctx.fillStyle = '#374151';
+    ctx.textAlign = 'right';
+    ctx.fillText(point.label, labelW, y + ROW_HEIGHT / 2);
+    ctx.fillStyle = '#4F46E5';
+    ctx.fillRect(labelW + 16, y + 6, barW, ROW_HEIGHT - 12);
+    ctx.fillStyle = '#6B7280';
+    ctx.textAlign = 'left';
+    ctx.fillText(formatCompact(point.value), labelW + 26 + barW, y + ROW_HEIGHT / 2);
+  });
+
+  const dataUrl = canvas.toDataURL('image/png');
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { dataUrl, bytes, width: WIDTH, height };
+}
@@ -0,0 +1,192 @@
+import { strToU8, zipSync } from 'fflate';
+import type { ReportDocument, ReportSection } from '@/lib/export-report';
+import { EMU_PER_INCH, escapeXml, REL, relationships, type Relationship, XML_HEAD } from '@/lib/ooxml';
+import { renderChartImage } from '@/lib/report-charts';
+import { BRAND } from '@/branding';
+
+/**
+ * Writes a ReportDocument as a Word file. The table of contents is a real TOC field (Word fills in
+ * page numbers when the document opens) with pre-rendered entries linking to each section's
+ * bookmark, so it also works in viewers that never update fields.
+ */
+
+const NS = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  `xmlns:r="${REL}"`,
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+].join(' ');
+
+// A4 with one-inch margins leaves a little over six inches of text width
+const IMAGE_WIDTH_IN = 6.2;
+const TWIPS_TEXT_WIDTH = 9026;
+
+const run = (text: string, props = '') =>
+  text.split('\n').map((line, i) => `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${i ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`).join('');
+
+const paragraph = (content: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${content}</w:p>`;
+
+const bookmarkName = (index: number) => `_Section${index + 1}`;
+
+/** Collects media and hyperlink relationships while the body is written. */
+class DocxParts {
+  rels: Relationship[] = [
+    { id: 'rId1', type: `${REL}/styles`, target: 'styles.xml' },
+    { id: 'rId2', type: `${REL}/settings`, target: 'settings.xml' }
+  ];
+  media: Record<string, Uint8Array> = {};
+  private drawingId = 0;
+
+  private nextRelId() {
+    return `rId${this.rels.length + 1}`;
+  }
+
+  hyperlink(url: string, text: string): string {
+    const existing = this.rels.find(r => r.external && r.target === url);
+    const id = existing?.id ?? this.nextRelId();
+    if (!existing) this.rels.push({ id, type: `${REL}/hyperlink`, target: url, external: true });
+    return `<w:hyperlink r:id="${id}">${run(text, '<w:rStyle w:val="Hyperlink"/>')}</w:hyperlink>`;
+  }
+
+  image(bytes: Uint8Array, width: number, height: number): string {
+    const n = ++this.drawingId;
+    const id = this.nextRelId();
+    const name = `chart${n}.png`;
+    this.media[`word/media/${name}`] = bytes;
+    this.rels.push({ id, type: `${REL}/image`, target: `media/${name}` });
+
+    const cx = Math.round(IMAGE_WIDTH_IN * EMU_PER_INCH);
+    const cy = Math.round(cx * (height / width));
+    return '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">'
+      + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${n}" name="Chart ${n}"/>`
+      + '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>'
+      + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>'
+      + `<pic:nvPicPr><pic:cNvPr id="${n}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+      + `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+      + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+      + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+  }
+}
+
+function tableXml(rows: Array<[string, string]>): string {
+  const keyW = Math.round(TWIPS_TEXT_WIDTH * 0.32);
+  const cell = (text: string, width: number, bold: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraph(run(text, bold ? '<w:b/>' : ''), 'TableText')}</w:tc>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="E5E7EB"/>`;
+
+  return '<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>'
+    + `<w:tblBorders>${['top', 'bottom', 'insideH'].map(border).join('')}</w:tblBorders>`
+    + '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/></w:tblCellMar></w:tblPr>'
+    + `<w:tblGrid><w:gridCol w:w="${keyW}"/><w:gridCol w:w="${TWIPS_TEXT_WIDTH - keyW}"/></w:tblGrid>`
+    + rows.map(([key, value]) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cell(key, keyW, true)}${cell(value, TWIPS_TEXT_WIDTH - keyW, false)}</w:tr>`).join('')
+    + '</w:tbl>'
+    + paragraph('');
+}
+
+function sectionXml(section: ReportSection, index: number, report: ReportDocument, parts: DocxParts): string {
+  const bookmark = `<w:bookmarkStart w:id="${index}" w:name="${bookmarkName(index)}"/>${run(section.title)}<w:bookmarkEnd w:id="${index}"/>`;
+  let xml = paragraph(bookmark, 'Heading1');
+  if (section.meta) xml += paragraph(run(section.meta), 'Meta');
+
+  xml += section.paragraphs.map(p => paragraph(run(p))).join('');
+
+  if (section.id === 'citations') {
+    // The appendix links every source; citation numbers match the Sources lines in each section
+    xml += report.citations.map(c => paragraph(
+      run(`[${c.n}] ${c.title}${c.source ? ` (${c.source})` : ''}: `) + parts.hyperlink(c.url, c.url),
+      'ListText'
+    )).join('');
+  } else {
+    xml += (section.list || []).map(item => paragraph(run(`•\t${item}`), 'ListText')).join('');
+  }
+
+  if (section.table?.length) xml += tableXml(section.table);
+
+  for (const chart of section.charts) {
+    const image = renderChartImage(chart);
+    if (image) xml += paragraph(parts.image(image.bytes, image.width, image.height));
+  }
+
+  if (section.citations.length) {
+    xml += paragraph(run(`Sources: ${section.citations.map(n => `[${n}]`).join(' ')}`), 'Meta');
+  }
+  return xml;
+}
+
+function tocXml(report: ReportDocument): string {
+  // The field wraps the pre-rendered entries so Word replaces them, with page numbers, on update
+  const begin = '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-1" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  const entries = report.sections.map((section, i) => paragraph(
+    `${i === 0 ? begin : ''}<w:hyperlink w:anchor="${bookmarkName(i)}" w:history="1">${run(`${i + 1}. ${section.title}`)}</w:hyperlink>`,
+    'TOC1'
+  ));
+  return paragraph(run('Contents'), 'TOCHeading') + entries.join('') + paragraph('<w:r><w:fldChar w:fldCharType="end"/></w:r>');
+}
+
+const STYLES = `${XML_HEAD}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/><w:color w:val="374151"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="200"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/><w:color w:val="111827"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:sz w:val="28"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="60"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="34"/><w:color w:val="111827"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:rPr><w:sz w:val="18"/><w:color w:val="6B7280"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="ListText"><w:name w:val="List Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/><w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs></w:pPr><w:rPr><w:sz w:val="19"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="19"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="34"/><w:color w:val="111827"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="9016"/></w:tabs><w:spacing w:after="80"/></w:pPr></w:style>'
+  + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="4F46E5"/><w:u w:val="single"/></w:rPr></w:style>'
+  + '</w:styles>';
+
+// updateFields makes Word offer to refresh the TOC (and its page numbers) on open
+const SETTINGS = `${XML_HEAD}<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:updateFields w:val="true"/><w:defaultTabStop w:val="720"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`;
+
+export function renderReportDocx(report: ReportDocument): Uint8Array {
+  const parts = new DocxParts();
+
+  const cover = paragraph(run(report.title), 'Title')
+    + paragraph(run(report.subtitle), 'Subtitle')
+    + paragraph(run(`Generated ${new Date(report.generatedAt).toLocaleString()}`), 'Meta')
+    + paragraph('<w:r><w:br w:type="page"/></w:r>');
+
+  const body = report.sections.map((section, i) => sectionXml(section, i, report, parts)).join('');
+
+  const document = `${XML_HEAD}<w:document ${NS}><w:body>${cover}${tocXml(report)}${paragraph('<w:r><w:br w:type="page"/></w:r>')}${body}`
+    + '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>'
+    + '</w:body></w:document>';
+
+  const contentTypes = `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Default Extension="png" ContentType="image/png"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+    + '</Types>';
+
+  const core = `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + `<dc:title>${escapeXml(report.title)}</dc:title><dc:subject>${escapeXml(report.subtitle)}</dc:subject><dc:creator>${BRAND}</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${report.generatedAt.replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>`;
+
+  const app = `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>${BRAND}</Application></Properties>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(relationships([
+      { id: 'rId1', type: `${REL}/officeDocument`, target: 'word/document.xml' },
+      { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+      { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' }
+    ])),
+    'docProps/core.xml': strToU8(core),
+    'docProps/app.xml': strToU8(app),
+    'word/document.xml': strToU8(document),
+    'word/_rels/document.xml.rels': strToU8(relationships(parts.rels)),
+    'word/styles.xml': strToU8(STYLES),
+    'word/settings.xml': strToU8(SETTINGS),
+    ...parts.media
+  }, { level: 6 });
+}
@@ -0,0 +1,191 @@
+import jsPDF from 'jspdf';
+import type { ReportDocument, ReportSection } from '@/lib/export-report';
+import { renderChartImage } from '@/lib/report-charts';
+
+/**
+ * PDF renderer for exported analysis reports: a cover page, a linked table of contents, one
+ * section per ReportSection and page numbers in the footer.
+ */
+
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const MARGIN = 56;
+const CONTENT_W = PAGE_W - 2 * MARGIN;
+const BOTTOM = PAGE_H - MARGIN;
+const LINE_HEIGHT = 1.35;
+const TOC_ROWS_PER_PAGE = 34;
+
+const COLORS = {
+  ink: [17, 24, 39] as const,
+  body: [55, 65, 81] as const,
+  muted: [107, 114, 128] as const,
+  rule: [229, 231, 235] as const,
+  accent: [79, 70, 229] as const
+};
+
+// The built-in PDF fonts only cover Latin-1; map common typography to it and drop the rest
+function latin1(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[•·]/g, '-')
+    .replace(/[^ -ÿ\n]/g, '');
+}
+
+class PdfWriter {
+  doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  y = MARGIN;
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  ensure(height: number) {
+    if (this.y + height > BOTTOM) this.newPage();
+  }
+
+  text(text: string, opts: { size?: number; bold?: boolean; color?: readonly number[]; indent?: number; gap?: number } = {}) {
+    const { size = 10.5, bold = false, color = COLORS.body, indent = 0, gap = 6 } = opts;
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color[0], color[1], color[2]);
+    const lineH = size * LINE_HEIGHT;
+    const lines: string[] = this.doc.splitTextToSize(latin1(text), CONTENT_W - indent);
+    for (const line of lines) {
+      this.ensure(lineH);
+      this.doc.text(line, MARGIN + indent, this.y, { baseline: 'top' });
+      this.y += lineH;
+    }
+    this.y += gap;
+  }
+
+  rule() {
+    this.doc.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+    this.doc.line(MARGIN, this.y, PAGE_W - MARGIN, this.y);
+  }
+
+  table(rows: Array<[string, string]>) {
+    const keyW = CONTENT_W * 0.32;
+    const size = 9.5;
+    const lineH = size * LINE_HEIGHT;
+    this.doc.setFontSize(size);
+
+    for (const [key, value] of rows) {
+      this.doc.setFont('helvetica', 'bold');
+      const keyLines: string[] = this.doc.splitTextToSize(latin1(key), keyW - 8);
+      this.doc.setFont('helvetica', 'normal');
+      const valueLines: string[] = this.doc.splitTextToSize(latin1(value), CONTENT_W - keyW);
+      const rowH = Math.max(keyLines.length, valueLines.length) * lineH + 8;
+
+      // Long values split across pages line by line; short rows move to the next page whole
+      if (rowH < BOTTOM - MARGIN) this.ensure(rowH);
+      this.rule();
+      this.y += 4;
+      this.doc.setTextColor(COLORS.ink[0], COLORS.ink[1], COLORS.ink[2]);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text(keyLines, MARGIN, this.y, { baseline: 'top', lineHeightFactor: LINE_HEIGHT });
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setTextColor(COLORS.body[0], COLORS.body[1], COLORS.body[2]);
+      let rowY = this.y;
+      for (const line of valueLines) {
+        if (rowY + lineH > BOTTOM) {
+          this.newPage();
+          rowY = this.y;
+        }
+        this.doc.text(line, MARGIN + keyW, rowY, { baseline: 'top' });
+        rowY += lineH;
+      }
+      this.y = Math.max(rowY, this.y + keyLines.length * lineH) + 4;
+    }
+    this.rule();
+    this.y += 12;
+  }
+
+  section(section: ReportSection) {
+    this.ensure(80);
+    this.text(section.title, { size: 17, bold: true, color: COLORS.ink, gap: 2 });
+    if (section.meta) this.text(section.meta, { size: 9, color: COLORS.muted, gap: 8 });
+    else this.y += 6;
+
+    section.paragraphs.forEach(p => this.text(p));
+    section.list?.forEach(item => this.text(`- ${item}`, { size: 9.5, indent: 8, gap: 3 }));
+    if (section.list?.length) this.y += 6;
+    if (section.table?.length) this.table(section.table);
+
+    for (const chart of section.charts) {
+      const image = renderChartImage(chart);
+      if (!image) continue;
+      const h = CONTENT_W * (image.height / image.width);
+      this.ensure(h + 12);
+      this.doc.addImage(image.dataUrl, 'PNG', MARGIN, this.y, CONTENT_W, h);
+      this.y += h + 12;
+    }
+
+    if (section.citations.length) {
+      this.text(`Sources: ${section.citations.map(n => `[${n}]`).join(' ')}`, { size: 9, color: COLORS.muted });
+    }
+    this.y += 14;
+  }
+}
+
+export function renderReportPdf(report: ReportDocument): ArrayBuffer {
+  const w = new PdfWriter();
+  const { doc } = w;
+  doc.setProperties({ title: latin1(report.title), creator: report.title });
+
+  // Cover
+  doc.setFillColor(COLORS.accent[0], COLORS.accent[1], COLORS.accent[2]);
+  doc.rect(MARGIN, 250, 60, 4, 'F');
+  w.y = 270;
+  w.text(report.title, { size: 28, bold: true, color: COLORS.ink, gap: 10 });
+  w.text(report.subtitle, { size: 13, color: COLORS.body, gap: 16 });
+  w.text(`Generated ${new Date(report.generatedAt).toLocaleString()}`, { size: 10, color: COLORS.muted });
+
+  // Contents pages are reserved now and filled once section page numbers are known
+  const tocPages = Math.max(1, Math.ceil(report.sections.length / TOC_ROWS_PER_PAGE));
+  for (let i = 0; i < tocPages; i++) w.newPage();
+  const firstTocPage = 2;
+
+  const sectionPages: number[] = [];
+  report.sections.forEach((section, i) => {
+    // Summary, brief, score and appendix each open a page; tile sections run on after one another
+    const isTile = (s?: ReportSection) => !!s?.id.startsWith('tile-');
+    if (!isTile(section) || !isTile(report.sections[i - 1])) w.newPage();
+    sectionPages.push(doc.getNumberOfPages());
+    w.section(section);
+  });
+
+  report.sections.forEach((section, i) => {
+    const page = firstTocPage + Math.floor(i / TOC_ROWS_PER_PAGE);
+    doc.setPage(page);
+    const row = i % TOC_ROWS_PER_PAGE;
+    if (row === 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(17);
+      doc.setTextColor(COLORS.ink[0], COLORS.ink[1], COLORS.ink[2]);
+      doc.text('Contents', MARGIN, MARGIN, { baseline: 'top' });
+    }
+    const y = MARGIN + 40 + row * 20;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.body[0], COLORS.body[1], COLORS.body[2]);
+    doc.text(`${i + 1}. ${latin1(section.title)}`, MARGIN, y, { baseline: 'top' });
+    doc.text(String(sectionPages[i]), PAGE_W - MARGIN, y, { baseline: 'top', align: 'right' });
+    doc.link(MARGIN, y - 2, CONTENT_W, 16, { pageNumber: sectionPages[i] });
+  });
+
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8.5);
+    doc.setTextColor(COLORS.muted[0], COLORS.muted[1], COLORS.muted[2]);
+    doc.text(latin1(report.subtitle).slice(0, 90), MARGIN, PAGE_H - 32);
+    doc.text(`${page} / ${total}`, PAGE_W - MARGIN, PAGE_H - 32, { align: 'right' });
+  }
+
+  return doc.output('arraybuffer');
+}
@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { FunctionName } from "@/integrations/supabase/functions";
 
 // Singleton class to manage all API requests globally
 class GlobalRequestManager {
@@ -87,7 +88,7 @@ class GlobalRequestManager {
 export const globalRequestQueue = GlobalRequestManager.getInstance();
 
 // Wrapper for Supabase function invocations
-export async function invokeSupabaseFunction(functionName: string, body: any) {
+export async function invokeSupabaseFunction(functionName: FunctionName, body: any) {
   return globalRequestQueue.executeRequest(async () => {
     const { data, error } = await supabase.functions.invoke(functionName, { body });
     if (error) throw error;
@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Client for the score-history edge function. Entries mirror supabase/functions/_shared/score-history.ts;
+ * `causes` says whether a change came from an idea edit, new market data or a score model change.
+ */
+
+export type ScoreChangeCause = 'edit' | 'data' | 'model' | 'unexplained';
+
+export interface ScoreHistoryPoint {
+  id: string;
+  idea_id: string;
+  pmf_score: number;
+  score_breakdown: Record<string, number>;
+  factors: Record<string, number>;
+  model_version: string;
+  data_sources: string[];
+  source: 'smoothbrains' | 'compute_pmf';
+  idea_hash: string | null;
+  created_at: string;
+  delta: number | null;
+  causes: ScoreChangeCause[];
+  changed_factors: string[];
+}
+
+// idea_evolution versions on the same timeline
+export interface ScoreHistoryEdit {
+  version_number: number;
+  pmf_score: number | null;
+  created_at: string;
+  restored_from: number | null;
+}
+
+export interface ScoreHistory {
+  history: ScoreHistoryPoint[];
+  edits: ScoreHistoryEdit[];
+}
+
+// Tiles whose metrics feed calculate-smoothbrains-score
+export const SCORE_DATA_TILES = ['market_size', 'competition', 'sentiment'];
+
+export async function fetchScoreHistory(ideaId: string, limit?: number): Promise<ScoreHistory> {
+  const { data, error } = await supabase.functions.invoke('score-history', {
+    body: { operation: 'list', idea_id: ideaId, limit }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load score history');
+
+  return { history: data.history || [], edits: data.edits || [] };
+}
+
+/**
+ * Append a computation; the server recomputes the score from the factors with the given model version
+ */
+export async function recordScoreHistory(params: {
+  ideaId: string;
+  ideaText: string;
+  factors: Record<string, number>;
+  modelVersion?: string;
+  dataSources: string[];
+}): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('score-history', {
+    body: {
+      operation: 'record',
+      idea_id: params.ideaId,
+      idea_text: params.ideaText,
+      factors: params.factors,
+      model_version: params.modelVersion,
+      data_sources: params.dataSources
+    }
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to record score');
+}
@@ -9,7 +9,9 @@ export const LS_KEYS = {
   currentSessionId: 'pmf.session.id',
   returnToChat: 'pmf.ui.returnToChat',
   userIdea: 'pmf.user.idea',
-  userAnswers: 'pmf.user.answers'
+  userAnswers: 'pmf.user.answers',
+  referralCode: 'pmf.referral.code',
+  deviceId: 'pmf.device.id'
 } as const;
 
 // UI feature state keys (add new keys below cautiously to avoid collisions)
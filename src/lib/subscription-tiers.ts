@@ -0,0 +1,106 @@
+// Plans, prices and limits. Enforced server-side by TIER_ENTITLEMENTS in
+// supabase/functions/_shared/entitlements.ts; `npm run check:shared-modules` fails when the two drift.
+export const SUBSCRIPTION_TIERS = {
+  free: {
+    name: '🧠 Free',
+    product_id: null,
+    price_id: null,
+    price: 'Free',
+    features: {
+      ideasPerMonth: 2,
+      aiCreditsPerMonth: 50,
+      refreshInterval: 'manual',
+      exportsPerMonth: 0,
+      seats: 1,
+      projects: 1,
+      basicAnalytics: true,
+      advancedAnalytics: false,
+      aiInsights: false,
+      collaboration: false,
+      marketAnalysis: false,
+      exportData: false,
+      prioritySupport: false,
+      apiAccess: false,
+      batchAnalysis: false,
+      trendForecasting: false,
+      autoRefresh: false
+    }
+  },
+  basic: {
+    name: '🧩 Basic',
+    product_id: 'prod_T7Cs2e5UUZ0eov',
+    price_id: 'price_1SAySTJtb0GRtBUmTWxAeuKJ',
+    price: '$12/month',
+    features: {
+      ideasPerMonth: 10,
+      aiCreditsPerMonth: 500,
+      refreshInterval: '24h',
+      exportsPerMonth: 3,
+      seats: 1,
+      projects: 3,
+      basicAnalytics: true,
+      advancedAnalytics: false,
+      aiInsights: false,
+      collaboration: false,
+      marketAnalysis: true,
+      exportData: true,
+      prioritySupport: false,
+      apiAccess: false,
+      batchAnalysis: false,
+      trendForecasting: false,
+      autoRefresh: true
+    }
+  },
+  pro: {
+    name: '🚀 Pro',
+    product_id: 'prod_T7CsnetIz8NE1N',
+    price_id: 'price_1SAySeJtb0GRtBUmYQ36t8rG',
+    price: '$29/month',
+    features: {
+      ideasPerMonth: -1, // unlimited
+      aiCreditsPerMonth: 3000,
+      refreshInterval: '6h',
+      exportsPerMonth: 20,
+      seats: 3,
+      projects: -1, // unlimited
+      basicAnalytics: true,
+      advancedAnalytics: true,
+      aiInsights: true,
+      collaboration: true,
+      marketAnalysis: true,
+      exportData: true,
+      prioritySupport: true,
+      apiAccess: false,
+      batchAnalysis: true,
+      trendForecasting: true,
+      autoRefresh: true
+    }
+  },
+  enterprise: {
+    name: '🏆 Enterprise',
+    product_id: 'prod_T7CsCuGP8R6RrO',
+    price_id: 'price_1SAySoJtb0GRtBUm7TgSNxQt',
+    price: '$99/month',
+    features: {
+      ideasPerMonth: -1, // unlimited
+      aiCreditsPerMonth: 10000,
+      refreshInterval: '1h',
+      exportsPerMonth: -1, // unlimited
+      seats: 10,
+      projects: -1, // unlimited
+      basicAnalytics: true,
+      advancedAnalytics: true,
+      aiInsights: true,
+      collaboration: true,
+      marketAnalysis: true,
+      exportData: true,
+      prioritySupport: true,
+      apiAccess: true,
+      batchAnalysis: true,
+      trendForecasting: true,
+      autoRefresh: true
+    }
+  }
+} as const;
+
+export type SubscriptionTier = keyof typeof SUBSCRIPTION_TIERS;
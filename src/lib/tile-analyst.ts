@@ -0,0 +1,51 @@
+import { invokeEdgeFunction, type FunctionResponse } from '@/integrations/supabase/functions';
+
+type TileChatResponse = FunctionResponse<'tile-ai-chat'>;
+
+export type TileChatCitations = NonNullable<TileChatResponse['citations']>;
+export type WhatIfScenario = NonNullable<TileChatResponse['what_ifs']>[number];
+export type StoredTileChatMessage = NonNullable<TileChatResponse['messages']>[number];
+
+export interface TileAnalystAnswer {
+  response: string;
+  suggestions: string[];
+  citations: TileChatCitations | null;
+  whatIfs: WhatIfScenario[];
+}
+
+/**
+ * The saved conversation for an idea, oldest first. Conversations are shared by every tile the
+ * chat is opened from, since answers draw on all of the idea's tiles.
+ */
+export async function loadTileChat(idea: string): Promise<StoredTileChatMessage[]> {
+  const { data, error } = await invokeEdgeFunction('tile-ai-chat', { operation: 'history', idea });
+  if (error) throw error;
+  return data?.messages ?? [];
+}
+
+export async function clearTileChat(idea: string): Promise<void> {
+  const { error } = await invokeEdgeFunction('tile-ai-chat', { operation: 'clear', idea });
+  if (error) throw error;
+}
+
+/**
+ * Ask the analyst a question. `tile` is the hub tile the chat was opened from; `tileData` is only
+ * read when the hub has not cached that tile. Plan denials reject with the FunctionsHttpError, so
+ * callers can read them with getEntitlementDenial.
+ */
+export async function askTileAnalyst(request: {
+  idea: string;
+  message: string;
+  tile?: string;
+  tileTitle?: string;
+  tileData?: unknown;
+}): Promise<TileAnalystAnswer> {
+  const { data, error } = await invokeEdgeFunction('tile-ai-chat', { operation: 'ask', ...request });
+  if (error) throw error;
+  return {
+    response: data?.response ?? '',
+    suggestions: data?.suggestions ?? [],
+    citations: data?.citations ?? null,
+    whatIfs: data?.what_ifs ?? [],
+  };
+}
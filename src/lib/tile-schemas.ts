@@ -0,0 +1,286 @@
+// This file is automatically generated by scripts/sync-shared-modules.mjs from
+// supabase/functions/_shared/tile-output-schemas.ts. Do not edit it directly.
+import { z } from 'zod';
+
+/**
+ * Output schemas for TILE_REQUIREMENTS in src/services/groqQueryService.ts. Each tile declares the
+ * fields it needs; a field is required unless wrapped in `.optional()`. Extracted data is validated
+ * field by field so one malformed value does not blank the whole tile, and missingDataPoints lists
+ * the required fields that are absent or invalid.
+ *
+ * Shared by the edge functions (through tile-schemas.ts) and the client: src/lib/tile-schemas.ts is
+ * generated from this file by `npm run generate:shared-modules`, so edit it here.
+ */
+
+export interface TileOutputSchema {
+  fields: Record<string, z.ZodTypeAny>;
+  // Other keys extractors and models use for the same field, e.g. `cagr` for growth_rate
+  aliases?: Record<string, string[]>;
+}
+
+export interface TileValidation {
+  // Input with aliased fields copied to their schema name and invalid fields removed
+  data: Record<string, unknown> | null;
+  missingDataPoints: string[];
+  issues: string[];
+  repaired: string[];
+}
+
+const SCALES: Record<string, number> = {
+  trillion: 1e12, t: 1e12,
+  billion: 1e9, bn: 1e9, b: 1e9,
+  million: 1e6, mm: 1e6, m: 1e6,
+  thousand: 1e3, k: 1e3
+};
+
+// Reads numbers written the way models and APIs write them: 4500000, "4.5M", "$10.5 billion", "15%"
+export function parseNumeric(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*(trillion|billion|million|thousand|bn|mm|[tbmk])?\b/i);
+  if (!match) return null;
+  return parseFloat(match[1]) * (SCALES[(match[2] || '').toLowerCase()] ?? 1);
+}
+
+const numeric = (min: number, max: number, description: string) =>
+  z.custom<number | string>(value => {
+    const n = parseNumeric(value);
+    return n !== null && n >= min && n <= max;
+  }, { message: `expected ${description}` }).describe(description);
+
+const money = () => numeric(0, 1e15, 'USD amount, e.g. 4500000000 or "$4.5B"');
+const percent = () => numeric(-100, 1000, 'percentage, e.g. 12.5 or "12.5%"');
+const score = (max = 100) => numeric(0, max, `score from 0 to ${max}`);
+const count = () => numeric(0, 1e12, 'non-negative count');
+const text = () => z.string().trim().min(1).describe('short text');
+const choice = (values: string[]) =>
+  z.custom<string>(value => typeof value === 'string' && values.includes(value.trim().toLowerCase()), {
+    message: `expected one of ${values.join(', ')}`
+  }).describe(`one of ${values.join(' | ')}`);
+const list = (item: z.ZodTypeAny = z.union([text(), z.record(z.unknown())])) =>
+  z.array(item).min(1).describe('non-empty list');
+const record = () =>
+  z.record(z.unknown()).refine(value => Object.keys(value).length > 0, { message: 'expected a non-empty object' }).describe('object');
+
+export const TILE_OUTPUT_SCHEMAS: Record<string, TileOutputSchema> = {
+  market_size: {
+    fields: {
+      tam: money(),
+      sam: money(),
+      som: money(),
+      growth_rate: percent(),
+      market_maturity: choice(['emerging', 'growth', 'mature', 'declining']).optional(),
+      competitive_density: z.union([choice(['low', 'moderate', 'medium', 'high']), score(10)]).optional()
+    },
+    aliases: {
+      growth_rate: ['cagr', 'growthRate'],
+      market_maturity: ['maturity'],
+      competitive_density: ['competitiveDensity', 'competition_level']
+    }
+  },
+  sentiment: {
+    fields: {
+      sentiment_score: score(),
+      user_opinions: list().optional(),
+      engagement_metrics: z.union([record(), count()]).optional()
+    },
+    aliases: {
+      sentiment_score: ['score', 'sentimentScore'],
+      user_opinions: ['opinions', 'themes', 'key_opinions'],
+      engagement_metrics: ['engagement', 'mentions']
+    }
+  },
+  'market-trends': {
+    fields: {
+      trend_analysis: list(),
+      growth_indicators: z.union([percent(), list(), record()]),
+      market_drivers: list(),
+      emerging_technologies: list().optional()
+    },
+    aliases: {
+      trend_analysis: ['trends'],
+      growth_indicators: ['growthRate', 'growth_rate'],
+      market_drivers: ['drivers'],
+      emerging_technologies: ['emergingTech']
+    }
+  },
+  competition: {
+    fields: {
+      competitors_list: list(),
+      market_leaders: list().optional(),
+      differentiators: list().optional()
+    },
+    aliases: {
+      competitors_list: ['topCompetitors', 'competitors'],
+      market_leaders: ['leaders'],
+      differentiators: ['differentiation']
+    }
+  },
+  news_analysis: {
+    fields: {
+      article_clusters: list(z.record(z.unknown())),
+      sentiment_trends: z.union([record(), list()]),
+      volume_timeline: z.union([list(), record()]).optional(),
+      geo_distribution: record().optional(),
+      entity_mentions: list().optional()
+    },
+    aliases: {
+      article_clusters: ['news_trends', 'clusters'],
+      sentiment_trends: ['overall_sentiment', 'sentiment'],
+      volume_timeline: ['timeline'],
+      entity_mentions: ['entities']
+    }
+  },
+  google_trends: {
+    fields: {
+      interest_score: score(),
+      search_volume: count().optional(),
+      trending_topics: list().optional(),
+      related_queries: list().optional(),
+      trend_direction: text()
+    },
+    aliases: {
+      interest_score: ['interest'],
+      search_volume: ['searchVolume'],
+      trending_topics: ['trendingTopics', 'trendingKeywords'],
+      related_queries: ['relatedQueries', 'relatedSearches'],
+      trend_direction: ['trend', 'direction']
+    }
+  },
+  pmf_score: {
+    fields: {
+      wrinkle_points: count().optional(),
+      market_size: money(),
+      sentiment_score: score(),
+      competition_level: z.union([score(10), choice(['low', 'moderate', 'medium', 'high'])]),
+      pmf_indicators: z.union([score(), list()]),
+      execution_viability: z.union([score(), text()]).optional()
+    },
+    aliases: {
+      wrinkle_points: ['wrinklePoints'],
+      market_size: ['marketSize', 'tam'],
+      sentiment_score: ['sentimentScore'],
+      competition_level: ['competitionLevel'],
+      pmf_indicators: ['pmfIndicators'],
+      execution_viability: ['executionViability']
+    }
+  },
+  engagement: {
+    fields: {
+      active_users: count(),
+      engagement_rate: percent(),
+      peak_hours: list().optional()
+    },
+    aliases: {
+      active_users: ['activeUsers', 'users'],
+      engagement_rate: ['engagementRate'],
+      peak_hours: ['peakHours']
+    }
+  },
+  financial: {
+    fields: {
+      cac: money(),
+      ltv: money(),
+      payback_period: z.union([count(), text()]).optional(),
+      revenue_model: z.union([text(), list()])
+    },
+    aliases: {
+      cac: ['CAC', 'customer_acquisition_cost'],
+      ltv: ['LTV', 'lifetime_value'],
+      payback_period: ['paybackPeriod'],
+      revenue_model: ['revenueModel', 'revenue_models']
+    }
+  },
+  'launch-timeline': {
+    fields: {
+      milestones: list(),
+      timeline: z.union([list(), record(), text()]),
+      critical_path: list().optional()
+    },
+    aliases: {
+      timeline: ['phases'],
+      critical_path: ['criticalPath']
+    }
+  },
+  'quick-poll': {
+    fields: {
+      poll_results: z.union([list(), record()]),
+      vote_distribution: record().optional()
+    },
+    aliases: {
+      poll_results: ['results'],
+      vote_distribution: ['votes', 'distribution']
+    }
+  }
+};
+
+export function schemaDataPoints(schema: TileOutputSchema): string[] {
+  return Object.keys(schema.fields);
+}
+
+export function requiredDataPoints(schema: TileOutputSchema): string[] {
+  return Object.entries(schema.fields).filter(([, field]) => !field.isOptional()).map(([name]) => name);
+}
+
+const PLACEHOLDER = /^(n\/?a|unknown|tbd|none|null|not available|-+)$/i;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && (!value.trim() || PLACEHOLDER.test(value.trim())));
+
+/**
+ * Validate extracted tile data against its schema. Repairs what can be repaired without guessing:
+ * aliased keys are copied to the schema name and comma-separated strings become lists.
+ */
+export function validateTileOutput(schema: TileOutputSchema, raw: unknown): TileValidation {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { data: null, missingDataPoints: requiredDataPoints(schema), issues: ['response is not an object'], repaired: [] };
+  }
+
+  const data: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+  const missingDataPoints: string[] = [];
+  const issues: string[] = [];
+  const repaired: string[] = [];
+
+  for (const [name, field] of Object.entries(schema.fields)) {
+    let value = data[name];
+
+    if (isEmpty(value)) {
+      const alias = schema.aliases?.[name]?.find(key => !isEmpty(data[key]));
+      if (alias) {
+        value = data[alias];
+        repaired.push(`${name} from ${alias}`);
+      }
+    }
+
+    if (isEmpty(value)) {
+      delete data[name];
+      if (!field.isOptional()) missingDataPoints.push(name);
+      continue;
+    }
+
+    let result = field.safeParse(value);
+    if (!result.success && typeof value === 'string' && value.includes(',')) {
+      const split = value.split(',').map(part => part.trim()).filter(Boolean);
+      const retried = field.safeParse(split);
+      if (retried.success) {
+        result = retried;
+        value = split;
+        repaired.push(`${name} split into a list`);
+      }
+    }
+
+    if (result.success) {
+      data[name] = value;
+    } else {
+      delete data[name];
+      issues.push(`${name}: ${result.error.issues[0]?.message || 'invalid value'}`);
+      if (!field.isOptional()) missingDataPoints.push(name);
+    }
+  }
+
+  return { data, missingDataPoints, issues, repaired };
+}
+
+export function formatDataPoint(name: string): string {
+  return name.replace(/[_-]+/g, ' ');
+}
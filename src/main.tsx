@@ -8,6 +8,7 @@ import { installAPIInterceptor } from '@/lib/api-interceptor';
 import { globalRequestQueue } from '@/lib/request-queue';
 import { warmRouteChunks } from '@/lib/route-prefetch';
 import { runMigrations } from '@/lib/migration';
+import { captureReferralCode } from '@/lib/referrals';
 
 // Install API interceptor to track all Supabase function calls
 installAPIInterceptor(supabase);
@@ -18,6 +19,9 @@ globalRequestQueue.setMinDelay(300);
 // Run migrations to cleanup old localStorage keys
 runMigrations();
 
+// Keep ?ref= codes until the visitor signs in and the referral can be claimed
+captureReferralCode();
+
 // Warm up lazy route chunks after idle to speed up first navigation
 if (typeof window !== 'undefined') {
   const idle = (cb: () => void) =>
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useLockedIdea } from '@/hooks/useLockedIdea';
 import { usePMF } from '@/hooks/usePMF';
 import { useLedger } from '@/hooks/useLedger';
+import { useScoreHistory } from '@/hooks/useScoreHistory';
+import { useSession } from '@/contexts/SimpleSessionContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Brain, Sparkles, RefreshCw } from 'lucide-react';
@@ -19,6 +21,9 @@ export default function AIInsights() {
   const [ideaId, setIdeaId] = useState<string>('');
   const { currentScore, scoreHistory, actions, loading, computePMF } = usePMF(ideaId);
   const { createOwnership, getOwnershipProof } = useLedger();
+  // Dashboard scores and idea edits are tracked per brainstorming session
+  const { currentSession } = useSession();
+  const { history: sessionScoreHistory, edits: ideaEdits } = useScoreHistory(currentSession?.id);
   const { toast } = useToast();
   const [calculating, setCalculating] = useState(false);
 
@@ -213,14 +218,18 @@ export default function AIInsights() {
           />
 
           {/* Score History Chart */}
-          {scoreHistory && scoreHistory.length > 0 && (
+          {(sessionScoreHistory.length > 0 || scoreHistory?.length > 0) && (
             <Card>
               <CardHeader>
                 <CardTitle>Score Trends</CardTitle>
-                <CardDescription>Track your PMF score evolution over time</CardDescription>
+                <CardDescription>
+                  Track your PMF score evolution over time. Hover a point to see whether it moved because of an idea edit, new market data or a scoring model change.
+                </CardDescription>
               </CardHeader>
               <CardContent>
-                <ScoreHistoryChart history={scoreHistory} />
+                {sessionScoreHistory.length > 0
+                  ? <ScoreHistoryChart history={sessionScoreHistory} edits={ideaEdits} />
+                  : <ScoreHistoryChart history={scoreHistory} />}
               </CardContent>
             </Card>
           )}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef, lazy, Suspense } from "react";
 import { useDataHubWrapper } from "@/hooks/useDataHubWrapper";
+import { useReportExport } from "@/hooks/useReportExport";
 import { useAuth } from "@/contexts/EnhancedAuthContext";
 import { useSession } from "@/contexts/SimpleSessionContext";
 import { useDataMode } from "@/contexts/DataModeContext";
@@ -18,6 +19,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Brain, RefreshCw, LayoutGrid, Eye, Database, Sparkles, MessageSquare, ChevronDown, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { DashboardLoadingState } from "@/components/hub/DashboardLoadingState";
+import { ReportExportMenu } from "@/components/hub/ReportExportMenu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { 
@@ -234,6 +236,21 @@ export default function Dashboard() {
 
   const { indices, tiles, loading, error, refresh, refreshTile, lastFetchTime, loadingTasks } = dataHub;
 
+  const reportExport = useReportExport({
+    idea: currentIdea,
+    sessionName,
+    conversationSummary,
+    tiles,
+    indices,
+    lastFetchTime,
+    restoreSnapshot: dataHub.restoreSnapshot,
+    onImported: (bundle) => {
+      setCurrentIdea(bundle.idea);
+      setConversationSummary(bundle.conversationSummary || "");
+      setSessionName(bundle.sessionName || "");
+    }
+  });
+
   // Restore cache on mount
   useEffect(() => {
     const restoreCache = async () => {
@@ -583,6 +600,11 @@ export default function Dashboard() {
                   Updated: {new Date(lastFetchTime).toLocaleTimeString()}
                 </span>
               )}
+              <ReportExportMenu
+                onExport={reportExport.exportAs}
+                onImport={reportExport.importBundle}
+                exporting={reportExport.exporting}
+              />
               <CacheClearButton />
             </div>
           </div>
@@ -746,6 +768,7 @@ export default function Dashboard() {
         onOpenChange={setEvidenceOpen}
         evidenceStore={indices?.EVIDENCE_STORE || []}
         providerLog={indices?.PROVIDER_LOG || []}
+        tiles={tiles}
       />
     </div>
   );
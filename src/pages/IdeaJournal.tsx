@@ -20,13 +20,15 @@ import {
   Sparkles,
   ChartBar,
   TrendingUp,
-  Trophy
+  Trophy,
+  History
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { UserMenu } from '@/components/UserMenu';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { supabase } from '@/integrations/supabase/client';
 import IdeasLeaderboard from '@/components/social/IdeasLeaderboard';
+import IdeaHistory from '@/components/journal/IdeaHistory';
 
 interface AnalysisSession {
   id: string;
@@ -208,11 +210,15 @@ const IdeaJournal = () => {
 
       <div className="container mx-auto px-6 py-8 max-w-6xl">
         <Tabs defaultValue="sessions" className="w-full">
-          <TabsList className="grid w-full max-w-md mx-auto grid-cols-2 mb-8">
+          <TabsList className="grid w-full max-w-md mx-auto grid-cols-3 mb-8">
             <TabsTrigger value="sessions" className="gap-2">
               <MessageSquare className="h-4 w-4" />
               My Sessions
             </TabsTrigger>
+            <TabsTrigger value="history" className="gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
             <TabsTrigger value="leaderboard" className="gap-2">
               <Trophy className="h-4 w-4" />
               Leaderboard
@@ -456,6 +462,10 @@ const IdeaJournal = () => {
           )}
           </TabsContent>
 
+          <TabsContent value="history">
+            <IdeaHistory sessions={sessions} />
+          </TabsContent>
+
           <TabsContent value="leaderboard">
             <IdeasLeaderboard />
           </TabsContent>
@@ -21,6 +21,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useLedger } from '@/hooks/useLedger';
 import { formatDistanceToNow } from 'date-fns';
+import { PitchDeckExportMenu } from '@/components/share/PitchDeckExportMenu';
 
 interface OwnedIdea {
   id: string;
@@ -286,7 +287,7 @@ export default function OwnedIdeas() {
                       </div>
                     </div>
 
-                    <div className="flex gap-2 pt-2">
+                    <div className="flex flex-wrap gap-2 pt-2">
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -322,6 +323,7 @@ export default function OwnedIdeas() {
                           </>
                         )}
                       </Button>
+                      <PitchDeckExportMenu ideaId={idea.id} />
                     </div>
                   </CardContent>
                 </Card>
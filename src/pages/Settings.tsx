@@ -20,6 +20,7 @@ import { Loader2, User, CreditCard, Bell, Shield, Globe, Building, MapPin, Link,
 import { format } from "date-fns";
 
 import { UserMenu } from "@/components/UserMenu";
+import { CreditStatement } from "@/components/subscription/CreditStatement";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 
 interface ProfileData {
@@ -577,6 +578,8 @@ export default function Settings() {
                 </Button>
               </CardFooter>
             </Card>
+
+            <CreditStatement />
           </TabsContent>
 
           <TabsContent value="notifications" className="space-y-6">
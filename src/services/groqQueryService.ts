@@ -1,28 +1,39 @@
 import { CachedApiResponse } from '@/lib/cache/unifiedResponseCache';
 import { supabase } from '@/integrations/supabase/client';
+import { buildMetricProvenance } from '@/lib/evidence-graph';
+import type { MetricProvenance } from '@/lib/data-hub-orchestrator';
+import { TILE_OUTPUT_SCHEMAS, TileOutputSchema, TileValidation, schemaDataPoints, validateTileOutput } from '@/lib/tile-schemas';
 
 export interface TileDataRequirements {
   primarySources: string[];
   fallbackSources: string[];
+  // Field names of outputSchema, sent to the extraction prompts
   dataPoints: string[];
   freshnessHours: number;
   groqQuery: string;
+  outputSchema: TileOutputSchema;
   localExtractor?: (data: any) => any;
 }
 
 export interface ExtractionResult {
   data: any;
   confidence: number;
+  // Required outputSchema fields that are absent or failed validation
   missingDataPoints: string[];
+  // Validation messages for fields that were present but malformed
+  issues?: string[];
   sourceResponseIds: string[];
   fromCache: boolean;
+  // Per-metric evidence ids, extraction method and confidence
+  provenance?: Record<string, MetricProvenance>;
 }
 
 export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   market_size: {
     primarySources: ['market-size-analysis', 'market-intelligence', 'competitive-landscape'],
     fallbackSources: ['web-search-optimized', 'serper-batch-search', 'gdelt-news'],
-    dataPoints: ['tam', 'sam', 'som', 'growth_rate', 'market_maturity', 'competitive_density'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.market_size),
+    outputSchema: TILE_OUTPUT_SCHEMAS.market_size,
     freshnessHours: 12,
     groqQuery: `
       Extract comprehensive market size data including:
@@ -83,7 +94,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   sentiment: {
     primarySources: ['social-sentiment', 'reddit-sentiment', 'twitter-search'],
     fallbackSources: ['web-search', 'gdelt-news'],
-    dataPoints: ['sentiment_score', 'user_opinions', 'engagement_metrics'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.sentiment),
+    outputSchema: TILE_OUTPUT_SCHEMAS.sentiment,
     freshnessHours: 1,
     groqQuery: `
       Extract sentiment data including:
@@ -155,7 +167,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   'market-trends': {
     primarySources: ['market-insights', 'gdelt-news', 'web-search-optimized'],
     fallbackSources: ['serper-batch-search', 'youtube-search', 'web-search'],
-    dataPoints: ['trend_analysis', 'growth_indicators', 'market_drivers', 'emerging_technologies'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS['market-trends']),
+    outputSchema: TILE_OUTPUT_SCHEMAS['market-trends'],
     freshnessHours: 4,
     groqQuery: `
       Extract comprehensive market trends including:
@@ -241,7 +254,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   competition: {
     primarySources: ['competitive-landscape', 'competition-chat', 'serper-batch-search'],
     fallbackSources: ['web-search', 'gdelt-news'],
-    dataPoints: ['competitors_list', 'market_leaders', 'differentiators'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.competition),
+    outputSchema: TILE_OUTPUT_SCHEMAS.competition,
     freshnessHours: 48,
     groqQuery: `
       Extract competition data including:
@@ -269,7 +283,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   news_analysis: {
     primarySources: ['gdelt-news', 'serper-batch-search', 'web-search-optimized', 'news-analysis'],
     fallbackSources: ['web-search', 'brave-search'],
-    dataPoints: ['article_clusters', 'sentiment_trends', 'volume_timeline', 'geo_distribution', 'entity_mentions'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.news_analysis),
+    outputSchema: TILE_OUTPUT_SCHEMAS.news_analysis,
     freshnessHours: 6,
     groqQuery: `
       Extract comprehensive news analysis including:
@@ -332,7 +347,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   google_trends: {
     primarySources: ['serper-batch-search', 'web-search-optimized', 'groq-data-extraction'],
     fallbackSources: ['web-search', 'gdelt-news'],
-    dataPoints: ['interest_score', 'search_volume', 'trending_topics', 'related_queries', 'trend_direction'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.google_trends),
+    outputSchema: TILE_OUTPUT_SCHEMAS.google_trends,
     freshnessHours: 24,
     groqQuery: `
       Extract Google Trends data including:
@@ -399,7 +415,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   pmf_score: {
     primarySources: ['calculate-smoothbrains-score', 'market-size-analysis', 'reddit-sentiment'],
     fallbackSources: ['web-search-optimized', 'competition-chat', 'user-engagement'],
-    dataPoints: ['wrinkle_points', 'market_size', 'sentiment_score', 'competition_level', 'pmf_indicators', 'execution_viability'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.pmf_score),
+    outputSchema: TILE_OUTPUT_SCHEMAS.pmf_score,
     freshnessHours: 6,
     groqQuery: `
       Extract comprehensive PMF and SmoothBrains score data including:
@@ -449,7 +466,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   engagement: {
     primarySources: ['user-engagement', 'reddit-sentiment'],
     fallbackSources: ['twitter-search', 'youtube-search'],
-    dataPoints: ['active_users', 'engagement_rate', 'peak_hours'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.engagement),
+    outputSchema: TILE_OUTPUT_SCHEMAS.engagement,
     freshnessHours: 2,
     groqQuery: `
       Extract engagement data including:
@@ -462,7 +480,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   financial: {
     primarySources: ['financial-analysis', 'web-search-profitability'],
     fallbackSources: ['market-insights', 'serper-batch-search'],
-    dataPoints: ['cac', 'ltv', 'payback_period', 'revenue_model'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS.financial),
+    outputSchema: TILE_OUTPUT_SCHEMAS.financial,
     freshnessHours: 72,
     groqQuery: `
       Extract financial data including:
@@ -476,7 +495,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   'launch-timeline': {
     primarySources: ['launch-timeline', 'execution-insights'],
     fallbackSources: ['web-search', 'market-insights'],
-    dataPoints: ['milestones', 'timeline', 'critical_path'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS['launch-timeline']),
+    outputSchema: TILE_OUTPUT_SCHEMAS['launch-timeline'],
     freshnessHours: 168,
     groqQuery: `
       Extract timeline data including:
@@ -489,7 +509,8 @@ export const TILE_REQUIREMENTS: Record<string, TileDataRequirements> = {
   'quick-poll': {
     primarySources: ['reddit-sentiment', 'twitter-search'],
     fallbackSources: ['youtube-search'],
-    dataPoints: ['poll_results', 'vote_distribution'],
+    dataPoints: schemaDataPoints(TILE_OUTPUT_SCHEMAS['quick-poll']),
+    outputSchema: TILE_OUTPUT_SCHEMAS['quick-poll'],
     freshnessHours: 1,
     groqQuery: `
       Extract polling data including:
@@ -635,38 +656,29 @@ export class GroqQueryService {
       return null;
     }
     
-    // Try primary sources first
-    for (const source of requirements.primarySources) {
-      const sourceResponses = responses.filter(r => r.source === source);
-      
-      for (const response of sourceResponses) {
-        const extracted = requirements.localExtractor(response.rawResponse);
-        if (extracted) {
-          return {
-            data: extracted,
-            confidence: 0.8,
-            missingDataPoints: [],
-            sourceResponseIds: [response.id],
-            fromCache: true
-          };
-        }
-      }
-    }
+    // Try primary sources first, then fallback sources at lower confidence
+    const passes: Array<[string[], number]> = [
+      [requirements.primarySources, 0.8],
+      [requirements.fallbackSources, 0.6]
+    ];
     
-    // Try fallback sources
-    for (const source of requirements.fallbackSources) {
-      const sourceResponses = responses.filter(r => r.source === source);
-      
-      for (const response of sourceResponses) {
-        const extracted = requirements.localExtractor(response.rawResponse);
-        if (extracted) {
-          return {
-            data: extracted,
-            confidence: 0.6,
-            missingDataPoints: this.identifyMissingPoints(extracted, requirements.dataPoints),
-            sourceResponseIds: [response.id],
-            fromCache: true
-          };
+    for (const [sources, confidence] of passes) {
+      for (const source of sources) {
+        const sourceResponses = responses.filter(r => r.source === source);
+        
+        for (const response of sourceResponses) {
+          const validation = validateTileOutput(requirements.outputSchema, requirements.localExtractor(response.rawResponse));
+          if (validation.data) {
+            return {
+              data: validation.data,
+              confidence,
+              missingDataPoints: validation.missingDataPoints,
+              issues: validation.issues,
+              sourceResponseIds: [response.id],
+              fromCache: true,
+              provenance: buildMetricProvenance(validation.data, [response], 'regex', confidence)
+            };
+          }
         }
       }
     }
@@ -674,11 +686,19 @@ export class GroqQueryService {
     return null;
   }
   
+  // Fewer valid required fields, lower confidence
+  private schemaConfidence(validation: TileValidation): number {
+    if (!validation.data) return 0;
+    return validation.missingDataPoints.length === 0 ? 0.9 : Math.max(0.3, 0.7 - validation.missingDataPoints.length * 0.1);
+  }
+  
   private async extractWithEnhancedGroq(
     responses: CachedApiResponse[],
     requirements: TileDataRequirements,
     tileType: string
   ): Promise<ExtractionResult> {
+    let enhanced: ExtractionResult | null = null;
+    
     try {
       // Prepare responses in the format groq-synthesis expects
       const webSearchData = responses
@@ -695,6 +715,7 @@ export class GroqQueryService {
       
       const { data, error } = await supabase.functions.invoke('groq-synthesis', {
         body: {
+          tileType,
           prompt: `Extract structured data for ${tileType} tile.
           
           Required data points: ${requirements.dataPoints.join(', ')}
@@ -702,7 +723,6 @@ export class GroqQueryService {
           Extraction instructions:
           ${requirements.groqQuery}
           
-          Return a JSON object with the extracted data matching the required data points.
           Be specific and extract actual values, not generic placeholders.`,
           responseFormat: 'json',
           webSearchData: webSearchData.length > 0 ? webSearchData : undefined,
@@ -712,25 +732,33 @@ export class GroqQueryService {
       });
       
       if (!error && data?.result) {
-        const extractedData = data.result;
-        const missingPoints = requirements.dataPoints.filter(
-          point => !extractedData[point] || extractedData[point] === null
-        );
-        
-        return {
-          data: extractedData,
-          confidence: missingPoints.length === 0 ? 0.9 : 0.7 - (missingPoints.length * 0.1),
-          missingDataPoints: missingPoints,
-          sourceResponseIds: responses.slice(0, 5).map(r => r.id || ''),
-          fromCache: true
-        };
+        // The server already validated and repaired; validate again rather than trust the wire
+        const validation = validateTileOutput(requirements.outputSchema, data.result);
+        if (validation.data) {
+          const confidence = this.schemaConfidence(validation);
+          enhanced = {
+            data: validation.data,
+            confidence,
+            missingDataPoints: validation.missingDataPoints,
+            issues: validation.issues,
+            // Every response was sent to groq-synthesis, so every one is evidence for the result
+            sourceResponseIds: responses.map(r => r.id).filter(Boolean),
+            fromCache: true,
+            provenance: buildMetricProvenance(validation.data, responses, 'llm', confidence)
+          };
+          if (validation.missingDataPoints.length === 0) return enhanced;
+        }
       }
     } catch (error) {
       console.error('Enhanced Groq extraction failed:', error);
     }
     
-    // Fallback to the original extractWithGroq method
-    return this.extractWithGroq(responses, requirements, tileType);
+    // Retry incomplete or failed extractions with groq-data-extraction and keep the more complete result
+    const retried = await this.extractWithGroq(responses, requirements, tileType);
+    if (enhanced && (!retried.data || enhanced.missingDataPoints.length <= retried.missingDataPoints.length)) {
+      return enhanced;
+    }
+    return retried;
   }
   
   private async extractWithGroq(
@@ -747,7 +775,7 @@ export class GroqQueryService {
       return {
         data: null,
         confidence: 0,
-        missingDataPoints: requirements.dataPoints,
+        missingDataPoints: validateTileOutput(requirements.outputSchema, null).missingDataPoints,
         sourceResponseIds: [],
         fromCache: false
       };
@@ -779,48 +807,34 @@ export class GroqQueryService {
         console.log('[GroqQueryService] Normalized top-level extraction for tile:', tileType);
       }
       
+      const validation = validateTileOutput(requirements.outputSchema, extraction);
+      const confidence = Math.min(payload.confidence ?? 0.7, this.schemaConfidence(validation));
       return {
-        data: extraction,
-        confidence: payload.confidence ?? extraction.confidence ?? 0.7,
-        missingDataPoints: this.identifyMissingPoints(
-          extraction,
-          requirements.dataPoints
-        ),
+        data: validation.data,
+        confidence,
+        missingDataPoints: validation.missingDataPoints,
+        issues: validation.issues,
         sourceResponseIds: relevantResponses.map(r => r.id),
-        fromCache: true
+        fromCache: true,
+        provenance: validation.data ? buildMetricProvenance(validation.data, relevantResponses, 'llm', confidence) : undefined
       };
     } catch (error) {
       console.error('Groq extraction failed:', error);
       
       // Fallback to extracted insights if available
-      const extractedInsights = this.mergeExtractedInsights(relevantResponses, tileType);
+      const validation = validateTileOutput(requirements.outputSchema, this.mergeExtractedInsights(relevantResponses, tileType));
       
       return {
-        data: extractedInsights,
-        confidence: extractedInsights ? 0.5 : 0,
-        missingDataPoints: requirements.dataPoints,
+        data: validation.data,
+        confidence: validation.data ? 0.5 : 0,
+        missingDataPoints: validation.missingDataPoints,
+        issues: validation.issues,
         sourceResponseIds: relevantResponses.map(r => r.id),
         fromCache: true
       };
     }
   }
   
-  private identifyMissingPoints(data: any, requiredPoints: string[]): string[] {
-    if (!data) return requiredPoints;
-    
-    const missing: string[] = [];
-    const dataStr = JSON.stringify(data).toLowerCase();
-    
-    for (const point of requiredPoints) {
-      const searchKey = point.replace(/_/g, ' ').toLowerCase();
-      if (!dataStr.includes(searchKey)) {
-        missing.push(point);
-      }
-    }
-    
-    return missing;
-  }
-  
   private mergeExtractedInsights(responses: CachedApiResponse[], tileType: string): any {
     const insights: any = {};
     
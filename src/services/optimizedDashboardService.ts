@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { sanitizeTileData } from '@/utils/dataFormatting';
 import { CircuitBreaker, createTileCircuitBreaker } from '@/lib/circuit-breaker';
 import { toast } from 'sonner';
+import type { MetricProvenance } from '@/lib/data-hub-orchestrator';
 
 export interface OptimizedTileData {
   metrics: any[];
@@ -17,6 +18,10 @@ export interface OptimizedTileData {
   confidence: number;
   // Preserve original structured payload for tiles like market_trends
   data?: any;
+  // Evidence behind each extracted metric, keyed by metric name
+  provenance?: Record<string, MetricProvenance>;
+  // Required schema fields the extraction could not fill; non-empty means the tile is partial
+  missingDataPoints?: string[];
 }
 
 export class OptimizedDashboardService {
@@ -174,7 +179,9 @@ export class OptimizedDashboardService {
         return this.formatTileData(extractionResult.data, {
           fromCache: true,
           confidence: extractionResult.confidence,
-          sourceIds: extractionResult.sourceResponseIds
+          sourceIds: extractionResult.sourceResponseIds,
+          provenance: extractionResult.provenance,
+          missingDataPoints: extractionResult.missingDataPoints
         });
       }
       
@@ -212,7 +219,9 @@ export class OptimizedDashboardService {
       return this.formatTileData(aggregatedData.data, {
         fromCache: newData.length === 0,
         confidence: aggregatedData.confidence,
-        sourceIds: aggregatedData.sourceIds
+        sourceIds: aggregatedData.sourceIds,
+        provenance: aggregatedData.provenance,
+        missingDataPoints: aggregatedData.missingDataPoints
       });
       
     } catch (error) {
@@ -302,7 +311,7 @@ export class OptimizedDashboardService {
   private async aggregateDataFromSources(
     tileType: string, 
     responses: any[]
-  ): Promise<{ data: any; confidence: number; sourceIds: string[] }> {
+  ): Promise<{ data: any; confidence: number; sourceIds: string[]; provenance?: Record<string, MetricProvenance>; missingDataPoints?: string[] }> {
     console.log(`[OptimizedDashboard] Aggregating ${responses.length} responses for ${tileType}`);
     
     // Use Groq to intelligently aggregate data from multiple sources
@@ -317,7 +326,9 @@ export class OptimizedDashboardService {
       return {
         data: aggregationResult.data,
         confidence: aggregationResult.confidence,
-        sourceIds: aggregationResult.sourceResponseIds
+        sourceIds: aggregationResult.sourceResponseIds,
+        provenance: aggregationResult.provenance,
+        missingDataPoints: aggregationResult.missingDataPoints
       };
     }
     
@@ -878,7 +889,7 @@ export class OptimizedDashboardService {
   
   private formatTileData(
     data: any,
-    meta: { fromCache: boolean; confidence: number; sourceIds: string[] }
+    meta: { fromCache: boolean; confidence: number; sourceIds: string[]; provenance?: Record<string, MetricProvenance>; missingDataPoints?: string[] }
   ): OptimizedTileData {
     if (!data) {
       return {
@@ -905,7 +916,9 @@ export class OptimizedDashboardService {
       updatedAt: new Date().toISOString(),
       fromCache: meta.fromCache,
       confidence: meta.confidence,
-      data: sanitizedData // preserve structured data
+      data: sanitizedData, // preserve structured data
+      provenance: meta.provenance,
+      missingDataPoints: meta.missingDataPoints
     };
 
     // Add metadata to metrics if not present
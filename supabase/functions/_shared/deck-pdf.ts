@@ -0,0 +1,72 @@
+import { jsPDF } from 'https://esm.sh/jspdf@3.0.3';
+import { layoutSlide, PAGE, type DeckShape, type PitchDeck } from './pitch-deck.ts';
+
+/**
+ * Writes a PitchDeck as a PDF with one landscape page per slide, drawn from the same layout as the
+ * PPTX so both exports match.
+ */
+
+const PT_PER_INCH = 72;
+const pt = (inches: number) => inches * PT_PER_INCH;
+const LINE_HEIGHT = 1.2;
+
+// The built-in PDF fonts only cover Latin-1; map common typography to it and drop the rest
+function latin1(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-')
+    .replace(/[^ -ÿ\n]/g, '');
+}
+
+function rgb(hex: string): [number, number, number] {
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function drawShape(doc: jsPDF, shape: DeckShape) {
+  if (shape.kind === 'rect') {
+    doc.setFillColor(...rgb(shape.fill));
+    doc.rect(pt(shape.x), pt(shape.y), pt(shape.w), pt(shape.h), 'F');
+    return;
+  }
+
+  doc.setFont('helvetica', shape.bold ? 'bold' : 'normal');
+  doc.setFontSize(shape.size);
+  doc.setTextColor(...rgb(shape.color));
+
+  const lineHeight = shape.size * LINE_HEIGHT;
+  const maxLines = Math.max(1, Math.floor(pt(shape.h) / lineHeight));
+  const indent = shape.bullets ? pt(0.3) : 0;
+  let y = pt(shape.y);
+  let used = 0;
+
+  for (const line of shape.lines) {
+    const wrapped: string[] = doc.splitTextToSize(latin1(line), pt(shape.w) - indent);
+    const room = maxLines - used;
+    if (room <= 0) break;
+    const visible = wrapped.slice(0, room);
+    if (wrapped.length > room) visible[visible.length - 1] = `${visible[visible.length - 1].replace(/\s*\S*$/, '')}...`;
+
+    if (shape.bullets) doc.text('-', pt(shape.x), y, { baseline: 'top' });
+    const x = shape.align === 'center' ? pt(shape.x + shape.w / 2) : shape.align === 'right' ? pt(shape.x + shape.w) : pt(shape.x) + indent;
+    doc.text(visible, x, y, { baseline: 'top', align: shape.align || 'left', lineHeightFactor: LINE_HEIGHT });
+
+    used += visible.length;
+    // Bullets get the same gap after them as in the PPTX
+    y += visible.length * lineHeight + (shape.bullets ? shape.size * 0.6 : 0);
+  }
+}
+
+export function renderPdf(deck: PitchDeck): Uint8Array {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: [pt(PAGE.width), pt(PAGE.height)] });
+  doc.setProperties({ title: deck.title, creator: 'SmoothBrains' });
+
+  deck.slides.forEach((slide, i) => {
+    if (i > 0) doc.addPage([pt(PAGE.width), pt(PAGE.height)], 'landscape');
+    layoutSlide(slide, i, deck).forEach(shape => drawShape(doc, shape));
+  });
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
@@ -0,0 +1,121 @@
+import { strToU8, zipSync } from 'https://esm.sh/fflate@0.8.3';
+import { EMU_PER_INCH, escapeXml, relationships, XML_HEAD } from './ooxml.ts';
+import { layoutSlide, PAGE, type DeckShape, type PitchDeck } from './pitch-deck.ts';
+
+/**
+ * Writes a PitchDeck as a PowerPoint file: one blank layout, and every slide built from the
+ * rectangles and text boxes layoutSlide returns, so it stays editable in PowerPoint and Slides.
+ */
+
+const emu = (inches: number) => Math.round(inches * EMU_PER_INCH);
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const EMPTY_TREE = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const ALIGN = { left: 'l', center: 'ctr', right: 'r' } as const;
+
+function shapeXml(shape: DeckShape, id: number): string {
+  const xfrm = `<a:xfrm><a:off x="${emu(shape.x)}" y="${emu(shape.y)}"/><a:ext cx="${emu(shape.w)}" cy="${emu(shape.h)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom>`;
+
+  if (shape.kind === 'rect') {
+    return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr>${xfrm}<a:solidFill><a:srgbClr val="${shape.fill}"/></a:solidFill><a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+  }
+
+  const run = `<a:rPr lang="en-US" sz="${Math.round(shape.size * 100)}"${shape.bold ? ' b="1"' : ''} dirty="0"><a:solidFill><a:srgbClr val="${shape.color}"/></a:solidFill><a:latin typeface="Calibri"/></a:rPr>`;
+  const paragraphProps = shape.bullets
+    ? `<a:pPr marL="285750" indent="-285750"><a:spcAft><a:spcPts val="900"/></a:spcAft><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>`
+    : `<a:pPr algn="${ALIGN[shape.align || 'left']}"/>`;
+  const paragraphs = shape.lines.length
+    ? shape.lines.map(line => `<a:p>${paragraphProps}<a:r>${run}<a:t>${escapeXml(line)}</a:t></a:r></a:p>`).join('')
+    : '<a:p><a:endParaRPr lang="en-US"/></a:p>';
+
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${xfrm}<a:noFill/></p:spPr><p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="t"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`;
+}
+
+function slideXml(shapes: DeckShape[]): string {
+  return `${XML_HEAD}<p:sld ${NS}><p:cSld><p:spTree>${EMPTY_TREE}${shapes.map((s, i) => shapeXml(s, i + 2)).join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+// The theme only has to exist; every shape sets its own colours and font
+const THEME = `${XML_HEAD}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Deck"><a:themeElements>`
+  + '<a:clrScheme name="Deck"><a:dk1><a:srgbClr val="111827"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="374151"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>'
+  + '<a:accent1><a:srgbClr val="4F46E5"/></a:accent1><a:accent2><a:srgbClr val="0EA5E9"/></a:accent2><a:accent3><a:srgbClr val="10B981"/></a:accent3><a:accent4><a:srgbClr val="F59E0B"/></a:accent4><a:accent5><a:srgbClr val="EF4444"/></a:accent5><a:accent6><a:srgbClr val="8B5CF6"/></a:accent6>'
+  + '<a:hlink><a:srgbClr val="4F46E5"/></a:hlink><a:folHlink><a:srgbClr val="6B7280"/></a:folHlink></a:clrScheme>'
+  + '<a:fontScheme name="Deck"><a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>'
+  + '<a:fmtScheme name="Deck"><a:fillStyleLst>'
+  + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+  + '</a:fillStyleLst><a:lnStyleLst>'
+  + '<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'
+  + '</a:lnStyleLst><a:effectStyleLst>'
+  + '<a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle>'
+  + '</a:effectStyleLst><a:bgFillStyleLst>'
+  + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+  + '</a:bgFillStyleLst></a:fmtScheme></a:themeElements></a:theme>';
+
+const MASTER = `${XML_HEAD}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld>`
+  + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+  + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>';
+
+const LAYOUT = `${XML_HEAD}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+export function renderPptx(deck: PitchDeck): Uint8Array {
+  const slides = deck.slides.map((slide, i) => slideXml(layoutSlide(slide, i, deck)));
+  const slideNames = slides.map((_, i) => `slide${i + 1}.xml`);
+
+  const contentTypes = `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>'
+    + '<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>'
+    + '<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>'
+    + '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>'
+    + slideNames.map(name => `<Override PartName="/ppt/slides/${name}" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`).join('')
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+    + '</Types>';
+
+  const presentation = `${XML_HEAD}<p:presentation ${NS}>`
+    + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+    + `<p:sldIdLst>${slideNames.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join('')}</p:sldIdLst>`
+    + `<p:sldSz cx="${emu(PAGE.width)}" cy="${emu(PAGE.height)}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+
+  const core = `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + `<dc:title>${escapeXml(deck.title)}</dc:title><dc:creator>SmoothBrains</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${deck.generatedAt.replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>`;
+  const app = `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>SmoothBrains</Application><Slides>${slides.length}</Slides></Properties>`;
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(relationships([
+      { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+      { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+    ])),
+    'docProps/core.xml': strToU8(core),
+    'docProps/app.xml': strToU8(app),
+    'ppt/presentation.xml': strToU8(presentation),
+    'ppt/_rels/presentation.xml.rels': strToU8(relationships([
+      { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+      { id: 'rId2', type: `${REL}/theme`, target: 'theme/theme1.xml' },
+      ...slideNames.map((name, i) => ({ id: `rId${i + 3}`, type: `${REL}/slide`, target: `slides/${name}` })),
+    ])),
+    'ppt/theme/theme1.xml': strToU8(THEME),
+    'ppt/slideMasters/slideMaster1.xml': strToU8(MASTER),
+    'ppt/slideMasters/_rels/slideMaster1.xml.rels': strToU8(relationships([
+      { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+    ])),
+    'ppt/slideLayouts/slideLayout1.xml': strToU8(LAYOUT),
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels': strToU8(relationships([
+      { id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' },
+    ])),
+  };
+
+  slides.forEach((xml, i) => {
+    files[`ppt/slides/${slideNames[i]}`] = strToU8(xml);
+    files[`ppt/slides/_rels/${slideNames[i]}.rels`] = strToU8(relationships([
+      { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+    ]));
+  });
+
+  return zipSync(files, { level: 6 });
+}
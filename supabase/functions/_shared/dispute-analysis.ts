@@ -0,0 +1,112 @@
+// Automated evidence checks for ownership_challenges.
+// Compares when each side's evidence was anchored in idea_ledger with when the idea was registered,
+// and runs a prior-art check on data_hash creation times. Resolvers see the result next to the dispute.
+import type { LedgerBlock } from './ledger-chain.ts';
+
+export interface AnchoredHash {
+  hash: string;
+  // Earliest ledger entry carrying this data_hash, if any
+  block_number: number | null;
+  anchored_at: string | null;
+  idea_id: string | null;
+}
+
+export type PriorArtVerdict = 'challenger_earlier' | 'owner_earlier' | 'inconclusive';
+
+export interface ChallengeAnalysis {
+  idea_registered_at: string | null;
+  idea_data_hash: string | null;
+  prior_art: {
+    verdict: PriorArtVerdict;
+    prior_idea_id: string | null;
+    prior_registered_at: string | null;
+    detail: string;
+  };
+  challenger_evidence: AnchoredHash[];
+  owner_evidence: AnchoredHash[];
+  // Any challenger evidence hash that was on the ledger before the idea was registered
+  challenger_evidence_predates_idea: boolean;
+  recommendation: 'uphold' | 'dismiss' | 'review';
+  analyzed_at: string;
+}
+
+const HASH_PATTERN = /\b[a-f0-9]{64}\b/gi;
+
+// Pull SHA-256 hex digests out of free-form evidence lists ("sha256: ab12...", URLs, plain hashes)
+export function extractEvidenceHashes(evidence: unknown): string[] {
+  const items = Array.isArray(evidence) ? evidence : evidence ? [evidence] : [];
+  const hashes = new Set<string>();
+  items.forEach(item => {
+    const text = typeof item === 'string' ? item : JSON.stringify(item);
+    (text.match(HASH_PATTERN) || []).forEach(h => hashes.add(h.toLowerCase()));
+  });
+  return Array.from(hashes);
+}
+
+function anchor(hash: string, anchors: Map<string, LedgerBlock>): AnchoredHash {
+  const block = anchors.get(hash);
+  return {
+    hash,
+    block_number: block?.block_number ?? null,
+    anchored_at: block?.timestamp ?? null,
+    idea_id: block?.idea_id ?? null
+  };
+}
+
+function isBefore(a: string | null, b: string | null): boolean {
+  return !!a && !!b && new Date(a).getTime() < new Date(b).getTime();
+}
+
+/**
+ * `ideaCreate` is the challenged idea's creation block, `priorCreate` the earliest creation block of the
+ * work the challenger points at (or of another idea with identical content), and `anchors` maps evidence
+ * hashes to the earliest ledger block that carries them.
+ */
+export function analyzeChallenge(params: {
+  challengeType: string;
+  ideaCreate: LedgerBlock | null;
+  priorCreate: LedgerBlock | null;
+  challengerHashes: string[];
+  ownerHashes: string[];
+  anchors: Map<string, LedgerBlock>;
+}): ChallengeAnalysis {
+  const { challengeType, ideaCreate, priorCreate, challengerHashes, ownerHashes, anchors } = params;
+  const registeredAt = ideaCreate?.timestamp ?? null;
+
+  let verdict: PriorArtVerdict = 'inconclusive';
+  let detail = 'No earlier registration of the claimed prior work was found on the ledger';
+  if (!ideaCreate) {
+    detail = 'The challenged idea has no creation entry on the ledger';
+  } else if (priorCreate) {
+    verdict = isBefore(priorCreate.timestamp, ideaCreate.timestamp) ? 'challenger_earlier' : 'owner_earlier';
+    detail = verdict === 'challenger_earlier'
+      ? `Prior work was registered at block #${priorCreate.block_number}, before this idea (block #${ideaCreate.block_number})`
+      : `This idea (block #${ideaCreate.block_number}) was registered before the prior work (block #${priorCreate.block_number})`;
+  }
+
+  const challengerEvidence = challengerHashes.map(h => anchor(h, anchors));
+  const ownerEvidence = ownerHashes.map(h => anchor(h, anchors));
+  const challengerPredates = challengerEvidence.some(e => isBefore(e.anchored_at, registeredAt));
+
+  let recommendation: ChallengeAnalysis['recommendation'] = 'review';
+  if (challengeType === 'prior_art' || challengeType === 'plagiarism_claim') {
+    if (verdict === 'challenger_earlier') recommendation = 'uphold';
+    else if (verdict === 'owner_earlier' && !challengerPredates) recommendation = 'dismiss';
+  }
+
+  return {
+    idea_registered_at: registeredAt,
+    idea_data_hash: ideaCreate?.data_hash ?? null,
+    prior_art: {
+      verdict,
+      prior_idea_id: priorCreate?.idea_id ?? null,
+      prior_registered_at: priorCreate?.timestamp ?? null,
+      detail
+    },
+    challenger_evidence: challengerEvidence,
+    owner_evidence: ownerEvidence,
+    challenger_evidence_predates_idea: challengerPredates,
+    recommendation,
+    analyzed_at: new Date().toISOString()
+  };
+}
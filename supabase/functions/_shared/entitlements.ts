@@ -0,0 +1,301 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Server-side subscription entitlements.
+ *
+ * The caller's tier comes from the JWT user (or the owner of an x-api-key) and their active `subscriptions` row (falling back to
+ * `user_roles`, as check-subscription does). Feature flags, monthly quotas and product ids mirror
+ * SUBSCRIPTION_TIERS in src/lib/subscription-tiers.ts; `npm run check:shared-modules` fails when
+ * the two drift.
+ *
+ * Denials use one response shape so the client can show UpgradeNudge:
+ *   402 feature_locked / quota_exceeded / insufficient_credits - the plan does not cover the call
+ *   429 rate_limited                                            - too many AI calls in the last minute (ai_credits_usage)
+ */
+
+export type Tier = 'free' | 'basic' | 'pro' | 'enterprise';
+
+export interface TierEntitlements {
+  ideasPerMonth: number; // -1 = unlimited
+  exportsPerMonth: number;
+  aiCallsPerMinute: number;
+  features: {
+    exportData: boolean;
+    batchAnalysis: boolean;
+    apiAccess: boolean;
+    marketAnalysis: boolean;
+    aiInsights: boolean;
+    advancedAnalytics: boolean;
+  };
+}
+
+export type Feature = keyof TierEntitlements['features'];
+export type Quota = 'ideas' | 'exports';
+
+export const TIER_ENTITLEMENTS: Record<Tier, TierEntitlements> = {
+  free: {
+    ideasPerMonth: 2,
+    exportsPerMonth: 0,
+    aiCallsPerMinute: 10,
+    features: { exportData: false, batchAnalysis: false, apiAccess: false, marketAnalysis: false, aiInsights: false, advancedAnalytics: false },
+  },
+  basic: {
+    ideasPerMonth: 10,
+    exportsPerMonth: 3,
+    aiCallsPerMinute: 30,
+    features: { exportData: true, batchAnalysis: false, apiAccess: false, marketAnalysis: true, aiInsights: false, advancedAnalytics: false },
+  },
+  pro: {
+    ideasPerMonth: -1,
+    exportsPerMonth: 20,
+    aiCallsPerMinute: 60,
+    features: { exportData: true, batchAnalysis: true, apiAccess: false, marketAnalysis: true, aiInsights: true, advancedAnalytics: true },
+  },
+  enterprise: {
+    ideasPerMonth: -1,
+    exportsPerMonth: -1,
+    aiCallsPerMinute: 120,
+    features: { exportData: true, batchAnalysis: true, apiAccess: true, marketAnalysis: true, aiInsights: true, advancedAnalytics: true },
+  },
+};
+
+export const PRODUCT_TIERS: Record<string, Tier> = {
+  prod_T7Cs2e5UUZ0eov: 'basic',
+  prod_T7CsnetIz8NE1N: 'pro',
+  prod_T7CsCuGP8R6RrO: 'enterprise',
+};
+
+const TIER_ORDER: Tier[] = ['free', 'basic', 'pro', 'enterprise'];
+
+export type EntitlementCode =
+  | 'auth_required'
+  | 'feature_locked'
+  | 'quota_exceeded'
+  | 'insufficient_credits'
+  | 'rate_limited';
+
+export class EntitlementError extends Error {
+  constructor(
+    public status: 401 | 402 | 429,
+    public code: EntitlementCode,
+    message: string,
+    public tier: Tier = 'free',
+    public feature?: string,
+    public retryAfter?: number,
+  ) {
+    super(message);
+    this.name = 'EntitlementError';
+  }
+
+  get suggestedTier(): Tier | undefined {
+    if (this.feature && this.feature in TIER_ENTITLEMENTS.free.features) {
+      return TIER_ORDER.find(t => TIER_ENTITLEMENTS[t].features[this.feature as Feature]);
+    }
+    return TIER_ORDER[TIER_ORDER.indexOf(this.tier) + 1];
+  }
+}
+
+export interface Entitlements {
+  userId: string;
+  tier: Tier;
+  limits: TierEntitlements;
+  // true when the caller authenticated with an API key rather than a session
+  viaApiKey: boolean;
+}
+
+async function resolveTier(supabase: SupabaseClient, userId: string): Promise<Tier> {
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('product_id, status, current_period_end')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .gt('current_period_end', new Date().toISOString())
+    .order('current_period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (subscription?.product_id && PRODUCT_TIERS[subscription.product_id]) {
+    return PRODUCT_TIERS[subscription.product_id];
+  }
+
+  const { data: roleRow } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const role = roleRow?.role as Tier | undefined;
+  return role && role in TIER_ENTITLEMENTS ? role : 'free';
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Resolve the caller from the x-api-key header, else the Authorization header. `supabase` must use
+ * the service role so the key and subscription lookups are not limited by RLS. API key calls need the
+ * apiAccess feature, checked on every call so a downgrade takes effect at once.
+ * The service role and anon keys carry no user, so functions calling each other forward the end
+ * user's Authorization header instead.
+ */
+export async function resolveEntitlements(supabase: SupabaseClient, req: Request): Promise<Entitlements> {
+  const apiKey = req.headers.get('x-api-key');
+  if (apiKey) {
+    const { data: key } = await supabase
+      .from('api_keys')
+      .select('id, user_id')
+      .eq('key_hash', await hashApiKey(apiKey))
+      .is('revoked_at', null)
+      .maybeSingle();
+    if (!key) {
+      throw new EntitlementError(401, 'auth_required', 'Invalid or revoked API key');
+    }
+
+    const tier = await resolveTier(supabase, key.user_id);
+    const entitlements = { userId: key.user_id, tier, limits: TIER_ENTITLEMENTS[tier], viaApiKey: true };
+    requireFeature(entitlements, 'apiAccess');
+    await supabase.from('api_keys').update({ last_used_at: new Date().toISOString() }).eq('id', key.id);
+    return entitlements;
+  }
+
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!user?.id) {
+    throw new EntitlementError(401, 'auth_required', 'Sign in to use this feature');
+  }
+
+  const tier = await resolveTier(supabase, user.id);
+  return { userId: user.id, tier, limits: TIER_ENTITLEMENTS[tier], viaApiKey: false };
+}
+
+export function requireFeature(entitlements: Entitlements, feature: Feature): void {
+  if (!entitlements.limits.features[feature]) {
+    throw new EntitlementError(
+      402,
+      'feature_locked',
+      `${feature} is not included in the ${entitlements.tier} plan`,
+      entitlements.tier,
+      feature,
+    );
+  }
+}
+
+// Monthly counters from usage_limits, checked up front; the caller counts the use with consumeQuota
+export async function requireQuota(supabase: SupabaseClient, entitlements: Entitlements, quota: Quota, amount = 1): Promise<void> {
+  const limit = quota === 'ideas' ? entitlements.limits.ideasPerMonth : entitlements.limits.exportsPerMonth;
+  if (limit === -1) return;
+
+  const { data } = await supabase
+    .from('usage_limits')
+    .select('ideas_used, exports_used, billing_period_end')
+    .eq('user_id', entitlements.userId)
+    .maybeSingle();
+
+  // A lapsed period resets on the next increment_usage call
+  const periodOver = !data || new Date(data.billing_period_end) < new Date();
+  const used = periodOver ? 0 : (quota === 'ideas' ? data.ideas_used : data.exports_used);
+
+  if (used + amount > limit) {
+    throw quotaExceeded(entitlements, quota, limit);
+  }
+}
+
+// Check and count quota use in one transaction (consume_quota), once the work has succeeded
+export async function consumeQuota(supabase: SupabaseClient, entitlements: Entitlements, quota: Quota, amount = 1): Promise<void> {
+  const limit = quota === 'ideas' ? entitlements.limits.ideasPerMonth : entitlements.limits.exportsPerMonth;
+  const { data: consumed, error } = await supabase.rpc('consume_quota', {
+    _user_id: entitlements.userId,
+    _type: quota,
+    _limit: limit,
+    _amount: amount,
+  });
+  if (error) throw new Error(`Failed to record ${quota} usage: ${error.message}`);
+  if (!consumed) throw quotaExceeded(entitlements, quota, limit);
+}
+
+function quotaExceeded(entitlements: Entitlements, quota: Quota, limit: number): EntitlementError {
+  return new EntitlementError(
+    402,
+    'quota_exceeded',
+    `You've used all ${limit} ${quota} for this month on the ${entitlements.tier} plan`,
+    entitlements.tier,
+    quota === 'exports' ? 'exportData' : undefined,
+  );
+}
+
+// Balance check before doing paid AI work; the debit itself happens through increment_usage
+export async function requireCredits(supabase: SupabaseClient, entitlements: Entitlements, amount: number): Promise<number> {
+  const { data: balance, error } = await supabase.rpc('ensure_monthly_grant', {
+    _user_id: entitlements.userId,
+    _tier: entitlements.tier,
+  });
+  if (error) throw new Error(`Failed to read credit balance: ${error.message}`);
+
+  if ((balance ?? 0) < amount) {
+    throw new EntitlementError(
+      402,
+      'insufficient_credits',
+      `This needs ${amount} AI credits and you have ${balance ?? 0}`,
+      entitlements.tier,
+    );
+  }
+  return balance;
+}
+
+// Counts AI calls recorded in ai_credits_usage in the last minute, so every AI function shares one
+// budget: the LLM gateway writes a row per call it is given `usage` for, and functions that call a
+// model directly write theirs with recordAiCall.
+export async function enforceRateLimit(supabase: SupabaseClient, entitlements: Entitlements): Promise<void> {
+  const since = new Date(Date.now() - 60_000).toISOString();
+  const { count, error } = await supabase
+    .from('ai_credits_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', entitlements.userId)
+    .gte('created_at', since);
+  if (error) throw new Error(`Failed to read AI usage: ${error.message}`);
+
+  if ((count ?? 0) >= entitlements.limits.aiCallsPerMinute) {
+    throw new EntitlementError(
+      429,
+      'rate_limited',
+      `Too many AI requests: the ${entitlements.tier} plan allows ${entitlements.limits.aiCallsPerMinute} per minute`,
+      entitlements.tier,
+      undefined,
+      60,
+    );
+  }
+}
+
+// Usage row for a call that bypasses the LLM gateway, so enforceRateLimit sees it
+export async function recordAiCall(supabase: SupabaseClient, entitlements: Entitlements, operation: string): Promise<void> {
+  const { data: periodData } = await supabase.rpc('get_current_billing_period');
+  const { error } = await supabase.from('ai_credits_usage').insert({
+    user_id: entitlements.userId,
+    operation_type: operation,
+    credits_used: 0,
+    billing_period_start: periodData?.[0]?.period_start || new Date().toISOString(),
+    billing_period_end: periodData?.[0]?.period_end || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (error) console.error('[entitlements] Failed to record AI call:', error);
+}
+
+export function entitlementErrorResponse(error: EntitlementError, corsHeaders: Record<string, string>): Response {
+  const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (error.retryAfter) headers['Retry-After'] = String(error.retryAfter);
+
+  return new Response(
+    JSON.stringify({
+      error: error.message,
+      entitlement: {
+        code: error.code,
+        tier: error.tier,
+        feature: error.feature ?? null,
+        suggested_tier: error.suggestedTier ?? null,
+        retry_after: error.retryAfter ?? null,
+      },
+    }),
+    { status: error.status, headers },
+  );
+}
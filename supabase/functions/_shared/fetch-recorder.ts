@@ -0,0 +1,147 @@
+/**
+ * Record/replay layer for outbound fetch.
+ *
+ * In record mode every request an edge function makes (Serper, Groq, Reddit, Supabase REST, ...) goes
+ * to the network as usual and the response is appended to a fixture. In replay mode the fixture
+ * answers instead and nothing leaves the machine, so a function can be run offline and its output
+ * compared against a snapshot (see scripts/replay-edge-function.mjs).
+ *
+ * Fixtures never hold credentials: request headers are not stored and secret-looking query
+ * parameters are redacted before the URL is written or matched.
+ */
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface FixtureEntry {
+  key: string;
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export type FetchFn = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+const SECRET_PARAM = /(^|_)(api_?key|key|token|secret|password|access_token|client_secret)$/i;
+export const REDACTED = '<redacted>';
+
+// Response headers worth keeping (content-range carries PostgREST counts); the rest is noise
+const KEPT_HEADERS = ['content-type', 'content-range', 'retry-after', 'etag'];
+
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAM.test(name)) parsed.searchParams.set(name, REDACTED);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// FNV-1a; only needs to tell request bodies apart, not resist collisions
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+export function requestKey(request: RecordedRequest): string {
+  return `${request.method} ${request.url}${request.body ? ` #${hash(request.body)}` : ''}`;
+}
+
+async function describeRequest(input: string | URL | Request, init?: RequestInit): Promise<RecordedRequest> {
+  const request = input instanceof Request ? input : null;
+  const method = (init?.method || request?.method || 'GET').toUpperCase();
+  const url = redactUrl(request ? request.url : String(input));
+
+  let body: string | undefined;
+  if (typeof init?.body === 'string') {
+    body = init.body;
+  } else if (init?.body instanceof URLSearchParams) {
+    body = init.body.toString();
+  } else if (request && !init?.body && method !== 'GET' && method !== 'HEAD') {
+    body = await request.clone().text();
+  }
+
+  return { method, url, ...(body ? { body } : {}) };
+}
+
+/**
+ * Wrap a real fetch so every response is also appended to `entries`.
+ */
+export function createRecordingFetch(realFetch: FetchFn, entries: FixtureEntry[]): FetchFn {
+  return async (input, init) => {
+    const request = await describeRequest(input, init);
+    const response = await realFetch(input, init);
+    const body = await response.clone().text();
+
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) headers[name] = value;
+    }
+
+    entries.push({ key: requestKey(request), request, response: { status: response.status, headers, body } });
+    return response;
+  };
+}
+
+export class FixtureMissError extends Error {
+  constructor(public request: RecordedRequest) {
+    super(`No recorded response for ${request.method} ${request.url}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+/**
+ * Serve recorded responses. A request matches the first unused entry with the same method, URL and
+ * body; failing that, the first unused entry with the same method and URL (bodies that embed
+ * timestamps or generated ids). Unmatched requests reject like a network failure and are listed in
+ * `misses`, so functions take the same fallback path they would offline.
+ */
+export function createReplayFetch(entries: FixtureEntry[]) {
+  const used = new Set<number>();
+  const misses: RecordedRequest[] = [];
+
+  const take = (match: (entry: FixtureEntry) => boolean) => {
+    const index = entries.findIndex((entry, i) => !used.has(i) && match(entry));
+    if (index === -1) return null;
+    used.add(index);
+    return entries[index];
+  };
+
+  const replayFetch: FetchFn = async (input, init) => {
+    const request = await describeRequest(input, init);
+    const key = requestKey(request);
+    const entry = take(e => e.key === key)
+      ?? take(e => e.request.method === request.method && e.request.url === request.url);
+
+    if (!entry) {
+      misses.push(request);
+      throw new FixtureMissError(request);
+    }
+
+    const { status, headers, body } = entry.response;
+    const empty = status === 204 || status === 304 || request.method === 'HEAD';
+    return new Response(empty ? null : body, { status, headers });
+  };
+
+  return {
+    fetch: replayFetch,
+    misses,
+    unused: () => entries.filter((_, i) => !used.has(i)),
+  };
+}
@@ -0,0 +1,601 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+
+/**
+ * Contract registry for every edge function: its name, what the frontend sends and what it gets back.
+ *
+ * src/integrations/supabase/functions.ts is generated from this file by
+ * scripts/generate-function-client.mjs (`npm run generate:function-client`), and
+ * `npm run check:function-contracts` fails when the frontend invokes a name that is not declared
+ * here, a declared function has no directory, or the generated client is stale.
+ *
+ * Requests are objects that tolerate extra keys, since most callers pass filters and context the
+ * function ignores. Responses declare the fields callers read; functions that return tile payloads
+ * of varying shape declare only their envelope.
+ */
+
+export interface FunctionContract<Req extends z.ZodTypeAny = z.ZodTypeAny, Res extends z.ZodTypeAny = z.ZodTypeAny> {
+  description: string;
+  request: Req;
+  response: Res;
+  // Set while the frontend already calls a function that is not deployed yet; the check reports it
+  // as a warning and fails once the directory exists, so the marker gets removed
+  pending?: string;
+}
+
+const contract = <Req extends z.ZodTypeAny, Res extends z.ZodTypeAny>(c: FunctionContract<Req, Res>) => c;
+
+const loose = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+const json = z.unknown();
+const stringList = z.array(z.string());
+const empty = loose({});
+
+const chatTurn = loose({ role: z.string().optional(), type: z.string().optional(), content: z.string() });
+const metric = loose({ name: z.string(), value: z.union([z.string(), z.number()]), unit: z.string().optional(), confidence: z.number().optional() });
+const citation = loose({ url: z.string(), title: z.string().optional(), source: z.string().optional() });
+const filters = z.record(json);
+
+// Shared by the hub data functions that answer in the tile shape (metrics, items, citations)
+const tilePayload = loose({
+  updatedAt: z.string().optional(),
+  metrics: z.array(metric).optional(),
+  items: z.array(json).optional(),
+  citations: z.array(citation).optional(),
+  assumptions: stringList.optional(),
+  notes: z.string().optional(),
+  error: z.string().optional(),
+});
+const successEnvelope = loose({ success: z.boolean(), data: json.optional(), error: z.string().optional() });
+
+const confidenceLevel = z.enum(['high', 'medium', 'low']);
+// A cached hub tile an insight relied on, as recorded by the server (not as claimed by the model)
+const tileEvidence = loose({ tile: z.string(), generatedAt: z.string().optional(), stale: z.boolean().optional(), confidence: z.number(), metrics: stringList, sources: stringList });
+const insight = loose({
+  title: z.string(),
+  summary: z.string(),
+  details: stringList,
+  recommendations: stringList,
+  confidence: confidenceLevel,
+  dataPoints: z.array(loose({ label: z.string(), value: z.union([z.string(), z.number()]) })).optional(),
+  nextSteps: stringList.optional(),
+  evidence: z.array(tileEvidence).optional(),
+});
+const deckSlide = loose({
+  type: z.enum(['cover', 'problem', 'market', 'competition', 'validation', 'trends', 'financials', 'ask']),
+  title: z.string(),
+  headline: z.string(),
+  bullets: stringList,
+  metrics: z.array(loose({ label: z.string(), value: z.string() })),
+  chart: loose({ title: z.string(), tile: z.string(), points: z.array(loose({ label: z.string(), value: z.number() })) }).optional(),
+  tiles: stringList,
+  sources: stringList,
+});
+// tile-ai-chat: sources are numbered per answer, what-ifs carry the server's recalculated score
+const analystSource = loose({ id: z.string(), url: z.string(), title: z.string(), source: z.string(), tile: z.string().optional() });
+const analystCitations = loose({ tiles: z.array(tileEvidence), sources: z.array(analystSource) });
+const whatIf = loose({
+  label: z.string(),
+  rationale: z.string(),
+  changes: z.array(loose({ factor: z.string(), from: z.number(), to: z.number() })),
+  score: loose({ before: z.number(), after: z.number(), category: z.string(), model_version: z.string() }),
+});
+const analystMessage = loose({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  tile: z.string().nullable().optional(),
+  citations: analystCitations.nullable().optional(),
+  what_ifs: z.array(whatIf).optional(),
+  suggestions: stringList.optional(),
+  created_at: z.string(),
+});
+const projection = loose({ projected: z.number(), confidence: z.number(), factors: stringList });
+
+export const FUNCTION_CONTRACTS = {
+  'ai-market-analysis': contract({
+    description: 'Free-form market analysis of an idea',
+    request: loose({ idea: z.string(), analysisType: z.string().optional(), marketData: json.optional(), customPrompt: z.string().optional() }),
+    response: loose({ success: z.boolean(), analysis: json, analysisType: z.string().optional(), idea: z.string().optional(), timestamp: z.string().optional() }),
+  }),
+  'amazon-public': contract({
+    description: 'Amazon review and product signals for an idea',
+    request: loose({ query: z.string() }),
+    response: successEnvelope,
+  }),
+  'analyze-idea': contract({
+    description: 'Full LLM analysis of an idea, optionally stored against an analysis row',
+    request: loose({ idea: z.string(), analysisId: z.string().optional() }),
+    response: loose({ success: z.boolean(), analysis: json }),
+  }),
+  'analyze-patterns': contract({
+    description: 'Behaviour patterns, opportunities and concerns from session activity',
+    request: loose({ sessionData: z.array(json), idea: z.string() }),
+    response: loose({ analysis: loose({ patterns: stringList, insights: stringList, opportunities: stringList, concerns: stringList }), insight }),
+  }),
+  'analyze-tile-insight': contract({
+    description: 'Explains what one tile means for the idea',
+    request: loose({ tileType: z.string(), tileData: json, ideaContext: z.string().optional() }),
+    response: loose({ success: z.boolean(), analysis: json }),
+  }),
+  'api-keys': contract({
+    description: "Issues, lists and revokes the caller's API keys; issuing one needs the apiAccess feature",
+    request: loose({ operation: z.enum(['list', 'create', 'revoke']), name: z.string().optional(), key_id: z.string().optional() }),
+    response: loose({ success: z.boolean(), key: z.string().optional(), api_key: json.optional(), keys: z.array(json).optional() }),
+  }),
+  'calculate-smoothbrains-score': contract({
+    description: 'SmoothBrains score with breakdown, factors and sensitivity',
+    request: loose({
+      idea: z.string(),
+      wrinklePoints: z.number().optional(),
+      marketData: json.optional(),
+      competitionData: json.optional(),
+      sentimentData: json.optional(),
+      chatHistory: z.array(json).optional(),
+      userAnswers: json.optional(),
+      modelVersion: z.string().optional(),
+      factors: z.record(z.number()).optional(),
+      detailed: z.boolean().optional(),
+    }),
+    response: loose({
+      success: z.boolean(),
+      score: z.number(),
+      category: z.string().optional(),
+      explanation: z.string().optional(),
+      breakdown: json.optional(),
+      factors: z.record(z.number()).optional(),
+      model_version: z.string().optional(),
+      recommendations: stringList.optional(),
+    }),
+  }),
+  'check-subscription': contract({
+    description: "Current user's plan, renewal date and credit balance",
+    request: empty,
+    response: loose({ subscribed: z.boolean(), tier: z.string(), product_id: z.string().nullable().optional(), subscription_end: z.string().nullable().optional(), credit_balance: z.number().optional() }),
+  }),
+  'clear-all-ideas': contract({
+    description: "Deletes the current user's ideas and their analyses",
+    request: empty,
+    response: loose({ success: z.boolean(), message: z.string(), deletionSummary: json.optional() }),
+  }),
+  'competition-chat': contract({
+    description: 'Chat about the competitive landscape of an idea',
+    request: loose({ message: z.string().optional(), competitionData: json.optional(), idea: z.string().optional(), chatHistory: z.array(json).optional() }),
+    response: loose({ response: z.string(), suggestions: stringList.optional() }),
+  }),
+  'competitive-landscape': contract({
+    description: 'Top competitors, concentration and barriers to entry',
+    request: loose({ idea: z.string(), depth: z.string().optional() }),
+    response: successEnvelope,
+  }),
+  'compute-pmf-and-next-steps': contract({
+    description: 'PMF score with breakdown and prioritised next actions',
+    request: loose({ idea_id: z.string(), idea_text: z.string(), user_context: json.optional(), force_recalculate: z.boolean().optional() }),
+    response: loose({ success: z.boolean(), pmf_score: z.number(), score_breakdown: json, actions: z.array(json), confidence: z.number().optional(), reasoning: z.string().optional(), from_cache: z.boolean().optional() }),
+  }),
+  'create-checkout': contract({
+    description: 'Stripe checkout session for a price',
+    request: loose({ price_id: z.string() }),
+    response: loose({ url: z.string() }),
+  }),
+  'customer-portal': contract({
+    description: 'Stripe billing portal session for the current user',
+    request: empty,
+    response: loose({ url: z.string() }),
+  }),
+  'dashboard-insights': contract({
+    description: 'Dashboard insight cards for one analysis type',
+    request: loose({ idea: z.string().optional(), query: z.string().optional(), context: json.optional(), analysisType: z.string().optional(), conversation: z.array(json).optional(), tileType: z.string().optional(), filters: json.optional() }),
+    response: loose({ success: z.boolean().optional(), insights: json, timestamp: z.string().optional() }),
+  }),
+  'dashboard-insights-realtime': contract({
+    description: 'Dashboard insights backed by a live web search',
+    request: loose({ idea: z.string(), analysisType: z.string().optional(), includeWebSearch: z.boolean().optional(), returnSources: z.boolean().optional() }),
+    response: loose({ insights: json, sources: z.array(json).optional(), primarySource: json.optional(), analysisType: z.string().optional(), timestamp: z.string().optional() }),
+  }),
+  'data-hub': contract({
+    description: 'Builds hub tiles for an idea; streams tile events when asked',
+    request: loose({ idea: z.string(), tiles: stringList.optional(), sessionId: z.string().optional(), forceRefresh: z.boolean().optional(), stream: z.boolean().optional() }),
+    response: loose({ success: z.boolean(), tiles: json, meta: json.optional() }),
+  }),
+  'data-hub-orchestrator': contract({
+    description: 'Runs the search fetch plan for the data hub and stores the indices',
+    request: loose({ input: json, keywords: stringList.optional(), fetchPlan: json.optional(), userId: z.string().optional() }),
+    response: loose({ success: z.boolean(), indices: json, summary: json.optional() }),
+  }),
+  'enhance-salty-response': contract({
+    description: 'Rewrites a chat reply in the salty persona',
+    request: loose({ basicResponse: z.string(), trickeryType: z.string().optional(), persistenceLevel: z.number().optional() }),
+    response: loose({ enhancedResponse: z.string(), success: z.boolean().optional() }),
+  }),
+  'enhanced-business-analysis': contract({
+    description: 'Structured business analysis combining market and trends data',
+    request: loose({ idea: z.string(), marketData: json.optional(), trendsData: json.optional(), analysisType: z.string().optional() }),
+    response: loose({ success: z.boolean(), analysisType: z.string().optional(), insights: json, overall_assessment: json.optional(), metadata: json.optional() }),
+  }),
+  'enterprise-features': contract({
+    description: 'Enterprise plan actions (team reports, custom analyses)',
+    request: loose({ action: z.string(), data: json.optional() }),
+    response: json,
+  }),
+  'evaluate-wrinkle-points': contract({
+    description: 'Scores how much a chat message sharpened the idea',
+    request: loose({ userMessage: z.string(), currentIdea: z.string().optional(), conversationHistory: z.array(json).optional(), currentWrinklePoints: z.number().optional() }),
+    response: loose({ pointChange: z.number(), explanation: z.string(), rubric: json.optional() }),
+  }),
+  'execution-insights': contract({
+    description: 'Execution plan and resourcing advice for an idea',
+    request: loose({ idea: z.string(), stage: z.string().optional(), resources: json.optional() }),
+    response: loose({ success: z.boolean(), execution: json, timestamp: z.string().optional() }),
+  }),
+  'financial-analysis': contract({
+    description: 'Unit economics and financial projections',
+    request: loose({ idea: z.string(), businessModel: z.string().optional(), targetMarket: z.string().optional() }),
+    response: loose({ success: z.boolean(), financials: json, requestId: z.string().optional(), timestamp: z.string().optional() }),
+  }),
+  'funding-tracker': contract({
+    description: 'Funding activity in the idea\'s sector (placeholder until a data provider is wired)',
+    request: loose({ idea: z.string(), sector: z.string() }),
+    response: successEnvelope,
+  }),
+  'gdelt-news': contract({
+    description: 'News coverage, sentiment and themes from GDELT',
+    request: loose({ query: z.string().optional(), idea: z.string().optional(), startDate: z.string().optional(), endDate: z.string().optional(), maxRecords: z.number().optional() }),
+    response: loose({ success: z.boolean().optional(), articles: z.array(json), totalArticles: z.number().optional(), sentiment: json.optional(), topThemes: z.array(json).optional() }),
+  }),
+  'generate-action-items': contract({
+    description: 'Prioritised action items for the idea\'s current state and goals',
+    request: loose({ idea: z.string(), currentState: json, goals: stringList }),
+    response: loose({
+      actionItems: z.array(loose({ action: z.string(), priority: confidenceLevel, timeframe: z.string(), impact: z.string(), resources: stringList })),
+      insight,
+    }),
+  }),
+  'generate-ai-insights': contract({
+    description: 'One insight card for a market, competition, sentiment, PMF, strategy or risk context',
+    request: loose({ type: z.string(), data: json, idea: z.string(), metadata: json.optional() }),
+    response: loose({ insight }),
+  }),
+  'generate-competitive-strategy': contract({
+    description: 'Positioning, differentiators, tactics and risks against known competitors',
+    request: loose({ idea: z.string(), competitors: z.array(json), marketData: json }),
+    response: loose({ strategy: loose({ positioning: z.string(), differentiators: stringList, tactics: stringList, risks: stringList }), insight }),
+  }),
+  'generate-market-entry': contract({
+    description: 'Phased market entry plan with channels and milestones',
+    request: loose({ idea: z.string(), targetMarket: json, resources: loose({ budget: z.number().optional(), team: z.number().optional(), timeline: z.string().optional() }) }),
+    response: loose({
+      strategy: loose({
+        phases: z.array(loose({ phase: z.string(), duration: z.string(), goals: stringList, metrics: stringList })),
+        channels: z.array(loose({ channel: z.string(), priority: confidenceLevel, reasoning: z.string() })),
+        milestones: z.array(loose({ milestone: z.string(), timeline: z.string(), success_criteria: z.string() })),
+      }),
+      insight,
+    }),
+  }),
+  'generate-pitch-deck': contract({
+    description: 'Pitch deck for a saved idea, grounded in its hub tiles; counts as an export, and pptx and pdf also return the file',
+    request: loose({ idea_id: z.string(), format: z.enum(['json', 'pptx', 'pdf']).optional() }),
+    response: loose({
+      success: z.boolean(),
+      pitch_deck: loose({
+        title: z.string(),
+        subtitle: z.string(),
+        generatedAt: z.string(),
+        slides: z.array(deckSlide),
+        tiles: z.array(loose({ tile: z.string(), generatedAt: z.string().optional(), stale: z.boolean(), confidence: z.number() })),
+        narrated: z.boolean(),
+      }),
+      file: loose({ filename: z.string(), mime_type: z.string(), base64: z.string() }).optional(),
+    }),
+  }),
+  'generate-predictions': contract({
+    description: 'Revenue, user and churn projections for a timeframe',
+    request: loose({ historicalData: json, timeframe: z.enum(['3months', '6months', '1year']), idea: z.string().optional() }),
+    response: loose({ predictions: loose({ revenue: projection, users: projection, churn: projection, suggestions: stringList }), insight }),
+  }),
+  'generate-recommendations': contract({
+    description: 'Recommendations for one focus area',
+    request: loose({ idea: z.string(), currentData: json.optional(), focusArea: z.enum(['growth', 'validation', 'monetization', 'marketing']) }),
+    response: loose({ recommendations: stringList }),
+  }),
+  'generate-session-title': contract({
+    description: 'Short name for a brainstorming session from the idea or the recent transcript',
+    request: loose({ idea: z.string().optional(), transcript: z.string().optional() }),
+    response: loose({ title: z.string(), fallback: z.boolean().optional() }),
+  }),
+  'generate-suggestions': contract({
+    description: 'Suggested answers for an onboarding question',
+    request: loose({ question: z.string(), ideaDescription: z.string().optional(), previousAnswers: json.optional() }),
+    response: loose({ suggestions: stringList }),
+  }),
+  'google-trends': contract({
+    description: 'Search interest and related queries',
+    request: loose({ idea: z.string() }),
+    response: json,
+  }),
+  'groq-batch-analysis': contract({
+    description: 'Several analysis types for one idea in a single LLM call',
+    request: loose({ idea: z.string(), analysisTypes: stringList }),
+    response: loose({ success: z.boolean(), results: json, analysisCount: z.number().optional() }),
+  }),
+  'groq-benchmark': contract({
+    description: 'Latency benchmark of extraction variants and A/B evaluation of prompt versions',
+    request: loose({
+      action: z.enum(['benchmark', 'evaluate', 'promote', 'rollback']),
+      samples: z.array(json).optional(),
+      variantName: z.string().optional(),
+      prompt: z.string().optional(),
+      baselineVersion: z.number().optional(),
+      candidateVersion: z.number().optional(),
+      sampleSet: z.string().optional(),
+      cases: z.array(json).optional(),
+      version: z.number().optional(),
+      evaluationId: z.string().optional(),
+    }),
+    response: loose({ success: z.boolean(), stats: json.optional(), recommendation: json.optional(), report: json.optional(), evaluation_id: z.string().nullable().optional() }),
+  }),
+  'groq-conversation-summary': contract({
+    description: 'Running summary of the idea chat',
+    request: loose({ messages: z.array(chatTurn), existingSummary: z.string().optional() }),
+    response: loose({ summary: z.string(), sentences: stringList.optional(), fallback: z.boolean().optional() }),
+  }),
+  'groq-data-extraction': contract({
+    description: 'Extracts one tile\'s data points from raw source responses',
+    request: loose({ tileType: z.string(), requirements: z.string().optional(), dataPoints: stringList, responses: z.array(json) }),
+    response: loose({ extraction: json, confidence: z.number(), sources_used: stringList.optional(), method: z.string().optional(), prompt: z.string().optional(), validation: json.optional() }),
+  }),
+  'groq-synthesis': contract({
+    description: 'Synthesises search results and community data into tile insights',
+    request: loose({
+      searchResults: json.optional(),
+      pageContent: json.optional(),
+      tileType: z.string().optional(),
+      filters: json.optional(),
+      marketTrendsData: json.optional(),
+      redditData: json.optional(),
+      webSearchData: json.optional(),
+      prompt: z.string().optional(),
+    }),
+    response: loose({ success: z.boolean(), result: json.optional(), analysis: json.optional(), insights: json.optional() }),
+  }),
+  'help-support': contract({
+    description: 'Product help chat',
+    request: loose({ message: z.string(), chatHistory: z.array(json).optional() }),
+    response: loose({ reply: z.string(), suggestedQuestions: stringList.optional() }),
+  }),
+  'hub-batch-data': contract({
+    description: 'Fetches several hub tiles in one request',
+    request: loose({ idea: z.string(), tileTypes: stringList, userId: z.string().optional(), sessionId: z.string().optional(), filters: filters.optional() }),
+    response: loose({ success: z.boolean(), data: json, fetchedCount: z.number().optional(), errorCount: z.number().optional(), summary: json.optional() }),
+  }),
+  'hub-data-fetcher': contract({
+    description: 'One hub tile from live sources',
+    request: loose({ tileType: z.string(), filters: filters.optional() }),
+    response: tilePayload,
+  }),
+  'idea-chat': contract({
+    description: 'Main idea chat: replies, suggestions and PMF analysis',
+    request: loose({
+      message: z.string().optional(),
+      conversationHistory: z.array(json).optional(),
+      suggestionMode: z.boolean().optional(),
+      context: json.optional(),
+      analysisQuestion: z.string().optional(),
+      currentIdea: z.string().optional(),
+      persona: json.optional(),
+      stream: z.boolean().optional(),
+    }),
+    response: loose({ response: z.string().optional(), detailedResponse: z.string().optional(), summaryResponse: z.string().optional(), content: z.string().optional(), suggestions: stringList.optional(), pmfAnalysis: json.optional() }),
+  }),
+  'idea-ledger': contract({
+    description: 'Idea ownership ledger: creation, verification, transfers and challenges',
+    request: loose({
+      operation: z.enum(['create', 'verify', 'transfer', 'challenge', 'get_proof', 'verify_chain', 'get_certificate', 'respond_challenge', 'analyze_challenge', 'resolve_challenge', 'record_version']),
+      idea_id: z.string().optional(),
+      challenge_id: z.string().optional(),
+      user_id: z.string().optional(),
+      data: json.optional(),
+      signature: z.string().optional(),
+      challenge_data: json.optional(),
+    }),
+    response: loose({ success: z.boolean() }),
+  }),
+  'launch-timeline': contract({
+    description: 'Launch milestones, from the project tracker when connected',
+    request: loose({ idea: z.string(), projectTrackerConnected: z.boolean().optional() }),
+    response: loose({ updatedAt: z.string(), metrics: z.array(metric), milestones: z.array(json), empty_state: json.optional() }),
+  }),
+  'market-insights': contract({
+    description: 'Market insights from the onboarding answers',
+    request: loose({ idea: z.string(), userAnswers: json.optional(), category: z.string().optional() }),
+    response: loose({ success: z.boolean(), insights: json, category: z.string().optional() }),
+  }),
+  'market-intelligence': contract({
+    description: 'Market intelligence (placeholder until a data provider is wired)',
+    request: loose({ idea: z.string() }),
+    response: successEnvelope,
+  }),
+  'market-size-analysis': contract({
+    description: 'TAM, SAM, SOM and growth for an idea, optionally from data hub indices',
+    request: loose({ idea: z.string(), idea_context: json.optional(), data_hub: json.optional() }),
+    response: loose({ success: z.boolean(), market_size: json.optional() }),
+  }),
+  'market-trends': contract({
+    description: 'Market trend metrics and related links',
+    request: loose({ idea: z.string() }),
+    response: loose({ market_trends: json, cross_links: json.optional(), visuals_ready: z.boolean().optional(), confidence: z.number().optional(), error: z.string().optional() }),
+  }),
+  'news-analysis': contract({
+    description: 'News trends and sentiment for an idea',
+    request: loose({ idea: z.string() }),
+    response: loose({ success: z.boolean(), news_trends: json.optional(), total_articles: z.number().optional(), overall_sentiment: json.optional() }),
+  }),
+  'populate-startup-ideas': contract({
+    description: 'Seeds the startup idea catalogue',
+    request: empty,
+    response: loose({ message: z.string(), count: z.number() }),
+  }),
+  'record-export': contract({
+    description: 'Checks a report export against the plan and counts it against exportsPerMonth before the app downloads it',
+    request: loose({ format: z.enum(['pdf', 'docx', 'json']) }),
+    response: loose({ success: z.boolean() }),
+  }),
+  'reddit-research': contract({
+    description: 'Reddit posts, pain points and competitor mentions for an idea',
+    request: loose({ idea_text: z.string(), target_subreddits: stringList.optional(), time_window: z.string().optional() }),
+    response: loose({ summary: json, posts: z.array(json).optional() }),
+  }),
+  'reddit-search': contract({
+    description: 'Reddit search summarised for a tile',
+    request: loose({ query: z.string().optional(), idea: z.string().optional() }),
+    response: successEnvelope,
+  }),
+  'reddit-sentiment': contract({
+    description: 'Reddit sentiment, themes and top threads',
+    request: loose({ idea: z.string(), industry: z.string().optional(), geography: z.string().optional(), timeWindow: z.string().optional(), analyzeType: z.string().optional(), detailed: z.boolean().optional() }),
+    response: json,
+  }),
+  'reddit-sentiment-analyzer': contract({
+    description: 'Positive, neutral and negative split of Reddit discussion',
+    request: loose({ idea: z.string() }),
+    response: loose({ positive: z.number(), neutral: z.number(), negative: z.number(), summary: z.string().optional(), topPosts: z.array(json).optional(), totalPosts: z.number().optional() }),
+  }),
+  'referrals': contract({
+    description: 'Referral code lookup, creation and redemption',
+    request: loose({ code: z.string().optional(), referred_user_id: z.string().optional(), device_id: z.string().optional() }),
+    response: json,
+  }),
+  'refine-idea': contract({
+    description: 'Rewrites the idea from the conversation so far',
+    request: loose({ currentIdea: z.string(), conversationHistory: z.array(json).optional() }),
+    response: loose({ refinedIdea: z.string() }),
+  }),
+  'refresh-live-context': contract({
+    description: 'Refreshes the live web context stored for an idea',
+    request: loose({ idea_id: z.string().optional(), idea_text: z.string(), user_id: z.string().optional() }),
+    response: loose({ success: z.boolean(), context: json }),
+  }),
+  'score-history': contract({
+    description: 'Lists or records SmoothBrains score history entries',
+    request: loose({
+      operation: z.enum(['list', 'record']),
+      idea_id: z.string(),
+      idea_text: z.string().optional(),
+      factors: z.record(z.number()).optional(),
+      model_version: z.string().optional(),
+      data_sources: stringList.optional(),
+      limit: z.number().optional(),
+    }),
+    response: loose({ success: z.boolean(), history: z.array(json).optional(), edits: z.array(json).optional(), entry: json.optional() }),
+  }),
+  'serper-batch-search': contract({
+    description: 'Batched Serper searches for several search types',
+    request: loose({ idea: z.string().optional(), query: z.string().optional(), searchTypes: stringList.optional(), tileType: z.string().optional() }),
+    response: loose({ success: z.boolean(), results: json }),
+  }),
+  'slack-team-digest': contract({
+    description: 'Posts the team digest to a Slack webhook',
+    request: loose({ webhook_url: z.string(), period: z.string().optional() }),
+    response: loose({ success: z.boolean(), message: z.string() }),
+  }),
+  'social-sentiment': contract({
+    description: 'Sentiment across social platforms',
+    request: loose({ query: z.string().optional(), idea: z.string().optional() }),
+    response: successEnvelope,
+  }),
+  'sync-subscription-role': contract({
+    description: "Syncs the user's role with their Stripe subscription",
+    request: empty,
+    response: loose({ success: z.boolean(), role: z.string(), subscriptionEnd: z.string().nullable().optional(), stripeCustomerId: z.string().nullable().optional() }),
+  }),
+  'tile-ai-chat': contract({
+    description: "Analyst chat over all of an idea's cached tiles and evidence, persisted per idea",
+    request: loose({
+      operation: z.enum(['ask', 'history', 'clear']).optional(),
+      idea: z.string(),
+      message: z.string().optional(),
+      tile: z.string().optional(),
+      tileTitle: z.string().optional(),
+      tileData: json.optional(),
+    }),
+    response: loose({
+      response: z.string().optional(),
+      suggestions: stringList.optional(),
+      citations: analystCitations.optional(),
+      what_ifs: z.array(whatIf).optional(),
+      messages: z.array(analystMessage).optional(),
+      success: z.boolean().optional(),
+    }),
+  }),
+  'tile-refresh': contract({
+    description: 'Rebuilds one hub tile',
+    request: loose({ idea: z.string(), tile: z.string() }),
+    response: loose({ success: z.boolean(), tile: json }),
+  }),
+  'twitter-ai-insights': contract({
+    description: 'Twitter/X metrics and sentiment summarised by the LLM',
+    request: loose({ idea: z.string().optional(), idea_text: z.string().optional(), lang: z.string().optional() }),
+    response: loose({ idea: z.string().optional(), metrics: json.optional(), sentiment: json.optional(), tweets: z.array(json).optional(), error: z.string().optional() }),
+  }),
+  'twitter-search': contract({
+    description: 'Twitter/X buzz for an idea',
+    request: loose({ query: z.string().optional(), industry: z.string().optional(), geo: z.string().optional(), time_window: z.string().optional(), idea: z.string().optional() }),
+    response: loose({ twitter_buzz: json }),
+  }),
+  'unified-sentiment': contract({
+    description: 'Sentiment merged from Reddit, social, YouTube and news',
+    request: loose({ idea: z.string(), detailed: z.boolean().optional() }),
+    response: loose({ sentiment: json }),
+  }),
+  'user-engagement': contract({
+    description: 'Engagement metrics (placeholder until an analytics integration is wired)',
+    request: loose({ idea: z.string().optional(), industry: z.string().optional() }),
+    response: tilePayload,
+  }),
+  'web-search': contract({
+    description: 'Clustered web search results with charts',
+    request: loose({ idea: z.string().optional(), idea_keywords: z.string().optional(), userId: z.string().optional() }),
+    response: loose({ web_search: json }),
+  }),
+  'web-search-ai': contract({
+    description: 'Web search answered in the tile shape',
+    request: loose({ query: z.string(), tileType: z.string().optional(), filters: filters.optional() }),
+    response: tilePayload,
+  }),
+  'web-search-optimized': contract({
+    description: 'Cached web search for dashboard tiles',
+    request: loose({ filters: json.optional(), requestType: z.string().optional(), tileType: z.string().optional() }),
+    response: loose({ cacheHit: z.boolean().optional(), updatedAt: z.string().optional() }),
+  }),
+  'web-search-profitability': contract({
+    description: 'Profitability signals and competitor pricing from the web',
+    request: loose({ idea: z.string(), industry: z.string().optional(), geo: z.string().optional(), time_window: z.string().optional() }),
+    response: loose({ metrics: z.array(metric).optional(), items: z.array(json).optional(), competitors: z.array(json).optional(), warnings: stringList.optional(), error: z.string().optional() }),
+  }),
+  'youtube-ai-insights': contract({
+    description: 'YouTube coverage summarised by the LLM',
+    request: loose({ idea_text: z.string().optional(), idea: z.string().optional(), time_window: z.string().optional(), regionCode: z.string().optional() }),
+    response: loose({ idea: z.string().optional(), youtube_insights: json, summary: json.optional(), meta: json.optional() }),
+  }),
+  'youtube-search': contract({
+    description: 'YouTube videos and engagement for an idea',
+    request: loose({ idea_text: z.string().optional(), idea: z.string().optional(), time_window: z.string().optional(), regionCode: z.string().optional(), relevanceLanguage: z.string().optional(), query: z.string().optional(), maxResults: z.number().optional() }),
+    response: loose({ idea: z.string().optional(), youtube_insights: json, summary: json.optional(), meta: json.optional() }),
+  }),
+} satisfies Record<string, FunctionContract>;
+
+export type FunctionName = keyof typeof FUNCTION_CONTRACTS;
+export type FunctionRequest<N extends FunctionName> = z.infer<(typeof FUNCTION_CONTRACTS)[N]['request']>;
+export type FunctionResponse<N extends FunctionName> = z.infer<(typeof FUNCTION_CONTRACTS)[N]['response']>;
+
+/**
+ * Validate a request body against the function's contract; on failure `error` lists the offending
+ * paths in a form suitable for a 400 response.
+ */
+export function parseFunctionRequest<N extends FunctionName>(name: N, body: unknown):
+  | { success: true; data: FunctionRequest<N> }
+  | { success: false; error: string } {
+  const result = FUNCTION_CONTRACTS[name].request.safeParse(body ?? {});
+  if (result.success) return { success: true, data: result.data as FunctionRequest<N> };
+  const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+  return { success: false, error: `Invalid ${name} request: ${issues.join('; ')}` };
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hashIdea, type TileData } from './orchestrator-core.ts';
+
+/**
+ * Read access to the tiles data-hub has cached for an idea (data_hub_cache, keyed by hashIdea), for
+ * functions that reason over the hub instead of fetching sources again. Tiles are returned as
+ * cached, including stale ones; empty placeholder tiles are skipped.
+ */
+
+export interface CachedTile extends TileData {
+  tile: string;
+}
+
+// Enough of a tile for a prompt: metrics and explanation in full, the first few sources
+const MAX_CITATIONS_PER_TILE = 3;
+const MAX_VALUE_CHARS = 200;
+
+function hasContent(data: TileData | null | undefined): data is TileData {
+  return !!data && !data.error && (Object.keys(data.metrics || {}).length > 0 || !!data.explanation?.trim());
+}
+
+export async function loadIdeaTiles(supabase: SupabaseClient, idea: string, tiles?: string[]): Promise<CachedTile[]> {
+  const ideaHash = await hashIdea(idea);
+  let query = supabase.from('data_hub_cache').select('tile, data, created_at, expires_at').eq('idea_hash', ideaHash);
+  if (tiles?.length) query = query.in('tile', tiles);
+
+  const { data, error } = await query;
+  if (error) {
+    console.warn('[idea-tiles] cache read error', error.message);
+    return [];
+  }
+
+  return (data || [])
+    .filter(row => hasContent(row.data as TileData))
+    .map(row => {
+      const cached = row.data as TileData;
+      const expiresAt = cached.expiresAt || (row.expires_at as string);
+      return {
+        ...cached,
+        tile: row.tile as string,
+        generatedAt: cached.generatedAt || (row.created_at as string),
+        expiresAt,
+        stale: !!expiresAt && Date.now() > Date.parse(expiresAt),
+      };
+    })
+    .sort((a, b) => (tiles ? tiles.indexOf(a.tile) - tiles.indexOf(b.tile) : a.tile.localeCompare(b.tile)));
+}
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_CHARS ? `${text.slice(0, MAX_VALUE_CHARS)}…` : text;
+}
+
+/**
+ * Plain-text block for one tile, headed by its name in brackets so the model can cite it.
+ */
+export function describeTile(tile: CachedTile): string {
+  const lines = [`[${tile.tile}] confidence ${Math.round((tile.confidence ?? 0) * 100)}%, updated ${tile.generatedAt ?? 'unknown'}${tile.stale ? ' (stale)' : ''}`];
+  for (const [name, value] of Object.entries(tile.metrics || {})) {
+    lines.push(`- ${name}: ${formatValue(value)}`);
+  }
+  if (tile.explanation) lines.push(`Summary: ${tile.explanation}`);
+  const sources = (tile.citations || []).slice(0, MAX_CITATIONS_PER_TILE).map(c => c.url).filter(Boolean);
+  if (sources.length) lines.push(`Sources: ${sources.join(', ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * What a response may claim about the tiles it cited, read from the cache rows rather than from the
+ * model's answer, so it cannot reference data that does not exist.
+ */
+export function tileEvidence(tiles: CachedTile[], cited: string[]) {
+  return tiles
+    .filter(tile => cited.includes(tile.tile))
+    .map(tile => ({
+      tile: tile.tile,
+      generatedAt: tile.generatedAt,
+      stale: !!tile.stale,
+      confidence: tile.confidence ?? 0,
+      metrics: Object.keys(tile.metrics || {}),
+      sources: (tile.citations || []).map(c => c.url).filter(Boolean).slice(0, 5),
+    }));
+}
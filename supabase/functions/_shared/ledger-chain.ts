@@ -0,0 +1,239 @@
+// Hash-chain verification for public.idea_ledger.
+// Block hashes are recomputed exactly the way public.create_ledger_entry builds them, so the chain
+// can be checked outside the database and tampering shows up as a structured report.
+
+export interface LedgerBlock {
+  block_number: number;
+  transaction_hash: string;
+  previous_hash: string | null;
+  timestamp: string;
+  operation_type: string;
+  idea_id: string;
+  user_id: string;
+  data_hash: string;
+  signature: string;
+  status?: string;
+  // Shared by every block written in the same batch
+  merkle_root?: string | null;
+}
+
+export interface OwnershipRow {
+  idea_id: string;
+  last_transfer_block: number | null;
+}
+
+export type BlockIssue = 'hash_mismatch' | 'broken_link' | 'merkle_mismatch';
+
+export interface BrokenBlock {
+  block_number: number;
+  issue: BlockIssue;
+  expected: string | null;
+  actual: string | null;
+}
+
+// Entries whose previous_hash points at no block in the ledger
+export interface OrphanedEntry {
+  block_number: number;
+  idea_id: string;
+  previous_hash: string | null;
+}
+
+export interface MerkleBatchResult {
+  merkle_root: string;
+  blocks: number[];
+  computed_root: string;
+  valid: boolean;
+}
+
+export interface OwnershipMismatch {
+  idea_id: string;
+  recorded_block: number | null;
+  expected_block: number | null;
+  reason: 'missing_block' | 'not_a_transfer' | 'stale_transfer';
+}
+
+export interface LedgerIntegrityReport {
+  valid: boolean;
+  checked_blocks: number;
+  first_broken_block: number | null;
+  broken_blocks: BrokenBlock[];
+  orphaned_entries: OrphanedEntry[];
+  merkle_batches: MerkleBatchResult[];
+  ownership_mismatches: OwnershipMismatch[];
+  checked_at: string;
+}
+
+// Older create_ledger_entry versions stored the genesis link as 64 zeros instead of NULL
+const GENESIS_HASHES = new Set(['', '0'.repeat(64)]);
+
+function isGenesis(hash: string | null | undefined): boolean {
+  return hash == null || GENESIS_HASHES.has(hash);
+}
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Render a timestamptz the way Postgres 14+ renders `extract(epoch from ts)::text`:
+ * whole seconds plus exactly six fractional digits. Date only keeps milliseconds,
+ * so the fraction is taken from the timestamp string itself.
+ */
+export function pgEpochText(timestamp: string): string {
+  const match = timestamp.trim().replace(' ', 'T').match(/^(.+?T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}(?::?\d{2})?)?$/);
+  if (!match) return (Date.parse(timestamp) / 1000).toFixed(6);
+  const [, base, fraction = '', zone = 'Z'] = match;
+  const offset = zone === 'Z' ? 'Z' : zone.length === 3 ? `${zone}:00` : zone.includes(':') ? zone : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  const seconds = Math.floor(Date.parse(`${base}${offset}`) / 1000);
+  return `${seconds}.${fraction.padEnd(6, '0').slice(0, 6)}`;
+}
+
+// Same field order as create_ledger_entry / verify_ledger_integrity
+export function computeBlockHash(block: LedgerBlock): Promise<string> {
+  return sha256Hex(
+    String(block.block_number) +
+    (block.previous_hash ?? '') +
+    block.operation_type +
+    block.idea_id +
+    block.user_id +
+    block.data_hash +
+    block.signature +
+    pgEpochText(block.timestamp)
+  );
+}
+
+// Binary Merkle tree over hex leaves, leaves first and root last; an odd node is paired with itself
+export async function computeMerkleLevels(leaves: string[]): Promise<string[][]> {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(await sha256Hex(level[i] + (level[i + 1] ?? level[i])));
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export async function computeMerkleRoot(leaves: string[]): Promise<string> {
+  if (!leaves.length) return '';
+  const levels = await computeMerkleLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+// Sibling hashes from the leaf at `index` up to the root of the tree built by computeMerkleLevels
+export function merklePath(levels: string[][], index: number): MerkleStep[] {
+  const path: MerkleStep[] = [];
+  let position = index;
+  for (const level of levels.slice(0, -1)) {
+    const isRight = position % 2 === 1;
+    path.push({
+      hash: isRight ? level[position - 1] : (level[position + 1] ?? level[position]),
+      position: isRight ? 'left' : 'right'
+    });
+    position = Math.floor(position / 2);
+  }
+  return path;
+}
+
+/**
+ * Verify the whole ledger: recompute each block hash, check every previous_hash link,
+ * validate Merkle roots of batched blocks (leaves are their transaction hashes in block order)
+ * and compare idea_ownership.last_transfer_block with the latest transfer on the chain.
+ */
+export async function verifyLedgerChain(
+  blocks: LedgerBlock[],
+  ownership: OwnershipRow[] = []
+): Promise<LedgerIntegrityReport> {
+  const chain = [...blocks].sort((a, b) => a.block_number - b.block_number);
+  const byNumber = new Map(chain.map(b => [b.block_number, b]));
+  const knownHashes = new Set(chain.map(b => b.transaction_hash));
+
+  const broken: BrokenBlock[] = [];
+  const orphaned: OrphanedEntry[] = [];
+
+  for (let i = 0; i < chain.length; i++) {
+    const block = chain[i];
+
+    const expectedHash = await computeBlockHash(block);
+    if (expectedHash !== block.transaction_hash) {
+      broken.push({ block_number: block.block_number, issue: 'hash_mismatch', expected: expectedHash, actual: block.transaction_hash });
+    }
+
+    if (i === 0) {
+      if (!isGenesis(block.previous_hash)) {
+        broken.push({ block_number: block.block_number, issue: 'broken_link', expected: null, actual: block.previous_hash });
+      }
+      continue;
+    }
+
+    if (isGenesis(block.previous_hash) || !knownHashes.has(block.previous_hash!)) {
+      orphaned.push({ block_number: block.block_number, idea_id: block.idea_id, previous_hash: block.previous_hash });
+      continue;
+    }
+
+    const predecessor = byNumber.get(block.block_number - 1);
+    if (predecessor?.transaction_hash !== block.previous_hash) {
+      broken.push({
+        block_number: block.block_number,
+        issue: 'broken_link',
+        expected: predecessor?.transaction_hash ?? null,
+        actual: block.previous_hash
+      });
+    }
+  }
+
+  // Batched blocks share a merkle_root
+  const batches = new Map<string, LedgerBlock[]>();
+  chain.forEach(block => {
+    if (!block.merkle_root) return;
+    batches.set(block.merkle_root, [...(batches.get(block.merkle_root) || []), block]);
+  });
+  const merkleBatches: MerkleBatchResult[] = [];
+  for (const [root, members] of batches) {
+    const computed = await computeMerkleRoot(members.map(b => b.transaction_hash));
+    const valid = computed === root;
+    merkleBatches.push({ merkle_root: root, blocks: members.map(b => b.block_number), computed_root: computed, valid });
+    if (!valid) {
+      members.forEach(b => broken.push({ block_number: b.block_number, issue: 'merkle_mismatch', expected: computed, actual: root }));
+    }
+  }
+
+  // Latest non-failed transfer per idea
+  const latestTransfer = new Map<string, number>();
+  chain.forEach(block => {
+    if (block.operation_type === 'transfer' && block.status !== 'failed') latestTransfer.set(block.idea_id, block.block_number);
+  });
+  const ownershipMismatches: OwnershipMismatch[] = [];
+  ownership.forEach(row => {
+    const recorded = row.last_transfer_block ?? null;
+    const expected = latestTransfer.get(row.idea_id) ?? null;
+    const referenced = recorded != null ? byNumber.get(recorded) : undefined;
+    let reason: OwnershipMismatch['reason'] | null = null;
+    if (recorded != null && !referenced) reason = 'missing_block';
+    else if (referenced && (referenced.operation_type !== 'transfer' || referenced.idea_id !== row.idea_id)) reason = 'not_a_transfer';
+    else if (recorded !== expected) reason = 'stale_transfer';
+    if (reason) ownershipMismatches.push({ idea_id: row.idea_id, recorded_block: recorded, expected_block: expected, reason });
+  });
+
+  broken.sort((a, b) => a.block_number - b.block_number);
+  const breaks = [...broken.map(b => b.block_number), ...orphaned.map(o => o.block_number)];
+
+  return {
+    valid: breaks.length === 0 && ownershipMismatches.length === 0,
+    checked_blocks: chain.length,
+    first_broken_block: breaks.length ? breaks.reduce((min, n) => Math.min(min, n)) : null,
+    broken_blocks: broken,
+    orphaned_entries: orphaned,
+    merkle_batches: merkleBatches,
+    ownership_mismatches: ownershipMismatches,
+    checked_at: new Date().toISOString()
+  };
+}
@@ -19,45 +19,51 @@ interface CachedResponse {
 }
 
 /**
- * Generate a cache key from model, prompt, and parameters
+ * Bump when the key derivation or stored response shape changes.
+ * Rows written under an older version are never read and are purged by invalidate_llm_cache_schema.
  */
-function generateCacheKey(config: LLMCacheConfig): string {
-  const { model, prompt, parameters = {} } = config;
-  
-  // Create a stable string representation
-  const paramsStr = Object.keys(parameters)
-    .sort()
-    .map(key => `${key}:${JSON.stringify(parameters[key])}`)
-    .join('|');
-  
-  // Create hash of the combined string
-  const content = `${model}::${prompt}::${paramsStr}`;
-  
-  // Use TextEncoder to properly handle UTF-8 characters
-  const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  
-  // Convert to hex string instead of base64 to avoid btoa() Latin1 issues
-  const hex = Array.from(data)
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-  
-  return hex.substring(0, 64); // Truncate to 64 chars
+export const LLM_CACHE_SCHEMA_VERSION = 2;
+
+/**
+ * Serialize a value with object keys sorted at every depth so equal parameters always hash the same
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
 }
 
 /**
- * Generate a hash of the prompt for indexing
+ * SHA-256 hex digest of a UTF-8 string
  */
-function generatePromptHash(prompt: string): string {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(prompt.substring(0, 100));
-  
-  // Convert to hex string
-  const hex = Array.from(data)
+async function sha256Hex(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
-  
-  return hex.substring(0, 32);
+}
+
+/**
+ * Generate a content-addressed cache key covering the full model, prompt, and parameters
+ */
+async function generateCacheKey(config: LLMCacheConfig): Promise<string> {
+  const { model, prompt, parameters = {} } = config;
+  return sha256Hex(`v${LLM_CACHE_SCHEMA_VERSION}::${model}::${prompt}::${stableStringify(parameters)}`);
+}
+
+/**
+ * Generate a hash of the full prompt for indexing
+ */
+async function generatePromptHash(prompt: string): Promise<string> {
+  return sha256Hex(prompt);
 }
 
 /**
@@ -68,12 +74,13 @@ export async function getCachedLLMResponse(
   config: LLMCacheConfig
 ): Promise<any | null> {
   try {
-    const cacheKey = generateCacheKey(config);
+    const cacheKey = await generateCacheKey(config);
     
     const { data, error } = await supabase
       .from('llm_cache')
       .select('response, hit_count, created_at')
       .eq('cache_key', cacheKey)
+      .eq('schema_version', LLM_CACHE_SCHEMA_VERSION)
       .gt('expires_at', new Date().toISOString())
       .single();
     
@@ -109,8 +116,8 @@ export async function cacheLLMResponse(
   tokensUsed?: number
 ): Promise<void> {
   try {
-    const cacheKey = generateCacheKey(config);
-    const promptHash = generatePromptHash(config.prompt);
+    const cacheKey = await generateCacheKey(config);
+    const promptHash = await generatePromptHash(config.prompt);
     const ttlMinutes = config.ttlMinutes || 1440; // 24 hours default
     
     const expiresAt = new Date();
@@ -120,6 +127,7 @@ export async function cacheLLMResponse(
       .from('llm_cache')
       .upsert({
         cache_key: cacheKey,
+        schema_version: LLM_CACHE_SCHEMA_VERSION,
         model: config.model,
         prompt_hash: promptHash,
         response: response,
@@ -182,3 +190,25 @@ export async function clearExpiredLLMCache(supabase: SupabaseClient): Promise<nu
     return 0;
   }
 }
+
+/**
+ * Delete cache entries written under an older key schema (run after bumping LLM_CACHE_SCHEMA_VERSION)
+ */
+export async function invalidateOutdatedLLMCache(supabase: SupabaseClient): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('invalidate_llm_cache_schema', {
+      p_current_version: LLM_CACHE_SCHEMA_VERSION
+    });
+    
+    if (error) {
+      console.error('[LLM Cache] Error invalidating outdated entries:', error);
+      return 0;
+    }
+    
+    console.log(`[LLM Cache] Invalidated ${data ?? 0} entries older than schema v${LLM_CACHE_SCHEMA_VERSION}`);
+    return data ?? 0;
+  } catch (err) {
+    console.error('[LLM Cache] Error invalidating outdated entries:', err);
+    return 0;
+  }
+}
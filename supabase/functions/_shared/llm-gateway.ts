@@ -0,0 +1,310 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { cachedLLMCall } from './llm-cache.ts';
+
+/**
+ * Shared LLM gateway for edge functions.
+ *
+ * Callers describe the work (task + optional cost tier) rather than a model. The gateway picks the
+ * model for each configured provider, retries transient failures with exponential backoff, falls
+ * back to the next provider, optionally parses and validates JSON output, serves repeats from
+ * llm_cache and writes token usage to ai_credits_usage.
+ *
+ * Providers all speak the OpenAI chat completions API:
+ *   local  - LOCAL_LLM_URL (e.g. http://localhost:11434/v1), LOCAL_LLM_MODEL, optional LOCAL_LLM_API_KEY
+ *   groq   - GROQ_API_KEY
+ *   openai - OPENAI_API_KEY
+ * A configured local endpoint is tried first, so setting LOCAL_LLM_URL runs everything against a
+ * local model. LLM_PROVIDERS (comma separated, e.g. "groq,openai") overrides the order.
+ */
+
+export type ProviderName = 'local' | 'groq' | 'openai';
+export type CostTier = 'economy' | 'standard' | 'premium';
+export type LLMTask = 'chat' | 'suggestions' | 'summary' | 'extraction' | 'evaluation' | 'analysis' | 'synthesis';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Default cost tier per task; a request can still ask for a different tier
+export const TASK_TIERS: Record<LLMTask, CostTier> = {
+  chat: 'economy',
+  suggestions: 'economy',
+  summary: 'economy',
+  extraction: 'economy',
+  evaluation: 'economy',
+  analysis: 'standard',
+  synthesis: 'premium',
+};
+
+interface ProviderConfig {
+  name: ProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<CostTier, string>;
+}
+
+function providerConfigs(): Record<ProviderName, ProviderConfig | null> {
+  const localUrl = Deno.env.get('LOCAL_LLM_URL');
+  const localModel = Deno.env.get('LOCAL_LLM_MODEL') || 'llama3.1';
+  const groqKey = Deno.env.get('GROQ_API_KEY');
+  const openaiKey = Deno.env.get('OPENAI_API_KEY');
+
+  return {
+    local: localUrl ? {
+      name: 'local',
+      baseUrl: localUrl.replace(/\/+$/, ''),
+      apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+      models: { economy: localModel, standard: localModel, premium: localModel },
+    } : null,
+    groq: groqKey ? {
+      name: 'groq',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      apiKey: groqKey,
+      models: { economy: 'llama-3.1-8b-instant', standard: 'llama-3.3-70b-versatile', premium: 'llama-3.3-70b-versatile' },
+    } : null,
+    openai: openaiKey ? {
+      name: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: openaiKey,
+      models: { economy: 'gpt-4o-mini', standard: 'gpt-4o-mini', premium: 'gpt-4o' },
+    } : null,
+  };
+}
+
+const DEFAULT_ORDER: ProviderName[] = ['local', 'groq', 'openai'];
+
+// Providers with credentials, in the order they are tried
+export function configuredProviders(): ProviderName[] {
+  const configs = providerConfigs();
+  const order = (Deno.env.get('LLM_PROVIDERS') || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is ProviderName => name in configs);
+  return (order.length ? order : DEFAULT_ORDER).filter(name => configs[name]);
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  tier?: CostTier;
+  // Pins the model on the first provider only; fallbacks still use their tier model
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object and parse it. Pass a function to also validate the parsed value; invalid
+  // output is retried like a failed call.
+  json?: boolean | ((value: unknown) => boolean);
+  retries?: number; // per provider, default 2
+  // Service-role client; enables caching and usage accounting
+  supabase?: SupabaseClient;
+  cacheTtlMinutes?: number;
+  usage?: {
+    userId: string;
+    operation: string;
+    sessionId?: string;
+    credits?: number; // credits charged for this call, recorded alongside the tokens
+  };
+}
+
+export interface LLMResult<T = unknown> {
+  content: string;
+  json: T | null;
+  provider: ProviderName;
+  model: string;
+  usage: LLMUsage;
+  cached: boolean;
+  attempts: number;
+}
+
+export class LLMGatewayError extends Error {
+  constructor(message: string, public failures: Array<{ provider: ProviderName; model: string; error: string }>) {
+    super(message);
+    this.name = 'LLMGatewayError';
+  }
+}
+
+class ProviderCallError extends Error {
+  constructor(message: string, public retryable: boolean, public retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+const BACKOFF_BASE_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Models often wrap JSON in prose or code fences even in JSON mode
+export function parseJsonContent(content: string): unknown {
+  const text = content.replace(/```(?:json)?\s*/g, '').replace(/```/g, '').trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    const match = text.match(/[{[][\s\S]*[}\]]/);
+    if (!match) throw new Error('No JSON found in response');
+    return JSON.parse(match[0]);
+  }
+}
+
+async function callProvider(provider: ProviderConfig, model: string, request: LLMRequest): Promise<Omit<LLMResult, 'cached' | 'attempts'>> {
+  let response: Response;
+  try {
+    response = await fetch(`${provider.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(provider.apiKey ? { 'Authorization': `Bearer ${provider.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 1000,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+  } catch (error) {
+    throw new ProviderCallError(`network error: ${error instanceof Error ? error.message : error}`, true);
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new ProviderCallError(
+      `${response.status} ${body.slice(0, 200)}`,
+      response.status === 408 || response.status === 429 || response.status >= 500,
+      retryAfter > 0 ? retryAfter * 1000 : undefined,
+    );
+  }
+
+  const data = await response.json();
+  const content: string = data.choices?.[0]?.message?.content ?? '';
+  if (!content) throw new ProviderCallError('empty completion', true);
+
+  let json: unknown = null;
+  if (request.json) {
+    try {
+      json = parseJsonContent(content);
+    } catch (error) {
+      throw new ProviderCallError(`invalid JSON: ${error instanceof Error ? error.message : error}`, true);
+    }
+    if (typeof request.json === 'function' && !request.json(json)) {
+      throw new ProviderCallError('JSON failed validation', true);
+    }
+  }
+
+  return {
+    content,
+    json,
+    provider: provider.name,
+    model,
+    usage: {
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+      totalTokens: data.usage?.total_tokens ?? ((data.usage?.prompt_tokens ?? 0) + (data.usage?.completion_tokens ?? 0)),
+    },
+  };
+}
+
+async function callWithFallback(request: LLMRequest): Promise<Omit<LLMResult, 'cached'>> {
+  const configs = providerConfigs();
+  const providers = configuredProviders();
+  if (!providers.length) {
+    throw new LLMGatewayError('No LLM provider configured (set LOCAL_LLM_URL, GROQ_API_KEY or OPENAI_API_KEY)', []);
+  }
+
+  const tier = request.tier ?? TASK_TIERS[request.task];
+  const retries = request.retries ?? 2;
+  const failures: LLMGatewayError['failures'] = [];
+  let attempts = 0;
+
+  for (const [index, name] of providers.entries()) {
+    const provider = configs[name]!;
+    const model = index === 0 && request.model ? request.model : provider.models[tier];
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      attempts++;
+      try {
+        const result = await callProvider(provider, model, request);
+        return { ...result, attempts };
+      } catch (error) {
+        const failure = error instanceof ProviderCallError ? error : new ProviderCallError(String(error), false);
+        console.warn(`[llm-gateway] ${name}/${model} attempt ${attempt + 1} failed: ${failure.message}`);
+
+        if (!failure.retryable || attempt === retries) {
+          failures.push({ provider: name, model, error: failure.message });
+          break;
+        }
+        await sleep(Math.min(MAX_BACKOFF_MS, failure.retryAfterMs ?? BACKOFF_BASE_MS * 2 ** attempt));
+      }
+    }
+  }
+
+  throw new LLMGatewayError(
+    `All LLM providers failed: ${failures.map(f => `${f.provider} (${f.error})`).join('; ')}`,
+    failures,
+  );
+}
+
+async function recordUsage(supabase: SupabaseClient, usage: NonNullable<LLMRequest['usage']>, result: LLMResult): Promise<void> {
+  try {
+    const { data: periodData } = await supabase.rpc('get_current_billing_period');
+    const { error } = await supabase.from('ai_credits_usage').insert({
+      user_id: usage.userId,
+      operation_type: usage.operation,
+      session_id: usage.sessionId ?? null,
+      credits_used: usage.credits ?? 0,
+      provider: result.provider,
+      model: result.model,
+      prompt_tokens: result.cached ? 0 : result.usage.promptTokens,
+      completion_tokens: result.cached ? 0 : result.usage.completionTokens,
+      cached: result.cached,
+      billing_period_start: periodData?.[0]?.period_start || new Date().toISOString(),
+      billing_period_end: periodData?.[0]?.period_end || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('[llm-gateway] Failed to record usage:', error);
+  }
+}
+
+/**
+ * Run a chat completion through the gateway. Throws LLMGatewayError once every provider has failed.
+ */
+export async function callLLM<T = unknown>(request: LLMRequest): Promise<LLMResult<T>> {
+  let result: LLMResult<T>;
+
+  if (request.supabase && request.cacheTtlMinutes) {
+    let fresh = false;
+    const tier = request.tier ?? TASK_TIERS[request.task];
+    const cachedResult = await cachedLLMCall(
+      request.supabase,
+      {
+        model: request.model || `${request.task}:${tier}`,
+        prompt: JSON.stringify(request.messages),
+        parameters: { temperature: request.temperature ?? 0.7, maxTokens: request.maxTokens ?? 1000, json: !!request.json },
+        ttlMinutes: request.cacheTtlMinutes,
+      },
+      async () => {
+        fresh = true;
+        return callWithFallback(request);
+      },
+    );
+    result = { ...cachedResult, cached: !fresh } as LLMResult<T>;
+  } else {
+    result = { ...(await callWithFallback(request)), cached: false } as LLMResult<T>;
+  }
+
+  if (request.supabase && request.usage) {
+    await recordUsage(request.supabase, request.usage, result);
+  }
+
+  return result;
+}
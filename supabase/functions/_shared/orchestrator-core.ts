@@ -1,5 +1,10 @@
 // Shared server-safe orchestrator core (extracted minimal subset)
 // NOTE: Do NOT import browser-only modules. This file runs in Deno edge functions.
+import { tileRegistry, TileEntitlementError, TileProviderContext } from './tile-registry.ts';
+import './tile-providers.ts';
+
+export { tileRegistry } from './tile-registry.ts';
+export type { TileProvider, TileProviderContext } from './tile-registry.ts';
 
 export interface TileData {
   metrics: Record<string, any>;
@@ -11,7 +16,30 @@ export interface TileData {
   dataQuality: 'high' | 'medium' | 'low';
   insights?: any;
   error?: string;
+  // Set instead of data when the caller's plan does not cover the provider, so the tile can offer an upgrade
+  entitlement?: TileEntitlementDenial;
+  // true when served from cache past expiresAt while a background regeneration runs
   stale?: boolean;
+  generatedAt?: string;
+  expiresAt?: string;
+}
+
+// The entitlement body of a provider's 401/402/429 response (entitlementErrorResponse), with its status and message
+export interface TileEntitlementDenial {
+  status: number;
+  error: string;
+  code: string;
+  tier: string;
+  feature: string | null;
+  suggested_tier: string | null;
+  retry_after: number | null;
+}
+
+// Per-tile timing: queuedMs is time spent waiting on dependencies / a free slot
+export interface TileTiming {
+  source: 'cache' | 'generated' | 'error';
+  queuedMs: number;
+  durationMs: number;
 }
 
 export interface DataHubResponseMeta {
@@ -19,6 +47,9 @@ export interface DataHubResponseMeta {
   generated: string[];
   elapsedMs: number;
   ideaHash: string;
+  timings?: Record<string, TileTiming>;
+  // Tiles served past their freshness window (a regeneration was enqueued for each)
+  stale?: string[];
   warnings?: string[];
 }
 
@@ -27,6 +58,8 @@ export interface DataHubRequestBody {
   tiles?: string[];
   sessionId?: string;
   forceRefresh?: boolean;
+  // Respond with Server-Sent Events (one `tile` event per finished tile, then `meta`)
+  stream?: boolean;
 }
 
 // Simple SHA-256 helper for deterministic idea key
@@ -49,306 +82,234 @@ export function emptyTile(reason: string): TileData {
   };
 }
 
-// Synthesis placeholder (no mock values) — real providers should populate metrics.
-export async function synthesizeTile(type: string, idea: string): Promise<TileData> {
-  const SUPABASE_URL = (globalThis as any).Deno?.env?.get('SUPABASE_URL') || '';
-  const SERVICE_KEY = (globalThis as any).Deno?.env?.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-  
-  switch (type) {
-    case 'twitter_sentiment':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/twitter-ai-insights`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea, idea_text: idea, lang: 'en' })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          // Pass through raw json - TwitterSentimentTile will normalize it
-          return {
-            metrics: json.metrics || {},
-            explanation: json.summary || 'Twitter sentiment analysis completed',
-            citations: [],
-            charts: [],
-            json: json, // Contains all data: summary, metrics, clusters, raw_tweets
-            confidence: 0.7,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] twitter_sentiment error:', e);
-      }
-      return emptyTile('Twitter sentiment data unavailable');
-    
-    case 'youtube_analysis':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/youtube-ai-insights`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea_text: idea, idea, time_window: 'year', regionCode: 'US' })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          const count = Array.isArray(json.youtube_insights) ? json.youtube_insights.length : 0;
-          return {
-            metrics: json.summary || {},
-            explanation: `Found ${count} relevant videos`,
-            citations: [],
-            charts: [],
-            json: json,
-            confidence: 0.6,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] youtube_analysis error:', e);
-      }
-      return emptyTile('YouTube analysis data unavailable');
-      
-    case 'market_size':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/market-size-analysis`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.market_size?.metrics || json.metrics || {},
-            explanation: json.market_size?.explanation || json.explanation || 'Market size analysis completed',
-            citations: json.market_size?.citations || json.citations || [],
-            charts: json.market_size?.charts || json.charts || [],
-            json: json,
-            confidence: 0.75,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] market_size error:', e);
-      }
-      return emptyTile('Market size data not available yet');
-      
-    case 'competition':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/competitive-landscape`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.competition?.metrics || json.metrics || {},
-            explanation: json.competition?.explanation || json.summary || 'Competition analysis completed',
-            citations: json.competition?.citations || json.citations || [],
-            charts: json.competition?.charts || json.charts || [],
-            json: json,
-            confidence: 0.75,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] competition error:', e);
-      }
-      return emptyTile('Competition analysis unavailable');
-      
-    case 'sentiment':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/unified-sentiment`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.sentiment?.metrics || json.metrics || {},
-            explanation: json.sentiment?.summary || json.summary || 'Sentiment analysis completed',
-            citations: json.sentiment?.citations || json.citations || [],
-            charts: json.sentiment?.charts || json.charts || [],
-            json: json,
-            confidence: 0.70,
-            dataQuality: 'medium'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] sentiment error:', e);
-      }
-      return emptyTile('Sentiment data unavailable');
-      
-    case 'market_trends':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/market-trends`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.trends?.metrics || json.metrics || {},
-            explanation: json.trends?.summary || json.summary || 'Market trends analysis completed',
-            citations: json.trends?.citations || json.citations || [],
-            charts: json.trends?.charts || json.charts || [],
-            json: json,
-            confidence: 0.75,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] market_trends error:', e);
-      }
-      return emptyTile('Market trends data unavailable');
-      
-    case 'google_trends':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/google-trends`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.google_trends?.metrics || json.metrics || {},
-            explanation: json.google_trends?.summary || json.summary || 'Google trends analysis completed',
-            citations: json.google_trends?.citations || json.citations || [],
-            charts: json.google_trends?.charts || json.charts || [],
-            json: json,
-            confidence: 0.85,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] google_trends error:', e);
-      }
-      return emptyTile('Google Trends data unavailable');
-      
-    case 'web_search':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/web-search`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.web_search?.metrics || json.metrics || {},
-            explanation: json.web_search?.summary || json.summary || 'Web search analysis completed',
-            citations: json.web_search?.citations || json.citations || [],
-            charts: json.web_search?.charts || json.charts || [],
-            json: json,
-            confidence: 0.70,
-            dataQuality: 'medium'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] web_search error:', e);
-      }
-      return emptyTile('Web search data unavailable');
-      
-    case 'news_analysis':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/news-analysis`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          return {
-            metrics: json.news_analysis?.metrics || json.metrics || {},
-            explanation: json.news_analysis?.summary || json.summary || 'News analysis completed',
-            citations: json.news_analysis?.citations || json.citations || [],
-            charts: json.news_analysis?.charts || json.charts || [],
-            json: json,
-            confidence: 0.75,
-            dataQuality: 'high'
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] news_analysis error:', e);
-      }
-      return emptyTile('News analysis data unavailable');
-      
-    case 'reddit_sentiment':
-      try {
-        const resp = await fetch(`${SUPABASE_URL}/functions/v1/reddit-sentiment`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea })
-        });
-        if (resp.ok) {
-          const json = await resp.json();
-          const rs = json.reddit_sentiment || json;
-          const getMetric = (name: string) => Array.isArray(rs.metrics) ? (rs.metrics.find((m: any) => m.name === name)?.value ?? null) : null;
-          const confidenceMap: Record<string, number> = { High: 0.85, Moderate: 0.7, Low: 0.5 };
-          const citationsArr = (rs.clusters?.[0]?.citations || rs.citations || []).map((c: any) => ({
-            url: c.url || '#',
-            title: c.title || c.label || 'Reddit Source',
-            source: c.source || 'Reddit',
-            relevance: 0.8,
-          }));
-          return {
-            metrics: {
-              positive: rs.overall_sentiment?.positive ?? null,
-              neutral: rs.overall_sentiment?.neutral ?? null,
-              negative: rs.overall_sentiment?.negative ?? null,
-              total_posts: rs.overall_sentiment?.total_posts ?? null,
-              engagement_score: getMetric('engagement_score'),
-              community_positivity_score: getMetric('community_positivity_score'),
-            },
-            explanation: rs.clusters?.[0]?.insight || 'Reddit community sentiment analysis',
-            citations: citationsArr,
-            charts: rs.charts || [],
-            json: rs,
-            confidence: confidenceMap[String(rs.confidence)] ?? 0.7,
-            dataQuality: 'high',
-          };
-        }
-      } catch (e: any) {
-        console.error('[synthesizeTile] reddit_sentiment error:', e);
-      }
-      return emptyTile('Reddit sentiment data unavailable');
-    default:
-      return emptyTile(`Tile "${type}" not implemented.`);
+// Freshness window for tiles whose provider does not declare one
+export const DEFAULT_FRESHNESS_HOURS = 6;
+// Past expiresAt + this, a cached tile is too old to show even while revalidating
+export const MAX_STALE_HOURS = 7 * 24;
+
+export function tileFreshnessHours(type: string): number {
+  return tileRegistry.get(type)?.freshnessHours ?? DEFAULT_FRESHNESS_HOURS;
+}
+
+// Stamp generatedAt / expiresAt from the tile type's freshness window
+export function stampFreshness(type: string, data: TileData, now = Date.now()): TileData {
+  return {
+    ...data,
+    stale: false,
+    generatedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + tileFreshnessHours(type) * 60 * 60 * 1000).toISOString()
+  };
+}
+
+// Expiry of a cached tile in ms. Rows written before freshness stamping only carry the cache row's
+// expires_at / created_at (loadCache copies those in); a tile with neither counts as long expired.
+function cachedExpiry(type: string, data: TileData): number {
+  const expiresAt = data.expiresAt ? Date.parse(data.expiresAt) : NaN;
+  if (!Number.isNaN(expiresAt)) return expiresAt;
+  const generatedAt = data.generatedAt ? Date.parse(data.generatedAt) : NaN;
+  return Number.isNaN(generatedAt) ? 0 : generatedAt + tileFreshnessHours(type) * 60 * 60 * 1000;
+}
+
+function isEmptyTile(data: TileData): boolean {
+  return data.confidence === 0 && Object.keys(data.metrics || {}).length === 0;
+}
+
+// Background regenerations in flight, keyed by ideaHash:tile, so concurrent requests enqueue one each
+const revalidating = new Set<string>();
+
+// Synthesize a tile through its registered provider (no mock values) — unknown tiles return an explanatory empty tile.
+// `authorization` is the end user's Authorization header, forwarded to providers that check their plan.
+export async function synthesizeTile(type: string, idea: string, dependencies: Record<string, TileData> = {}, authorization?: string): Promise<TileData> {
+  const provider = tileRegistry.get(type);
+  if (!provider) {
+    return emptyTile(`Tile "${type}" not implemented.`);
   }
+
+  const ctx: TileProviderContext = {
+    idea,
+    supabaseUrl: (globalThis as any).Deno?.env?.get('SUPABASE_URL') || '',
+    serviceKey: (globalThis as any).Deno?.env?.get('SUPABASE_SERVICE_ROLE_KEY') || '',
+    authorization,
+    dependencies
+  };
+  const missingInputs = provider.inputs.filter(input => !ctx[input]);
+  if (missingInputs.length) {
+    return emptyTile(`Tile "${type}" is missing inputs: ${missingInputs.join(', ')}`);
+  }
+
+  try {
+    const raw = await provider.fetch(ctx);
+    if (raw) {
+      const normalized = provider.normalize(raw, ctx);
+      if (normalized) return normalized;
+    }
+  } catch (e: any) {
+    if (e instanceof TileEntitlementError) {
+      return { ...emptyTile(e.message), error: e.message, entitlement: e.denial };
+    }
+    console.error(`[synthesizeTile] ${type} error:`, e);
+  }
+  return emptyTile(provider.unavailableReason);
+}
+
+// Default number of tiles fetched at the same time by buildTiles
+export const DEFAULT_TILE_CONCURRENCY = 4;
+
+// Limit how many async tasks run at once; a finishing task hands its slot straight to the next waiter
+function createLimiter(max: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= max) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next(); else active--;
+    }
+  };
+}
+
+// Tiles that (transitively) depend on themselves can never be scheduled
+function findCyclicTiles(tiles: string[]): Set<string> {
+  const cyclic = new Set<string>();
+  const done = new Set<string>();
+  const visit = (tile: string, path: string[]) => {
+    const loopAt = path.indexOf(tile);
+    if (loopAt !== -1) {
+      path.slice(loopAt).forEach(t => cyclic.add(t));
+      return;
+    }
+    if (done.has(tile)) return;
+    for (const dep of tileRegistry.get(tile)?.dependencies || []) {
+      visit(dep, [...path, tile]);
+    }
+    done.add(tile);
+  };
+  tiles.forEach(tile => visit(tile, []));
+  return cyclic;
 }
 
 // Core orchestrator: fetch (or load from cache) a set of tiles.
-export async function buildTiles(idea: string, tiles: string[], opts: { force?: boolean; loadCache: (id: string, tile: string) => Promise<TileData | null>; saveCache: (id: string, tile: string, data: TileData) => Promise<void>; }): Promise<{ tiles: Record<string, TileData>; meta: DataHubResponseMeta; }> {
+// Tiles run as a DAG: independent tiles share `concurrency` slots, and a tile whose provider declares
+// dependencies waits for those tiles (fetching them too, even if not requested) before it is synthesized.
+// Cached tiles past expiresAt are returned immediately with stale: true and regenerated in the background;
+// pass `waitUntil` (EdgeRuntime.waitUntil) so the runtime keeps that work alive after the response.
+// Once `signal` aborts (the client went away), tiles that have not started synthesizing fail fast instead.
+export async function buildTiles(idea: string, tiles: string[], opts: { force?: boolean; concurrency?: number; signal?: AbortSignal; onTile?: (tile: string, data: TileData) => void; waitUntil?: (task: Promise<unknown>) => void; authorization?: string; loadCache: (id: string, tile: string) => Promise<TileData | null>; saveCache: (id: string, tile: string, data: TileData) => Promise<void>; }): Promise<{ tiles: Record<string, TileData>; meta: DataHubResponseMeta; }> {
   const start = Date.now();
   const ideaHash = await hashIdea(idea);
   const out: Record<string, TileData> = {};
   const cacheHits: string[] = [];
   const generated: string[] = [];
   const warnings: string[] = [];
+  const staleTiles: string[] = [];
+  const timings: Record<string, TileTiming> = {};
+  const limit = createLimiter(Math.max(1, opts.concurrency || DEFAULT_TILE_CONCURRENCY));
+  const cyclic = findCyclicTiles(tiles);
+  const running = new Map<string, Promise<TileData>>();
+
+  const resolveDependencies = async (tile: string): Promise<Record<string, TileData>> => {
+    const depNames = tileRegistry.get(tile)?.dependencies || [];
+    const depResults = await Promise.all(depNames.map(runTile));
+    return depNames.reduce((acc, dep, i) => {
+      acc[dep] = depResults[i];
+      return acc;
+    }, {} as Record<string, TileData>);
+  };
+
+  // Regenerate a stale tile outside the response path; a failed regeneration keeps the stale copy
+  const revalidate = (tile: string) => {
+    const key = `${ideaHash}:${tile}`;
+    if (revalidating.has(key)) return;
+    revalidating.add(key);
+    const task = (async () => {
+      try {
+        const fresh = stampFreshness(tile, await synthesizeTile(tile, idea, await resolveDependencies(tile), opts.authorization));
+        if (isEmptyTile(fresh)) {
+          console.warn(`[buildTiles] Revalidation of ${tile} returned no data; keeping stale copy`);
+          return;
+        }
+        await opts.saveCache(ideaHash, tile, fresh);
+      } catch (e: any) {
+        console.error(`[buildTiles] Revalidation of ${tile} failed:`, e);
+      } finally {
+        revalidating.delete(key);
+      }
+    })();
+    opts.waitUntil?.(task);
+  };
+
+  const runTile = (tile: string): Promise<TileData> => {
+    const existing = running.get(tile);
+    if (existing) return existing;
+    const task = (async (): Promise<TileData> => {
+      const queuedAt = Date.now();
+      if (cyclic.has(tile)) {
+        warnings.push(`Tile ${tile} has a circular dependency`);
+        timings[tile] = { source: 'error', queuedMs: 0, durationMs: 0 };
+        return { ...emptyTile('Tile failed to generate'), error: 'Circular tile dependency' };
+      }
 
-  for (const tile of tiles) {
-    try {
       let cached: TileData | null = null;
       if (!opts.force) {
-        cached = await opts.loadCache(ideaHash, tile);
+        cached = await limit(() => opts.loadCache(ideaHash, tile)).catch(() => null);
+      }
+      const expiresAt = cached ? cachedExpiry(tile, cached) : 0;
+      if (cached && Date.now() > expiresAt + MAX_STALE_HOURS * 60 * 60 * 1000) {
+        cached = null;
       }
       if (cached) {
-        out[tile] = { ...cached, stale: false };
         cacheHits.push(tile);
-        continue;
+        timings[tile] = { source: 'cache', queuedMs: 0, durationMs: Date.now() - queuedAt };
+        const stale = Date.now() > expiresAt;
+        if (stale) {
+          staleTiles.push(tile);
+          revalidate(tile);
+        }
+        return { ...cached, stale };
       }
-      const synthesized = await synthesizeTile(tile, idea);
-      out[tile] = synthesized;
-      generated.push(tile);
-      // Persist even placeholder so front-end knows tile exists (could mark with low confidence)
-      await opts.saveCache(ideaHash, tile, synthesized).catch(() => {
-        warnings.push(`Failed to cache tile ${tile}`);
-      });
-    } catch (e: any) {
-      out[tile] = { ...emptyTile('Tile failed to generate'), error: e?.message || 'Unknown error' };
-      warnings.push(`Tile ${tile} error: ${e?.message}`);
-    }
-  }
+
+      const deps = await resolveDependencies(tile);
+
+      const readyAt = Date.now();
+      try {
+        return await limit(async () => {
+          if (opts.signal?.aborted) throw new Error('Request cancelled');
+          const startedAt = Date.now();
+          const synthesized = stampFreshness(tile, await synthesizeTile(tile, idea, deps, opts.authorization));
+          // A plan denial is about this caller, and the cache is shared by everyone analyzing the idea
+          if (synthesized.entitlement) {
+            timings[tile] = { source: 'error', queuedMs: startedAt - queuedAt, durationMs: Date.now() - startedAt };
+            return synthesized;
+          }
+          generated.push(tile);
+          timings[tile] = { source: 'generated', queuedMs: startedAt - queuedAt, durationMs: Date.now() - startedAt };
+          // Persist even placeholder so front-end knows tile exists (could mark with low confidence)
+          await opts.saveCache(ideaHash, tile, synthesized).catch(() => {
+            warnings.push(`Failed to cache tile ${tile}`);
+          });
+          return synthesized;
+        });
+      } catch (e: any) {
+        warnings.push(`Tile ${tile} error: ${e?.message}`);
+        timings[tile] = { source: 'error', queuedMs: readyAt - queuedAt, durationMs: Date.now() - readyAt };
+        return { ...emptyTile('Tile failed to generate'), error: e?.message || 'Unknown error' };
+      }
+    })();
+    running.set(tile, task);
+    return task;
+  };
+
+  // onTile fires for requested tiles only, as soon as each one settles
+  await Promise.all(tiles.map(tile => runTile(tile).then(data => {
+    out[tile] = data;
+    opts.onTile?.(tile, data);
+  })));
 
   return {
     tiles: out,
@@ -357,6 +318,8 @@ export async function buildTiles(idea: string, tiles: string[], opts: { force?:
       generated,
       elapsedMs: Date.now() - start,
       ideaHash,
+      timings,
+      stale: staleTiles.length ? staleTiles : undefined,
       warnings: warnings.length ? warnings : undefined
     }
   };
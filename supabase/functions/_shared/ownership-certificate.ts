@@ -0,0 +1,123 @@
+// Signed, offline-verifiable ownership certificates.
+// A certificate carries the idea's ledger entries from creation through the latest transfer, a Merkle
+// inclusion path for each entry against the whole ledger at issue time, and an ES256 signature by the
+// server key. src/lib/ownership-certificate.ts verifies one without any network access.
+import { computeMerkleLevels, merklePath, LedgerBlock, MerkleStep } from './ledger-chain.ts';
+
+export const CERTIFICATE_VERSION = 1;
+
+export interface CertificateEntry extends LedgerBlock {
+  metadata: Record<string, unknown> | null;
+}
+
+export interface OwnershipCertificate {
+  version: number;
+  certificate_id: string;
+  issued_at: string;
+  idea_id: string;
+  owner_id: string;
+  original_creator_id: string;
+  data_hash: string;
+  entries: CertificateEntry[];
+  // Merkle root over every transaction_hash in the ledger (block order) when the certificate was issued
+  ledger: { root: string; size: number; head_block: number };
+  inclusion: { block_number: number; leaf_index: number; path: MerkleStep[] }[];
+  public_key: JsonWebKey;
+  algorithm: 'ES256';
+  // base64url raw r||s signature over canonicalJson of every other field
+  signature: string;
+}
+
+// JSON with sorted keys, so signer and verifier serialize identically
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function base64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+let signingKey: Promise<{ privateKey: CryptoKey; publicJwk: JsonWebKey }> | null = null;
+
+// LEDGER_SIGNING_KEY holds a P-256 private key as JWK JSON (kty, crv, x, y, d)
+function loadSigningKey() {
+  if (!signingKey) {
+    const raw = Deno.env.get('LEDGER_SIGNING_KEY');
+    if (!raw) throw new Error('Certificate signing key is not configured');
+    const jwk = JSON.parse(raw) as JsonWebKey;
+    signingKey = crypto.subtle
+      .importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign'])
+      .then(privateKey => ({ privateKey, publicJwk: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y } }));
+    signingKey.catch(() => { signingKey = null; });
+  }
+  return signingKey;
+}
+
+/**
+ * Build and sign a certificate for one idea. `ledger` must be the full ledger in block order,
+ * so the inclusion paths prove each entry against the same root a third party can compare.
+ */
+export async function issueOwnershipCertificate(params: {
+  ideaId: string;
+  ownerId: string;
+  originalCreatorId: string;
+  ledger: CertificateEntry[];
+}): Promise<OwnershipCertificate> {
+  const { ideaId, ownerId, originalCreatorId, ledger } = params;
+
+  const ideaEntries = ledger.filter(b => b.idea_id === ideaId && b.status !== 'failed');
+  const createIndex = ideaEntries.findIndex(b => b.operation_type === 'create');
+  if (createIndex === -1) throw new Error('No creation entry found for this idea');
+  let lastTransferIndex = -1;
+  ideaEntries.forEach((b, i) => { if (b.operation_type === 'transfer') lastTransferIndex = i; });
+  const entries = ideaEntries.slice(createIndex, Math.max(createIndex, lastTransferIndex) + 1);
+
+  const levels = await computeMerkleLevels(ledger.map(b => b.transaction_hash));
+  const leafIndex = new Map(ledger.map((b, i) => [b.block_number, i]));
+
+  const { privateKey, publicJwk } = await loadSigningKey();
+
+  const unsigned: Omit<OwnershipCertificate, 'signature'> = {
+    version: CERTIFICATE_VERSION,
+    certificate_id: crypto.randomUUID(),
+    issued_at: new Date().toISOString(),
+    idea_id: ideaId,
+    owner_id: ownerId,
+    original_creator_id: originalCreatorId,
+    data_hash: entries[0].data_hash,
+    entries,
+    ledger: {
+      root: levels[levels.length - 1][0],
+      size: ledger.length,
+      head_block: ledger[ledger.length - 1].block_number
+    },
+    inclusion: entries.map(entry => {
+      const index = leafIndex.get(entry.block_number)!;
+      return { block_number: entry.block_number, leaf_index: index, path: merklePath(levels, index) };
+    }),
+    public_key: publicJwk,
+    algorithm: 'ES256'
+  };
+
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(canonicalJson(unsigned))
+  );
+
+  return { ...unsigned, signature: base64Url(signature) };
+}
@@ -0,0 +1,378 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { describeTile, type CachedTile } from './idea-tiles.ts';
+import { callLLM, configuredProviders } from './llm-gateway.ts';
+import { parseNumeric } from './tile-schemas.ts';
+
+/**
+ * Pitch deck model for generate-pitch-deck. buildPitchDeck turns an idea's cached hub tiles into
+ * slides (metrics, a chart from TileData.charts, sources) and has the model write each slide's
+ * headline and bullets from the same tiles. layoutSlide places a slide on a 13.33 x 7.5 inch page
+ * so the PPTX and PDF renderers draw identical decks.
+ */
+
+export const DECK_TILES = ['market_size', 'competition', 'sentiment', 'market_trends', 'financial_analysis', 'pmf_score', 'reddit_sentiment', 'google_trends'];
+
+export type SlideType = 'cover' | 'problem' | 'market' | 'competition' | 'validation' | 'trends' | 'financials' | 'ask';
+
+export interface DeckChart {
+  title: string;
+  tile: string;
+  points: Array<{ label: string; value: number }>;
+}
+
+export interface DeckSlide {
+  type: SlideType;
+  title: string;
+  headline: string;
+  bullets: string[];
+  metrics: Array<{ label: string; value: string }>;
+  chart?: DeckChart;
+  // Tiles the slide is grounded in and the sources behind them
+  tiles: string[];
+  sources: string[];
+}
+
+export interface PitchDeck {
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  slides: DeckSlide[];
+  tiles: Array<{ tile: string; generatedAt?: string; stale: boolean; confidence: number }>;
+  // False when the narratives are the tile summaries because the model was unavailable
+  narrated: boolean;
+}
+
+export interface DeckScore {
+  pmfScore?: number | null;
+  breakdown?: Record<string, unknown> | null;
+}
+
+interface SlidePlan {
+  type: SlideType;
+  title: string;
+  tiles: string[];
+  brief: string;
+  // Headline when the model is unavailable and the slide's lead tile is not enough to write one
+  placeholder?: string;
+}
+
+const SLIDE_PLAN: SlidePlan[] = [
+  { type: 'problem', title: 'Problem', tiles: ['sentiment', 'reddit_sentiment'], brief: 'the pain customers describe, in their words' },
+  { type: 'market', title: 'Market Opportunity', tiles: ['market_size'], brief: 'TAM, SAM, SOM and growth, quoted from the data' },
+  { type: 'competition', title: 'Competitive Landscape', tiles: ['competition'], brief: 'who the incumbents are and the gap they leave' },
+  { type: 'validation', title: 'Demand & Validation', tiles: ['pmf_score', 'sentiment', 'reddit_sentiment'], brief: 'evidence that people want this: sentiment, engagement, PMF signals' },
+  { type: 'trends', title: 'Why Now', tiles: ['market_trends', 'google_trends'], brief: 'the trends and drivers that make this the right time' },
+  { type: 'financials', title: 'Financials', tiles: ['financial_analysis', 'market_size'], brief: 'revenue model, unit economics and funding signals from the data' },
+  { type: 'ask', title: 'The Ask', tiles: ['market_size', 'financial_analysis', 'competition'], brief: 'what the raise unlocks and the milestones it buys', placeholder: 'Add the raise, use of funds and the milestones it buys' },
+];
+
+const MAX_BULLETS = 4;
+const MAX_METRICS = 4;
+const MAX_CHART_POINTS = 8;
+const MAX_SOURCES = 3;
+
+const ACRONYMS = new Set(['tam', 'sam', 'som', 'cagr', 'pmf', 'roi', 'ltv', 'cac', 'arr', 'mrr', 'arpu']);
+const humanize = (key: string) => key
+  .replace(/[_-]+/g, ' ')
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .split(' ')
+  .map((word, i) => (ACRONYMS.has(word.toLowerCase()) ? word.toUpperCase() : i === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word.toLowerCase()))
+  .join(' ');
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e12) return `${+(value / 1e12).toFixed(1)}T`;
+  if (abs >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${+(value / 1e3).toFixed(1)}K`;
+  return `${+value.toFixed(1)}`;
+}
+
+// Scalar metrics only: nested objects and lists do not fit on a card
+function slideMetrics(tiles: CachedTile[]): DeckSlide['metrics'] {
+  const metrics: DeckSlide['metrics'] = [];
+  for (const tile of tiles) {
+    for (const [key, value] of Object.entries(tile.metrics || {})) {
+      if (metrics.length >= MAX_METRICS) return metrics;
+      if (value === null || value === undefined || typeof value === 'object') continue;
+      const text = typeof value === 'number' ? formatCompact(value) : String(value).trim();
+      if (text && text.length <= 24 && !metrics.some(m => m.label === humanize(key))) {
+        metrics.push({ label: humanize(key), value: text });
+      }
+    }
+  }
+  return metrics;
+}
+
+const LABEL_KEYS = ['name', 'label', 'category', 'segment', 'region', 'x', 'date', 'month', 'period', 'cluster', 'entity', 'text'];
+const VALUE_KEYS = ['value', 'y', 'count', 'volume', 'score', 'share', 'size', 'mentions', 'amount'];
+
+function chartPoint(point: unknown): DeckChart['points'][number] | null {
+  if (!point || typeof point !== 'object') return null;
+  const entry = point as Record<string, unknown>;
+  const labelKey = LABEL_KEYS.find(k => typeof entry[k] === 'string' || typeof entry[k] === 'number')
+    ?? Object.keys(entry).find(k => typeof entry[k] === 'string');
+  const valueKey = VALUE_KEYS.find(k => parseNumeric(entry[k]) !== null)
+    ?? Object.keys(entry).find(k => k !== labelKey && typeof entry[k] === 'number');
+  const value = valueKey ? parseNumeric(entry[valueKey]) : null;
+  if (!labelKey || value === null) return null;
+  return { label: clip(String(entry[labelKey]), 28), value };
+}
+
+/**
+ * First chart in the tiles with at least two plottable points. Tiles store charts as
+ * { title, series | data: [{ name, value }] }, with varying label and value keys.
+ */
+export function chartFromTiles(tiles: CachedTile[]): DeckChart | undefined {
+  for (const tile of tiles) {
+    for (const chart of tile.charts || []) {
+      if (!chart || typeof chart !== 'object') continue;
+      const raw = Array.isArray(chart.series) && chart.series.length ? chart.series : chart.data;
+      if (!Array.isArray(raw)) continue;
+      const points = raw.map(chartPoint).filter((p): p is DeckChart['points'][number] => !!p && p.value >= 0);
+      if (points.length >= 2) {
+        return { title: String(chart.title || humanize(tile.tile)), tile: tile.tile, points: points.slice(0, MAX_CHART_POINTS) };
+      }
+    }
+  }
+  return undefined;
+}
+
+// The market slide always has something to plot when the tile has TAM/SAM/SOM
+function funnelChart(tiles: CachedTile[]): DeckChart | undefined {
+  const market = tiles.find(t => t.tile === 'market_size');
+  if (!market) return undefined;
+  const points = ['tam', 'sam', 'som']
+    .map(key => ({ label: key.toUpperCase(), value: parseNumeric(market.metrics?.[key]) }))
+    .filter((p): p is DeckChart['points'][number] => p.value !== null);
+  return points.length >= 2 ? { title: 'Addressable market (USD)', tile: 'market_size', points } : undefined;
+}
+
+const narrativeSchema = z.object({
+  title: z.string().min(1),
+  subtitle: z.string().default(''),
+  slides: z.array(z.object({
+    type: z.string(),
+    headline: z.string().min(1),
+    bullets: z.array(z.string()).default([]),
+  })),
+});
+type Narrative = z.infer<typeof narrativeSchema>;
+
+async function writeNarrative(
+  supabase: SupabaseClient,
+  idea: string,
+  tiles: CachedTile[],
+  score: DeckScore,
+  userId: string,
+): Promise<Narrative | null> {
+  if (!configuredProviders().length) return null;
+
+  const plan = SLIDE_PLAN
+    .map(s => `- ${s.type}: ${s.brief} (data: ${s.tiles.filter(t => tiles.some(c => c.tile === t)).join(', ') || 'none cached'})`)
+    .join('\n');
+  const scoreLine = score.pmfScore != null ? `PMF score: ${score.pmfScore}/100${score.breakdown ? ` ${JSON.stringify(score.breakdown).slice(0, 400)}` : ''}` : '';
+
+  try {
+    const result = await callLLM<Narrative>({
+      task: 'synthesis',
+      messages: [
+        {
+          role: 'system',
+          content: `You write investor pitch decks. For each slide, write a one-sentence headline (at most 14 words) and up to ${MAX_BULLETS} bullets (at most 18 words each).
+
+Use only the hub data provided: quote its figures exactly, name real competitors from it, and never invent numbers. When a slide has no data, say what still has to be validated instead of guessing.
+
+Slides:
+${plan}
+
+Respond with JSON only:
+{ "title": string, "subtitle": string, "slides": [{ "type": string, "headline": string, "bullets": string[] }] }`,
+        },
+        {
+          role: 'user',
+          content: [`Idea: ${idea}`, scoreLine, `Hub data:\n${tiles.map(describeTile).join('\n\n') || 'none'}`].filter(Boolean).join('\n\n'),
+        },
+      ],
+      temperature: 0.4,
+      maxTokens: 2000,
+      json: value => narrativeSchema.safeParse(value).success,
+      retries: 1,
+      supabase,
+      cacheTtlMinutes: 60,
+      usage: { userId, operation: 'generate-pitch-deck' },
+    });
+    return narrativeSchema.parse(result.json);
+  } catch (error) {
+    console.warn('[pitch-deck] narrative generation failed, using tile summaries:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Without a narrative a slide leads with its lead tile's own summary
+function summaryNarrative(plan: SlidePlan, tiles: CachedTile[]): { headline: string; bullets: string[] } {
+  const lead = plan.placeholder ? undefined : tiles.find(t => t.tile === plan.tiles[0]);
+  const sentences = (lead?.explanation || '')
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+  if (!sentences.length) {
+    return {
+      headline: plan.placeholder || `${plan.title}: not enough data yet`,
+      bullets: plan.placeholder ? [] : ['Run the data hub for this idea to fill this slide'],
+    };
+  }
+  return {
+    headline: clip(sentences[0], 120),
+    bullets: sentences.slice(1, MAX_BULLETS + 1).map(s => clip(s, 140)),
+  };
+}
+
+export async function buildPitchDeck(
+  supabase: SupabaseClient,
+  idea: { text: string; refined?: string | null },
+  tiles: CachedTile[],
+  score: DeckScore,
+  userId: string,
+): Promise<PitchDeck> {
+  const narrative = await writeNarrative(supabase, idea.refined || idea.text, tiles, score, userId);
+
+  const slides: DeckSlide[] = SLIDE_PLAN.map(plan => {
+    const slideTiles = plan.tiles
+      .map(name => tiles.find(t => t.tile === name))
+      .filter((t): t is CachedTile => !!t);
+    const written = narrative?.slides.find(s => s.type === plan.type) ?? summaryNarrative(plan, slideTiles);
+    const metrics = slideMetrics(slideTiles);
+    if (plan.type === 'validation' && score.pmfScore != null) {
+      metrics.unshift({ label: 'PMF score', value: `${Math.round(score.pmfScore)}/100` });
+      metrics.splice(MAX_METRICS);
+    }
+
+    return {
+      type: plan.type,
+      title: plan.title,
+      headline: clip(written.headline.trim(), 140),
+      bullets: written.bullets.map(b => clip(b.trim(), 160)).filter(Boolean).slice(0, MAX_BULLETS),
+      metrics,
+      chart: plan.type === 'market' ? funnelChart(slideTiles) ?? chartFromTiles(slideTiles) : chartFromTiles(slideTiles),
+      tiles: slideTiles.map(t => t.tile),
+      sources: [...new Set(slideTiles.flatMap(t => (t.citations || []).map(c => c.url)).filter(Boolean))].slice(0, MAX_SOURCES),
+    };
+  });
+
+  const title = clip(narrative?.title || idea.text, 80);
+  const subtitle = clip(narrative?.subtitle || idea.refined || '', 160);
+  slides.unshift({ type: 'cover', title, headline: subtitle, bullets: [], metrics: [], tiles: [], sources: [] });
+
+  return {
+    title,
+    subtitle,
+    generatedAt: new Date().toISOString(),
+    slides,
+    tiles: tiles.map(t => ({ tile: t.tile, generatedAt: t.generatedAt, stale: !!t.stale, confidence: t.confidence ?? 0 })),
+    narrated: !!narrative,
+  };
+}
+
+// ---- Layout -------------------------------------------------------------------------------------
+
+export const PAGE = { width: 13.333, height: 7.5 };
+
+export type DeckShape =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill: string }
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      lines: string[];
+      size: number;
+      color: string;
+      bold?: boolean;
+      bullets?: boolean;
+      align?: 'left' | 'center' | 'right';
+    };
+
+const COLORS = { ink: '111827', body: '374151', muted: '6B7280', faint: '9CA3AF', card: 'F3F4F6', accent: '4F46E5', inverse: 'FFFFFF', inverseMuted: 'D1D5DB' };
+const MARGIN = 0.6;
+
+function chartShapes(chart: DeckChart, x: number, y: number, w: number, h: number): DeckShape[] {
+  const shapes: DeckShape[] = [
+    { kind: 'text', x, y, w, h: 0.35, lines: [chart.title], size: 12, color: COLORS.ink, bold: true },
+  ];
+  const labelW = 1.7;
+  const valueW = 0.8;
+  const barMax = w - labelW - valueW - 0.1;
+  const rowH = Math.min(0.55, (h - 0.45) / chart.points.length);
+  const max = Math.max(...chart.points.map(p => p.value), 1e-9);
+
+  chart.points.forEach((point, i) => {
+    const rowY = y + 0.45 + i * rowH;
+    const barH = rowH * 0.6;
+    const barW = Math.max(0.04, (point.value / max) * barMax);
+    shapes.push(
+      { kind: 'text', x, y: rowY + (rowH - 0.25) / 2, w: labelW - 0.1, h: 0.25, lines: [point.label], size: 10, color: COLORS.body, align: 'right' },
+      { kind: 'rect', x: x + labelW, y: rowY + (rowH - barH) / 2, w: barW, h: barH, fill: COLORS.accent },
+      { kind: 'text', x: x + labelW + barW + 0.08, y: rowY + (rowH - 0.25) / 2, w: valueW, h: 0.25, lines: [formatCompact(point.value)], size: 10, color: COLORS.muted },
+    );
+  });
+  return shapes;
+}
+
+function footer(slide: DeckSlide): string {
+  const parts = [];
+  if (slide.tiles.length) parts.push(`Data: ${slide.tiles.join(', ')}`);
+  if (slide.sources.length) parts.push(`Sources: ${slide.sources.join('  ')}`);
+  return clip(parts.join('  ·  '), 220);
+}
+
+/**
+ * Shapes for one slide, in inches from the top-left corner of the page.
+ */
+export function layoutSlide(slide: DeckSlide, index: number, deck: PitchDeck): DeckShape[] {
+  if (slide.type === 'cover') {
+    return [
+      { kind: 'rect', x: 0, y: 0, w: PAGE.width, h: PAGE.height, fill: COLORS.ink },
+      { kind: 'rect', x: MARGIN, y: 2.2, w: 1.2, h: 0.08, fill: COLORS.accent },
+      { kind: 'text', x: MARGIN, y: 2.5, w: PAGE.width - 2 * MARGIN, h: 1.6, lines: [slide.title], size: 40, color: COLORS.inverse, bold: true },
+      { kind: 'text', x: MARGIN, y: 4.2, w: PAGE.width - 2 * MARGIN, h: 1.0, lines: slide.headline ? [slide.headline] : [], size: 18, color: COLORS.inverseMuted },
+      { kind: 'text', x: MARGIN, y: 6.7, w: PAGE.width - 2 * MARGIN, h: 0.3, lines: [`Generated ${deck.generatedAt.slice(0, 10)} from ${deck.tiles.length} data hub tiles`], size: 10, color: COLORS.faint },
+    ];
+  }
+
+  const contentW = PAGE.width - 2 * MARGIN;
+  const textW = slide.chart ? 6.2 : contentW;
+  const shapes: DeckShape[] = [
+    { kind: 'rect', x: 0, y: 0, w: PAGE.width, h: 0.12, fill: COLORS.accent },
+    { kind: 'text', x: MARGIN, y: 0.45, w: contentW - 1, h: 0.35, lines: [slide.title.toUpperCase()], size: 12, color: COLORS.accent, bold: true },
+    { kind: 'text', x: PAGE.width - MARGIN - 1, y: 0.45, w: 1, h: 0.35, lines: [String(index + 1)], size: 10, color: COLORS.faint, align: 'right' },
+    { kind: 'text', x: MARGIN, y: 0.85, w: contentW, h: 1.1, lines: [slide.headline], size: 26, color: COLORS.ink, bold: true },
+    { kind: 'text', x: MARGIN, y: 2.15, w: textW, h: slide.metrics.length ? 2.7 : 4.2, lines: slide.bullets, size: 15, color: COLORS.body, bullets: true },
+  ];
+
+  if (slide.metrics.length) {
+    const gap = 0.15;
+    const cardW = (textW - gap * (slide.metrics.length - 1)) / slide.metrics.length;
+    slide.metrics.forEach((metric, i) => {
+      const x = MARGIN + i * (cardW + gap);
+      shapes.push(
+        { kind: 'rect', x, y: 5.05, w: cardW, h: 1.15, fill: COLORS.card },
+        { kind: 'text', x: x + 0.15, y: 5.2, w: cardW - 0.3, h: 0.45, lines: [metric.value], size: 18, color: COLORS.ink, bold: true },
+        { kind: 'text', x: x + 0.15, y: 5.7, w: cardW - 0.3, h: 0.4, lines: [metric.label], size: 9, color: COLORS.muted },
+      );
+    });
+  }
+
+  if (slide.chart) {
+    shapes.push(...chartShapes(slide.chart, MARGIN + textW + 0.5, 2.15, contentW - textW - 0.5, 4.05));
+  }
+
+  const note = footer(slide);
+  if (note) {
+    shapes.push({ kind: 'text', x: MARGIN, y: 6.85, w: contentW, h: 0.35, lines: [note], size: 8, color: COLORS.faint });
+  }
+  return shapes;
+}
@@ -0,0 +1,493 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ChatMessage, LLMTask } from './llm-gateway.ts';
+
+/**
+ * Prompt registry: every prompt is named and versioned here instead of living as a template literal
+ * inside a function.
+ *
+ * A prompt's `active` version is what callers get by default. A new version is added next to the old
+ * one and compared with groq-benchmark's `evaluate` action; `promote` then records the winner in
+ * prompt_promotions, which overrides `active` without a deploy. Versions are never edited once
+ * shipped, so evaluation reports keep pointing at the text they measured.
+ *
+ * Templates use {placeholder} variables; objects are inserted as pretty-printed JSON.
+ */
+
+export interface PromptVersion {
+  version: number;
+  system: string;
+  template: string;
+  temperature?: number;
+  maxTokens?: number;
+  notes: string; // what changed relative to the previous version
+}
+
+export interface PromptDefinition {
+  name: string;
+  task: LLMTask;
+  description: string;
+  active: number; // default version when nothing has been promoted
+  versions: PromptVersion[];
+}
+
+export interface ResolvedPrompt {
+  id: string; // name@vN, recorded with evaluations and usage
+  name: string;
+  version: number;
+  task: LLMTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Personas shared by the analysis prompts
+const SYSTEM = {
+  business_analyst: 'You are a senior startup advisor and business analyst with 15+ years of experience. Always respond with valid JSON only.',
+  market_researcher: 'You are a market research expert specializing in startup market validation. Always respond with valid JSON only.',
+  pitch_consultant: 'You are an expert pitch deck consultant who has helped 100+ startups raise funding. Always respond with valid JSON only.',
+  community_manager: 'You are an engaging community manager creating motivational team updates. Always respond with valid JSON only.',
+  product_strategist: 'You are a product strategy consultant specializing in PMF optimization. Always respond with valid JSON only.',
+};
+
+export const PROMPTS: Record<string, PromptDefinition> = {
+  'tile-extraction': {
+    name: 'tile-extraction',
+    task: 'extraction',
+    description: 'Pull one tile\'s data points out of raw provider responses (groq-data-extraction)',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: 'You are a data extraction expert. Extract and synthesize information from multiple sources. Return valid JSON only.',
+        temperature: 0.1,
+        maxTokens: 2000,
+        notes: 'Initial version, formerly inline in groq-data-extraction',
+        template: `You are a data extraction specialist. Extract relevant information for "{tile_type}" from the following data sources.
+
+Requirements:
+{requirements}
+
+Data Points Needed:
+{data_points}
+
+Available Data:
+{source_data}
+
+CRITICAL FORMATTING RULES:
+1. All monetary values must be human-readable (e.g., "$10.5B", "$500M", "$25K")
+2. All percentages must be realistic and formatted (e.g., "15%", "8.5%")
+3. Growth rates should be annual and reasonable (1-100% range typically)
+4. Never use scientific notation or excessive decimal places
+5. Round all numbers to at most 2 decimal places
+6. For projections, use reasonable yearly growth (not exponential)
+7. When extracting market size, ensure values are realistic (not trillions for niche markets)
+8. Always validate extracted numbers are within reasonable business ranges
+
+Focus on finding ANY relevant data, even if it's mentioned indirectly.`,
+      },
+      {
+        version: 2,
+        system: 'You extract structured facts from research data. Return valid JSON only.',
+        temperature: 0,
+        maxTokens: 1500,
+        notes: 'Grounded extraction: values only as stated in the sources, null instead of estimates',
+        template: `Extract the data points for the "{tile_type}" tile from the sources below.
+
+Requirements: {requirements}
+Data points: {data_points}
+
+Rules:
+1. Use only values stated in the sources. Keep figures with their unit as written, e.g. "$4.5B" or "12%".
+2. When sources disagree, use the most specific figure.
+3. Lists hold one entry per distinct item, using the item's name only.
+4. A value that appears under a different label (e.g. "cagr" for a growth rate) still counts.
+5. If no source supports a data point, return null for it. Never estimate or fill in placeholders.
+
+Sources:
+{source_data}`,
+      },
+    ],
+  },
+  'pmf-next-steps': {
+    name: 'pmf-next-steps',
+    task: 'analysis',
+    description: 'PMF score with a breakdown and the top next steps for an idea',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.business_analyst,
+        notes: 'Initial version, formerly AI_PROMPTS.PMF_AND_NEXT_STEPS in src/lib/prompts.ts',
+        template: `You are a senior startup advisor analyzing an idea for Product-Market Fit (PMF) and generating actionable next steps.
+
+Analyze the following startup idea and context:
+
+IDEA: {idea_text}
+MARKET DATA: {market_context}
+COMPETITIVE LANDSCAPE: {competitor_context}
+SENTIMENT DATA: {sentiment_context}
+TRENDS: {trends_context}
+USER FEEDBACK: {feedback_data}
+
+Provide analysis in this exact JSON format:
+{
+  "pmf_score": 75,
+  "confidence": 0.85,
+  "score_breakdown": {
+    "market_size": 85,
+    "competition": 65,
+    "execution": 80,
+    "timing": 90,
+    "team": 70,
+    "product_uniqueness": 75,
+    "customer_validation": 60
+  },
+  "reasoning": "Detailed explanation of PMF score with specific data points",
+  "strengths": ["Key strength 1", "Key strength 2"],
+  "weaknesses": ["Key weakness 1", "Key weakness 2"],
+  "next_steps": [
+    {
+      "title": "Conduct Customer Interviews",
+      "description": "Interview 20 potential customers to validate core assumptions",
+      "priority": 1,
+      "category": "market_research",
+      "estimated_effort": "medium",
+      "confidence": 0.9,
+      "due_date": "2024-11-15",
+      "reasoning": "Why this action is critical now",
+      "success_metrics": ["20 interviews completed", "3 key insights documented"]
+    }
+  ],
+  "data_sources": ["source1", "source2"]
+}
+
+SCORING CRITERIA (0-100):
+- Market Size: Size and accessibility of target market
+- Competition: Competitive advantage and market positioning
+- Execution: Team's ability to execute (infer from available data)
+- Timing: Market timing and readiness indicators
+- Team: Team composition (if data available)
+- Product Uniqueness: Differentiation and innovation level
+- Customer Validation: Evidence of customer demand and feedback
+
+PMF Score = weighted average (market_size and customer_validation weighted 2x)
+
+Focus on top 3 most critical, specific, and actionable next steps.`,
+      },
+    ],
+  },
+  'market-context': {
+    name: 'market-context',
+    task: 'analysis',
+    description: 'Market, competition and sentiment analysis from search results',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.market_researcher,
+        notes: 'Initial version, formerly AI_PROMPTS.MARKET_CONTEXT in src/lib/prompts.ts',
+        template: `You are a market research analyst. Analyze the provided search results and data to extract market insights.
+
+SEARCH RESULTS: {search_results}
+COMPETITOR DATA: {competitor_data}
+SENTIMENT DATA: {sentiment_data}
+TRENDS DATA: {trends_data}
+
+Provide structured market analysis in JSON format:
+{
+  "market_analysis": {
+    "size_estimate": "Specific market size with source",
+    "growth_rate": "Annual growth rate with timeframe",
+    "key_trends": ["Trend 1", "Trend 2", "Trend 3"],
+    "opportunities": ["Opportunity 1", "Opportunity 2"],
+    "barriers": ["Barrier 1", "Barrier 2"]
+  },
+  "competitive_landscape": {
+    "main_competitors": ["Competitor 1", "Competitor 2"],
+    "competitive_advantage": "Key differentiator needed",
+    "market_positioning": "Recommended positioning strategy",
+    "competitive_gaps": ["Gap 1", "Gap 2"]
+  },
+  "sentiment_analysis": {
+    "overall_sentiment": "positive|neutral|negative",
+    "confidence": 0.8,
+    "key_insights": ["Insight 1", "Insight 2"],
+    "customer_pain_points": ["Pain 1", "Pain 2"]
+  },
+  "recommendations": ["Recommendation 1", "Recommendation 2"],
+  "risk_factors": ["Risk 1", "Risk 2"]
+}
+
+Base analysis on factual data from search results. Be specific and cite sources where possible.`,
+      },
+    ],
+  },
+  'thread-summary': {
+    name: 'thread-summary',
+    task: 'summary',
+    description: 'Summary and action items for a team discussion thread',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.business_analyst,
+        notes: 'Initial version, formerly AI_PROMPTS.THREAD_SUMMARIZER in src/lib/prompts.ts',
+        template: `You are summarizing a team discussion thread about a startup idea. Extract key insights and action items.
+
+IDEA: {idea_title}
+THREAD MESSAGES: {thread_messages}
+
+Provide summary in JSON format:
+{
+  "summary": "2-3 sentence overview of discussion",
+  "key_insights": ["Insight 1", "Insight 2", "Insight 3"],
+  "concerns_raised": ["Concern 1", "Concern 2"],
+  "suggestions": ["Suggestion 1", "Suggestion 2"],
+  "action_items": [
+    {
+      "action": "Specific action to take",
+      "assignee": "Person mentioned or 'team'",
+      "priority": "high|medium|low",
+      "timeline": "Suggested timeframe"
+    }
+  ],
+  "sentiment": "positive|neutral|negative",
+  "engagement_level": "high|medium|low",
+  "follow_up_needed": true/false
+}
+
+Focus on constructive feedback and actionable outcomes. Identify patterns in team feedback.`,
+      },
+    ],
+  },
+  'pitch-deck': {
+    name: 'pitch-deck',
+    task: 'synthesis',
+    description: 'Investor pitch deck outline',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.pitch_consultant,
+        notes: 'Initial version, formerly AI_PROMPTS.PITCH_DECK_GENERATOR in src/lib/prompts.ts',
+        template: `You are an expert pitch deck consultant creating a compelling investor presentation.
+
+IDEA: {idea_data}
+PMF SCORE: {pmf_data}
+MARKET ANALYSIS: {market_data}
+COMPETITIVE DATA: {competitor_data}
+NEXT STEPS: {action_items}
+
+Generate a comprehensive pitch deck in JSON format:
+{
+  "title": "Compelling Deck Title",
+  "slides": [
+    {
+      "slide_number": 1,
+      "title": "Problem",
+      "type": "title_content",
+      "content": {
+        "headline": "Core Problem Statement",
+        "subtitle": "Supporting context",
+        "bullet_points": ["Key pain point 1", "Key pain point 2", "Key pain point 3"],
+        "visual_suggestion": "Chart/image description",
+        "speaker_notes": "What to say when presenting"
+      }
+    }
+  ]
+}
+
+REQUIRED SLIDE SEQUENCE:
+1. Title/Cover
+2. Problem Statement
+3. Solution Overview
+4. Market Opportunity
+5. Business Model
+6. Competitive Advantage
+7. Traction/Validation
+8. Financial Projections
+9. Team (if data available)
+10. Funding Ask
+11. Next Steps/Roadmap
+12. Thank You/Contact
+
+SLIDE TYPES: "title_only", "title_content", "title_visual", "comparison", "metrics", "timeline"
+
+Make content compelling, data-driven, and investor-focused. Use PMF score to inform projections.`,
+      },
+    ],
+  },
+  'slack-digest': {
+    name: 'slack-digest',
+    task: 'summary',
+    description: 'Weekly community digest in Slack Block Kit format',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.community_manager,
+        notes: 'Initial version, formerly AI_PROMPTS.SLACK_DIGEST in src/lib/prompts.ts',
+        template: `You are creating an engaging team digest for the SmoothBrains startup platform community.
+
+STATS: {platform_stats}
+TOP IDEAS: {top_ideas}
+RECENT ACTIVITY: {recent_activity}
+LEADERBOARD: {leaderboard_data}
+
+Generate Slack message using Block Kit format:
+{
+  "blocks": [
+    {
+      "type": "header",
+      "text": {
+        "type": "plain_text",
+        "text": "🧠 SmoothBrains Weekly Digest"
+      }
+    },
+    {
+      "type": "section",
+      "text": {
+        "type": "mrkdwn",
+        "text": "*Weekly highlights and community achievements*"
+      }
+    }
+  ]
+}
+
+INCLUDE:
+- Engaging summary with key metrics and emojis
+- Top performing ideas with PMF scores
+- Community achievements and milestones
+- Leaderboard highlights
+- Motivational call-to-action
+- Trending topics or insights
+
+Tone: Encouraging, data-driven, community-focused. Use Slack markdown formatting.`,
+      },
+    ],
+  },
+  'idea-evolution': {
+    name: 'idea-evolution',
+    task: 'analysis',
+    description: 'How an idea changed across versions and what to refine next',
+    active: 1,
+    versions: [
+      {
+        version: 1,
+        system: SYSTEM.product_strategist,
+        notes: 'Initial version, formerly AI_PROMPTS.IDEA_EVOLUTION in src/lib/prompts.ts',
+        template: `You are analyzing how a startup idea has evolved over time and suggesting improvements.
+
+ORIGINAL IDEA: {original_idea}
+CURRENT IDEA: {current_idea}
+VERSION HISTORY: {version_history}
+PMF PROGRESSION: {pmf_scores}
+FEEDBACK RECEIVED: {feedback_data}
+
+Provide evolution analysis in JSON format:
+{
+  "evolution_summary": "How the idea has changed and improved",
+  "key_improvements": ["Improvement 1", "Improvement 2"],
+  "remaining_gaps": ["Gap 1", "Gap 2"],
+  "pmf_trend": "improving|declining|stable",
+  "strongest_aspects": ["Aspect 1", "Aspect 2"],
+  "suggested_refinements": [
+    {
+      "area": "market_focus|product_features|business_model",
+      "suggestion": "Specific refinement",
+      "rationale": "Why this improvement matters",
+      "impact": "high|medium|low"
+    }
+  ],
+  "next_version_focus": "Primary area for next iteration",
+  "confidence_in_direction": 0.8
+}
+
+Focus on constructive evolution and data-driven insights from PMF progression.`,
+      },
+    ],
+  },
+};
+
+export function getPromptDefinition(name: string): PromptDefinition {
+  const definition = PROMPTS[name];
+  if (!definition) throw new Error(`Unknown prompt: ${name}`);
+  return definition;
+}
+
+export function getPromptVersion(name: string, version?: number): PromptVersion {
+  const definition = getPromptDefinition(name);
+  const wanted = version ?? definition.active;
+  const found = definition.versions.find(v => v.version === wanted);
+  if (!found) throw new Error(`Prompt ${name} has no version ${wanted}`);
+  return found;
+}
+
+/**
+ * Replace {placeholder} variables. Placeholders without a value are left as written, so JSON
+ * examples in a template are untouched.
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(key in variables)) return match;
+    const value = variables[key];
+    return typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : String(value);
+  });
+}
+
+export function renderPrompt(name: string, variables: Record<string, unknown>, version?: number): ResolvedPrompt {
+  const definition = getPromptDefinition(name);
+  const selected = getPromptVersion(name, version);
+  return {
+    id: `${name}@v${selected.version}`,
+    name,
+    version: selected.version,
+    task: definition.task,
+    messages: [
+      { role: 'system', content: selected.system },
+      { role: 'user', content: renderTemplate(selected.template, variables) },
+    ],
+    temperature: selected.temperature,
+    maxTokens: selected.maxTokens,
+  };
+}
+
+const PROMOTION_TTL_MS = 60_000;
+const promotionCache = new Map<string, { version: number; expires: number }>();
+
+/**
+ * Version callers should use: the promoted version from prompt_promotions when one exists (and the
+ * registry still has it), otherwise the registry default. Cached per isolate for a minute.
+ */
+export async function resolveActiveVersion(supabase: SupabaseClient | undefined, name: string): Promise<number> {
+  const definition = getPromptDefinition(name);
+  if (!supabase) return definition.active;
+
+  const cached = promotionCache.get(name);
+  if (cached && cached.expires > Date.now()) return cached.version;
+
+  let version = definition.active;
+  try {
+    const { data, error } = await supabase
+      .from('prompt_promotions')
+      .select('version')
+      .eq('prompt_name', name)
+      .maybeSingle();
+    if (error) throw error;
+    if (data && definition.versions.some(v => v.version === data.version)) version = data.version;
+  } catch (error) {
+    console.warn(`[prompt-registry] Could not read promotion for ${name}, using v${version}:`, error);
+  }
+
+  promotionCache.set(name, { version, expires: Date.now() + PROMOTION_TTL_MS });
+  return version;
+}
+
+// Render the version currently in production for `name`
+export async function loadPrompt(
+  name: string,
+  variables: Record<string, unknown>,
+  supabase?: SupabaseClient,
+): Promise<ResolvedPrompt> {
+  return renderPrompt(name, variables, await resolveActiveVersion(supabase, name));
+}
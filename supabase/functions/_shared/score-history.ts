@@ -0,0 +1,116 @@
+// Append-only score history (public.score_history).
+// Every computation is stored with its factors, model version and data sources; explainScoreChanges
+// compares consecutive entries to tell whether a change came from an idea edit, new data or a model change.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface ScoreHistoryEntry {
+  id: string;
+  idea_id: string;
+  user_id: string;
+  pmf_score: number;
+  score_breakdown: Record<string, number>;
+  factors: Record<string, number>;
+  model_version: string;
+  data_sources: string[];
+  source: 'smoothbrains' | 'compute_pmf';
+  idea_hash: string | null;
+  created_at: string;
+}
+
+export type ScoreChangeCause = 'edit' | 'data' | 'model' | 'unexplained';
+
+export interface ExplainedScoreEntry extends ScoreHistoryEntry {
+  // Difference from the previous entry, null for the first one
+  delta: number | null;
+  causes: ScoreChangeCause[];
+  changed_factors: string[];
+}
+
+// Factors that come from market data rather than the idea text or the chat
+const DATA_FACTORS = new Set(['marketSize', 'competitionLevel', 'growthRate', 'sentiment', 'productMarketFit']);
+// Factors the user moves by rewriting the idea or answering in chat
+const USER_FACTORS = new Set(['wrinklePoints', 'conversationDepth', 'ideaRefinement', 'userAnswerQuality', 'executionDifficulty']);
+
+export async function ideaHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text.trim()));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// jsonb does not keep key order, so factor maps are compared key by key
+function changedKeys(a: Record<string, number> = {}, b: Record<string, number> = {}): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).filter(k => a[k] !== b[k]).sort();
+}
+
+function sameSources(a: string[] = [], b: string[] = []): boolean {
+  return [...a].sort().join('\n') === [...b].sort().join('\n');
+}
+
+/**
+ * Append a computation. Returns the latest entry instead of inserting when nothing about it changed,
+ * so reloading a dashboard does not flood the history with identical points.
+ */
+export async function appendScoreHistory(
+  supabase: SupabaseClient,
+  entry: Omit<ScoreHistoryEntry, 'id' | 'created_at'>
+): Promise<ScoreHistoryEntry> {
+  const { data: latest, error: latestError } = await supabase
+    .from('score_history')
+    .select('*')
+    .eq('idea_id', entry.idea_id)
+    .eq('user_id', entry.user_id)
+    .eq('source', entry.source)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+
+  if (
+    latest &&
+    latest.pmf_score === entry.pmf_score &&
+    latest.model_version === entry.model_version &&
+    latest.idea_hash === entry.idea_hash &&
+    changedKeys(latest.factors, entry.factors).length === 0 &&
+    sameSources(latest.data_sources, entry.data_sources)
+  ) {
+    return latest;
+  }
+
+  const { data, error } = await supabase
+    .from('score_history')
+    .insert(entry)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Attribute each change to its causes. Several causes can apply to one step; a score change with
+ * identical inputs (e.g. a non-deterministic AI score) is `unexplained`.
+ */
+export function explainScoreChanges(entries: ScoreHistoryEntry[]): ExplainedScoreEntry[] {
+  const sorted = [...entries].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return sorted.map((entry, i) => {
+    const previous = i > 0 ? sorted[i - 1] : null;
+    if (!previous) return { ...entry, delta: null, causes: [], changed_factors: [] };
+
+    const changedFactors = changedKeys(previous.factors, entry.factors);
+
+    const causes: ScoreChangeCause[] = [];
+    if (previous.idea_hash !== entry.idea_hash || changedFactors.some(k => USER_FACTORS.has(k))) causes.push('edit');
+    if (changedFactors.some(k => DATA_FACTORS.has(k)) || !sameSources(previous.data_sources, entry.data_sources)) {
+      causes.push('data');
+    }
+    if (previous.model_version !== entry.model_version) causes.push('model');
+
+    const delta = entry.pmf_score - previous.pmf_score;
+    if (!causes.length && (delta !== 0 || changedFactors.length)) causes.push('unexplained');
+
+    return { ...entry, delta, causes, changed_factors: changedFactors };
+  });
+}
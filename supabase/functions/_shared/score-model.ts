@@ -0,0 +1,233 @@
+// SmoothBrains score model as data.
+// Weights, piecewise-linear curves, caps and category thresholds live in public.score_models so a
+// score can be recomputed with any model version; DEFAULT_SCORE_MODEL is version 1 and the fallback
+// when the table cannot be read.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Raw signals extracted from the request by calculate-smoothbrains-score
+export interface ScoreFactors {
+  wrinklePoints: number; // 0-100+ (user's understanding depth)
+  marketSize: number; // in billions
+  competitionLevel: number; // 1-10 (1=low competition)
+  growthRate: number; // CAGR percentage
+  sentiment: number; // 0-100
+  executionDifficulty: number; // 1-10 (1=easy)
+  productMarketFit: number; // 0-100
+  conversationDepth: number; // number of meaningful exchanges
+  ideaRefinement: number; // 0-100 (how refined the idea is)
+  userAnswerQuality: number; // 0-100 (based on chat quality)
+}
+
+export type ScoreComponent =
+  | 'wrinklePoints'
+  | 'marketOpportunity'
+  | 'productMarketFit'
+  | 'executionViability'
+  | 'ideaRefinement'
+  | 'sentiment';
+
+// [input, component score] breakpoints, sorted by input; values outside the range are clamped
+export type CurvePoint = [number, number];
+
+export interface ScoreCategory {
+  min: number;
+  label: string;
+  explanation: string;
+}
+
+export interface ScoreModel {
+  version: string;
+  description?: string;
+  weights: Record<ScoreComponent, number>;
+  curves: Record<ScoreComponent, CurvePoint[]>;
+  // Total is capped at `max` while wrinkle points are below `below`
+  wrinkleCap: { below: number; max: number };
+  // Sorted by min, highest first
+  categories: ScoreCategory[];
+}
+
+export interface FactorSensitivity {
+  component: ScoreComponent;
+  weight: number;
+  input: number;
+  // Input value at the top of the current band, null when already in the best band
+  target_input: number | null;
+  component_score: number;
+  target_component_score: number | null;
+  // Change in the final (rounded, capped) score from reaching target_input
+  score_gain: number;
+}
+
+export interface ScoreResult {
+  score: number;
+  breakdown: Record<ScoreComponent, number>;
+  inputs: Record<ScoreComponent, number>;
+  category: string;
+  explanation: string;
+  model_version: string;
+}
+
+export const SCORE_COMPONENTS: ScoreComponent[] = [
+  'wrinklePoints',
+  'marketOpportunity',
+  'productMarketFit',
+  'executionViability',
+  'ideaRefinement',
+  'sentiment'
+];
+
+/**
+ * 100 = FAANG/Microsoft level potential, 90+ = unicorn potential ($1B+ valuation),
+ * 80+ = $100M+, 70+ = $10M+, 60+ = viable business, <60 = needs significant work
+ */
+export const DEFAULT_SCORE_MODEL: ScoreModel = {
+  version: 'v1',
+  description: 'Original strict model: exponential difficulty, huge markets and strong PMF required for 90+',
+  weights: {
+    wrinklePoints: 0.25,
+    marketOpportunity: 0.20,
+    productMarketFit: 0.20,
+    executionViability: 0.15,
+    ideaRefinement: 0.10,
+    sentiment: 0.10
+  },
+  curves: {
+    // 0-20 wrinkle points = 0-30, 20-50 = 30-60, 50-100 = 60-80, 100-200 = 80-100
+    wrinklePoints: [[0, 0], [20, 30], [50, 60], [100, 80], [200, 100]],
+    // Input is market size ($B) * (1 + growth) / competition; needs $100B+ for 80+
+    marketOpportunity: [[0, 0], [1, 20], [10, 40], [50, 60], [100, 80], [200, 100]],
+    // Penalize heavily below 70
+    productMarketFit: [[0, 0], [30, 15], [70, 50], [100, 100]],
+    // Input is execution difficulty (1-10); easier execution scores higher
+    executionViability: [[1, 100], [10, 10]],
+    // Input is idea refinement scaled by conversation depth (capped at 10 exchanges)
+    ideaRefinement: [[0, 0], [100, 100]],
+    sentiment: [[0, 0], [40, 20], [70, 50], [100, 100]]
+  },
+  wrinkleCap: { below: 10, max: 30 },
+  categories: [
+    { min: 95, label: 'FAANG Potential', explanation: 'This idea shows potential to become a dominant market leader like Microsoft, Google, or Amazon. Exceptional market opportunity combined with deep understanding and strong execution potential.' },
+    { min: 90, label: 'Unicorn Trajectory', explanation: 'Strong indicators for $1B+ valuation potential. The combination of massive market, strong PMF signals, and execution clarity rivals successful unicorns.' },
+    { min: 80, label: 'Major Success Potential', explanation: 'Shows characteristics of companies that achieve $100M+ valuations. Strong fundamentals with room for explosive growth.' },
+    { min: 70, label: 'Strong Business', explanation: 'Solid foundation for a $10M+ business. Good market opportunity with reasonable execution path.' },
+    { min: 60, label: 'Viable Startup', explanation: 'Has potential to become a profitable business but needs refinement in key areas to achieve significant scale.' },
+    { min: 40, label: 'Early Stage', explanation: 'Shows promise but requires significant development in market understanding, product-market fit, or execution strategy.' },
+    { min: 0, label: 'Concept Phase', explanation: 'Needs substantial work on fundamentals. Focus on deepening market understanding and validating core assumptions.' }
+  ]
+};
+
+// Curve inputs derived from the raw factors; the shapes applied to them come from the model
+export function componentInputs(factors: ScoreFactors): Record<ScoreComponent, number> {
+  return {
+    wrinklePoints: factors.wrinklePoints,
+    marketOpportunity: (factors.marketSize * (1 + factors.growthRate / 100)) / Math.max(factors.competitionLevel, 1),
+    productMarketFit: factors.productMarketFit,
+    executionViability: factors.executionDifficulty,
+    ideaRefinement: factors.ideaRefinement * Math.min(factors.conversationDepth / 10, 1),
+    sentiment: factors.sentiment
+  };
+}
+
+export function evaluateCurve(curve: CurvePoint[], x: number): number {
+  if (!curve.length) return 0;
+  if (x <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (x <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return x1 === x0 ? y1 : y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+function totalScore(model: ScoreModel, inputs: Record<ScoreComponent, number>) {
+  const breakdown = {} as Record<ScoreComponent, number>;
+  let total = 0;
+  SCORE_COMPONENTS.forEach(component => {
+    breakdown[component] = evaluateCurve(model.curves[component] || [], inputs[component]);
+    total += breakdown[component] * (model.weights[component] || 0);
+  });
+  const rounded = Math.round(total);
+  const score = inputs.wrinklePoints < model.wrinkleCap.below ? Math.min(rounded, model.wrinkleCap.max) : rounded;
+  return { score, breakdown };
+}
+
+export function scoreWithModel(model: ScoreModel, factors: ScoreFactors): ScoreResult {
+  const inputs = componentInputs(factors);
+  const { score, breakdown } = totalScore(model, inputs);
+  const category = model.categories.find(c => score >= c.min) || model.categories[model.categories.length - 1];
+  return {
+    score,
+    breakdown,
+    inputs,
+    category: category?.label || '',
+    explanation: category?.explanation || '',
+    model_version: model.version
+  };
+}
+
+/**
+ * Input value at the top of the band `x` falls in: the next breakpoint, in the direction the curve
+ * improves, whose score is higher than the current one. Null when no breakpoint scores higher.
+ */
+function nextBandTarget(curve: CurvePoint[], x: number): number | null {
+  const current = evaluateCurve(curve, x);
+  const ahead = curve.filter(([px, py]) => py > current && px !== x);
+  if (!ahead.length) return null;
+  // Nearest breakpoint by input distance keeps this a one-band step for rising and falling curves
+  return ahead.reduce((best, p) => (Math.abs(p[0] - x) < Math.abs(best[0] - x) ? p : best))[0];
+}
+
+/**
+ * For each factor, how many points the final score gains if that factor alone improves by one band.
+ * Sorted by gain, so the first entry is what would move the score most.
+ */
+export function sensitivityReport(model: ScoreModel, factors: ScoreFactors): FactorSensitivity[] {
+  const inputs = componentInputs(factors);
+  const base = totalScore(model, inputs);
+
+  return SCORE_COMPONENTS.map(component => {
+    const curve = model.curves[component] || [];
+    const target = nextBandTarget(curve, inputs[component]);
+    const improved = target === null ? null : totalScore(model, { ...inputs, [component]: target });
+    return {
+      component,
+      weight: model.weights[component] || 0,
+      input: inputs[component],
+      target_input: target,
+      component_score: base.breakdown[component],
+      target_component_score: improved ? improved.breakdown[component] : null,
+      score_gain: improved ? improved.score - base.score : 0
+    };
+  }).sort((a, b) => b.score_gain - a.score_gain);
+}
+
+// Published versions never change, so they are cached for the life of the instance
+const modelCache = new Map<string, ScoreModel>();
+
+/**
+ * Load a model version from public.score_models, or the active one when no version is given.
+ * Falls back to DEFAULT_SCORE_MODEL only when no version was requested.
+ */
+export async function loadScoreModel(supabase: SupabaseClient, version?: string): Promise<ScoreModel> {
+  const cached = version ? modelCache.get(version) : undefined;
+  if (cached) return cached;
+
+  let query = supabase.from('score_models').select('version, definition');
+  query = version ? query.eq('version', version) : query.eq('is_active', true).order('created_at', { ascending: false }).limit(1);
+  const { data, error } = await query.maybeSingle();
+
+  if (error || !data) {
+    if (version && version !== DEFAULT_SCORE_MODEL.version) {
+      throw new Error(`Unknown score model version: ${version}`);
+    }
+    if (error) console.warn('[score-model] Falling back to built-in model:', error.message);
+    return DEFAULT_SCORE_MODEL;
+  }
+
+  const model: ScoreModel = { ...DEFAULT_SCORE_MODEL, ...data.definition, version: data.version };
+  modelCache.set(model.version, model);
+  return model;
+}
@@ -0,0 +1,54 @@
+// Minimal Server-Sent Events helpers for edge functions that stream partial results.
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+};
+
+// Format one SSE frame: `event: <name>\ndata: <json>\n\n`
+export function sseEvent(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Create a streaming response. `run` receives a `send` function; the stream closes when it resolves,
+ * and a thrown error is sent as a final `error` event instead of tearing down the connection.
+ * When the client disconnects, `signal` aborts so `run` can stop outstanding work, and later sends are dropped.
+ */
+export function sseResponse(
+  run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>,
+  headers: Record<string, string> = {}
+): Response {
+  const abort = new AbortController();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(sseEvent(event, data));
+        } catch {
+          // The stream was torn down without cancel() (e.g. the connection reset)
+          closed = true;
+          abort.abort();
+        }
+      };
+      try {
+        await run(send, abort.signal);
+      } catch (e) {
+        send('error', { error: e instanceof Error ? e.message : 'Unknown error' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    }
+  });
+  return new Response(stream, { headers: { ...headers, ...SSE_HEADERS } });
+}
@@ -0,0 +1,180 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EntitlementError, entitlementErrorResponse, enforceRateLimit, requireFeature, resolveEntitlements } from './entitlements.ts';
+import { FUNCTION_CONTRACTS, parseFunctionRequest } from './function-contracts.ts';
+import { describeTile, loadIdeaTiles, tileEvidence, type CachedTile } from './idea-tiles.ts';
+import { callLLM, configuredProviders } from './llm-gateway.ts';
+
+/**
+ * Server side of the strategy helpers in src/lib/ai-insights-generator.ts. Each endpoint loads the
+ * idea's cached hub tiles, asks the model for its structured payload plus a GeneratedInsight, and
+ * validates the answer against the function's contract. The insight's evidence lists the tiles the
+ * model cited, described from the cache rows rather than from the model's answer.
+ */
+
+export type StrategyFunction =
+  | 'generate-competitive-strategy'
+  | 'generate-market-entry'
+  | 'analyze-patterns'
+  | 'generate-predictions'
+  | 'generate-action-items';
+
+interface StrategySpec {
+  // Response field holding the structured payload, as in the function contract
+  payloadKey: string;
+  // Hub tiles worth grounding this strategy in, most relevant first
+  tiles: string[];
+  instructions: string;
+  // JSON shape of the payload, shown to the model
+  shape: string;
+  // Caller-supplied context, rendered as labelled sections of the prompt
+  inputs: (body: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const STRATEGY_SPECS: Record<StrategyFunction, StrategySpec> = {
+  'generate-competitive-strategy': {
+    payloadKey: 'strategy',
+    tiles: ['competition', 'market_size', 'sentiment', 'reddit_sentiment'],
+    instructions: 'Recommend how this idea should position itself against the competitors in the data. Differentiators must answer weaknesses or complaints the data shows; risks must name the competitor or trend behind them.',
+    shape: '{ "positioning": string, "differentiators": string[], "tactics": string[], "risks": string[] }',
+    inputs: body => ({ 'Competitors supplied by the user': body.competitors, 'Market data supplied by the user': body.marketData }),
+  },
+  'generate-market-entry': {
+    payloadKey: 'strategy',
+    tiles: ['market_size', 'competition', 'sentiment', 'market_trends', 'financial_analysis'],
+    instructions: 'Plan a phased market entry that fits the stated resources. Start from the segment the market size and sentiment data support best, and pick channels where the data shows the audience already gathers.',
+    shape: '{ "phases": [{ "phase": string, "duration": string, "goals": string[], "metrics": string[] }], "channels": [{ "channel": string, "priority": "high" | "medium" | "low", "reasoning": string }], "milestones": [{ "milestone": string, "timeline": string, "success_criteria": string }] }',
+    inputs: body => ({ 'Target market': body.targetMarket, 'Resources': body.resources }),
+  },
+  'analyze-patterns': {
+    payloadKey: 'analysis',
+    tiles: ['sentiment', 'reddit_sentiment', 'competition', 'market_size'],
+    instructions: "Read the founder's session activity for patterns in what they explore, skip or revisit, and compare that focus with what the hub data says matters for this idea. Opportunities and concerns should point at gaps between the two.",
+    shape: '{ "patterns": string[], "insights": string[], "opportunities": string[], "concerns": string[] }',
+    inputs: body => ({ 'Session activity': Array.isArray(body.sessionData) ? body.sessionData.slice(-50) : body.sessionData }),
+  },
+  'generate-predictions': {
+    payloadKey: 'predictions',
+    tiles: ['market_size', 'financial_analysis', 'market_trends', 'sentiment', 'pmf_score'],
+    instructions: 'Project revenue (USD), active users and monthly churn (%) for the timeframe. Derive each number from the market size, growth and financial data, state the factors it rests on, and use confidence (0-100) to reflect how much of it the data actually supports.',
+    shape: '{ "revenue": { "projected": number, "confidence": number, "factors": string[] }, "users": { "projected": number, "confidence": number, "factors": string[] }, "churn": { "projected": number, "confidence": number, "factors": string[] }, "suggestions": string[] }',
+    inputs: body => ({ 'Timeframe': body.timeframe, 'Historical data': body.historicalData }),
+  },
+  'generate-action-items': {
+    payloadKey: 'actionItems',
+    tiles: ['pmf_score', 'market_size', 'competition', 'sentiment'],
+    instructions: 'List the 3-6 actions that most move this idea toward its goals given where it stands. Prioritise actions that close the weakest areas in the data.',
+    shape: '[{ "action": string, "priority": "high" | "medium" | "low", "timeframe": string, "impact": string, "resources": string[] }]',
+    inputs: body => ({ 'Current state': body.currentState, 'Goals': body.goals }),
+  },
+};
+
+const INSIGHT_SHAPE = '{ "title": string, "summary": string, "details": string[], "recommendations": string[], "confidence": "high" | "medium" | "low", "dataPoints": [{ "label": string, "value": string | number }], "nextSteps": string[] }';
+
+function renderInputs(inputs: Record<string, unknown>): string {
+  return Object.entries(inputs)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([label, value]) => `${label}:\n${typeof value === 'string' ? value : JSON.stringify(value).slice(0, 3000)}`)
+    .join('\n\n');
+}
+
+function buildMessages(spec: StrategySpec, idea: string | undefined, inputs: Record<string, unknown>, tiles: CachedTile[]) {
+  const evidence = tiles.length
+    ? tiles.map(describeTile).join('\n\n')
+    : 'No hub data is cached for this idea yet.';
+
+  return [
+    {
+      role: 'system' as const,
+      content: `You are a startup strategist. ${spec.instructions}
+
+Ground every claim in the hub data below and cite the tiles you rely on by name in "used_tiles". Quote figures exactly as the data states them and put the ones you rely on in insight.dataPoints. When the data lacks something you need, say so instead of inventing it and lower the confidence.
+
+Respond with JSON only:
+{ "${spec.payloadKey}": ${spec.shape}, "insight": ${INSIGHT_SHAPE}, "used_tiles": string[] }`,
+    },
+    {
+      role: 'user' as const,
+      content: [
+        `Idea: ${idea || 'not provided'}`,
+        `Hub data:\n${evidence}`,
+        renderInputs(inputs),
+      ].filter(Boolean).join('\n\n'),
+    },
+  ];
+}
+
+/**
+ * Run one strategy generator for a request; `corsHeaders` are the calling function's.
+ */
+export async function handleStrategyRequest(name: StrategyFunction, req: Request, corsHeaders: Record<string, string>): Promise<Response> {
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const entitlements = await resolveEntitlements(supabase, req);
+    requireFeature(entitlements, 'aiInsights');
+    await enforceRateLimit(supabase, entitlements);
+
+    const parsed = parseFunctionRequest(name, await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
+    }
+    if (!configuredProviders().length) {
+      throw new Error('No LLM provider is configured');
+    }
+
+    const body = parsed.data as Record<string, unknown>;
+    const idea = typeof body.idea === 'string' ? body.idea.trim() : undefined;
+    const spec = STRATEGY_SPECS[name];
+    const tiles = idea ? await loadIdeaTiles(supabase, idea, spec.tiles) : [];
+
+    const responseShape = (FUNCTION_CONTRACTS[name].response as z.AnyZodObject).shape;
+    const outputSchema = z.object({
+      [spec.payloadKey]: responseShape[spec.payloadKey],
+      insight: responseShape.insight,
+      used_tiles: z.array(z.string()).default([]),
+    });
+
+    console.log(`[${name}] ${tiles.length} cached tile(s) for grounding: ${tiles.map(t => t.tile).join(', ') || 'none'}`);
+
+    const result = await callLLM({
+      task: 'analysis',
+      messages: buildMessages(spec, idea, spec.inputs(body), tiles),
+      temperature: 0.3,
+      maxTokens: 1800,
+      json: value => outputSchema.safeParse(value).success,
+      supabase,
+      cacheTtlMinutes: 60,
+      usage: { userId: entitlements.userId, operation: name },
+    });
+
+    const output = outputSchema.parse(result.json) as Record<string, unknown> & {
+      insight: Record<string, unknown> & { confidence: 'high' | 'medium' | 'low' };
+      used_tiles: string[];
+    };
+    const evidence = tileEvidence(tiles, output.used_tiles);
+
+    // Confidence cannot exceed what the evidence supports
+    let confidence = output.insight.confidence;
+    if (!evidence.length) confidence = 'low';
+    else if (confidence === 'high' && evidence.every(e => e.stale)) confidence = 'medium';
+
+    return json({
+      [spec.payloadKey]: output[spec.payloadKey],
+      insight: { ...output.insight, confidence, evidence },
+    });
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
+    console.error(`[${name}] Error:`, error);
+    return json({ error: error instanceof Error ? error.message : 'Strategy generation failed' }, 500);
+  }
+}
@@ -0,0 +1,280 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { describeTile, type CachedTile } from './idea-tiles.ts';
+import type { ChatMessage } from './llm-gateway.ts';
+import { loadScoreModel, scoreWithModel, type ScoreFactors } from './score-model.ts';
+
+/**
+ * Retrieval and what-if scoring for tile-ai-chat. A question is answered from every tile the hub
+ * has cached for the idea plus the idea's EVIDENCE_STORE, ranked against the question so that
+ * cross-tile questions ("how does Reddit sentiment square with the TAM?") see all the tiles they
+ * touch. What-if scenarios the model proposes are rescored with the score model that produced the
+ * idea's pmf_score tile, so the numbers shown are computed rather than estimated by the model.
+ */
+
+// Evidence node as the data-hub orchestrator stores it in DataHubIndices.EVIDENCE_STORE
+export interface HubEvidence {
+  id: string;
+  url: string;
+  title: string;
+  source: string;
+  snippet?: string;
+  confidence: number;
+  tileReferences: string[];
+}
+
+// A source the model can cite as [S<n>]
+export interface AnalystSource {
+  id: string;
+  url: string;
+  title: string;
+  source: string;
+  tile?: string;
+  snippet?: string;
+}
+
+export interface AnalystContext {
+  tiles: CachedTile[];
+  // Cached tiles left out of the prompt, listed by name so the model knows they exist
+  otherTiles: string[];
+  sources: AnalystSource[];
+  // From the pmf_score tile, so what-ifs are rescored with the model that produced the score
+  factors: ScoreFactors | null;
+  modelVersion?: string;
+}
+
+export interface WhatIfProposal {
+  label: string;
+  rationale: string;
+  changes: Record<string, number>;
+}
+
+export interface WhatIfScenario {
+  label: string;
+  rationale: string;
+  changes: Array<{ factor: string; from: number; to: number }>;
+  score: { before: number; after: number; category: string; model_version: string };
+}
+
+const MAX_PROMPT_TILES = 6;
+const MAX_SOURCES = 10;
+const MAX_CITATIONS_PER_TILE = 2;
+
+// Words founders use for each tile, matched against the question
+const TILE_ALIASES: Record<string, string[]> = {
+  market_size: ['tam', 'sam', 'som', 'market size', 'market', 'addressable'],
+  competition: ['competition', 'competitor', 'competitors', 'rivals', 'incumbents', 'alternatives'],
+  sentiment: ['sentiment', 'perception', 'feel', 'opinion'],
+  reddit_sentiment: ['reddit', 'subreddit', 'redditors'],
+  twitter_sentiment: ['twitter', 'tweets', 'x.com'],
+  youtube_analysis: ['youtube', 'video', 'videos'],
+  google_trends: ['google', 'search interest', 'searches', 'trends'],
+  market_trends: ['trend', 'trends', 'momentum', 'growth'],
+  web_search: ['web', 'search results', 'websites'],
+  news_analysis: ['news', 'press', 'articles', 'coverage'],
+  financial_analysis: ['revenue', 'pricing', 'cac', 'ltv', 'margin', 'unit economics', 'funding', 'financial'],
+  pmf_score: ['score', 'pmf', 'product market fit', 'fit', 'smoothbrains'],
+};
+
+// Score factors a what-if may change, with the range the score model reads them in
+const WHAT_IF_FACTORS: Record<string, { range: [number, number]; description: string }> = {
+  marketSize: { range: [0, 10000], description: 'market size in $B' },
+  growthRate: { range: [-50, 500], description: 'market CAGR in %' },
+  competitionLevel: { range: [1, 10], description: 'competition, 1 (low) to 10 (crowded)' },
+  sentiment: { range: [0, 100], description: 'audience sentiment, 0-100' },
+  productMarketFit: { range: [0, 100], description: 'product-market fit signals, 0-100' },
+  executionDifficulty: { range: [1, 10], description: 'execution difficulty, 1 (easy) to 10 (hard)' },
+};
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'be', 'does', 'do', 'how', 'what', 'why', 'which', 'my', 'our', 'this', 'that', 'it', 'its', 'vs', 'about', 'there', 'can', 'should', 'would', 'if', 'we', 'i']);
+
+function terms(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+const mentions = (question: string, phrase: string) =>
+  new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(question);
+
+function scoreTile(tile: CachedTile, question: string, questionTerms: string[]): number {
+  const aliases = [tile.tile.replace(/_/g, ' '), ...(TILE_ALIASES[tile.tile] || [])];
+  const named = aliases.some(alias => mentions(question, alias)) ? 10 : 0;
+  const metricNames = Object.keys(tile.metrics || {}).join(' ').toLowerCase().replace(/_/g, ' ');
+  const explanation = (tile.explanation || '').toLowerCase();
+  const overlap = questionTerms.reduce((sum, t) => sum + (metricNames.includes(t) ? 2 : 0) + (explanation.includes(t) ? 0.5 : 0), 0);
+  return named + overlap + (tile.confidence ?? 0);
+}
+
+function scoreEvidence(item: HubEvidence, questionTerms: string[], tileNames: string[]): number {
+  const text = `${item.title} ${item.snippet || ''}`.toLowerCase();
+  const overlap = questionTerms.filter(t => text.includes(t)).length;
+  // tileReferences hold the prefix of the fetch purpose ('market', 'reddit'), not full tile names
+  const linked = (item.tileReferences || []).some(ref => tileNames.some(name => name.startsWith(ref))) ? 2 : 0;
+  return overlap + linked + (item.confidence ?? 0);
+}
+
+/**
+ * Hub tile a chat was opened from, guessed from the dialog title ("Reddit Sentiment", "Market Size
+ * Analysis") when the client does not send the tile name.
+ */
+export function tileForTitle(title: string, tileNames: string[]): string | undefined {
+  const named = (name: string) => [name.replace(/_/g, ' '), ...(TILE_ALIASES[name] || [])].filter(alias => mentions(title, alias)).length;
+  const best = tileNames.map(name => ({ name, hits: named(name) })).sort((a, b) => b.hits - a.hits)[0];
+  return best?.hits ? best.name : undefined;
+}
+
+/**
+ * The tile data a client sent along, shaped as a cached tile. Only used when the hub has not cached
+ * the tile the chat was opened from; widgets that render their own data send it in many shapes.
+ */
+export function clientTile(name: string, data: unknown): CachedTile | null {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as Record<string, unknown>;
+  const metrics = raw.metrics && typeof raw.metrics === 'object' && !Array.isArray(raw.metrics)
+    ? raw.metrics as Record<string, unknown>
+    : Object.fromEntries(Object.entries(raw).filter(([k, v]) => (typeof v === 'string' || typeof v === 'number') && k !== 'explanation' && k !== 'summary'));
+  const explanation = [raw.explanation, raw.summary].find((v): v is string => typeof v === 'string') || '';
+  if (!Object.keys(metrics).length && !explanation) return null;
+
+  const citations = Array.isArray(raw.citations)
+    ? raw.citations.filter((c): c is { url: string } => !!c && typeof (c as { url?: unknown }).url === 'string')
+      .map(c => ({ url: c.url, title: String((c as { title?: unknown }).title ?? ''), source: String((c as { source?: unknown }).source ?? ''), relevance: 0 }))
+    : [];
+  return { tile: name, metrics, explanation, citations, charts: [], json: null, confidence: 0, dataQuality: 'low' };
+}
+
+/**
+ * Latest EVIDENCE_STORE the orchestrator saved for this user's idea in dashboard_data.
+ */
+export async function loadEvidenceStore(supabase: SupabaseClient, userId: string, idea: string): Promise<HubEvidence[]> {
+  const { data, error } = await supabase
+    .from('dashboard_data')
+    .select('data')
+    .eq('user_id', userId)
+    .eq('tile_type', 'data_hub')
+    .eq('idea_text', idea)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[tile-analyst] evidence store read error', error.message);
+    return [];
+  }
+  const store = (data?.data as { EVIDENCE_STORE?: HubEvidence[] } | undefined)?.EVIDENCE_STORE;
+  return Array.isArray(store) ? store.filter(e => e?.url) : [];
+}
+
+/**
+ * Pick the tiles and sources worth putting in front of the model for `question`. The tile the chat
+ * was opened from always makes the cut.
+ */
+export function retrieveContext(question: string, tiles: CachedTile[], evidence: HubEvidence[], focusTile?: string): AnalystContext {
+  const questionTerms = terms(question);
+  const ranked = tiles
+    .map(tile => ({ tile, score: scoreTile(tile, question, questionTerms) }))
+    .sort((a, b) => b.score - a.score)
+    .map(r => r.tile)
+    .sort((a, b) => Number(b.tile === focusTile) - Number(a.tile === focusTile));
+  const selected = ranked.slice(0, MAX_PROMPT_TILES);
+  const names = selected.map(t => t.tile);
+
+  const sources: AnalystSource[] = [];
+  const add = (s: Omit<AnalystSource, 'id'>) => {
+    if (sources.length >= MAX_SOURCES || sources.some(x => x.url === s.url)) return;
+    sources.push({ ...s, id: `S${sources.length + 1}` });
+  };
+  for (const tile of selected) {
+    (tile.citations || []).filter(c => c.url).slice(0, MAX_CITATIONS_PER_TILE)
+      .forEach(c => add({ url: c.url, title: c.title || c.url, source: c.source || '', tile: tile.tile }));
+  }
+  evidence
+    .map(item => ({ item, score: scoreEvidence(item, questionTerms, names) }))
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ item }) => add({ url: item.url, title: item.title || item.url, source: item.source, snippet: item.snippet?.slice(0, 240) }));
+
+  const scoreJson = tiles.find(t => t.tile === 'pmf_score')?.json;
+  return {
+    tiles: selected,
+    otherTiles: ranked.slice(MAX_PROMPT_TILES).map(t => t.tile),
+    sources,
+    factors: scoreJson?.factors && typeof scoreJson.factors === 'object' ? scoreJson.factors as ScoreFactors : null,
+    modelVersion: typeof scoreJson?.model_version === 'string' ? scoreJson.model_version : undefined,
+  };
+}
+
+export const ANALYST_SHAPE = '{ "answer": string, "used_tiles": string[], "used_sources": string[], "what_ifs": [{ "label": string, "changes": { "<factor>": number }, "rationale": string }], "suggestions": string[] }';
+
+/**
+ * System prompt holding the retrieved data; history and the question follow it as chat turns.
+ */
+export function analystSystemPrompt(idea: string, focusTitle: string | undefined, context: AnalystContext): ChatMessage {
+  const hubData = context.tiles.length
+    ? context.tiles.map(describeTile).join('\n\n')
+    : 'No hub data is cached for this idea yet.';
+  const sources = context.sources.length
+    ? context.sources.map(s => `${s.id}${s.tile ? ` [${s.tile}]` : ''} ${s.title} (${s.url})${s.snippet ? `: ${s.snippet}` : ''}`).join('\n')
+    : 'None.';
+  const factorLines = Object.entries(WHAT_IF_FACTORS).map(([name, f]) => `- ${name} (${f.description}): ${context.factors?.[name as keyof ScoreFactors] ?? 'unknown'}`);
+  const whatIfs = context.factors
+    ? `Current score factors:\n${factorLines.join('\n')}\nWhen a different assumption would change the outlook, propose up to 3 what-if scenarios as new values for these factors; the server recalculates the score for each. Do not state the recalculated scores yourself.`
+    : 'No score factors are cached for this idea, so leave "what_ifs" empty.';
+
+  return {
+    role: 'system',
+    content: `You are the market analyst for a founder's idea, working from the idea's data hub.${focusTitle ? ` The founder opened this chat from the ${focusTitle} tile.` : ''}
+
+Answer from the hub data and sources below only. Questions often span tiles; compare the figures across them and say where they agree or conflict. Cite tiles inline by name in brackets, e.g. [market_size], and sources by id, e.g. [S2], and list every tile and source id you cite in "used_tiles" and "used_sources". Quote figures exactly as the data states them. When the data does not cover something, say so instead of guessing.
+
+${whatIfs}
+
+Write "answer" in concise markdown and give 3 short follow-up questions in "suggestions".
+
+Idea: ${idea}
+
+Hub data:
+${hubData}
+${context.otherTiles.length ? `\nOther cached tiles (ask to include them): ${context.otherTiles.join(', ')}\n` : ''}
+Sources:
+${sources}
+
+Respond with JSON only:
+${ANALYST_SHAPE}`,
+  };
+}
+
+/**
+ * Rescore each proposal with the score model version behind the cached factors. Proposals that name
+ * no known factor, or change nothing, are dropped; values are clamped to the range the model reads.
+ */
+export async function recalculateWhatIfs(supabase: SupabaseClient, context: AnalystContext, proposals: WhatIfProposal[]): Promise<WhatIfScenario[]> {
+  const { factors, modelVersion } = context;
+  if (!factors || !proposals.length) return [];
+
+  let model;
+  try {
+    model = await loadScoreModel(supabase, modelVersion);
+  } catch (error) {
+    console.warn('[tile-analyst] falling back to the active score model:', error instanceof Error ? error.message : error);
+    model = await loadScoreModel(supabase);
+  }
+  const before = scoreWithModel(model, factors);
+
+  return proposals.flatMap(proposal => {
+    const changes = Object.entries(proposal.changes || {})
+      .filter(([factor, value]) => factor in WHAT_IF_FACTORS && Number.isFinite(value))
+      .map(([factor, value]) => {
+        const [min, max] = WHAT_IF_FACTORS[factor].range;
+        return { factor, from: Number(factors[factor as keyof ScoreFactors]) || 0, to: Math.min(max, Math.max(min, value)) };
+      })
+      .filter(c => c.to !== c.from);
+    if (!changes.length) return [];
+
+    const scenario = { ...factors, ...Object.fromEntries(changes.map(c => [c.factor, c.to])) } as ScoreFactors;
+    const after = scoreWithModel(model, scenario);
+    return [{
+      label: proposal.label,
+      rationale: proposal.rationale,
+      changes,
+      score: { before: before.score, after: after.score, category: after.category, model_version: model.version },
+    }];
+  });
+}
@@ -0,0 +1,224 @@
+// Built-in tile providers. Importing this module registers them on the shared tileRegistry.
+// New tiles can live in their own module and call tileRegistry.register() the same way.
+// freshnessHours mirror TILE_REQUIREMENTS in src/services/groqQueryService.ts (financial -> financial_analysis).
+import type { TileData } from './orchestrator-core.ts';
+import { tileRegistry, edgeFunctionFetcher, TileProvider, asArray, asRecord, asString, pick, type RawPayload } from './tile-registry.ts';
+
+// Citations as the tiles render them; entries missing a field get the same fallbacks as Reddit sources
+function toCitations(value: unknown, defaultSource = 'Web'): TileData['citations'] {
+  return asArray(value).map(asRecord).map(c => ({
+    ...c,
+    url: asString(c.url) || '#',
+    title: asString(c.title) || asString(c.label) || 'Source',
+    source: asString(c.source) || defaultSource,
+    relevance: typeof c.relevance === 'number' ? c.relevance : 0.8
+  }));
+}
+
+// Most analysis functions return { [section]: { metrics, summary, citations, charts } } or the same fields at the top level
+function sectionNormalizer(
+  section: string,
+  defaultExplanation: string,
+  confidence: number,
+  dataQuality: TileData['dataQuality'],
+  explain: (json: RawPayload) => string | undefined = (json) => asString(pick(json, section, 'summary')) || asString(json.summary)
+): TileProvider['normalize'] {
+  return (json) => {
+    const body = asRecord(json[section]);
+    return {
+      metrics: asRecord(body.metrics || json.metrics),
+      explanation: explain(json) || defaultExplanation,
+      citations: toCitations(body.citations || json.citations),
+      charts: asArray(body.charts || json.charts),
+      json: json,
+      confidence,
+      dataQuality
+    };
+  };
+}
+
+const BUILTIN_PROVIDERS: TileProvider[] = [
+  {
+    name: 'twitter_sentiment',
+    inputs: ['idea'],
+    unavailableReason: 'Twitter sentiment data unavailable',
+    fetch: edgeFunctionFetcher('twitter-ai-insights', (ctx) => ({ idea: ctx.idea, idea_text: ctx.idea, lang: 'en' })),
+    // Pass through raw json - TwitterSentimentTile will normalize it
+    normalize: (json) => ({
+      metrics: asRecord(json.metrics),
+      explanation: asString(json.summary) || 'Twitter sentiment analysis completed',
+      citations: [],
+      charts: [],
+      json: json, // Contains all data: summary, metrics, clusters, raw_tweets
+      confidence: 0.7,
+      dataQuality: 'high'
+    })
+  },
+  {
+    name: 'youtube_analysis',
+    inputs: ['idea'],
+    unavailableReason: 'YouTube analysis data unavailable',
+    fetch: edgeFunctionFetcher('youtube-ai-insights', (ctx) => ({ idea_text: ctx.idea, idea: ctx.idea, time_window: 'year', regionCode: 'US' })),
+    normalize: (json) => {
+      const count = asArray(json.youtube_insights).length;
+      return {
+        metrics: asRecord(json.summary),
+        explanation: `Found ${count} relevant videos`,
+        citations: [],
+        charts: [],
+        json: json,
+        confidence: 0.6,
+        dataQuality: 'high'
+      };
+    }
+  },
+  {
+    name: 'market_size',
+    inputs: ['idea'],
+    freshnessHours: 12,
+    unavailableReason: 'Market size data not available yet',
+    fetch: edgeFunctionFetcher('market-size-analysis'),
+    normalize: sectionNormalizer('market_size', 'Market size analysis completed', 0.75, 'high',
+      (json) => asString(pick(json, 'market_size', 'explanation')) || asString(json.explanation))
+  },
+  {
+    name: 'competition',
+    inputs: ['idea'],
+    freshnessHours: 48,
+    unavailableReason: 'Competition analysis unavailable',
+    fetch: edgeFunctionFetcher('competitive-landscape'),
+    normalize: sectionNormalizer('competition', 'Competition analysis completed', 0.75, 'high',
+      (json) => asString(pick(json, 'competition', 'explanation')) || asString(json.summary))
+  },
+  {
+    name: 'sentiment',
+    inputs: ['idea'],
+    freshnessHours: 1,
+    unavailableReason: 'Sentiment data unavailable',
+    fetch: edgeFunctionFetcher('unified-sentiment'),
+    normalize: sectionNormalizer('sentiment', 'Sentiment analysis completed', 0.70, 'medium')
+  },
+  {
+    name: 'market_trends',
+    inputs: ['idea'],
+    freshnessHours: 4,
+    unavailableReason: 'Market trends data unavailable',
+    fetch: edgeFunctionFetcher('market-trends'),
+    normalize: sectionNormalizer('trends', 'Market trends analysis completed', 0.75, 'high')
+  },
+  {
+    name: 'google_trends',
+    inputs: ['idea'],
+    freshnessHours: 24,
+    unavailableReason: 'Google Trends data unavailable',
+    fetch: edgeFunctionFetcher('google-trends'),
+    normalize: sectionNormalizer('google_trends', 'Google trends analysis completed', 0.85, 'high')
+  },
+  {
+    name: 'web_search',
+    inputs: ['idea'],
+    unavailableReason: 'Web search data unavailable',
+    fetch: edgeFunctionFetcher('web-search'),
+    normalize: sectionNormalizer('web_search', 'Web search analysis completed', 0.70, 'medium')
+  },
+  {
+    name: 'news_analysis',
+    inputs: ['idea'],
+    freshnessHours: 6,
+    unavailableReason: 'News analysis data unavailable',
+    fetch: edgeFunctionFetcher('news-analysis'),
+    normalize: sectionNormalizer('news_analysis', 'News analysis completed', 0.75, 'high')
+  },
+  {
+    name: 'reddit_sentiment',
+    inputs: ['idea'],
+    unavailableReason: 'Reddit sentiment data unavailable',
+    fetch: edgeFunctionFetcher('reddit-sentiment'),
+    normalize: (json) => {
+      const rs = asRecord(json.reddit_sentiment || json);
+      const getMetric = (name: string) => asArray(rs.metrics).map(asRecord).find(m => m.name === name)?.value ?? null;
+      const confidenceMap: Record<string, number> = { High: 0.85, Moderate: 0.7, Low: 0.5 };
+      const overall = asRecord(rs.overall_sentiment);
+      const topCluster = asRecord(asArray(rs.clusters)[0]);
+      const citationsArr = asArray(topCluster.citations || rs.citations).map(asRecord).map(c => ({
+        url: asString(c.url) || '#',
+        title: asString(c.title) || asString(c.label) || 'Reddit Source',
+        source: asString(c.source) || 'Reddit',
+        relevance: 0.8,
+      }));
+      return {
+        metrics: {
+          positive: overall.positive ?? null,
+          neutral: overall.neutral ?? null,
+          negative: overall.negative ?? null,
+          total_posts: overall.total_posts ?? null,
+          engagement_score: getMetric('engagement_score'),
+          community_positivity_score: getMetric('community_positivity_score'),
+        },
+        explanation: asString(topCluster.insight) || 'Reddit community sentiment analysis',
+        citations: citationsArr,
+        charts: asArray(rs.charts),
+        json: rs,
+        confidence: confidenceMap[String(rs.confidence)] ?? 0.7,
+        dataQuality: 'high',
+      };
+    }
+  },
+  {
+    name: 'financial_analysis',
+    inputs: ['idea'],
+    freshnessHours: 72,
+    unavailableReason: 'Financial analysis unavailable',
+    fetch: edgeFunctionFetcher('financial-analysis'),
+    normalize: (json) => {
+      const f = json.financials;
+      if (!f) return null;
+      const insights = asArray(pick(f, 'insights'));
+      return {
+        metrics: {
+          tam: pick(f, 'marketSize', 'TAM', 'value'),
+          sam: pick(f, 'marketSize', 'SAM', 'value'),
+          som: pick(f, 'marketSize', 'SOM', 'value'),
+          cac: pick(f, 'unitEconomics', 'CAC', 'value'),
+          ltv: pick(f, 'unitEconomics', 'LTV', 'value'),
+          ltv_cac_ratio: pick(f, 'unitEconomics', 'LTVtoCACRatio'),
+          growthRate: pick(f, 'revenueProjections', 'growthRate'),
+        },
+        explanation: insights.length ? insights.slice(0, 3).join('\n') : 'Financial analysis available.',
+        citations: [],
+        charts: [],
+        json: f,
+        confidence: 0.6,
+        dataQuality: 'medium'
+      };
+    }
+  },
+  {
+    // Scored from the other tiles' output, so it waits for them in buildTiles
+    name: 'pmf_score',
+    inputs: ['idea'],
+    freshnessHours: 6,
+    dependencies: ['market_size', 'sentiment', 'competition'],
+    unavailableReason: 'PMF score unavailable',
+    fetch: edgeFunctionFetcher('calculate-smoothbrains-score', (ctx) => ({
+      idea: ctx.idea,
+      marketData: ctx.dependencies.market_size?.metrics || {},
+      sentimentData: ctx.dependencies.sentiment?.metrics || {},
+      competitionData: ctx.dependencies.competition?.metrics || {}
+    })),
+    normalize: (json) => {
+      if (typeof json.score !== 'number') return null;
+      return {
+        metrics: { score: json.score, category: json.category, ...asRecord(json.breakdown) },
+        explanation: asString(json.explanation) || 'PMF score calculated',
+        citations: [],
+        charts: [],
+        json: json,
+        confidence: 0.65,
+        dataQuality: 'medium'
+      };
+    }
+  }
+];
+
+BUILTIN_PROVIDERS.forEach(provider => tileRegistry.register(provider));
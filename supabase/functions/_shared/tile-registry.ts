@@ -0,0 +1,133 @@
+// Tile provider registry shared by edge functions.
+// Each tile type registers how to fetch its raw data and how to normalize it into TileData,
+// so adding a tile never requires touching the orchestrator itself.
+import type { TileData, TileEntitlementDenial } from './orchestrator-core.ts';
+
+// Inputs a provider can declare it needs from the hub request
+export interface TileProviderInputs {
+  idea: string;
+}
+
+export interface TileProviderContext extends TileProviderInputs {
+  supabaseUrl: string;
+  serviceKey: string;
+  // The hub caller's Authorization header, for functions that resolve the user's entitlements
+  authorization?: string;
+  // Outputs of the tiles listed in `dependencies`, keyed by tile name
+  dependencies: Record<string, TileData>;
+}
+
+// JSON object an upstream function returned. Its shape belongs to that function, so normalizers narrow
+// each field they read with the helpers below rather than trusting a declared type.
+export type RawPayload = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Read a nested field, or undefined when any step on the way is not an object
+export function pick(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), value);
+}
+
+export interface TileProvider<Raw = RawPayload> {
+  name: string;
+  inputs: Array<keyof TileProviderInputs>;
+  dependencies?: string[];
+  // How long a generated tile stays fresh before it is served stale and regenerated (default 6h)
+  freshnessHours?: number;
+  // Explanation used when the provider returns nothing or throws
+  unavailableReason: string;
+  fetch: (ctx: TileProviderContext) => Promise<Raw | null>;
+  // Return null when the raw payload holds no usable data
+  normalize: (raw: Raw, ctx: TileProviderContext) => TileData | null;
+}
+
+// Thrown by a fetcher when the upstream function denied the caller's plan
+export class TileEntitlementError extends Error {
+  constructor(public denial: TileEntitlementDenial) {
+    super(denial.error);
+    this.name = 'TileEntitlementError';
+  }
+}
+
+class TileProviderRegistry {
+  private providers = new Map<string, TileProvider>();
+
+  register(provider: TileProvider) {
+    if (this.providers.has(provider.name)) {
+      console.warn(`[TileRegistry] Overriding provider for "${provider.name}"`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string) {
+    this.providers.delete(name);
+  }
+
+  get(name: string): TileProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const tileRegistry = new TileProviderRegistry();
+
+/**
+ * Build a fetcher that POSTs to another edge function and resolves to its JSON body (null on a
+ * non-2xx response, TileEntitlementError on a plan denial). The caller's JWT is forwarded when there is one, since functions that check
+ * plan entitlements reject the service role key; otherwise the service role key is used.
+ */
+export function edgeFunctionFetcher(
+  functionName: string,
+  buildBody: (ctx: TileProviderContext) => Record<string, unknown> = (ctx) => ({ idea: ctx.idea })
+): TileProvider['fetch'] {
+  return async (ctx) => {
+    const resp = await fetch(`${ctx.supabaseUrl}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': ctx.authorization || `Bearer ${ctx.serviceKey}` },
+      body: JSON.stringify(buildBody(ctx))
+    });
+    if (!resp.ok) {
+      console.warn(`[TileRegistry] ${functionName} responded ${resp.status}`);
+      if ([401, 402, 429].includes(resp.status)) {
+        const body: unknown = await resp.json().catch(() => null);
+        const entitlement = pick(body, 'entitlement');
+        if (isRecord(entitlement)) {
+          throw new TileEntitlementError({
+            status: resp.status,
+            error: asString(pick(body, 'error')) || 'Not included in your plan',
+            code: asString(entitlement.code) || 'feature_locked',
+            tier: asString(entitlement.tier) || 'free',
+            feature: asString(entitlement.feature) ?? null,
+            suggested_tier: asString(entitlement.suggested_tier) ?? null,
+            retry_after: typeof entitlement.retry_after === 'number' ? entitlement.retry_after : null
+          });
+        }
+      }
+      return null;
+    }
+    const body: unknown = await resp.json();
+    return isRecord(body) ? body : null;
+  };
+}
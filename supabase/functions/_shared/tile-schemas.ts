@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { callLLM, type ChatMessage } from './llm-gateway.ts';
+import { validateTileOutput, type TileOutputSchema, type TileValidation } from './tile-output-schemas.ts';
+
+export * from './tile-output-schemas.ts';
+
+/**
+ * Server-side tile extraction over the shared schemas in tile-output-schemas.ts.
+ *
+ * extractTileData asks the model for exactly the schema fields, validates the answer and, when
+ * required fields are missing or malformed, sends the issues back once for a corrected answer.
+ * The client validates again, so a tile never trusts unvalidated model output.
+ */
+
+// Field list for prompts: `name (required|optional): description`
+export function describeTileSchema(schema: TileOutputSchema): string {
+  return Object.entries(schema.fields)
+    .map(([name, field]) => `- ${name} (${field.isOptional() ? 'optional' : 'required'}): ${field.description || 'value'}`)
+    .join('\n');
+}
+
+// Appended after the extraction prompt so the model answers with the schema's field names
+export function tileSchemaMessage(schema: TileOutputSchema): ChatMessage {
+  return {
+    role: 'system',
+    content: `Return a JSON object with these top-level fields. Use null for anything the data does not support; never invent placeholder values.\n${describeTileSchema(schema)}`,
+  };
+}
+
+export interface TileExtraction extends TileValidation {
+  attempts: number;
+}
+
+/**
+ * Extract one tile's data with the LLM gateway. `messages` carry the source data and instructions;
+ * the schema field list is appended here. Returns the better of the first answer and one repair.
+ */
+export async function extractTileData(
+  schema: TileOutputSchema,
+  messages: ChatMessage[],
+  options: { supabase?: SupabaseClient; temperature?: number; maxTokens?: number } = {},
+): Promise<TileExtraction> {
+  const conversation: ChatMessage[] = [...messages, tileSchemaMessage(schema)];
+
+  const first = await callLLM<Record<string, unknown>>({
+    task: 'extraction',
+    messages: conversation,
+    temperature: options.temperature ?? 0.1,
+    maxTokens: options.maxTokens ?? 2000,
+    json: true,
+    supabase: options.supabase,
+  });
+  // Older prompts asked for { extraction: {...} }; accept both shapes
+  const unwrap = (json: Record<string, unknown> | null) => (json?.extraction as Record<string, unknown>) ?? json;
+  let best = validateTileOutput(schema, unwrap(first.json));
+  let attempts = 1;
+
+  if (best.missingDataPoints.length > 0) {
+    const problems = [
+      ...best.issues,
+      ...best.missingDataPoints.filter(name => !best.issues.some(issue => issue.startsWith(`${name}:`))).map(name => `${name}: missing`),
+    ];
+    try {
+      const repair = await callLLM<Record<string, unknown>>({
+        task: 'extraction',
+        messages: [
+          ...conversation,
+          { role: 'assistant', content: first.content },
+          { role: 'user', content: `These fields failed validation:\n${problems.join('\n')}\nReturn the full JSON object again with those fields corrected, or null where the data truly has no value.` },
+        ],
+        temperature: 0,
+        maxTokens: options.maxTokens ?? 2000,
+        json: true,
+        supabase: options.supabase,
+      });
+      attempts++;
+      const repaired = validateTileOutput(schema, unwrap(repair.json));
+      if (repaired.missingDataPoints.length < best.missingDataPoints.length) best = repaired;
+    } catch (error) {
+      console.warn('[tile-schemas] Repair attempt failed:', error);
+    }
+  }
+
+  return { ...best, attempts };
+}
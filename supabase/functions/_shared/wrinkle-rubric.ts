@@ -0,0 +1,286 @@
+/**
+ * Deterministic wrinkle point rubric.
+ *
+ * A user message is reduced to countable signals (specificity, evidence, strategic thinking, problem
+ * solving, refinement over earlier messages) which fixed rules turn into a quality score and a point
+ * award. The LLM is consulted only when the quality lands next to a band boundary, and even then it
+ * can only move the score within TIE_MARGIN of that boundary. Identical inputs therefore earn
+ * identical points, and every award can be explained from its features.
+ *
+ * supabase/functions/evaluate-wrinkle-points/golden.json pins expected ranges for a corpus of
+ * messages; run scripts/check-wrinkle-golden.mjs after changing any rule or weight here.
+ */
+
+export const RUBRIC_VERSION = 'wr-1';
+
+export interface RubricInput {
+  message: string;
+  currentIdea?: string;
+  // Earlier messages; only user turns count towards refinement
+  history?: Array<{ role?: string; content?: string } | string>;
+  currentWrinklePoints?: number;
+}
+
+export interface RubricFeatures {
+  wordCount: number;
+  numbers: number;          // figures, percentages, money, counts
+  examples: number;         // "for example", "such as", named customers
+  segments: number;         // concrete audience terms (B2B, ages, roles, geographies)
+  evidence: number;         // research, interviews, pilots, paying users
+  strategy: number;         // pricing, channels, unit economics, competition
+  problemSolving: number;   // risks, trade-offs, mitigations, causal reasoning
+  novelty: number;          // share of content words not already in the idea or earlier user turns (0-1)
+  offTopic: boolean;
+}
+
+export interface RubricScores {
+  specificity: number;
+  evidence: number;
+  strategy: number;
+  problemSolving: number;
+  refinement: number;
+}
+
+export type RubricBand = 'minimal' | 'basic' | 'good' | 'strong' | 'exceptional';
+
+export interface RubricResult {
+  version: string;
+  features: RubricFeatures;
+  scores: RubricScores;
+  quality: number;          // weighted 0-1 before any tie-break
+  band: RubricBand;
+  pointChange: number;
+  explanation: string;
+  tieBreak: { boundary: number; decision: 'higher' | 'lower' } | null;
+}
+
+// Returns which side of a boundary the message belongs on, or null to keep the rule-based score
+export type TieBreaker = (prompt: string) => Promise<'higher' | 'lower' | null>;
+
+const WEIGHTS: RubricScores = {
+  specificity: 0.25,
+  evidence: 0.25,
+  strategy: 0.25,
+  problemSolving: 0.1,
+  refinement: 0.15,
+};
+
+// Quality thresholds where each band starts, and the point curve through them
+const BANDS: Array<{ band: RubricBand; from: number; points: number }> = [
+  { band: 'minimal', from: 0, points: 0.1 },
+  { band: 'basic', from: 0.15, points: 0.5 },
+  { band: 'good', from: 0.35, points: 1.0 },
+  { band: 'strong', from: 0.55, points: 2.0 },
+  { band: 'exceptional', from: 0.75, points: 3.0 },
+];
+const MAX_POINTS = 5.0;
+
+export const TIE_MARGIN = 0.03;
+
+const EVIDENCE_TERMS = [
+  'interview', 'interviewed', 'survey', 'surveyed', 'pilot', 'prototype', 'tested', 'experiment',
+  'waitlist', 'signed up', 'signups', 'pre-order', 'preorder', 'letter of intent', 'loi', 'paying',
+  'revenue', 'mrr', 'arr', 'retention', 'churn', 'conversion', 'data shows', 'research', 'study',
+  'customers said', 'users said', 'feedback', 'validated', 'beta', 'traction', 'landing page',
+];
+
+const STRATEGY_TERMS = [
+  'pricing', 'price', 'subscription', 'freemium', 'margin', 'cac', 'ltv', 'unit economics',
+  'channel', 'go-to-market', 'gtm', 'distribution', 'partnership', 'partner', 'competitor',
+  'competition', 'moat', 'differentiat', 'positioning', 'niche', 'segment', 'wedge', 'upsell',
+  'b2b', 'b2c', 'enterprise', 'marketplace', 'network effect', 'scale', 'acquisition', 'monetiz',
+  'business model', 'revenue model', 'market size', 'tam',
+];
+
+const PROBLEM_TERMS = [
+  'risk', 'challenge', 'mitigat', 'trade-off', 'tradeoff', 'instead', 'because', 'therefore',
+  'bottleneck', 'constraint', 'regulat', 'compliance', 'fallback', 'assumption', 'hypothesis',
+  'if we', 'unless', 'solve', 'workaround',
+];
+
+const SEGMENT_TERMS = [
+  'b2b', 'b2c', 'smb', 'small business', 'enterprise', 'freelancer', 'student', 'parent', 'nurse',
+  'doctor', 'teacher', 'developer', 'founder', 'agency', 'retailer', 'restaurant', 'clinic',
+  'year-old', 'years old', 'gen z', 'millennial', 'rural', 'urban', 'in the us', 'in europe', 'in india',
+];
+
+const EXAMPLE_TERMS = ['for example', 'for instance', 'such as', 'e.g.', 'like when', 'case study'];
+
+const OFF_TOPIC = /^(hi|hello|hey|thanks|thank you|ok|okay|cool|lol|yes|no|sure|test|asdf)[\s!.?]*$/i;
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'for', 'with', 'is', 'are', 'was',
+  'were', 'be', 'it', 'this', 'that', 'i', 'we', 'you', 'they', 'my', 'our', 'your', 'their', 'at',
+  'as', 'by', 'from', 'will', 'would', 'can', 'could', 'should', 'so', 'if', 'do', 'does', 'have',
+  'has', 'had', 'not', 'about', 'what', 'which', 'who', 'how', 'more', 'also', 'just', 'very',
+]);
+
+function countTerms(text: string, terms: string[]): number {
+  return terms.reduce((count, term) => count + (text.includes(term) ? 1 : 0), 0);
+}
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z'-]{2,}/g) || []).filter(word => !STOPWORDS.has(word));
+}
+
+function historyText(history: RubricInput['history']): string {
+  return (history || [])
+    .filter(turn => typeof turn === 'string' || !turn.role || turn.role === 'user')
+    .map(turn => (typeof turn === 'string' ? turn : turn.content || ''))
+    .join(' ');
+}
+
+export function extractRubricFeatures(input: RubricInput): RubricFeatures {
+  const message = (input.message || '').trim();
+  const lower = message.toLowerCase();
+  const words = message.split(/\s+/).filter(Boolean);
+
+  const numbers = (message.match(/[$€£]?\d[\d,.]*\s*(%|k\b|m\b|bn\b|x\b|million|billion|thousand)?/gi) || []).length;
+
+  // Capitalised words that do not start a sentence read as names of customers, competitors or places
+  const properNouns = (message.match(/(?<![.!?]\s|^)\b[A-Z][a-zA-Z]{2,}\b/g) || []).length;
+
+  const known = new Set(contentWords(`${input.currentIdea || ''} ${historyText(input.history)}`));
+  const ownWords = contentWords(message);
+  const novelWords = ownWords.filter(word => !known.has(word));
+  const novelty = ownWords.length ? new Set(novelWords).size / new Set(ownWords).size : 0;
+
+  return {
+    wordCount: words.length,
+    numbers,
+    examples: countTerms(lower, EXAMPLE_TERMS) + Math.min(properNouns, 3),
+    segments: countTerms(lower, SEGMENT_TERMS),
+    evidence: countTerms(lower, EVIDENCE_TERMS),
+    strategy: countTerms(lower, STRATEGY_TERMS),
+    problemSolving: countTerms(lower, PROBLEM_TERMS),
+    novelty: Math.round(novelty * 100) / 100,
+    offTopic: words.length === 0 || OFF_TOPIC.test(message),
+  };
+}
+
+const saturate = (value: number, full: number) => Math.min(1, value / full);
+
+export function scoreRubricFeatures(features: RubricFeatures): RubricScores {
+  if (features.offTopic) {
+    return { specificity: 0, evidence: 0, strategy: 0, problemSolving: 0, refinement: 0 };
+  }
+
+  // Length alone is worth little; it mainly scales how much the novelty signal can count
+  const length = saturate(features.wordCount, 60);
+
+  return {
+    specificity: saturate(features.numbers * 1.5 + features.examples + features.segments * 1.5, 6),
+    evidence: saturate(features.evidence, 3),
+    strategy: saturate(features.strategy, 4),
+    problemSolving: saturate(features.problemSolving, 3),
+    refinement: features.novelty * length,
+  };
+}
+
+export function rubricQuality(scores: RubricScores): number {
+  const quality = (Object.keys(WEIGHTS) as Array<keyof RubricScores>)
+    .reduce((sum, key) => sum + scores[key] * WEIGHTS[key], 0);
+  return Math.round(quality * 1000) / 1000;
+}
+
+export function bandFor(quality: number): RubricBand {
+  let band: RubricBand = 'minimal';
+  for (const entry of BANDS) {
+    if (quality >= entry.from) band = entry.band;
+  }
+  return band;
+}
+
+// Piecewise-linear map from quality to points through the band starts
+export function qualityToPoints(quality: number): number {
+  const curve = [...BANDS.map(b => [b.from, b.points]), [1, MAX_POINTS]];
+  const q = Math.max(0, Math.min(1, quality));
+  for (let i = 1; i < curve.length; i++) {
+    const [x0, y0] = curve[i - 1];
+    const [x1, y1] = curve[i];
+    if (q <= x1) return y0 + ((q - x0) / (x1 - x0)) * (y1 - y0);
+  }
+  return MAX_POINTS;
+}
+
+// Returning users earn less for the same quality of thinking, down to half
+export function experienceFactor(currentWrinklePoints = 0): number {
+  return Math.max(0.5, 1 - Math.max(0, currentWrinklePoints) / 200);
+}
+
+function nearestBoundary(quality: number): number | null {
+  for (const { from } of BANDS.slice(1)) {
+    if (Math.abs(quality - from) < TIE_MARGIN) return from;
+  }
+  return null;
+}
+
+export function tieBreakPrompt(input: RubricInput, scores: RubricScores, boundary: number): string {
+  const lower = bandFor(boundary - TIE_MARGIN);
+  const upper = bandFor(boundary);
+  return `A startup idea coaching rubric scored this message on the line between "${lower}" and "${upper}".
+
+Idea: "${input.currentIdea || 'Not yet defined'}"
+Message: "${input.message}"
+Rubric scores (0-1): ${JSON.stringify(scores)}
+
+"${upper}" means the message adds concrete, decision-relevant substance (evidence, numbers, a clear strategic choice).
+"${lower}" means it is mostly restatement or general intent.
+
+Answer with exactly one word: higher or lower.`;
+}
+
+function explain(band: RubricBand, scores: RubricScores, features: RubricFeatures): string {
+  if (features.offTopic) return 'Thanks for checking in! Share details about your idea to earn more wrinkles.';
+
+  const strengths = (Object.keys(scores) as Array<keyof RubricScores>)
+    .filter(key => scores[key] >= 0.5)
+    .sort((a, b) => scores[b] - scores[a]);
+  const labels: Record<keyof RubricScores, string> = {
+    specificity: 'concrete specifics',
+    evidence: 'real-world evidence',
+    strategy: 'strategic thinking',
+    problemSolving: 'problem solving',
+    refinement: 'new detail beyond what you said before',
+  };
+  const missing = (['evidence', 'specificity', 'strategy'] as Array<keyof RubricScores>).find(key => scores[key] < 0.34);
+
+  const praise = strengths.length
+    ? `Strong on ${strengths.slice(0, 2).map(key => labels[key]).join(' and ')}.`
+    : band === 'minimal' ? 'Every bit of engagement counts.' : 'Solid contribution.';
+  const nudge = missing ? ` Add ${labels[missing]} to earn more.` : '';
+  return `${praise}${nudge}`;
+}
+
+export async function evaluateWrinklePoints(input: RubricInput, tieBreaker?: TieBreaker): Promise<RubricResult> {
+  const features = extractRubricFeatures(input);
+  const scores = scoreRubricFeatures(features);
+  const quality = rubricQuality(scores);
+
+  let effectiveQuality = quality;
+  let tieBreak: RubricResult['tieBreak'] = null;
+
+  const boundary = features.offTopic ? null : nearestBoundary(quality);
+  if (boundary !== null && tieBreaker) {
+    const decision = await tieBreaker(tieBreakPrompt(input, scores, boundary)).catch(() => null);
+    if (decision) {
+      // The LLM only picks a side; the distance from the boundary stays fixed by the rubric
+      effectiveQuality = decision === 'higher' ? boundary + TIE_MARGIN : boundary - TIE_MARGIN;
+      tieBreak = { boundary, decision };
+    }
+  }
+
+  const band = bandFor(effectiveQuality);
+  const points = Math.max(0.1, qualityToPoints(effectiveQuality) * experienceFactor(input.currentWrinklePoints));
+
+  return {
+    version: RUBRIC_VERSION,
+    features,
+    scores,
+    quality,
+    band,
+    pointChange: Math.round(points * 10) / 10,
+    explanation: explain(band, scores, features),
+    tieBreak,
+  };
+}
@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EntitlementError, entitlementErrorResponse, hashApiKey, requireFeature, resolveEntitlements } from "../_shared/entitlements.ts";
+import { parseFunctionRequest } from "../_shared/function-contracts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const KEY_PREFIX_LENGTH = 10;
+
+// 32 random bytes, hex encoded, behind a recognizable prefix
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `sb_${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Issue, list and revoke the caller's API keys. Keys are managed from a signed-in session only, and
+// issuing one needs the apiAccess feature; the key is returned once and only its digest is stored.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  try {
+    const parsed = parseFunctionRequest('api-keys', await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
+    }
+    const { operation, name, key_id } = parsed.data;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const entitlements = await resolveEntitlements(supabase, req);
+    if (entitlements.viaApiKey) {
+      return json({ error: 'API keys are managed from a signed-in session' }, 403);
+    }
+
+    if (operation === 'list') {
+      const { data: keys, error } = await supabase
+        .from('api_keys')
+        .select('id, name, key_prefix, created_at, last_used_at, revoked_at')
+        .eq('user_id', entitlements.userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return json({ success: true, keys: keys || [] });
+    }
+
+    if (operation === 'create') {
+      requireFeature(entitlements, 'apiAccess');
+      const key = generateApiKey();
+      const { data: created, error } = await supabase
+        .from('api_keys')
+        .insert({
+          user_id: entitlements.userId,
+          name: name?.trim() || 'API key',
+          key_hash: await hashApiKey(key),
+          key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+        })
+        .select('id, name, key_prefix, created_at, last_used_at, revoked_at')
+        .single();
+      if (error) throw error;
+      return json({ success: true, key, api_key: created });
+    }
+
+    if (!key_id) {
+      return json({ error: 'key_id is required' }, 400);
+    }
+    const { data: revoked, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', key_id)
+      .eq('user_id', entitlements.userId)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+    if (error) throw error;
+    if (!revoked) {
+      return json({ error: 'API key not found' }, 404);
+    }
+    return json({ success: true });
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
+    console.error('[api-keys] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to manage API keys' }, 500);
+  }
+});
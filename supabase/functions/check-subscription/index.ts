@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 
 const allowedOrigins = Deno.env.get("ALLOWED_ORIGINS")?.split(",") || [
   'https://lovableproject.com',
@@ -20,6 +20,16 @@ const logStep = (step: string, details?: any) => {
   console.log(`[CHECK-SUBSCRIPTION] ${step}${detailsStr}`);
 };
 
+// Issue (or top up) this month's AI credit grant for the resolved tier; returns the wallet balance
+const grantMonthlyCredits = async (supabaseClient: SupabaseClient, userId: string, tier: string): Promise<number | null> => {
+  const { data, error } = await supabaseClient.rpc('ensure_monthly_grant', { _user_id: userId, _tier: tier });
+  if (error) {
+    logStep("Monthly credit grant failed", { message: error.message });
+    return null;
+  }
+  return data;
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -82,7 +92,8 @@ serve(async (req) => {
           subscribed: true,
           tier: role,
           product_id: productMap[role] ?? null,
-          subscription_end: profileRow?.subscription_end_date ?? null
+          subscription_end: profileRow?.subscription_end_date ?? null,
+          credit_balance: await grantMonthlyCredits(supabaseClient, user.id, role)
         }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
           status: 200,
@@ -93,7 +104,8 @@ serve(async (req) => {
         subscribed: false,
         tier: 'free',
         product_id: null,
-        subscription_end: null
+        subscription_end: null,
+        credit_balance: await grantMonthlyCredits(supabaseClient, user.id, 'free')
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 200,
@@ -165,7 +177,8 @@ serve(async (req) => {
       subscribed: hasActiveSub,
       tier: tier,
       product_id: productId,
-      subscription_end: subscriptionEnd
+      subscription_end: subscriptionEnd,
+      credit_balance: await grantMonthlyCredits(supabaseClient, user.id, tier)
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
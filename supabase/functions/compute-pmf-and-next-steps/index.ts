@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { appendScoreHistory, ideaHash } from '../_shared/score-history.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +12,7 @@ const corsHeaders = {
 const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY')
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const PMF_AI_MODEL = 'llama3-70b-8192'
 
 interface PMFRequest {
   idea_id: string
@@ -123,6 +125,31 @@ serve(async (req) => {
       console.error('Error storing PMF score:', scoreError)
     }
 
+    // Keep every computation with its inputs in the score history
+    try {
+      const { data: ideaRow } = await supabase
+        .from('ideas')
+        .select('user_id')
+        .eq('id', idea_id)
+        .maybeSingle()
+
+      if (ideaRow?.user_id) {
+        await appendScoreHistory(supabase, {
+          idea_id,
+          user_id: ideaRow.user_id,
+          pmf_score: Math.min(Math.max(Math.round(aiResult.pmf_score), 0), 100),
+          score_breakdown: aiResult.score_breakdown || {},
+          factors: aiResult.score_breakdown || {},
+          model_version: `ai:${PMF_AI_MODEL}`,
+          data_sources: aiResult.data_sources || [],
+          source: 'compute_pmf',
+          idea_hash: await ideaHash(idea_text)
+        })
+      }
+    } catch (historyError) {
+      console.error('Error recording score history:', historyError)
+    }
+
     // Clear old pending actions and insert new ones
     await supabase
       .from('actions')
@@ -290,7 +317,7 @@ async function callGroqAPI(prompt: string) {
       'Content-Type': 'application/json'
     },
     body: JSON.stringify({
-      model: 'llama3-70b-8192',
+      model: PMF_AI_MODEL,
       messages: [
         {
           role: 'system',
@@ -2,7 +2,8 @@
 // Provides tile aggregation WITHOUT mock fabricated metrics. Tiles return explanatory placeholders until real providers wired.
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { buildTiles, DataHubRequestBody, hashIdea, TileData, emptyTile } from '../_shared/orchestrator-core.ts';
+import { buildTiles, DataHubRequestBody, TileData, tileRegistry, tileFreshnessHours, DEFAULT_TILE_CONCURRENCY } from '../_shared/orchestrator-core.ts';
+import { sseResponse } from '../_shared/sse.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,31 +26,31 @@ const corsHeaders = {
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 const supabase = createClient(SUPABASE_URL, SERVICE_KEY);
-
-// Recognized tile ids
-const ALLOWED_TILES = new Set(['market_size','competition','sentiment','market_trends','google_trends','web_search','news_analysis','financial_analysis','twitter_sentiment','youtube_analysis','reddit_sentiment']);
+// Max tiles fetched in parallel (dependent tiles still wait for their inputs)
+const TILE_CONCURRENCY = Number(Deno.env.get('DATA_HUB_TILE_CONCURRENCY')) || DEFAULT_TILE_CONCURRENCY;
 
 async function safeLoadCache(ideaHash: string, tile: string): Promise<TileData | null> {
   try {
     const { data, error } = await supabase
       .from('data_hub_cache')
-      .select('data, expires_at')
+      .select('data, created_at, expires_at')
       .eq('idea_hash', ideaHash)
       .eq('tile', tile)
       .maybeSingle();
     if (error) { console.warn('[data-hub] cache read error', tile, error.message); return null; }
     if (!data) return null;
-    if (data.expires_at && new Date(data.expires_at) < new Date()) return null;
-    return data.data as TileData;
+    // Expired rows are still returned: buildTiles serves them as stale and regenerates in the background
+    const cached = data.data as TileData;
+    return { ...cached, generatedAt: cached.generatedAt || data.created_at, expiresAt: cached.expiresAt || data.expires_at };
   } catch (e) { console.warn('[data-hub] cache load exception', tile, e); return null; }
 }
 
 async function safeSaveCache(ideaHash: string, tile: string, data: TileData) {
   try {
-    const expires = new Date(Date.now() + 6 * 60 * 60 * 1000).toISOString();
+    const expires = data.expiresAt || new Date(Date.now() + tileFreshnessHours(tile) * 60 * 60 * 1000).toISOString();
     const { error } = await supabase
       .from('data_hub_cache')
-      .upsert({ idea_hash: ideaHash, tile, data, expires_at: expires });
+      .upsert({ idea_hash: ideaHash, tile, data, created_at: data.generatedAt || new Date().toISOString(), expires_at: expires });
     if (error) console.warn('[data-hub] cache write error', tile, error.message);
   } catch (e) { console.warn('[data-hub] cache save exception', tile, e); }
 }
@@ -57,87 +58,14 @@ async function safeSaveCache(ideaHash: string, tile: string, data: TileData) {
 const loadCache = safeLoadCache; // backward compatible names
 const saveCache = safeSaveCache;
 
-serve(async (req: Request) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { status: 200, headers: corsHeaders });
-  }
-  if (req.method === 'GET') {
-    return new Response(JSON.stringify({ ok: true, version: '1.2.0', timestamp: new Date().toISOString() }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-  }
-
-  try {
-  let body: DataHubRequestBody;
-  try { body = await req.json() as DataHubRequestBody; } catch { return new Response(JSON.stringify({ success: false, error: 'Invalid JSON body' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }); }
-    if (!body.idea || typeof body.idea !== 'string' || body.idea.trim().length < 5) {
-      return new Response(JSON.stringify({ error: 'Invalid idea' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
-    }
-    // If no explicit tiles passed, default (financial_analysis only when explicitly requested)
-    let tiles = (body.tiles && body.tiles.length ? body.tiles : [
-      'market_size','competition','sentiment','market_trends','google_trends','web_search','news_analysis'
-    ]).slice(0, 12);
-    const invalid = tiles.filter(t => !ALLOWED_TILES.has(t));
-    if (invalid.length) tiles = tiles.filter(t => ALLOWED_TILES.has(t));
-    const metaErrors: string[] = [];
-    if (invalid.length) metaErrors.push(`Removed invalid tiles: ${invalid.join(', ')}`);
-
-    const { tiles: resultTiles, meta } = await buildTiles(body.idea, tiles, {
-      force: body.forceRefresh,
-      loadCache,
-      saveCache
-    });
-
-    // FINANCIAL ANALYSIS (integrate existing edge function)
-    if (tiles.includes('financial_analysis')) {
-      try {
-        const finResp = await fetch(`${SUPABASE_URL}/functions/v1/financial-analysis`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SERVICE_KEY}` },
-          body: JSON.stringify({ idea: body.idea })
-        });
-        if (finResp.ok) {
-          const finJson = await finResp.json();
-          const f = finJson?.financials;
-          if (f) {
-            const tile: TileData = {
-              metrics: {
-                tam: f.marketSize?.TAM?.value,
-                sam: f.marketSize?.SAM?.value,
-                som: f.marketSize?.SOM?.value,
-                cac: f.unitEconomics?.CAC?.value,
-                ltv: f.unitEconomics?.LTV?.value,
-                ltv_cac_ratio: f.unitEconomics?.LTVtoCACRatio,
-                growthRate: f.revenueProjections?.growthRate,
-              },
-              explanation: Array.isArray(f.insights) && f.insights.length ? f.insights.slice(0,3).join('\n') : 'Financial analysis available.',
-              citations: [],
-              charts: [],
-              json: f,
-              confidence: 0.6,
-              dataQuality: 'medium'
-            };
-            resultTiles['financial_analysis'] = tile;
-            const h = await hashIdea(body.idea);
-            await saveCache(h, 'financial_analysis', tile).catch(()=>{});
-          } else {
-            resultTiles['financial_analysis'] = { ...emptyTile('No financial data returned'), confidence: 0, dataQuality: 'low' } as TileData;
-          }
-        } else {
-          resultTiles['financial_analysis'] = { ...emptyTile('Financial analysis request failed'), confidence: 0, dataQuality: 'low' } as TileData;
-        }
-      } catch (err: any) {
-        resultTiles['financial_analysis'] = { ...emptyTile(err?.message || 'Financial analysis error'), error: err?.message, confidence: 0, dataQuality: 'low' } as TileData;
-      }
-    }
-
-  // Track AI credits usage if user is authenticated
-  const authHeader = req.headers.get('Authorization');
-  if (authHeader) {
+// Track AI credits usage if user is authenticated
+async function trackCredits(authHeader: string | null, tilesGenerated: number) {
+  if (authHeader && tilesGenerated > 0) {
     try {
       const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
       
       if (user?.id) {
         // Calculate credits based on tiles generated
-        const tilesGenerated = Object.keys(resultTiles).length;
         const creditsUsed = tilesGenerated * 2; // 2 credits per tile
         
         // Get current billing period
@@ -167,6 +95,59 @@ serve(async (req: Request) => {
       console.error('[data-hub] Error tracking AI credits:', error);
     }
   }
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders });
+  }
+  if (req.method === 'GET') {
+    return new Response(JSON.stringify({ ok: true, version: '1.2.0', timestamp: new Date().toISOString() }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+
+  try {
+  let body: DataHubRequestBody;
+  try { body = await req.json() as DataHubRequestBody; } catch { return new Response(JSON.stringify({ success: false, error: 'Invalid JSON body' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }); }
+    if (!body.idea || typeof body.idea !== 'string' || body.idea.trim().length < 5) {
+      return new Response(JSON.stringify({ error: 'Invalid idea' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+    // If no explicit tiles passed, default (financial_analysis only when explicitly requested)
+    let tiles = (body.tiles && body.tiles.length ? body.tiles : [
+      'market_size','competition','sentiment','market_trends','google_trends','web_search','news_analysis'
+    ]).slice(0, 12);
+    // Recognized tile ids come from the shared provider registry
+    const invalid = tiles.filter(t => !tileRegistry.has(t));
+    if (invalid.length) tiles = tiles.filter(t => tileRegistry.has(t));
+    const metaErrors: string[] = [];
+    if (invalid.length) metaErrors.push(`Removed invalid tiles: ${invalid.join(', ')}`);
+
+    const buildOpts = {
+      force: body.forceRefresh,
+      concurrency: TILE_CONCURRENCY,
+      // Keep stale-tile regenerations running after the response is sent
+      waitUntil: (task: Promise<unknown>) => (globalThis as any).EdgeRuntime?.waitUntil?.(task),
+      authorization: req.headers.get('Authorization') ?? undefined,
+      loadCache,
+      saveCache
+    };
+
+    // Streaming mode: push each tile as an SSE `tile` event when it finishes, then a final `meta` event
+    const wantsStream = body.stream || (req.headers.get('Accept') || '').includes('text/event-stream');
+    if (wantsStream) {
+      return sseResponse(async (send, signal) => {
+        const { tiles: resultTiles, meta } = await buildTiles(body.idea, tiles, {
+          ...buildOpts,
+          signal,
+          onTile: (tile, data) => send('tile', { tile, data })
+        });
+        // After a disconnect only the tiles that were actually generated are billed
+        await trackCredits(req.headers.get('Authorization'), signal.aborted ? meta.generated.length : Object.keys(resultTiles).length);
+        send('meta', { ...meta, errors: metaErrors.length ? metaErrors : undefined });
+      }, corsHeaders);
+    }
+
+    const { tiles: resultTiles, meta } = await buildTiles(body.idea, tiles, buildOpts);
+    await trackCredits(req.headers.get('Authorization'), Object.keys(resultTiles).length);
 
   const responseMeta = { ...meta, errors: metaErrors.length ? metaErrors : undefined };
   return new Response(JSON.stringify({ success: true, tiles: resultTiles, meta: responseMeta }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
@@ -1,13 +1,33 @@
-// @ts-nocheck
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM, configuredProviders } from "../_shared/llm-gateway.ts";
+import { evaluateWrinklePoints, type TieBreaker } from "../_shared/wrinkle-rubric.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
+// Points come from the fixed rubric; the LLM is only asked which side of a band boundary a borderline
+// message falls on. Answers are cached per prompt so a repeated message always breaks the same way.
+function llmTieBreaker(supabase: SupabaseClient): TieBreaker {
+  return async (prompt: string) => {
+    const { content } = await callLLM({
+      task: 'evaluation',
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0,
+      maxTokens: 3,
+      supabase,
+      cacheTtlMinutes: 60 * 24 * 30,
+    });
+
+    const word = content.trim().toLowerCase();
+    if (word.startsWith('higher')) return 'higher';
+    if (word.startsWith('lower')) return 'lower';
+    return null;
+  };
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -17,116 +37,56 @@ serve(async (req) => {
   try {
     const { userMessage, currentIdea, conversationHistory, currentWrinklePoints } = await req.json();
 
-    if (!GROQ_API_KEY) {
-      throw new Error('Groq API key not configured');
-    }
-
-    const evaluationPrompt = `You are a brain wrinkle evaluator. Evaluate the QUALITY of the USER'S MESSAGE, not the bot's response.
-
-CONTEXT:
-- User currently has ${currentWrinklePoints} wrinkle points
-- User's current idea: "${currentIdea || 'Not yet defined'}"
-- User's message to evaluate: "${userMessage}"
-- Recent conversation: ${JSON.stringify(conversationHistory)}
-
-EVALUATE THE USER'S INPUT BASED ON:
-1. Specificity - Did they provide concrete details, numbers, examples?
-2. Strategic thinking - Did they show business acumen, market understanding?
-3. Evidence/validation - Did they mention research, testing, customer feedback?
-4. Depth of refinement - How much did they improve or elaborate on the idea?
-5. Problem-solving - Did they address challenges or opportunities?
-
-SCORING RULES (based on USER'S input quality):
-- Exceptional insights with data/evidence: +3.0 to +5.0 points
-- Strong strategic thinking with specifics: +2.0 to +3.0 points
-- Good elaboration and refinement: +1.0 to +2.0 points
-- Basic contribution: +0.5 to +1.0 points
-- Minimal input but trying: +0.1 to +0.5 points
-- Even for off-topic: +0.1 points minimum (encouraging engagement)
-
-ALWAYS return positive points (minimum 0.1). Use decimals for nuance.
-
-Return ONLY a JSON object like this:
-{
-  "pointChange": 1.5,
-  "explanation": "Good market validation insight - shows deeper understanding of customer needs"
-}
-
-BE STRICT. Higher point totals should get fewer points for the same quality of thinking.`;
-
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant', // Use Groq for wrinkle points evaluation
-        messages: [
-          {
-            role: 'system',
-            content: evaluationPrompt
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.3
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Groq API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    if (!content) {
-      throw new Error('No content in Groq response');
-    }
+    // Without an LLM provider borderline messages simply keep their rule-based score
+    const tieBreaker = configuredProviders().length ? llmTieBreaker(supabase) : undefined;
 
-    // Parse the JSON response and ensure positive points
-    let evaluation;
-    try {
-      evaluation = JSON.parse(content);
-      // Ensure points are always positive
-      if (evaluation.pointChange <= 0) {
-        evaluation.pointChange = 0.1;
-      }
-    } catch (parseError) {
-      // Fallback if JSON parsing fails - always positive
-      evaluation = {
-        pointChange: (Math.random() * 0.9) + 0.1, // 0.1 to 1.0
-        explanation: 'Making progress with your idea!'
-      };
-    }
+    const result = await evaluateWrinklePoints({
+      message: userMessage || '',
+      currentIdea,
+      history: Array.isArray(conversationHistory) ? conversationHistory : [],
+      currentWrinklePoints: Number(currentWrinklePoints) || 0,
+    }, tieBreaker);
 
     return new Response(
-      JSON.stringify(evaluation),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+      JSON.stringify({
+        pointChange: result.pointChange,
+        explanation: result.explanation,
+        rubric: {
+          version: result.version,
+          band: result.band,
+          quality: result.quality,
+          scores: result.scores,
+          tieBreak: result.tieBreak,
+        },
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
       }
     );
 
   } catch (error) {
     console.error('Error evaluating wrinkle points:', error);
-    
-    // Fallback evaluation - always positive
-    const fallbackEvaluation = {
-      pointChange: (Math.random() * 0.9) + 0.1, // 0.1 to 1.0
-      explanation: 'Brain processing your idea refinement!'
-    };
 
+    // Only a malformed request lands here; still award the engagement minimum
     return new Response(
-      JSON.stringify(fallbackEvaluation),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+      JSON.stringify({
+        pointChange: 0.1,
+        explanation: 'Brain processing your idea refinement!'
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,14 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleStrategyRequest } from '../_shared/strategy-generators.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve((req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  return handleStrategyRequest('generate-competitive-strategy', req, corsHeaders);
+});
@@ -1,125 +1,126 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { consumeQuota, EntitlementError, entitlementErrorResponse, enforceRateLimit, requireFeature, requireQuota, resolveEntitlements } from "../_shared/entitlements.ts";
+import { parseFunctionRequest } from "../_shared/function-contracts.ts";
+import { loadIdeaTiles } from "../_shared/idea-tiles.ts";
+import { buildPitchDeck, DECK_TILES } from "../_shared/pitch-deck.ts";
+import { renderPptx } from "../_shared/deck-pptx.ts";
+import { renderPdf } from "../_shared/deck-pdf.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const FILE_TYPES = {
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  pdf: 'application/pdf',
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fileName(title: string, format: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'pitch-deck';
+  return `${slug}-pitch-deck.${format}`;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
-  try {
-    const { idea_id, user_id } = await req.json();
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
 
-    if (!idea_id || !user_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+  try {
+    const parsed = parseFunctionRequest('generate-pitch-deck', await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
     }
+    const { idea_id, format = 'json' } = parsed.data;
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    console.log('[generate-pitch-deck] Generating deck for idea:', idea_id);
+    // Decks are an export feature; every format counts against exportsPerMonth, since the JSON deck
+    // carries the same narration the files are rendered from
+    const entitlements = await resolveEntitlements(supabase, req);
+    requireFeature(entitlements, 'exportData');
+    await enforceRateLimit(supabase, entitlements);
+    await requireQuota(supabase, entitlements, 'exports');
 
-    // Fetch idea data
+    console.log('[generate-pitch-deck] Generating', format, 'deck for idea:', idea_id);
+
+    // Fetch idea data (only the caller's own ideas)
     const { data: ideaData } = await supabase
       .from('ideas')
       .select('*')
       .eq('id', idea_id)
-      .single();
+      .eq('user_id', entitlements.userId)
+      .maybeSingle();
+
+    if (!ideaData) {
+      return json({ error: 'Idea not found' }, 404);
+    }
 
     // Fetch PMF score
     const { data: scoreData } = await supabase
       .from('idea_scores')
-      .select('*')
+      .select('pmf_score, score_breakdown')
       .eq('idea_id', idea_id)
       .order('created_at', { ascending: false })
       .limit(1)
       .maybeSingle();
 
-    // Fetch market analysis
-    const { data: analysisData } = await supabase
-      .from('idea_analyses')
-      .select('*')
-      .eq('idea_text', ideaData.original_idea)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    // The hub caches tiles by the idea text it was run with
+    const tiles = await loadIdeaTiles(supabase, ideaData.original_idea, DECK_TILES);
+    if (!tiles.length && ideaData.refined_idea) {
+      tiles.push(...await loadIdeaTiles(supabase, ideaData.refined_idea, DECK_TILES));
+    }
 
-    // Generate pitch deck structure
-    const pitchDeck = {
-      title: `${ideaData.original_idea}`,
-      slides: [
-        {
-          type: 'cover',
-          title: 'Problem & Solution',
-          content: ideaData.original_idea,
-        },
-        {
-          type: 'market',
-          title: 'Market Opportunity',
-          content: analysisData?.market_size || { tam: 'TBD', sam: 'TBD', som: 'TBD' },
-        },
-        {
-          type: 'product',
-          title: 'Product Overview',
-          content: ideaData.refined_idea || ideaData.original_idea,
-        },
-        {
-          type: 'competition',
-          title: 'Competitive Landscape',
-          content: analysisData?.competitors || [],
-        },
-        {
-          type: 'traction',
-          title: 'PMF Score & Validation',
-          content: {
-            pmf_score: scoreData?.pmf_score || 0,
-            breakdown: scoreData?.score_breakdown || {},
-          },
-        },
-        {
-          type: 'gtm',
-          title: 'Go-to-Market Strategy',
-          content: analysisData?.gtm_strategy || {},
-        },
-        {
-          type: 'financial',
-          title: 'Financial Projections',
-          content: {
-            profit_potential: analysisData?.profit_potential || 0,
-          },
-        },
-        {
-          type: 'team',
-          title: 'Team & Ask',
-          content: 'Your team description here',
-        },
-      ],
-      metadata: {
-        generated_at: new Date().toISOString(),
-        pmf_score: scoreData?.pmf_score || 0,
-      },
-    };
+    const pitchDeck = await buildPitchDeck(
+      supabase,
+      { text: ideaData.original_idea, refined: ideaData.refined_idea },
+      tiles,
+      { pmfScore: scoreData?.pmf_score ?? null, breakdown: scoreData?.score_breakdown ?? null },
+      entitlements.userId,
+    );
 
-    console.log('[generate-pitch-deck] Generated deck with', pitchDeck.slides.length, 'slides');
+    console.log('[generate-pitch-deck] Built', pitchDeck.slides.length, 'slides from', tiles.length, 'tiles');
 
-    return new Response(
-      JSON.stringify({ success: true, pitch_deck: pitchDeck }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const bytes = format === 'json' ? null : format === 'pptx' ? renderPptx(pitchDeck) : renderPdf(pitchDeck);
+
+    // A concurrent export may have used the last one since requireQuota; the deck is not returned then
+    await consumeQuota(supabase, entitlements, 'exports');
+
+    if (!bytes) {
+      return json({ success: true, pitch_deck: pitchDeck });
+    }
+
+    return json({
+      success: true,
+      pitch_deck: pitchDeck,
+      file: {
+        filename: fileName(pitchDeck.title, format),
+        mime_type: FILE_TYPES[format],
+        base64: toBase64(bytes),
+      },
+    });
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
     console.error('[generate-pitch-deck] Error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return json({ error: error instanceof Error ? error.message : 'Failed to generate pitch deck' }, 500);
   }
 });
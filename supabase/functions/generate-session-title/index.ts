@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { parseFunctionRequest } from '../_shared/function-contracts.ts';
+import { callLLM, configuredProviders } from '../_shared/llm-gateway.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_WORDS = 4;
+const STOP_WORDS = new Set(['user', 'bot', 'assistant', 'a', 'an', 'the', 'for', 'to', 'of', 'and', 'or', 'that', 'which', 'with', 'app', 'platform', 'tool', 'i', 'we', 'my', 'want', 'need', 'build', 'make', 'create', 'idea', 'would', 'like']);
+
+// At most MAX_WORDS words, title case, no quotes or trailing punctuation
+function tidyTitle(raw: string): string {
+  return raw
+    .replace(/["'`*#]/g, '')
+    .replace(/^title:\s*/i, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_WORDS)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+    .replace(/[.,:;!?-]+$/, '');
+}
+
+// Used when no provider is configured or the call fails: the first meaningful words of the text
+function keywordTitle(text: string): string {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2 && !STOP_WORDS.has(w));
+  return tidyTitle(words.slice(0, 2).join(' ')) || 'Idea Session';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  try {
+    const parsed = parseFunctionRequest('generate-session-title', await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
+    }
+
+    const { idea, transcript } = parsed.data;
+    const source = (transcript || idea || '').trim();
+    if (!source) {
+      return json({ error: 'idea or transcript is required' }, 400);
+    }
+
+    if (!configuredProviders().length) {
+      return json({ title: keywordTitle(idea || source), fallback: true });
+    }
+
+    try {
+      const result = await callLLM({
+        task: 'summary',
+        messages: [
+          {
+            role: 'system',
+            content: `You name brainstorming sessions. Reply with a ${MAX_WORDS}-word-or-shorter title that captures the core startup idea. No quotes, no punctuation, nothing else.`
+          },
+          {
+            role: 'user',
+            content: transcript ? `Conversation so far:\n${transcript.slice(-4000)}` : `Idea: ${source.slice(0, 1000)}`
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 20,
+        retries: 1,
+      });
+
+      const title = tidyTitle(result.content);
+      return json(title ? { title } : { title: keywordTitle(idea || source), fallback: true });
+    } catch (error) {
+      console.error('[generate-session-title] LLM call failed:', error);
+      return json({ title: keywordTitle(idea || source), fallback: true });
+    }
+  } catch (error) {
+    console.error('[generate-session-title] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to generate title' }, 500);
+  }
+});
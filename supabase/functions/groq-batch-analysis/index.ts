@@ -1,93 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EntitlementError, entitlementErrorResponse, enforceRateLimit, requireFeature, resolveEntitlements } from '../_shared/entitlements.ts';
+import { callLLM, configuredProviders } from '../_shared/llm-gateway.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
-
-// Rate limiting configuration
-const RATE_LIMIT_DELAY = 2000; // 2 seconds between requests
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 5000; // 5 seconds between retries
-
-// Helper function to make Groq API calls with retry logic
-async function callGroq(messages: any[], maxTokens = 1000, temperature = 0.7, retries = 0): Promise<string> {
-  try {
-    // Add delay between requests to avoid rate limiting
-    if (retries > 0) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * retries));
-    }
-    
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant',
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-      }),
-    });
-
-    // Handle rate limiting
-    if (response.status === 429) {
-      console.log(`Rate limited, retry ${retries + 1}/${MAX_RETRIES}`);
-      if (retries < MAX_RETRIES) {
-        const retryAfter = response.headers.get('retry-after');
-        const delay = retryAfter ? parseInt(retryAfter) * 1000 : RETRY_DELAY * (retries + 1);
-        console.log(`Waiting ${delay}ms before retry`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return callGroq(messages, maxTokens, temperature, retries + 1);
-      }
-      throw new Error('Rate limit exceeded after maximum retries');
-    }
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error(`Groq API error: ${response.status} - ${error}`);
-      
-      // Retry on server errors
-      if (response.status >= 500 && retries < MAX_RETRIES) {
-        console.log(`Server error, retry ${retries + 1}/${MAX_RETRIES}`);
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retries + 1)));
-        return callGroq(messages, maxTokens, temperature, retries + 1);
-      }
-      
-      throw new Error(`Groq API error: ${response.status} - ${error}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
-  } catch (error) {
-    if (retries < MAX_RETRIES && error instanceof Error && 
-        (error.message.includes('Rate limit') || error.message.includes('429'))) {
-      console.log(`Error occurred, retry ${retries + 1}/${MAX_RETRIES}: ${error.message}`);
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retries + 1)));
-      return callGroq(messages, maxTokens, temperature, retries + 1);
-    }
-    throw error;
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const entitlements = await resolveEntitlements(supabase, req);
+    requireFeature(entitlements, 'batchAnalysis');
+    await enforceRateLimit(supabase, entitlements);
+
     const { idea, analysisTypes } = await req.json();
     
     if (!idea || !analysisTypes || !Array.isArray(analysisTypes)) {
       throw new Error('Missing required parameters: idea and analysisTypes array');
     }
 
-    if (!GROQ_API_KEY) {
-      throw new Error('GROQ_API_KEY is not configured');
+    if (!configuredProviders().length) {
+      throw new Error('No LLM provider is configured');
     }
 
     console.log(`🤖 Batch Groq analysis for ${analysisTypes.length} types`);
@@ -182,33 +124,27 @@ The response must be valid JSON that can be parsed.`;
 
     console.log(`📝 Sending batch request for: ${requestedAnalyses.map(a => a.type).join(', ')}`);
 
-    // Make a single Groq API call with all analyses
-    const response = await callGroq([
-      {
-        role: 'system',
-        content: 'You are a startup analysis expert. Provide comprehensive, data-driven insights in valid JSON format. Be realistic and critical in your assessments.'
-      },
-      {
-        role: 'user',
-        content: megaPrompt
-      }
-    ], 2000, 0.7);
-
-    // Parse the response
-    let parsedResponse;
-    try {
-      // Extract JSON from the response (in case it's wrapped in markdown)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        parsedResponse = JSON.parse(response);
-      }
-    } catch (parseError) {
-      console.error('Failed to parse Groq response:', parseError);
-      console.log('Raw response:', response.substring(0, 500));
-      throw new Error('Failed to parse AI response');
-    }
+    // One call for all analyses; the gateway retries and falls back until it gets a JSON object
+    const response = await callLLM<Record<string, Record<string, unknown>>>({
+      task: 'analysis',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a startup analysis expert. Provide comprehensive, data-driven insights in valid JSON format. Be realistic and critical in your assessments.'
+        },
+        {
+          role: 'user',
+          content: megaPrompt
+        }
+      ],
+      maxTokens: 2000,
+      temperature: 0.7,
+      json: (value) => value !== null && typeof value === 'object' && !Array.isArray(value),
+      retries: 3,
+      supabase,
+      usage: { userId: entitlements.userId, operation: 'groq-batch-analysis' }
+    });
+    const parsedResponse = response.json!;
 
     // Format responses for each requested analysis type
     const results = {};
@@ -292,6 +228,9 @@ The response must be valid JSON that can be parsed.`;
       }
     );
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
     console.error('Batch Groq analysis error:', error);
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,246 @@
+import { callLLM, type LLMTask } from '../_shared/llm-gateway.ts';
+import { getPromptDefinition, renderPrompt } from '../_shared/prompt-registry.ts';
+import { TILE_OUTPUT_SCHEMAS, parseNumeric, tileSchemaMessage, validateTileOutput } from '../_shared/tile-schemas.ts';
+import type { EvaluationCase } from './samples.ts';
+
+/**
+ * A/B evaluation of two versions of a registry prompt. Each case is sent once per version (no repair
+ * round, so the prompt itself is measured), the JSON answer is scored against the case's
+ * expectedOutput with the task's accuracy check, and the two versions are summarised side by side
+ * with a recommendation on whether the candidate should be promoted.
+ */
+
+export type Recommendation = 'promote' | 'keep' | 'inconclusive';
+
+// A candidate needs this much more mean accuracy to be promoted, and must not lose this much on any case
+const MIN_ACCURACY_GAIN = 0.02;
+const MAX_CASE_REGRESSION = 0.25;
+const NUMERIC_TOLERANCE = 0.02;
+
+export interface CaseResult {
+  case_id: string;
+  accuracy: number;
+  field_scores: Record<string, number>;
+  json_valid: boolean;
+  latency_ms: number;
+  tokens: number;
+  error?: string;
+}
+
+export interface VersionSummary {
+  prompt_id: string;
+  version: number;
+  mean_accuracy: number;
+  json_valid_pct: number;
+  median_latency_ms: number;
+  p95_latency_ms: number;
+  total_tokens: number;
+  errors: number;
+}
+
+export interface EvaluationReport {
+  prompt: string;
+  task: LLMTask;
+  sample_set: string;
+  sample_count: number;
+  baseline: VersionSummary;
+  candidate: VersionSummary;
+  accuracy_delta: number;
+  cases: Array<{ case_id: string; baseline: number; candidate: number; delta: number }>;
+  regressions: string[];
+  recommendation: Recommendation;
+  reasoning: string;
+  evaluated_at: string;
+  results: { baseline: CaseResult[]; candidate: CaseResult[] };
+}
+
+const normalize = (value: unknown) => String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Containment only counts for labels long enough not to match by accident ("A" inside "Acme")
+const sameLabel = (a: string, b: string) => a === b || (Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a)));
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+function itemLabel(item: unknown): string {
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>;
+    return normalize(record.name ?? record.title ?? JSON.stringify(item));
+  }
+  return normalize(item);
+}
+
+// 0..1 agreement between one expected value and what the model returned
+export function scoreValue(expected: unknown, actual: unknown): number {
+  if (expected === null) return isEmpty(actual) ? 1 : 0;
+  if (isEmpty(actual)) return 0;
+
+  if (Array.isArray(expected)) {
+    const actualItems = (Array.isArray(actual) ? actual : String(actual).split(',')).map(itemLabel);
+    const found = expected.map(itemLabel).filter(item => actualItems.some(a => sameLabel(a, item)));
+    return expected.length ? found.length / expected.length : 1;
+  }
+
+  const expectedNumber = typeof expected === 'number' || /\d/.test(String(expected)) ? parseNumeric(expected) : null;
+  if (expectedNumber !== null) {
+    const actualNumber = parseNumeric(actual);
+    if (actualNumber === null) return 0;
+    const scale = Math.max(Math.abs(expectedNumber), 1);
+    return Math.abs(actualNumber - expectedNumber) / scale <= NUMERIC_TOLERANCE ? 1 : 0;
+  }
+
+  return sameLabel(normalize(actual), normalize(expected)) ? 1 : 0;
+}
+
+export function fieldAccuracy(expected: Record<string, unknown>, output: Record<string, unknown> | null) {
+  const fieldScores: Record<string, number> = {};
+  for (const [field, value] of Object.entries(expected)) {
+    fieldScores[field] = output ? scoreValue(value, output[field]) : 0;
+  }
+  const scores = Object.values(fieldScores);
+  return { accuracy: scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 0, fieldScores };
+}
+
+type AccuracyCheck = (testCase: EvaluationCase, output: unknown) => { accuracy: number; fieldScores: Record<string, number> };
+
+const asObject = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+// Per-task accuracy checks; tasks without one compare top-level JSON fields
+const ACCURACY_CHECKS: Partial<Record<LLMTask, AccuracyCheck>> = {
+  // Same normalisation production applies: unwrap { extraction }, resolve aliases, drop invalid values
+  extraction: (testCase, output) => {
+    const json = asObject(output);
+    const data = asObject(json?.extraction) ?? json;
+    const schema = testCase.tileType ? TILE_OUTPUT_SCHEMAS[testCase.tileType] : undefined;
+    return fieldAccuracy(testCase.expectedOutput, schema ? validateTileOutput(schema, data).data : data);
+  },
+};
+
+function scoreOutput(task: LLMTask, testCase: EvaluationCase, output: unknown) {
+  const check = ACCURACY_CHECKS[task] ?? ((c: EvaluationCase, o: unknown) => fieldAccuracy(c.expectedOutput, asObject(o)));
+  return check(testCase, output);
+}
+
+async function runCase(promptName: string, version: number, testCase: EvaluationCase): Promise<CaseResult> {
+  const prompt = renderPrompt(promptName, testCase.variables, version);
+  const schema = prompt.task === 'extraction' && testCase.tileType ? TILE_OUTPUT_SCHEMAS[testCase.tileType] : undefined;
+  const start = performance.now();
+
+  try {
+    const result = await callLLM({
+      task: prompt.task,
+      messages: schema ? [...prompt.messages, tileSchemaMessage(schema)] : prompt.messages,
+      temperature: prompt.temperature,
+      maxTokens: prompt.maxTokens,
+      json: true,
+      retries: 1,
+    });
+    const { accuracy, fieldScores } = scoreOutput(prompt.task, testCase, result.json);
+    return {
+      case_id: testCase.id,
+      accuracy,
+      field_scores: fieldScores,
+      json_valid: true,
+      latency_ms: performance.now() - start,
+      tokens: result.usage.totalTokens,
+    };
+  } catch (error) {
+    return {
+      case_id: testCase.id,
+      accuracy: 0,
+      field_scores: {},
+      json_valid: false,
+      latency_ms: performance.now() - start,
+      tokens: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function percentile(values: number[], p: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+function summarize(promptName: string, version: number, results: CaseResult[]): VersionSummary {
+  const latencies = results.filter(r => !r.error).map(r => r.latency_ms);
+  return {
+    prompt_id: `${promptName}@v${version}`,
+    version,
+    mean_accuracy: round(results.reduce((sum, r) => sum + r.accuracy, 0) / Math.max(results.length, 1)),
+    json_valid_pct: round((results.filter(r => r.json_valid).length / Math.max(results.length, 1)) * 100, 1),
+    median_latency_ms: Math.round(percentile(latencies, 50)),
+    p95_latency_ms: Math.round(percentile(latencies, 95)),
+    total_tokens: results.reduce((sum, r) => sum + r.tokens, 0),
+    errors: results.filter(r => r.error).length,
+  };
+}
+
+export function recommend(baseline: VersionSummary, candidate: VersionSummary, regressions: string[]): { recommendation: Recommendation; reasoning: string } {
+  const delta = candidate.mean_accuracy - baseline.mean_accuracy;
+  const gain = `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)} pts accuracy`;
+
+  if (delta <= -MIN_ACCURACY_GAIN) {
+    return { recommendation: 'keep', reasoning: `${candidate.prompt_id} is less accurate than ${baseline.prompt_id} (${gain})` };
+  }
+  if (delta < MIN_ACCURACY_GAIN) {
+    return { recommendation: 'inconclusive', reasoning: `${gain} is within the ${MIN_ACCURACY_GAIN * 100} pt noise margin; keep ${baseline.prompt_id} or add cases` };
+  }
+  if (candidate.json_valid_pct < baseline.json_valid_pct) {
+    return { recommendation: 'inconclusive', reasoning: `${gain}, but valid JSON dropped from ${baseline.json_valid_pct}% to ${candidate.json_valid_pct}%` };
+  }
+  if (regressions.length) {
+    return { recommendation: 'inconclusive', reasoning: `${gain}, but ${regressions.join(', ')} lost more than ${MAX_CASE_REGRESSION * 100} pts` };
+  }
+  return { recommendation: 'promote', reasoning: `${candidate.prompt_id} beats ${baseline.prompt_id} by ${gain} with no case regressions` };
+}
+
+/**
+ * Run `baselineVersion` and `candidateVersion` of a prompt over the cases and compare them.
+ */
+export async function evaluatePromptVersions(
+  promptName: string,
+  baselineVersion: number,
+  candidateVersion: number,
+  sampleSet: string,
+  cases: EvaluationCase[],
+): Promise<EvaluationReport> {
+  const definition = getPromptDefinition(promptName);
+  const baselineResults: CaseResult[] = [];
+  const candidateResults: CaseResult[] = [];
+
+  // Alternate versions per case so provider slowdowns hit both sides equally
+  for (const testCase of cases) {
+    baselineResults.push(await runCase(promptName, baselineVersion, testCase));
+    candidateResults.push(await runCase(promptName, candidateVersion, testCase));
+  }
+
+  const baseline = summarize(promptName, baselineVersion, baselineResults);
+  const candidate = summarize(promptName, candidateVersion, candidateResults);
+  const perCase = cases.map((testCase, i) => ({
+    case_id: testCase.id,
+    baseline: round(baselineResults[i].accuracy),
+    candidate: round(candidateResults[i].accuracy),
+    delta: round(candidateResults[i].accuracy - baselineResults[i].accuracy),
+  }));
+  const regressions = perCase.filter(c => c.delta < -MAX_CASE_REGRESSION).map(c => c.case_id);
+
+  return {
+    prompt: promptName,
+    task: definition.task,
+    sample_set: sampleSet,
+    sample_count: cases.length,
+    baseline,
+    candidate,
+    accuracy_delta: round(candidate.mean_accuracy - baseline.mean_accuracy),
+    cases: perCase,
+    regressions,
+    ...recommend(baseline, candidate, regressions),
+    evaluated_at: new Date().toISOString(),
+    results: { baseline: baselineResults, candidate: candidateResults },
+  };
+}
@@ -1,21 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { configuredProviders } from '../_shared/llm-gateway.ts';
+import { getPromptDefinition, getPromptVersion, resolveActiveVersion } from '../_shared/prompt-registry.ts';
+import { evaluatePromptVersions } from './evaluation.ts';
+import { BENCHMARK_SAMPLES, EVALUATION_SETS, type BenchmarkSample, type EvaluationCase } from './samples.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface BenchmarkSample {
-  id: string;
-  size: 'small' | 'medium' | 'large';
-  tileType: string;
-  requirements: string;
-  dataPoints: string[];
-  responses: any[];
-  expectedOutput?: any;
-}
-
 interface VariantMetrics {
   variant: string;
   total_ms: number;
@@ -31,124 +25,6 @@ interface VariantMetrics {
   error?: string;
 }
 
-// Benchmark samples (20 real-world extraction tasks)
-const BENCHMARK_SAMPLES: BenchmarkSample[] = [
-  // Small samples (simple extractions)
-  {
-    id: 'small_1',
-    size: 'small',
-    tileType: 'sentiment',
-    requirements: 'Extract sentiment score',
-    dataPoints: ['sentiment_score'],
-    responses: [{ source: 'reddit', data: { text: 'This is amazing! Love it 95% positive' } }]
-  },
-  {
-    id: 'small_2',
-    size: 'small',
-    tileType: 'market_size',
-    requirements: 'Extract TAM',
-    dataPoints: ['tam'],
-    responses: [{ source: 'web', data: { text: 'Market size is $5.2B TAM' } }]
-  },
-  {
-    id: 'small_3',
-    size: 'small',
-    tileType: 'competition',
-    requirements: 'Extract competitor count',
-    dataPoints: ['competitors_list'],
-    responses: [{ source: 'web', data: { competitors: ['CompanyA', 'CompanyB', 'CompanyC'] } }]
-  },
-  {
-    id: 'small_4',
-    size: 'small',
-    tileType: 'growth',
-    requirements: 'Extract growth rate',
-    dataPoints: ['growth_rate'],
-    responses: [{ source: 'web', data: { text: 'CAGR of 15.5% annually' } }]
-  },
-  // Medium samples (moderate complexity)
-  {
-    id: 'medium_1',
-    size: 'medium',
-    tileType: 'market_size',
-    requirements: 'Extract TAM, SAM, SOM, growth rate',
-    dataPoints: ['tam', 'sam', 'som', 'growth_rate'],
-    responses: [
-      { source: 'market-intelligence', data: { tam: '$10B', sam: '$3.5B', cagr: '12%' } },
-      { source: 'web', data: { text: 'Serviceable obtainable market estimated at $500M' } }
-    ]
-  },
-  {
-    id: 'medium_2',
-    size: 'medium',
-    tileType: 'sentiment',
-    requirements: 'Extract sentiment with breakdown',
-    dataPoints: ['sentiment_score', 'positive_pct', 'negative_pct', 'neutral_pct'],
-    responses: [
-      { source: 'reddit', data: { positive: 65, negative: 20, neutral: 15 } },
-      { source: 'twitter', data: { sentiment: 'mostly positive' } }
-    ]
-  },
-  {
-    id: 'medium_3',
-    size: 'medium',
-    tileType: 'competition',
-    requirements: 'Extract competitors with strengths',
-    dataPoints: ['competitors_list', 'market_leaders', 'differentiators'],
-    responses: [
-      { source: 'competitive-landscape', data: { topCompetitors: [{ name: 'Leader1', strength: 'brand' }, { name: 'Leader2', strength: 'tech' }] } }
-    ]
-  },
-  {
-    id: 'medium_4',
-    size: 'medium',
-    tileType: 'trends',
-    requirements: 'Extract market trends',
-    dataPoints: ['trend_direction', 'growth_indicators', 'emerging_tech'],
-    responses: [
-      { source: 'gdelt-news', data: { trends: ['AI adoption rising', 'Cloud migration accelerating'] } }
-    ]
-  },
-  // Large samples (complex multi-source)
-  {
-    id: 'large_1',
-    size: 'large',
-    tileType: 'market_size',
-    requirements: 'Complete market analysis with all metrics',
-    dataPoints: ['tam', 'sam', 'som', 'growth_rate', 'market_maturity', 'competitive_density', 'regional_breakdown'],
-    responses: [
-      { source: 'market-intelligence', data: { tam: '$25B', sam: '$8B', cagr: '18%', maturity: 'growth' } },
-      { source: 'web', data: { text: 'North America leads with 45% share, APAC growing fastest at 22% CAGR' } },
-      { source: 'competitive-landscape', data: { concentration: 'moderate', top3share: '35%' } }
-    ]
-  },
-  {
-    id: 'large_2',
-    size: 'large',
-    tileType: 'comprehensive',
-    requirements: 'Extract all business metrics',
-    dataPoints: ['tam', 'sentiment_score', 'competitors_list', 'growth_rate', 'cac', 'ltv'],
-    responses: [
-      { source: 'market', data: { tam: '$15B', cagr: '12%' } },
-      { source: 'sentiment', data: { score: 78, positive: 70, negative: 10 } },
-      { source: 'competition', data: { competitors: ['A', 'B', 'C'], marketShare: { A: 25, B: 20, C: 15 } } },
-      { source: 'financial', data: { cac: '$45', ltv: '$450', payback: '6 months' } }
-    ]
-  }
-];
-
-// Add more samples to reach 20
-for (let i = 0; i < 10; i++) {
-  BENCHMARK_SAMPLES.push({
-    id: `synthetic_${i}`,
-    size: i < 3 ? 'small' : i < 7 ? 'medium' : 'large',
-    tileType: ['sentiment', 'market_size', 'competition', 'trends'][i % 4],
-    requirements: 'Extract relevant metrics',
-    dataPoints: ['metric_1', 'metric_2', 'metric_3'],
-    responses: [{ source: 'synthetic', data: { value: Math.random() * 100 } }]
-  });
-}
-
 // Variant implementations
 async function variantV1_Baseline(sample: BenchmarkSample, groqKey: string): Promise<VariantMetrics> {
   const start = performance.now();
@@ -393,16 +269,118 @@ serve(async (req) => {
   }
 
   try {
-    const { action, samples, variantName } = await req.json();
-    const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
-    
-    if (!GROQ_API_KEY) {
-      throw new Error('GROQ_API_KEY not configured');
-    }
+    const body = await req.json();
+    const { action, samples, variantName } = body;
     
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const json = (payload: unknown, status = 200) => new Response(
+      JSON.stringify(payload),
+      { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+    
+    // Evaluations spend provider calls and feed promotion, so, like promotion itself, they are
+    // limited to the service role
+    const isServiceRole = () => {
+      const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+      return !!supabaseKey && token === supabaseKey;
+    };
+    
+    // Compare two versions of a registry prompt over a stored sample set and keep the report
+    if (action === 'evaluate') {
+      if (!isServiceRole()) {
+        return json({ error: 'Prompt evaluation requires the service role key' }, 403);
+      }
+      const { prompt: promptName, baselineVersion, candidateVersion, sampleSet, cases: customCases } = body;
+      const definition = getPromptDefinition(promptName);
+      const baseline = baselineVersion ?? await resolveActiveVersion(supabase, promptName);
+      const candidate = candidateVersion ?? Math.max(...definition.versions.map(v => v.version));
+      getPromptVersion(promptName, baseline);
+      getPromptVersion(promptName, candidate);
+      if (baseline === candidate) {
+        return json({ error: `Baseline and candidate are both v${baseline}; pass candidateVersion` }, 400);
+      }
+      if (!configuredProviders().length) {
+        throw new Error('No LLM provider is configured');
+      }
+      
+      const setName = sampleSet ?? promptName;
+      const cases: EvaluationCase[] | undefined = Array.isArray(customCases) ? customCases : EVALUATION_SETS[setName]?.cases;
+      if (!cases?.length) {
+        return json({ error: `No sample set named ${setName}` }, 400);
+      }
+      
+      console.log(`🧪 Evaluating ${promptName} v${baseline} vs v${candidate} over ${cases.length} cases`);
+      const report = await evaluatePromptVersions(promptName, baseline, candidate, Array.isArray(customCases) ? 'custom' : setName, cases);
+      
+      const { data: stored, error: storeError } = await supabase
+        .from('prompt_evaluations')
+        .insert({
+          prompt_name: promptName,
+          baseline_version: baseline,
+          candidate_version: candidate,
+          sample_set: report.sample_set,
+          sample_count: report.sample_count,
+          baseline_accuracy: report.baseline.mean_accuracy,
+          candidate_accuracy: report.candidate.mean_accuracy,
+          recommendation: report.recommendation,
+          report
+        })
+        .select('id')
+        .single();
+      if (storeError) {
+        console.error('Failed to store evaluation:', storeError);
+      }
+      
+      return json({ success: true, evaluation_id: stored?.id ?? null, report });
+    }
+    
+    // Promotion changes what production serves, so it is limited to the service role and needs a
+    // stored evaluation over a named sample set that recommended exactly this version
+    if (action === 'promote' || action === 'rollback') {
+      if (!isServiceRole()) {
+        return json({ error: 'Prompt promotion requires the service role key' }, 403);
+      }
+      const { prompt: promptName, version, evaluationId } = body;
+      const definition = getPromptDefinition(promptName);
+      
+      if (action === 'rollback') {
+        const { error } = await supabase.from('prompt_promotions').delete().eq('prompt_name', promptName);
+        if (error) throw error;
+        return json({ success: true, prompt: promptName, active_version: definition.active });
+      }
+      
+      getPromptVersion(promptName, version);
+      const { data: evaluation } = await supabase
+        .from('prompt_evaluations')
+        .select('id, prompt_name, candidate_version, sample_set, recommendation')
+        .eq('id', evaluationId)
+        .maybeSingle();
+      
+      if (!evaluation || evaluation.prompt_name !== promptName || evaluation.candidate_version !== version) {
+        return json({ error: `Evaluation ${evaluationId} is not an evaluation of ${promptName} v${version}` }, 400);
+      }
+      if (evaluation.sample_set === 'custom') {
+        return json({ error: `Evaluation ${evaluationId} ran over caller-supplied cases; evaluate against a stored sample set to promote` }, 409);
+      }
+      if (evaluation.recommendation !== 'promote') {
+        return json({ error: `Evaluation ${evaluationId} recommended "${evaluation.recommendation}", not promotion` }, 409);
+      }
+      
+      const { error } = await supabase
+        .from('prompt_promotions')
+        .upsert({ prompt_name: promptName, version, evaluation_id: evaluationId, promoted_at: new Date().toISOString() });
+      if (error) throw error;
+      
+      console.log(`⬆️ Promoted ${promptName} to v${version} (evaluation ${evaluationId})`);
+      return json({ success: true, prompt: promptName, active_version: version, evaluation_id: evaluationId });
+    }
+    
+    const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
+    if (!GROQ_API_KEY) {
+      throw new Error('GROQ_API_KEY not configured');
+    }
     
     if (action === 'benchmark') {
       console.log('🔬 Starting comprehensive LLM extraction benchmark');
@@ -0,0 +1,180 @@
+/**
+ * Stored sample sets for groq-benchmark. BENCHMARK_SAMPLES drive the latency benchmark; the ones with
+ * an expectedOutput also form the tile-extraction evaluation set used to compare prompt versions.
+ *
+ * expectedOutput lists only what the sources actually support. A null expectation means the data has
+ * no value for that field, so a model that fills it in is scored as wrong.
+ */
+
+export interface BenchmarkSample {
+  id: string;
+  size: 'small' | 'medium' | 'large';
+  tileType: string;
+  requirements: string;
+  dataPoints: string[];
+  responses: Array<{ source: string; data: unknown }>;
+  expectedOutput?: Record<string, unknown>;
+}
+
+export interface EvaluationCase {
+  id: string;
+  variables: Record<string, unknown>; // prompt template variables
+  expectedOutput: Record<string, unknown>;
+  tileType?: string; // extraction cases: validated against the tile's output schema before scoring
+}
+
+export interface EvaluationSet {
+  name: string;
+  prompt: string;
+  cases: EvaluationCase[];
+}
+
+export const BENCHMARK_SAMPLES: BenchmarkSample[] = [
+  // Small samples (simple extractions)
+  {
+    id: 'small_1',
+    size: 'small',
+    tileType: 'sentiment',
+    requirements: 'Extract sentiment score',
+    dataPoints: ['sentiment_score'],
+    responses: [{ source: 'reddit', data: { text: 'This is amazing! Love it 95% positive' } }],
+    expectedOutput: { sentiment_score: 95 }
+  },
+  {
+    id: 'small_2',
+    size: 'small',
+    tileType: 'market_size',
+    requirements: 'Extract TAM',
+    dataPoints: ['tam'],
+    responses: [{ source: 'web', data: { text: 'Market size is $5.2B TAM' } }],
+    expectedOutput: { tam: '$5.2B' }
+  },
+  {
+    id: 'small_3',
+    size: 'small',
+    tileType: 'competition',
+    requirements: 'Extract competitor count',
+    dataPoints: ['competitors_list'],
+    responses: [{ source: 'web', data: { competitors: ['CompanyA', 'CompanyB', 'CompanyC'] } }],
+    expectedOutput: { competitors_list: ['CompanyA', 'CompanyB', 'CompanyC'] }
+  },
+  {
+    id: 'small_4',
+    size: 'small',
+    tileType: 'growth',
+    requirements: 'Extract growth rate',
+    dataPoints: ['growth_rate'],
+    responses: [{ source: 'web', data: { text: 'CAGR of 15.5% annually' } }],
+    expectedOutput: { growth_rate: '15.5%' }
+  },
+  // Medium samples (moderate complexity)
+  {
+    id: 'medium_1',
+    size: 'medium',
+    tileType: 'market_size',
+    requirements: 'Extract TAM, SAM, SOM, growth rate',
+    dataPoints: ['tam', 'sam', 'som', 'growth_rate'],
+    responses: [
+      { source: 'market-intelligence', data: { tam: '$10B', sam: '$3.5B', cagr: '12%' } },
+      { source: 'web', data: { text: 'Serviceable obtainable market estimated at $500M' } }
+    ],
+    expectedOutput: { tam: '$10B', sam: '$3.5B', som: '$500M', growth_rate: '12%' }
+  },
+  {
+    id: 'medium_2',
+    size: 'medium',
+    tileType: 'sentiment',
+    requirements: 'Extract sentiment with breakdown',
+    dataPoints: ['sentiment_score', 'positive_pct', 'negative_pct', 'neutral_pct'],
+    responses: [
+      { source: 'reddit', data: { positive: 65, negative: 20, neutral: 15 } },
+      { source: 'twitter', data: { sentiment: 'mostly positive' } }
+    ],
+    expectedOutput: { positive_pct: 65, negative_pct: 20, neutral_pct: 15 }
+  },
+  {
+    id: 'medium_3',
+    size: 'medium',
+    tileType: 'competition',
+    requirements: 'Extract competitors with strengths',
+    dataPoints: ['competitors_list', 'market_leaders', 'differentiators'],
+    responses: [
+      { source: 'competitive-landscape', data: { topCompetitors: [{ name: 'Leader1', strength: 'brand' }, { name: 'Leader2', strength: 'tech' }] } }
+    ],
+    expectedOutput: { competitors_list: ['Leader1', 'Leader2'] }
+  },
+  {
+    id: 'medium_4',
+    size: 'medium',
+    tileType: 'trends',
+    requirements: 'Extract market trends',
+    dataPoints: ['trend_direction', 'growth_indicators', 'emerging_tech'],
+    responses: [
+      { source: 'gdelt-news', data: { trends: ['AI adoption rising', 'Cloud migration accelerating'] } }
+    ],
+    expectedOutput: { growth_indicators: ['AI adoption rising', 'Cloud migration accelerating'] }
+  },
+  // Large samples (complex multi-source)
+  {
+    id: 'large_1',
+    size: 'large',
+    tileType: 'market_size',
+    requirements: 'Complete market analysis with all metrics',
+    dataPoints: ['tam', 'sam', 'som', 'growth_rate', 'market_maturity', 'competitive_density', 'regional_breakdown'],
+    responses: [
+      { source: 'market-intelligence', data: { tam: '$25B', sam: '$8B', cagr: '18%', maturity: 'growth' } },
+      { source: 'web', data: { text: 'North America leads with 45% share, APAC growing fastest at 22% CAGR' } },
+      { source: 'competitive-landscape', data: { concentration: 'moderate', top3share: '35%' } }
+    ],
+    expectedOutput: { tam: '$25B', sam: '$8B', som: null, growth_rate: '18%', market_maturity: 'growth' }
+  },
+  {
+    id: 'large_2',
+    size: 'large',
+    tileType: 'comprehensive',
+    requirements: 'Extract all business metrics',
+    dataPoints: ['tam', 'sentiment_score', 'competitors_list', 'growth_rate', 'cac', 'ltv'],
+    responses: [
+      { source: 'market', data: { tam: '$15B', cagr: '12%' } },
+      { source: 'sentiment', data: { score: 78, positive: 70, negative: 10 } },
+      { source: 'competition', data: { competitors: ['A', 'B', 'C'], marketShare: { A: 25, B: 20, C: 15 } } },
+      { source: 'financial', data: { cac: '$45', ltv: '$450', payback: '6 months' } }
+    ],
+    expectedOutput: { tam: '$15B', sentiment_score: 78, competitors_list: ['A', 'B', 'C'], growth_rate: '12%', cac: '$45', ltv: '$450' }
+  }
+];
+
+// Pad to 20 with synthetic samples for the latency benchmark; they have no expected output
+for (let i = 0; i < 10; i++) {
+  BENCHMARK_SAMPLES.push({
+    id: `synthetic_${i}`,
+    size: i < 3 ? 'small' : i < 7 ? 'medium' : 'large',
+    tileType: ['sentiment', 'market_size', 'competition', 'trends'][i % 4],
+    requirements: 'Extract relevant metrics',
+    dataPoints: ['metric_1', 'metric_2', 'metric_3'],
+    responses: [{ source: 'synthetic', data: { value: Math.random() * 100 } }]
+  });
+}
+
+// Same variables groq-data-extraction passes to the tile-extraction prompt
+export function extractionCase(sample: BenchmarkSample): EvaluationCase {
+  return {
+    id: sample.id,
+    tileType: sample.tileType,
+    variables: {
+      tile_type: sample.tileType,
+      requirements: sample.requirements,
+      data_points: sample.dataPoints.join(', '),
+      source_data: sample.responses.map(r => ({ source: r.source, summary: JSON.stringify(r.data).substring(0, 2000) }))
+    },
+    expectedOutput: sample.expectedOutput ?? {}
+  };
+}
+
+export const EVALUATION_SETS: Record<string, EvaluationSet> = {
+  'tile-extraction': {
+    name: 'tile-extraction',
+    prompt: 'tile-extraction',
+    cases: BENCHMARK_SAMPLES.filter(sample => sample.expectedOutput).map(extractionCase)
+  }
+};
@@ -1,15 +1,19 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callLLM, configuredProviders, LLMGatewayError } from "../_shared/llm-gateway.ts";
+import { loadPrompt } from "../_shared/prompt-registry.ts";
+import { TILE_OUTPUT_SCHEMAS, extractTileData, validateTileOutput } from "../_shared/tile-schemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Rate limiting configuration
-const RATE_LIMIT_DELAY = 2000; // 2 seconds between requests
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 5000; // 5 seconds between retries
+// Fewer valid required fields, lower confidence
+function schemaConfidence(missing: number): number {
+  return missing === 0 ? 0.9 : Math.max(0.3, 0.7 - missing * 0.1);
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -18,192 +22,104 @@ serve(async (req) => {
 
   try {
     const { tileType, requirements, dataPoints, responses } = await req.json();
-    
-    const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
-    
-    if (!GROQ_API_KEY) {
-      // Fallback to pattern matching if no Groq API key
-      console.log('No GROQ_API_KEY, using pattern matching');
+    const schema = TILE_OUTPUT_SCHEMAS[tileType];
+
+    // Pattern matching when no model is available; still validated so the client sees what is missing
+    const patternResponse = (confidence: number, method: string) => {
       const extraction = extractWithPatterns(responses, dataPoints);
-      
+      const validation = schema ? validateTileOutput(schema, extraction) : null;
       return new Response(
         JSON.stringify({
-          extraction,
-          confidence: 0.5,
-          method: 'pattern_matching'
+          extraction: validation?.data ?? extraction,
+          confidence,
+          method,
+          validation: validation && {
+            missingDataPoints: validation.missingDataPoints,
+            issues: validation.issues,
+            repaired: validation.repaired
+          }
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
+    };
+
+    if (!configuredProviders().length) {
+      console.log('No LLM provider configured, using pattern matching');
+      return patternResponse(0.5, 'pattern_matching');
     }
     
-    // Prepare data for Groq
+    // Prepare data for the model
     const combinedData = responses.map((r: any) => ({
       source: r.source,
       summary: JSON.stringify(r.data).substring(0, 2000) // Limit size
     }));
     
-    const prompt = `
-      You are a data extraction specialist. Extract relevant information for "${tileType}" from the following data sources.
-      
-      Requirements:
-      ${requirements}
-      
-      Data Points Needed:
-      ${dataPoints.join(', ')}
-      
-      Available Data:
-      ${JSON.stringify(combinedData, null, 2)}
-      
-      CRITICAL FORMATTING RULES:
-      1. All monetary values must be human-readable (e.g., "$10.5B", "$500M", "$25K")
-      2. All percentages must be realistic and formatted (e.g., "15%", "8.5%")
-      3. Growth rates should be annual and reasonable (1-100% range typically)
-      4. Never use scientific notation or excessive decimal places
-      5. Round all numbers to at most 2 decimal places
-      6. For projections, use reasonable yearly growth (not exponential)
-      7. When extracting market size, ensure values are realistic (not trillions for niche markets)
-      8. Always validate extracted numbers are within reasonable business ranges
-      
-      Return a JSON object with the extracted information. Include a confidence score (0-1) for each extracted point.
-      Focus on finding ANY relevant data, even if it's mentioned indirectly.
-      
-      Format:
-      {
-        "extraction": {
-          // extracted data matching requirements with human-readable formatting
-        },
-        "confidence": 0.7,
-        "sources_used": ["source1", "source2"]
-      }
-    `;
-    
-    console.log('Making Groq API request for tile:', tileType);
-    
-    // Call Groq API with retry logic for rate limiting
-    async function callGroqWithRetry(body: any, retries = 0): Promise<Response> {
-      try {
-        // Add delay between retries
-        if (retries > 0) {
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * retries));
-        }
-        
-        const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${GROQ_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(body),
-        });
-        
-        // Handle rate limiting
-        if (response.status === 429) {
-          console.log(`Rate limited, retry ${retries + 1}/${MAX_RETRIES}`);
-          if (retries < MAX_RETRIES) {
-            const retryAfter = response.headers.get('retry-after');
-            const delay = retryAfter ? parseInt(retryAfter) * 1000 : RETRY_DELAY * (retries + 1);
-            console.log(`Waiting ${delay}ms before retry`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            return callGroqWithRetry(body, retries + 1);
-          }
-          throw new Error('Rate limit exceeded after maximum retries');
-        }
-        
-        // Handle server errors with retry
-        if (response.status >= 500 && retries < MAX_RETRIES) {
-          console.log(`Server error ${response.status}, retry ${retries + 1}/${MAX_RETRIES}`);
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retries + 1)));
-          return callGroqWithRetry(body, retries + 1);
-        }
-        
-        return response;
-      } catch (error) {
-        if (retries < MAX_RETRIES) {
-          console.log(`Network error, retry ${retries + 1}/${MAX_RETRIES}: ${error}`);
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retries + 1)));
-          return callGroqWithRetry(body, retries + 1);
-        }
-        throw error;
-      }
-    }
-    
-    const response = await callGroqWithRetry({
-        model: 'llama-3.1-8b-instant', // Updated to a currently supported Groq model
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a data extraction expert. Extract and synthesize information from multiple sources. Return valid JSON only.'
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.1,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Groq API error response:', errorText);
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const prompt = await loadPrompt('tile-extraction', {
+      tile_type: tileType,
+      requirements,
+      data_points: dataPoints.join(', '),
+      source_data: combinedData
+    }, supabase);
+    const messages = prompt.messages;
+    
+    console.log('Extracting data for tile:', tileType);
 
-      // Graceful fallback on rate limiting
-      if (response.status === 429) {
-        console.warn('[groq-data-extraction] Rate limited by Groq. Falling back to pattern-based extraction.');
-        const extraction = extractWithPatterns(responses, dataPoints);
+    try {
+      if (schema) {
+        const result = await extractTileData(schema, messages, { temperature: prompt.temperature, maxTokens: prompt.maxTokens });
         return new Response(
           JSON.stringify({
-            extraction,
-            confidence: 0.4,
-            method: 'rate_limit_fallback'
+            extraction: result.data,
+            confidence: result.data ? schemaConfidence(result.missingDataPoints.length) : 0,
+            sources_used: combinedData.map(d => d.source),
+            method: 'schema_extraction',
+            prompt: prompt.id,
+            validation: {
+              missingDataPoints: result.missingDataPoints,
+              issues: result.issues,
+              repaired: result.repaired,
+              attempts: result.attempts
+            }
           }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      throw new Error(`Groq API error: ${response.status} - ${errorText}`);
-    }
-    
-    const result = await response.json();
-    
-    // Try to parse the response content as JSON
-    let extracted;
-    try {
-      let content = result.choices[0].message.content;
-      
-      // Remove markdown code blocks if present
-      if (content.includes('```json')) {
-        content = content.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      } else if (content.includes('```')) {
-        content = content.replace(/```\s*/g, '');
-      }
-      
-      // Fix escaped quotes in nested JSON strings
-      content = content.replace(/\\\\\\"/g, '"');
-      
-      // Trim whitespace
-      content = content.trim();
-      
-      extracted = JSON.parse(content);
-      
-      // If extraction contains nested extraction field, unwrap it
-      if (extracted.extraction) {
-        console.log('[groq-data-extraction] Unwrapping nested extraction field');
-        extracted = extracted.extraction;
+      // Tiles without a schema keep the free-form extraction
+      const result = await callLLM<{ extraction?: Record<string, unknown>; confidence?: number; sources_used?: string[] }>({
+        task: 'extraction',
+        messages: [
+          ...messages,
+          { role: 'user', content: 'Return a JSON object: { "extraction": { ...extracted data }, "confidence": 0-1, "sources_used": [...] }' }
+        ],
+        temperature: prompt.temperature ?? 0.1,
+        maxTokens: prompt.maxTokens ?? 2000,
+        json: true
+      });
+      const extracted: Record<string, unknown> = result.json?.extraction ?? result.json ?? {};
+
+      return new Response(
+        JSON.stringify({
+          extraction: extracted,
+          confidence: result.json?.confidence ?? 0.7,
+          sources_used: result.json?.sources_used ?? [],
+          method: 'groq_extraction',
+          prompt: prompt.id
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      // Graceful fallback once every provider is rate limited or down
+      if (error instanceof LLMGatewayError) {
+        console.warn('[groq-data-extraction] LLM providers failed, falling back to pattern-based extraction:', error.message);
+        return patternResponse(0.4, 'rate_limit_fallback');
       }
-    } catch (e) {
-      console.log('Failed to parse as JSON, using raw content');
-      extracted = { raw: result.choices[0].message.content };
+      throw error;
     }
-    
-    // Always return a consistent shape with extraction key
-    return new Response(
-      JSON.stringify({
-        extraction: extracted,
-        confidence: extracted.confidence ?? 0.7,
-        sources_used: extracted.sources_used ?? [],
-        method: 'groq_extraction'
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
   } catch (error) {
     console.error('Error in groq-data-extraction:', error);
     
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { cachedLLMCall } from '../_shared/llm-cache.ts';
+import { TILE_OUTPUT_SCHEMAS, extractTileData } from '../_shared/tile-schemas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -85,7 +86,37 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { searchResults, pageContent, tileType, filters, marketTrendsData, redditData, webSearchData } = await req.json();
+    const { searchResults, pageContent, tileType, filters, marketTrendsData, redditData, webSearchData, prompt } = await req.json();
+
+    // Structured tile extraction (GroqQueryService.extractWithEnhancedGroq): validated against the tile schema
+    if (prompt && TILE_OUTPUT_SCHEMAS[tileType]) {
+      console.log('Schema extraction for tile:', tileType);
+
+      const sources = { webSearchData, redditData, searchResults };
+      const extraction = await extractTileData(
+        TILE_OUTPUT_SCHEMAS[tileType],
+        [
+          { role: 'system', content: 'You are a data extraction expert. Extract structured data for a startup dashboard tile. Return valid JSON only.' },
+          { role: 'user', content: `${prompt}\n\nSource data:\n${JSON.stringify(sources).substring(0, 8000)}` }
+        ],
+        { supabase }
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          tileType,
+          result: extraction.data,
+          validation: {
+            missingDataPoints: extraction.missingDataPoints,
+            issues: extraction.issues,
+            repaired: extraction.repaired,
+            attempts: extraction.attempts
+          }
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
     // Handle market trends analysis request
     if (marketTrendsData) {
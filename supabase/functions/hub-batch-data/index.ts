@@ -67,10 +67,11 @@ serve(async (req) => {
       try {
         console.log(`🤖 Batching ${groqAnalyses.length} Groq analyses into single call`);
         
+        // groq-batch-analysis checks the end user's plan, so it gets their JWT rather than the service key
         const groqResponse = await fetch(`${supabaseUrl}/functions/v1/groq-batch-analysis`, {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
+            'Authorization': req.headers.get('Authorization') ?? '',
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -85,6 +86,8 @@ serve(async (req) => {
             groqResults = groqData.results;
             console.log(`✅ Groq batch returned ${Object.keys(groqResults).length} results`);
           }
+        } else {
+          console.warn(`Groq batch analysis responded ${groqResponse.status}:`, await groqResponse.text());
         }
       } catch (error) {
         console.error('Groq batch analysis failed:', error);
@@ -2,47 +2,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { callLLM, configuredProviders } from '../_shared/llm-gateway.ts';
 
-const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
-const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+// Service role: usage accounting and increment_usage are written on the caller's behalf
 const supabase = createClient(
   SUPABASE_URL || '',
-  SUPABASE_ANON_KEY || ''
+  SUPABASE_SERVICE_ROLE_KEY || ''
 );
 
+const CREDITS_PER_MESSAGE = 15;
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Groq API helper with proper error handling
-async function callGroq(messages: any[], maxTokens = 2000, temperature = 0.7) {
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${GROQ_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-8b-instant',
-      messages,
-      temperature,
-      max_tokens: maxTokens,
-      response_format: messages[0]?.content?.includes('JSON') ? { type: "json_object" } : undefined,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('Groq API error:', error);
-    throw new Error(`Groq API error: ${response.status}`);
-  }
-
-  return response.json();
-}
-
 // System prompt for the business advisor
 const BUSINESS_ADVISOR_PROMPT = `You are a sharp, contextual startup advisor. 
 
@@ -73,8 +50,8 @@ serve(async (req) => {
       stream = false 
     } = await req.json();
 
-    if (!GROQ_API_KEY) {
-      console.error('GROQ_API_KEY not configured');
+    if (!configuredProviders().length) {
+      console.error('No LLM provider configured');
       return new Response(
         JSON.stringify({ 
           response: "I'm having trouble connecting to the AI service. Please try again later.",
@@ -104,6 +81,11 @@ serve(async (req) => {
       { role: 'user', content: message }
     ];
 
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
+
     console.log('Processing idea-chat request:', { message: message.substring(0, 100), historyLength: conversationHistory.length });
 
     // Handle different request types
@@ -111,17 +93,24 @@ serve(async (req) => {
       // Generate suggestions only
       const suggestionPrompt = `Based on this context, generate exactly 4 short, conversational suggestions for what the user might want to explore next. Return as a JSON array of strings, each under 15 words.`;
       
-      const response = await callGroq([
-        ...(persona ? [{ role: 'system', content: `Persona configuration (enforce strictly across all replies): ${JSON.stringify(persona)}` }] : []),
-        { role: 'system', content: 'Generate 4 concise follow-up suggestions as a JSON array of strings.' },
-        { role: 'user', content: `${message}\n\n${suggestionPrompt}` }
-      ], 500, 0.9);
+      const response = await callLLM({
+        task: 'suggestions',
+        messages: [
+          ...(persona ? [{ role: 'system', content: `Persona configuration (enforce strictly across all replies): ${JSON.stringify(persona)}` }] : []),
+          { role: 'system', content: 'Generate 4 concise follow-up suggestions as a JSON array of strings.' },
+          { role: 'user', content: `${message}\n\n${suggestionPrompt}` }
+        ],
+        maxTokens: 500,
+        temperature: 0.9,
+        supabase,
+        usage: user?.id ? { userId: user.id, operation: 'idea-chat-suggestions' } : undefined
+      });
       
       let suggestions = ["Tell me more about your idea", "What makes it unique?", "Who are your competitors?", "What's your revenue model?"];
       
       try {
-        if (response.choices?.[0]?.message?.content) {
-          const parsed = JSON.parse(response.choices[0].message.content);
+        if (response.content) {
+          const parsed = JSON.parse(response.content);
           if (Array.isArray(parsed)) {
             suggestions = parsed.slice(0, 4);
           }
@@ -137,8 +126,15 @@ serve(async (req) => {
     }
 
     // Regular chat response with reduced token limit for shorter responses
-    const response = await callGroq(messages, 400, 0.7); // Reduced from 2000 to 400 tokens
-    const content = response.choices?.[0]?.message?.content || "I understand. Let me help you develop that idea further.";
+    const response = await callLLM({
+      task: 'chat',
+      messages,
+      maxTokens: 400, // Reduced from 2000 to 400 tokens
+      temperature: 0.7,
+      supabase,
+      usage: user?.id ? { userId: user.id, operation: 'idea-chat', credits: CREDITS_PER_MESSAGE } : undefined
+    });
+    const content = response.content || "I understand. Let me help you develop that idea further.";
     
     // Generate contextual follow-up suggestions based on the ENTIRE conversation
     let suggestions = [];
@@ -148,7 +144,13 @@ serve(async (req) => {
         `${msg.type === 'user' ? 'User' : 'AI'}: ${msg.content.substring(0, 150)}`
       ).join('\n');
       
-      const suggestionResponse = await callGroq([
+      const suggestionResponse = await callLLM({
+        task: 'suggestions',
+        maxTokens: 250,
+        temperature: 0.9,
+        supabase,
+        usage: user?.id ? { userId: user.id, operation: 'idea-chat-suggestions' } : undefined,
+        messages: [
         { 
           role: 'system', 
           content: `You are predicting what a startup founder would ACTUALLY SAY next in this conversation. Generate 4 PREDICTIVE, ACTIONABLE responses - NOT questions asking for help.
@@ -173,10 +175,11 @@ Latest AI response: "${content.substring(0, 300)}..."
 
 Based on this specific conversation, what are 4 natural, contextual things the user would want to say or ask next? Return as JSON array only.` 
         }
-      ], 250, 0.9);
+        ]
+      });
       
-      if (suggestionResponse.choices?.[0]?.message?.content) {
-        let text = suggestionResponse.choices[0].message.content.trim();
+      if (suggestionResponse.content) {
+        let text = suggestionResponse.content.trim();
         
         // Remove markdown code blocks if present
         text = text.replace(/```(?:json)?\s*/g, '').replace(/```/g, '').trim();
@@ -230,53 +233,14 @@ Based on this specific conversation, what are 4 natural, contextual things the u
       }
     }
 
-    // Track AI credits usage
-    const authHeader = req.headers.get('Authorization');
-    if (authHeader) {
+    // Debit the wallet; the gateway already logged tokens to ai_credits_usage
+    if (user?.id) {
       try {
-        const { data: { user } } = await supabase.auth.getUser(
-          authHeader.replace('Bearer ', '')
-        );
-        
-        if (user?.id) {
-          const creditsUsed = 15; // idea-chat costs 15 credits
-          
-          // Get current billing period
-          const { data: periodData } = await supabase.rpc('get_current_billing_period');
-          const billingPeriodStart = periodData?.[0]?.period_start || new Date().toISOString();
-          const billingPeriodEnd = periodData?.[0]?.period_end || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
-          
-          // Increment AI credits usage
-          await supabase.rpc('increment_usage', {
-            _user_id: user.id,
-            _type: 'ai_credits',
-            _amount: creditsUsed
-          });
-          
-          // Log detailed usage
-          await supabase.from('ai_credits_usage').insert({
-            user_id: user.id,
-            operation_type: 'idea-chat',
-            credits_used: creditsUsed,
-            billing_period_start: billingPeriodStart,
-            billing_period_end: billingPeriodEnd
-          });
-          
-          // Also track cost for analytics
-          if (response.usage) {
-            const inputCost = (response.usage.prompt_tokens / 1000) * 0.00005;
-            const outputCost = (response.usage.completion_tokens / 1000) * 0.00008;
-            const totalCost = inputCost + outputCost;
-            
-            await supabase.from('openai_usage').insert({
-              user_id: user.id,
-              function_name: 'idea-chat',
-              model: 'llama-3.1-8b-instant',
-              tokens_used: response.usage.prompt_tokens + response.usage.completion_tokens,
-              cost_usd: totalCost
-            });
-          }
-        }
+        await supabase.rpc('increment_usage', {
+          _user_id: user.id,
+          _type: 'ai_credits',
+          _amount: CREDITS_PER_MESSAGE
+        });
       } catch (error) {
         console.error('Error tracking AI credits:', error);
       }
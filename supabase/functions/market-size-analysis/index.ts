@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { EntitlementError, entitlementErrorResponse, enforceRateLimit, recordAiCall, requireFeature, resolveEntitlements } from '../_shared/entitlements.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,6 +41,16 @@ serve(async (req) => {
   }
 
   try {
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const entitlements = await resolveEntitlements(serviceClient, req);
+    requireFeature(entitlements, 'marketAnalysis');
+    await enforceRateLimit(serviceClient, entitlements);
+    // Groq is called directly rather than through the gateway, so the call is recorded here
+    await recordAiCall(serviceClient, entitlements, 'market-size-analysis');
+
     const { idea, idea_context, data_hub } = await req.json();
     
     if (!idea && !idea_context) {
@@ -354,6 +365,10 @@ serve(async (req) => {
       },
     );
   } catch (error) {
+    // Entitlement denials keep their 401/402/429 status so the client can offer an upgrade
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
     console.error('[Market Size Analysis] Error:', error);
     return new Response(
       JSON.stringify({ 
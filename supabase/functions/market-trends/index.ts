@@ -26,7 +26,7 @@ serve(async (req) => {
     console.log('[market-trends] Extracted keywords:', keywords);
     
     // Fetch market data from multiple sources (queued)
-    const marketData = await fetchMarketData(keywords, idea);
+    const marketData = await fetchMarketData(keywords, idea, req.headers.get('Authorization'));
     console.log('[market-trends] Fetched market data');
     
     // Use Groq to analyze trends specific to this idea
@@ -100,7 +100,8 @@ function extractKeywords(idea: string): string[] {
   return [...new Set([...techTerms, ...industryTerms, ...words.slice(0, 5)])].slice(0, 8);
 }
 
-async function fetchMarketData(keywords: string[], idea: string): Promise<any> {
+// `authorization` is the caller's header, forwarded to functions that check the user's plan
+async function fetchMarketData(keywords: string[], idea: string, authorization: string | null): Promise<any> {
   const data: any = {
     marketSize: {},
     funding: {},
@@ -127,7 +128,7 @@ async function fetchMarketData(keywords: string[], idea: string): Promise<any> {
         return await fetch(`${SUPABASE_URL}/functions/v1/market-size-analysis`, {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': authorization ?? `Bearer ${SUPABASE_ANON_KEY}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ idea })
@@ -138,6 +139,8 @@ async function fetchMarketData(keywords: string[], idea: string): Promise<any> {
         const marketSizeData = await marketSizeResponse.json();
         data.marketSize = marketSizeData;
         console.log('[market-trends] Fetched market size data');
+      } else {
+        console.warn('[market-trends] market-size-analysis responded', marketSizeResponse.status);
       }
     } catch (error) {
       console.error('[market-trends] Error fetching market size:', error);
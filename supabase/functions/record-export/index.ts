@@ -0,0 +1,47 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { consumeQuota, EntitlementError, entitlementErrorResponse, requireFeature, resolveEntitlements } from "../_shared/entitlements.ts";
+import { parseFunctionRequest } from "../_shared/function-contracts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Report exports are built in the browser, so the app asks here before downloading one: the export is
+// checked against the plan and counted in the same transaction (consume_quota), like pitch decks
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  try {
+    const parsed = parseFunctionRequest('record-export', await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const entitlements = await resolveEntitlements(supabase, req);
+    requireFeature(entitlements, 'exportData');
+    await consumeQuota(supabase, entitlements, 'exports');
+
+    console.log('[record-export] Counted', parsed.data.format, 'report export for', entitlements.userId);
+    return json({ success: true });
+  } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
+    console.error('[record-export] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to record the export' }, 500);
+  }
+});
@@ -1,42 +1,46 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
 
-const REFERRER_REWARD = 20;
-const REFERREE_REWARD = 20;
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
 
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// Crediting, fraud checks and reward amounts live in the credit_referral() database function,
+// so the whole decision runs in one transaction and repeat calls return the original outcome.
 serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
   const url = new URL(req.url);
-  const code = url.searchParams.get("code");
-  const referredUser = url.searchParams.get("referred_user_id");
-  if (!code || !referredUser) return new Response(JSON.stringify({ error: "missing params" }), { status: 400 });
+  const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+  const code = body.code ?? url.searchParams.get("code");
+  const referredUser = body.referred_user_id ?? url.searchParams.get("referred_user_id");
+  const deviceId = body.device_id ?? url.searchParams.get("device_id");
+  if (!code) return json({ error: "missing params" }, 400);
 
   const supabase = createClient(
     Deno.env.get("SUPABASE_URL")!,
     Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
   );
 
-  const { data: existing, error: selErr } = await supabase
-    .from("referrals").select("id,status").eq("code", code).eq("referred_user_id", referredUser).maybeSingle();
-  if (selErr) return new Response(JSON.stringify({ error: selErr.message }), { status: 500 });
-
-  if (!existing) {
-    const { error } = await supabase.from("referrals").insert({ code, referred_user_id: referredUser, status: "signed_up" });
-    if (error) return new Response(JSON.stringify({ error: error.message }), { status: 500 });
-  } else if (existing.status !== "credited") {
-    await supabase.from("referrals").update({ status: "signed_up" }).eq("id", existing.id);
+  // Only the referred user can claim their own signup
+  const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user?.id) return json({ error: "Authentication required" }, 401);
+  if (referredUser && referredUser !== user.id) return json({ error: "referred_user_id does not match caller" }, 403);
+
+  const { data, error } = await supabase.rpc("credit_referral", {
+    p_code: code,
+    p_referred_user_id: user.id,
+    p_device_id: deviceId || null,
+  });
+  if (error) {
+    const status = error.message.includes("Unknown referral code") ? 404 : 500;
+    return json({ error: error.message }, status);
   }
 
-  const { data: codeRow, error: codeErr } = await supabase
-    .from("referral_codes").select("referrer_user_id").eq("code", code).single();
-  if (codeErr) return new Response(JSON.stringify({ error: codeErr.message }), { status: 500 });
-
-  await supabase.from("credits_ledger").insert([
-    { user_id: codeRow.referrer_user_id, delta: REFERRER_REWARD, reason: "referral" },
-    { user_id: referredUser, delta: REFERREE_REWARD, reason: "referred_signup" },
-  ]);
-
-  await supabase.from("referrals").update({ status: "credited" })
-    .eq("code", code).eq("referred_user_id", referredUser);
-
-  return new Response(JSON.stringify({ ok: true }), { status: 200 });
+  return json({ ok: true, ...data });
 });
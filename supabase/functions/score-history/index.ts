@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ScoreFactors, loadScoreModel, scoreWithModel } from '../_shared/score-model.ts'
+import { appendScoreHistory, explainScoreChanges, ideaHash } from '../_shared/score-history.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Max-Age': '86400'
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const DEFAULT_LIMIT = 200
+
+interface ScoreHistoryRequest {
+  operation: 'list' | 'record'
+  idea_id: string
+  idea_text?: string
+  factors?: ScoreFactors
+  model_version?: string
+  data_sources?: string[]
+  limit?: number
+}
+
+// idea_evolution columns the chart marks edits with
+interface IdeaEditRow {
+  version_number: number
+  pmf_score: number | null
+  created_at: string
+  changes: { restored_from?: number } | null
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const body: ScoreHistoryRequest = await req.json()
+
+    if (!body.idea_id) {
+      throw new Error('Missing required field: idea_id')
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+    const userId = await getCallerId(supabase, req)
+
+    switch (body.operation) {
+      case 'list':
+        return await listHistory(supabase, userId, body.idea_id, body.limit)
+
+      case 'record':
+        return await recordScore(supabase, userId, body)
+
+      default:
+        throw new Error('Invalid operation')
+    }
+
+  } catch (error) {
+    console.error('[score-history] Error:', error)
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: error.message === 'Authentication required' ? 401 : 500
+    })
+  }
+})
+
+async function getCallerId(supabase: SupabaseClient, req: Request): Promise<string> {
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user?.id) throw new Error('Authentication required')
+  return user.id
+}
+
+async function listHistory(supabase: SupabaseClient, userId: string, ideaId: string, limit = DEFAULT_LIMIT) {
+  try {
+    const { data: entries, error: historyError } = await supabase
+      .from('score_history')
+      .select('*')
+      .eq('idea_id', ideaId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(Math.min(limit, 1000))
+
+    if (historyError) throw historyError
+
+    // Idea edits share the idea id, so the chart can mark them on the same timeline
+    const { data: edits, error: editsError } = await supabase
+      .from('idea_evolution')
+      .select('id, version_number, pmf_score, created_at, changes')
+      .eq('idea_id', ideaId)
+      .eq('user_id', userId)
+      .order('version_number', { ascending: true })
+
+    if (editsError) throw editsError
+
+    return new Response(JSON.stringify({
+      success: true,
+      history: explainScoreChanges(entries || []),
+      edits: (edits || []).map((edit: IdeaEditRow) => ({
+        version_number: edit.version_number,
+        pmf_score: edit.pmf_score,
+        created_at: edit.created_at,
+        restored_from: edit.changes?.restored_from ?? null
+      }))
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    throw new Error(`Failed to load score history: ${error.message}`)
+  }
+}
+
+async function recordScore(supabase: SupabaseClient, userId: string, body: ScoreHistoryRequest) {
+  try {
+    if (!body.factors || !body.idea_text) {
+      throw new Error('factors and idea_text are required')
+    }
+
+    // Recompute instead of trusting a client-supplied score
+    const model = await loadScoreModel(supabase, body.model_version)
+    const result = scoreWithModel(model, body.factors)
+
+    const entry = await appendScoreHistory(supabase, {
+      idea_id: body.idea_id,
+      user_id: userId,
+      pmf_score: result.score,
+      score_breakdown: result.breakdown,
+      factors: { ...body.factors },
+      model_version: model.version,
+      data_sources: body.data_sources || [],
+      source: 'smoothbrains',
+      idea_hash: await ideaHash(body.idea_text)
+    })
+
+    return new Response(JSON.stringify({
+      success: true,
+      entry
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    throw new Error(`Failed to record score: ${error.message}`)
+  }
+}
@@ -1,292 +1,182 @@
-// Updated to use Groq API instead of Lovable AI
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { EntitlementError, entitlementErrorResponse, enforceRateLimit, requireCredits, resolveEntitlements } from '../_shared/entitlements.ts';
+import { parseFunctionRequest } from '../_shared/function-contracts.ts';
+import { loadIdeaTiles, tileEvidence } from '../_shared/idea-tiles.ts';
+import { callLLM, type ChatMessage } from '../_shared/llm-gateway.ts';
+import { hashIdea } from '../_shared/orchestrator-core.ts';
+import { analystSystemPrompt, clientTile, loadEvidenceStore, recalculateWhatIfs, retrieveContext, tileForTitle } from '../_shared/tile-analyst.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const CREDITS_PER_MESSAGE = 25;
+const HISTORY_MESSAGES = 12;
+const MAX_STORED_MESSAGES = 200;
+
+const answerSchema = z.object({
+  answer: z.string().min(1),
+  used_tiles: z.array(z.string()).default([]),
+  used_sources: z.array(z.string()).default([]),
+  what_ifs: z.array(z.object({
+    label: z.string(),
+    rationale: z.string().default(''),
+    changes: z.record(z.number()),
+  })).max(3).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
+// Inline [tile_name] and [S3] references, in case the model cites more than it lists
+function inlineCitations(answer: string) {
+  const refs = [...answer.matchAll(/\[([a-zA-Z0-9_]+)\]/g)].map(m => m[1]);
+  return {
+    tiles: refs.filter(ref => !/^S\d+$/.test(ref)),
+    sources: refs.filter(ref => /^S\d+$/.test(ref)),
+  };
+}
+
 serve(async (req) => {
-  // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const json = (payload: unknown, status = 200) => new Response(
+    JSON.stringify(payload),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
   try {
-    const { message, tileData, tileTitle, idea, chatHistory } = await req.json();
-    
-    const GROQ_API_KEY = Deno.env.get('GROQ_API_KEY');
-    if (!GROQ_API_KEY) {
-      throw new Error('GROQ_API_KEY is not configured');
+    const parsed = parseFunctionRequest('tile-ai-chat', await req.json());
+    if (!parsed.success) {
+      return json({ error: parsed.error }, 400);
     }
-
-    console.log('Tile chat request:', { message, tileTitle, idea, hasTileData: !!tileData });
-
-    // Build context from tile data
-    let contextSummary = `Current business idea: "${idea}"\n`;
-    contextSummary += `Analyzing: ${tileTitle}\n\n`;
-    
-    if (tileData) {
-      contextSummary += `${tileTitle} Data Context:\n`;
-      
-      // Handle different tile data structures
-      if (tileData.metrics) {
-        contextSummary += `Key Metrics:\n`;
-        Object.entries(tileData.metrics).forEach(([key, value]) => {
-          contextSummary += `- ${key}: ${value}\n`;
-        });
-      }
-      
-      if (tileData.trends) {
-        contextSummary += `\nTrends:\n`;
-        if (Array.isArray(tileData.trends)) {
-          tileData.trends.forEach((trend: any) => {
-            contextSummary += `- ${trend.name || trend.label}: ${trend.value || trend.description}\n`;
-          });
-        } else {
-          Object.entries(tileData.trends).forEach(([key, value]) => {
-            contextSummary += `- ${key}: ${value}\n`;
-          });
-        }
-      }
-      
-      if (tileData.insights) {
-        contextSummary += `\nInsights:\n`;
-        if (Array.isArray(tileData.insights)) {
-          tileData.insights.forEach((insight: string) => {
-            contextSummary += `- ${insight}\n`;
-          });
-        } else {
-          Object.entries(tileData.insights).forEach(([key, value]) => {
-            contextSummary += `- ${key}: ${value}\n`;
-          });
-        }
-      }
-      
-      if (tileData.analysis) {
-        contextSummary += `\nAnalysis:\n`;
-        Object.entries(tileData.analysis).forEach(([key, value]) => {
-          if (Array.isArray(value)) {
-            contextSummary += `${key}:\n`;
-            value.forEach((item: any) => {
-              contextSummary += `  - ${item}\n`;
-            });
-          } else {
-            contextSummary += `- ${key}: ${value}\n`;
-          }
-        });
-      }
-      
-      // Include any other data
-      const handledKeys = ['metrics', 'trends', 'insights', 'analysis'];
-      Object.entries(tileData).forEach(([key, value]) => {
-        if (!handledKeys.includes(key)) {
-          if (typeof value === 'string' || typeof value === 'number') {
-            contextSummary += `${key}: ${value}\n`;
-          } else if (Array.isArray(value)) {
-            contextSummary += `${key}:\n`;
-            value.forEach((item: any) => {
-              if (typeof item === 'string') {
-                contextSummary += `- ${item}\n`;
-              } else if (item.name || item.label || item.title) {
-                contextSummary += `- ${item.name || item.label || item.title}\n`;
-              }
-            });
-          }
-        }
-      });
+    const { operation = 'ask', message, tile, tileTitle, tileData } = parsed.data;
+    const idea = parsed.data.idea.trim();
+    if (!idea) {
+      return json({ error: 'idea is required' }, 400);
     }
 
-    // Build conversation history
-    const messages = [
-      {
-        role: 'system',
-        content: `You are an expert business analyst helping entrepreneurs understand their ${tileTitle} data and derive actionable insights. You have access to detailed data for the user's business idea.
-
-${contextSummary}
-
-Provide actionable, strategic insights based on the data. Be specific and reference actual data points when relevant. Focus on practical advice that can help the user make informed decisions.
-
-Keep responses concise but insightful. Use markdown formatting for better readability.`
-      }
-    ];
-
-    // Add chat history
-    if (chatHistory && chatHistory.length > 0) {
-      chatHistory.forEach((msg: any) => {
-        if (msg.role !== 'system') {
-          messages.push({
-            role: msg.role,
-            content: msg.content
-          });
-        }
-      });
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const entitlements = await resolveEntitlements(supabase, req);
+    const userId = entitlements.userId;
+    // Conversations are kept per idea, across every tile the chat is opened from
+    const ideaHash = await hashIdea(idea);
+    const conversation = () => supabase
+      .from('tile_chat_messages')
+      .select('id, role, content, tile, citations, what_ifs, suggestions, created_at')
+      .eq('user_id', userId)
+      .eq('idea_hash', ideaHash);
+
+    if (operation === 'history') {
+      const { data, error } = await conversation().order('seq', { ascending: true }).limit(MAX_STORED_MESSAGES);
+      if (error) throw error;
+      return json({ messages: data ?? [] });
     }
 
-    // Add current message
-    messages.push({
-      role: 'user',
-      content: message
-    });
-
-    console.log('Calling Groq API with messages:', messages.length);
+    if (operation === 'clear') {
+      const { error } = await supabase.from('tile_chat_messages').delete().eq('user_id', userId).eq('idea_hash', ideaHash);
+      if (error) throw error;
+      return json({ success: true });
+    }
 
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages,
-        max_tokens: 1000,
-        temperature: 0.7
-      }),
-    });
+    const question = message?.trim();
+    if (!question) {
+      return json({ error: 'message is required' }, 400);
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Groq API error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please wait a moment before trying again.');
+    await enforceRateLimit(supabase, entitlements);
+    await requireCredits(supabase, entitlements, CREDITS_PER_MESSAGE);
+
+    const [tiles, evidence, history] = await Promise.all([
+      loadIdeaTiles(supabase, idea),
+      loadEvidenceStore(supabase, userId, idea),
+      conversation().order('seq', { ascending: false }).limit(HISTORY_MESSAGES),
+    ]);
+
+    // The hub caches most tiles; widgets with their own data (and stale caches) send it along
+    let focus = tile ?? (tileTitle ? tileForTitle(tileTitle, tiles.map(t => t.tile)) : undefined);
+    if (!tiles.some(t => t.tile === focus)) {
+      const fallback = clientTile(focus || 'current_tile', tileData);
+      if (fallback) {
+        tiles.unshift(fallback);
+        focus = fallback.tile;
       }
-      if (response.status === 401) {
-        throw new Error('Invalid API key. Please check your Groq API configuration.');
-      }
-      
-      throw new Error(`AI service error: ${response.status}`);
     }
+    const context = retrieveContext(question, tiles, evidence, focus);
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || 'No response generated';
+    console.log('[tile-ai-chat] Retrieved', context.tiles.map(t => t.tile).join(', ') || 'no tiles', 'and', context.sources.length, 'sources');
 
-    console.log('Tile chat response generated successfully');
+    const messages: ChatMessage[] = [
+      analystSystemPrompt(idea, tileTitle, context),
+      ...(history.data ?? []).reverse().map(m => ({ role: m.role as 'user' | 'assistant', content: m.content as string })),
+      { role: 'user', content: question },
+    ];
 
-    // Generate response suggestions
-    const suggestionsPrompt = `Based on this ${tileTitle} analysis conversation about "${idea}", suggest 3 brief, specific follow-up questions the user might want to ask next.`;
-    
-    const suggestionsResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'Generate exactly 3 follow-up questions for data analysis discussions. Return ONLY a JSON array of strings like: ["Question 1?", "Question 2?", "Question 3?"]' 
-          },
-          { 
-            role: 'user', 
-            content: `Context: ${contextSummary}\n\nLatest Q: ${message}\nLatest A: ${aiResponse}\n\n${suggestionsPrompt}` 
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.8,
-      }),
+    const result = await callLLM({
+      task: 'analysis',
+      messages,
+      temperature: 0.4,
+      maxTokens: 1400,
+      json: value => answerSchema.safeParse(value).success,
+      supabase,
+      usage: { userId, operation: 'tile-ai-chat', credits: CREDITS_PER_MESSAGE },
     });
-
-    let suggestions = [];
-    try {
-      if (suggestionsResponse.ok) {
-        const suggestionsData = await suggestionsResponse.json();
-        const suggestionsText = suggestionsData.choices?.[0]?.message?.content;
-        if (suggestionsText) {
-          // Extract JSON array from the response
-          const jsonMatch = suggestionsText.match(/\[[\s\S]*\]/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            if (Array.isArray(parsed)) {
-              suggestions = parsed.slice(0, 3).filter(s => typeof s === 'string' && s.length > 0);
-            }
-          }
-        }
-      }
-    } catch (e) {
-      console.log('Could not parse suggestions:', e);
-    }
-
-    // Fallback suggestions if generation failed
-    if (suggestions.length === 0) {
-      suggestions = [
-        `What are the key trends in this ${tileTitle.toLowerCase()} data?`,
-        `How can I improve based on these ${tileTitle.toLowerCase()} insights?`,
-        `What actions should I take based on this analysis?`
-      ];
+    const output = answerSchema.parse(result.json);
+
+    // Only tiles and sources the model was actually given can be cited
+    const inline = inlineCitations(output.answer);
+    const citedTiles = [...new Set([...output.used_tiles, ...inline.tiles])];
+    const citedSources = new Set([...output.used_sources, ...inline.sources]);
+    const citations = {
+      tiles: tileEvidence(context.tiles, citedTiles),
+      sources: context.sources.filter(s => citedSources.has(s.id)).map(({ snippet: _snippet, ...source }) => source),
+    };
+    const whatIfs = await recalculateWhatIfs(supabase, context, output.what_ifs);
+
+    const suggestions = output.suggestions.filter(s => s.trim()).slice(0, 3);
+    if (!suggestions.length) {
+      suggestions.push(
+        'Which tiles disagree with each other?',
+        'What would most improve the score?',
+        'Which sources back this up?'
+      );
     }
 
-    // Track AI credits usage if user is authenticated
-    const authHeader = req.headers.get('Authorization');
-    if (authHeader) {
-      try {
-        const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
-        const supabaseUrl = Deno.env.get('SUPABASE_URL');
-        const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-        
-        if (supabaseUrl && supabaseKey) {
-          const supabase = createClient(supabaseUrl, supabaseKey);
-          const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
-          
-          if (user?.id) {
-            const creditsUsed = 25; // tile-ai-chat costs 25 credits
-            
-            // Get current billing period
-            const { data: periodData } = await supabase.rpc('get_current_billing_period');
-            const billingPeriodStart = periodData?.[0]?.period_start || new Date().toISOString();
-            const billingPeriodEnd = periodData?.[0]?.period_end || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
-            
-            // Increment AI credits usage
-            await supabase.rpc('increment_usage', {
-              _user_id: user.id,
-              _type: 'ai_credits',
-              _amount: creditsUsed
-            });
-            
-            // Log detailed usage
-            await supabase.from('ai_credits_usage').insert({
-              user_id: user.id,
-              operation_type: 'tile-ai-chat',
-              credits_used: creditsUsed,
-              billing_period_start: billingPeriodStart,
-              billing_period_end: billingPeriodEnd
-            });
-          }
-        }
-      } catch (error) {
-        console.error('[tile-ai-chat] Error tracking AI credits:', error);
-      }
+    // Checked before anything is saved, so an answer whose debit failed is neither stored nor shown
+    const { data: debited, error: debitError } = await supabase.rpc('increment_usage', {
+      _user_id: userId,
+      _type: 'ai_credits',
+      _amount: CREDITS_PER_MESSAGE
+    });
+    if (debitError) throw new Error(`Failed to debit AI credits: ${debitError.message}`);
+    if (!debited) {
+      throw new EntitlementError(402, 'insufficient_credits', `This needs ${CREDITS_PER_MESSAGE} AI credits`, entitlements.tier);
     }
 
-    return new Response(
-      JSON.stringify({ 
-        response: aiResponse,
-        suggestions 
-      }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    );
+    // seq follows row order, so the answer always sorts after its question
+    const { error: saveError } = await supabase.from('tile_chat_messages').insert([
+      { user_id: userId, idea_hash: ideaHash, idea_text: idea, tile: focus ?? null, role: 'user', content: question },
+      { user_id: userId, idea_hash: ideaHash, idea_text: idea, tile: focus ?? null, role: 'assistant', content: output.answer, citations, what_ifs: whatIfs, suggestions },
+    ]);
+    if (saveError) console.error('[tile-ai-chat] Could not save conversation:', saveError);
+
+    return json({
+      response: output.answer,
+      suggestions,
+      citations,
+      what_ifs: whatIfs,
+    });
   } catch (error) {
-    console.error('Tile chat error:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'An unexpected error occurred' 
-      }),
-      { 
-        status: 500, 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    );
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error, corsHeaders);
+    }
+    console.error('[tile-ai-chat] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'An unexpected error occurred' }, 500);
   }
-});
\ No newline at end of file
+});
@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { synthesizeTile, hashIdea, TileData } from '../_shared/orchestrator-core.ts';
+import { buildTiles, TileData } from '../_shared/orchestrator-core.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +13,25 @@ const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 const supabase = createClient(SUPABASE_URL, SERVICE_KEY);
 
+async function loadCache(ideaHash: string, tile: string): Promise<TileData | null> {
+  const { data } = await supabase
+    .from('data_hub_cache')
+    .select('data, created_at, expires_at')
+    .eq('idea_hash', ideaHash)
+    .eq('tile', tile)
+    .maybeSingle();
+  if (!data) return null;
+  const cached = data.data as TileData;
+  return { ...cached, generatedAt: cached.generatedAt || data.created_at, expiresAt: cached.expiresAt || data.expires_at };
+}
+
+async function saveCache(ideaHash: string, tile: string, data: TileData) {
+  const { error } = await supabase
+    .from('data_hub_cache')
+    .upsert({ idea_hash: ideaHash, tile, data, created_at: data.generatedAt, expires_at: data.expiresAt });
+  if (error) throw error;
+}
+
 serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { status: 200, headers: corsHeaders });
@@ -22,11 +41,15 @@ serve(async (req: Request) => {
     if (!idea || !tile) {
       return new Response(JSON.stringify({ error: 'Missing idea or tile' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
-    const ideaHash = await hashIdea(idea);
-    const data: TileData = await synthesizeTile(tile, idea);
-    const expires = new Date(Date.now() + 6 * 60 * 60 * 1000).toISOString();
-    await supabase.from('data_hub_cache').upsert({ idea_hash: ideaHash, tile, data, expires_at: expires });
-    return new Response(JSON.stringify({ success: true, tile: data }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    // Only the requested tile skips the cache; its dependencies (e.g. pmf_score's market_size) resolve
+    // through buildTiles the same way a hub load would
+    const { tiles } = await buildTiles(idea, [tile], {
+      waitUntil: (task: Promise<unknown>) => (globalThis as { EdgeRuntime?: { waitUntil?: (task: Promise<unknown>) => void } }).EdgeRuntime?.waitUntil?.(task),
+      authorization: req.headers.get('Authorization') ?? undefined,
+      loadCache: (ideaHash, name) => name === tile ? Promise.resolve(null) : loadCache(ideaHash, name),
+      saveCache
+    });
+    return new Response(JSON.stringify({ success: true, tile: tiles[tile] }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
   } catch (e: any) {
     return new Response(JSON.stringify({ success: false, error: e?.message || 'Unknown error' }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
   }
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCachedLLMResponse, cacheLLMResponse } from '../_shared/llm-cache.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -53,17 +54,17 @@ serve(async (req) => {
     console.log('[twitter-ai] Analyzing idea:', searchIdea);
     
     // Check cache first
-    const cacheKey = `twitter_ai_${searchIdea.slice(0, 100)}_${lang}`;
-    const { data: cachedData } = await supabase
-      .from('llm_cache')
-      .select('response')
-      .eq('cache_key', cacheKey)
-      .gt('expires_at', new Date().toISOString())
-      .single();
+    const cacheConfig = {
+      model: 'twitter-ai-insights',
+      prompt: searchIdea,
+      parameters: { lang },
+      ttlMinutes: 24 * 60
+    };
+    const cachedResponse = await getCachedLLMResponse(supabase, cacheConfig);
     
-    if (cachedData?.response) {
+    if (cachedResponse) {
       console.log('[twitter-ai] Returning cached data');
-      return new Response(JSON.stringify(cachedData.response), {
+      return new Response(JSON.stringify(cachedResponse), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
@@ -181,15 +182,7 @@ CRITICAL: Make tweets HIGHLY RELEVANT to the specific business idea. Each tweet
     };
 
     // Cache for 24 hours
-    await supabase
-      .from('llm_cache')
-      .upsert({
-        cache_key: cacheKey,
-        prompt_hash: cacheKey,
-        model: 'google/gemini-2.5-flash',
-        response: result,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-      });
+    await cacheLLMResponse(supabase, cacheConfig, result);
 
     console.log('[twitter-ai] Analysis complete');
 
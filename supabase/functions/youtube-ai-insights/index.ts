@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCachedLLMResponse, cacheLLMResponse } from '../_shared/llm-cache.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -60,17 +61,18 @@ serve(async (req) => {
     console.log('[youtube-ai] Analyzing idea:', searchIdea);
     
     // Check cache first
-    const cacheKey = `youtube_ai_${searchIdea.slice(0, 100)}_${time_window}_${regionCode}`;
-    const { data: cachedData } = await supabase
-      .from('llm_cache')
-      .select('response')
-      .eq('cache_key', cacheKey)
-      .gt('expires_at', new Date().toISOString())
-      .single();
+    // One entry per idea whether it was served from youtube-search or generated, keyed on a hash of the full idea
+    const cacheConfig = {
+      model: 'youtube-ai-insights',
+      prompt: searchIdea,
+      parameters: { time_window, regionCode },
+      ttlMinutes: 24 * 60
+    };
+    const cachedResponse = await getCachedLLMResponse(supabase, cacheConfig);
     
-    if (cachedData?.response) {
+    if (cachedResponse) {
       console.log('[youtube-ai] Returning cached data');
-      return new Response(JSON.stringify(cachedData.response), {
+      return new Response(JSON.stringify(cachedResponse), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
@@ -94,15 +96,7 @@ serve(async (req) => {
         };
 
         // Cache for 24 hours
-        await supabase
-          .from('llm_cache')
-          .upsert({
-            cache_key: cacheKey,
-            prompt_hash: cacheKey,
-            model: 'youtube-search',
-            response: result,
-            expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-          });
+        await cacheLLMResponse(supabase, cacheConfig, result);
 
         console.log('[youtube-ai] Served from youtube-search real data');
         return new Response(JSON.stringify(result), {
@@ -202,15 +196,7 @@ Return ONLY valid JSON in this exact structure:
     };
 
     // Cache for 24 hours
-    await supabase
-      .from('llm_cache')
-      .upsert({
-        cache_key: cacheKey,
-        prompt_hash: cacheKey,
-        model: 'google/gemini-2.5-flash',
-        response: result,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-      });
+    await cacheLLMResponse(supabase, cacheConfig, result);
 
     console.log('[youtube-ai] Analysis complete');
 
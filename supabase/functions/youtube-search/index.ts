@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCachedLLMResponse, cacheLLMResponse } from '../_shared/llm-cache.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,20 +30,20 @@ serve(async (req) => {
     
     console.log('[youtube-search] Processing research for idea:', searchIdea);
     
-    // Generate cache key
-    const cacheKey = `youtube_${searchIdea.slice(0, 100)}_${time_window}_${regionCode}`;
+    // Keyed on a hash of the full idea and search options
+    const cacheConfig = {
+      model: 'youtube-search',
+      prompt: searchIdea,
+      parameters: { time_window, regionCode },
+      ttlMinutes: 24 * 60
+    };
     
     // 1. Check cache first
-    const { data: cachedData } = await supabase
-      .from('llm_cache')
-      .select('response')
-      .eq('cache_key', cacheKey)
-      .gt('expires_at', new Date().toISOString())
-      .single();
+    const cachedResponse = await getCachedLLMResponse(supabase, cacheConfig);
     
-    if (cachedData?.response) {
+    if (cachedResponse) {
       console.log('[youtube-search] Returning cached data');
-      return new Response(JSON.stringify(cachedData.response), {
+      return new Response(JSON.stringify(cachedResponse), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
@@ -229,15 +230,7 @@ serve(async (req) => {
     };
     
     // Cache the successful response for 24 hours
-    await supabase
-      .from('llm_cache')
-      .upsert({
-        cache_key: cacheKey,
-        prompt_hash: cacheKey,
-        model: 'youtube-search',
-        response: response,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-      });
+    await cacheLLMResponse(supabase, cacheConfig, response);
     
     console.log('[youtube-search] Response cached successfully');
     
@@ -0,0 +1,35 @@
+-- Content-addressed LLM cache keys
+-- Keys were the hex-encoded "model::prompt::params" string truncated to 64 chars, i.e. only the first
+-- 32 bytes of input, so prompts sharing a long prefix collided. Keys are now SHA-256 digests of the full
+-- input, tagged with a schema version so future key changes can invalidate old rows.
+
+ALTER TABLE public.llm_cache
+  ADD COLUMN IF NOT EXISTS schema_version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_schema_version ON public.llm_cache(schema_version);
+
+-- Delete entries written under an older key schema; returns the number of rows removed
+CREATE OR REPLACE FUNCTION public.invalidate_llm_cache_schema(p_current_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  DELETE FROM public.llm_cache
+  WHERE schema_version < p_current_version;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Only deploy tooling may wipe the shared cache
+REVOKE ALL ON FUNCTION public.invalidate_llm_cache_schema(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.invalidate_llm_cache_schema(integer) TO service_role;
+
+-- Existing rows use the legacy truncated keys and may hold collided responses
+SELECT public.invalidate_llm_cache_schema(2);
+
+COMMENT ON COLUMN public.llm_cache.schema_version IS 'Cache key schema version (LLM_CACHE_SCHEMA_VERSION in _shared/llm-cache.ts). Rows from older versions are never read.';
@@ -0,0 +1,11 @@
+-- Ledger chain verification
+-- The idea-ledger function's verify_chain operation recomputes every block hash and validates
+-- Merkle roots of batched entries. The original ledger migration declared merkle_root but the
+-- table that was actually created lacks it.
+
+ALTER TABLE public.idea_ledger
+  ADD COLUMN IF NOT EXISTS merkle_root TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_idea_ledger_merkle_root ON public.idea_ledger(merkle_root) WHERE merkle_root IS NOT NULL;
+
+COMMENT ON COLUMN public.idea_ledger.merkle_root IS 'Shared by all blocks written in one batch: binary SHA-256 Merkle root over their transaction_hash values in block order (odd node paired with itself). NULL for unbatched blocks.';
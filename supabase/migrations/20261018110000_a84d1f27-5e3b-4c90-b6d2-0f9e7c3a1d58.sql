@@ -0,0 +1,60 @@
+-- Dispute resolution workflow for ownership_challenges
+-- Challenges move pending -> responded (owner submits counter-evidence) -> resolved | rejected (resolver decision).
+-- Every step is anchored in idea_ledger; the *_block columns point at those entries.
+
+ALTER TABLE public.ownership_challenges
+  ADD COLUMN IF NOT EXISTS challenge_block BIGINT,
+  ADD COLUMN IF NOT EXISTS response_data JSONB,
+  ADD COLUMN IF NOT EXISTS response_evidence_hash TEXT,
+  ADD COLUMN IF NOT EXISTS responder_id UUID,
+  ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS response_block BIGINT,
+  ADD COLUMN IF NOT EXISTS analysis JSONB,
+  ADD COLUMN IF NOT EXISTS resolver_id UUID,
+  ADD COLUMN IF NOT EXISTS resolution_block BIGINT;
+
+ALTER TABLE public.ownership_challenges DROP CONSTRAINT IF EXISTS ownership_challenges_status_check;
+ALTER TABLE public.ownership_challenges
+  ADD CONSTRAINT ownership_challenges_status_check CHECK (status IN ('pending', 'responded', 'resolved', 'rejected'));
+
+-- Users allowed to close disputes (kept apart from user_roles, which holds subscription tiers)
+CREATE TABLE IF NOT EXISTS public.dispute_resolvers (
+  user_id UUID PRIMARY KEY,
+  granted_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.dispute_resolvers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Resolvers can view their own grant"
+  ON public.dispute_resolvers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage resolvers"
+  ON public.dispute_resolvers FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE OR REPLACE FUNCTION public.is_dispute_resolver(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.dispute_resolvers
+    WHERE user_id = _user_id
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_dispute_resolver TO authenticated;
+
+-- Resolvers review every challenge; current owners see challenges against ideas transferred to them
+CREATE POLICY "Resolvers can view all challenges"
+  ON public.ownership_challenges FOR SELECT
+  USING (public.is_dispute_resolver(auth.uid()));
+
+CREATE POLICY "Current owners can view challenges"
+  ON public.ownership_challenges FOR SELECT
+  USING (idea_id IN (SELECT idea_id FROM public.idea_ownership WHERE current_owner_id = auth.uid()));
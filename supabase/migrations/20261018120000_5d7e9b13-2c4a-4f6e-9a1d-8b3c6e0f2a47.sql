@@ -0,0 +1,6 @@
+-- Idea version history: one version_number per idea, written by the dashboard after each scored rewrite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idea_evolution_version
+  ON public.idea_evolution(idea_id, version_number);
+
+COMMENT ON COLUMN public.idea_evolution.changes IS
+  'Version details: tile_metrics (numeric tile metrics at scoring time), source (score|restore) and restored_from';
@@ -0,0 +1,88 @@
+-- SmoothBrains score models as data: weights, piecewise-linear curves, caps and category thresholds.
+-- calculate-smoothbrains-score uses the active version unless a request names one, so any score
+-- can be recomputed with the model version that produced it.
+CREATE TABLE IF NOT EXISTS public.score_models (
+  version TEXT PRIMARY KEY,
+  definition JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one active model
+CREATE UNIQUE INDEX IF NOT EXISTS idx_score_models_active
+  ON public.score_models(is_active) WHERE is_active;
+
+ALTER TABLE public.score_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view score models"
+  ON public.score_models FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage score models"
+  ON public.score_models FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- v1 reproduces the original hard-coded calculateStrictScore
+INSERT INTO public.score_models (version, definition, is_active, notes)
+VALUES ('v1', '{
+  "description": "Original strict model: exponential difficulty, huge markets and strong PMF required for 90+",
+  "weights": {
+    "wrinklePoints": 0.25,
+    "marketOpportunity": 0.2,
+    "productMarketFit": 0.2,
+    "executionViability": 0.15,
+    "ideaRefinement": 0.1,
+    "sentiment": 0.1
+  },
+  "curves": {
+    "wrinklePoints": [[0, 0], [20, 30], [50, 60], [100, 80], [200, 100]],
+    "marketOpportunity": [[0, 0], [1, 20], [10, 40], [50, 60], [100, 80], [200, 100]],
+    "productMarketFit": [[0, 0], [30, 15], [70, 50], [100, 100]],
+    "executionViability": [[1, 100], [10, 10]],
+    "ideaRefinement": [[0, 0], [100, 100]],
+    "sentiment": [[0, 0], [40, 20], [70, 50], [100, 100]]
+  },
+  "wrinkleCap": {
+    "below": 10,
+    "max": 30
+  },
+  "categories": [
+    {
+      "min": 95,
+      "label": "FAANG Potential",
+      "explanation": "This idea shows potential to become a dominant market leader like Microsoft, Google, or Amazon. Exceptional market opportunity combined with deep understanding and strong execution potential."
+    },
+    {
+      "min": 90,
+      "label": "Unicorn Trajectory",
+      "explanation": "Strong indicators for $1B+ valuation potential. The combination of massive market, strong PMF signals, and execution clarity rivals successful unicorns."
+    },
+    {
+      "min": 80,
+      "label": "Major Success Potential",
+      "explanation": "Shows characteristics of companies that achieve $100M+ valuations. Strong fundamentals with room for explosive growth."
+    },
+    {
+      "min": 70,
+      "label": "Strong Business",
+      "explanation": "Solid foundation for a $10M+ business. Good market opportunity with reasonable execution path."
+    },
+    {
+      "min": 60,
+      "label": "Viable Startup",
+      "explanation": "Has potential to become a profitable business but needs refinement in key areas to achieve significant scale."
+    },
+    {
+      "min": 40,
+      "label": "Early Stage",
+      "explanation": "Shows promise but requires significant development in market understanding, product-market fit, or execution strategy."
+    },
+    {
+      "min": 0,
+      "label": "Concept Phase",
+      "explanation": "Needs substantial work on fundamentals. Focus on deepening market understanding and validating core assumptions."
+    }
+  ]
+}'::jsonb, true, 'Original strict model')
+ON CONFLICT (version) DO NOTHING;
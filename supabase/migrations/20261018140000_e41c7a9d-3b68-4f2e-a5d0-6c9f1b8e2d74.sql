@@ -0,0 +1,29 @@
+-- Append-only history of every score computation with the inputs that produced it, so a score
+-- change can be traced to an idea edit, new market data or a score model change
+CREATE TABLE IF NOT EXISTS public.score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idea_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  pmf_score INTEGER NOT NULL CHECK (pmf_score >= 0 AND pmf_score <= 100),
+  score_breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- ScoreFactors snapshot (or the AI breakdown for compute_pmf)
+  factors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  model_version TEXT NOT NULL,
+  data_sources TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  source TEXT NOT NULL DEFAULT 'smoothbrains' CHECK (source IN ('smoothbrains', 'compute_pmf')),
+  -- SHA-256 of the idea text that was scored
+  idea_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.score_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own score history"
+  ON public.score_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage score history"
+  ON public.score_history FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE INDEX idx_score_history_idea_created ON public.score_history(idea_id, created_at);
@@ -0,0 +1,347 @@
+-- Idempotent, fraud-resistant referral crediting.
+-- credit_referral() evaluates and credits a referral in one transaction: the referral row is unique per
+-- (code, referred user), ledger rows carry idempotency keys, and a per-referrer advisory lock keeps the
+-- monthly cap exact under concurrent signups. Reward amounts and limits live in referral_reward_rules.
+
+-- Reward rules as data instead of hard-coded constants
+CREATE TABLE IF NOT EXISTS public.referral_reward_rules (
+  name TEXT PRIMARY KEY,
+  referrer_reward INTEGER NOT NULL CHECK (referrer_reward >= 0),
+  referee_reward INTEGER NOT NULL CHECK (referee_reward >= 0),
+  monthly_referrer_cap INTEGER NOT NULL CHECK (monthly_referrer_cap >= 0), -- credited referrals per referrer per calendar month
+  rapid_signup_limit INTEGER NOT NULL CHECK (rapid_signup_limit > 0),      -- signups per referrer within the window before holding for review
+  rapid_signup_window INTERVAL NOT NULL DEFAULT interval '1 hour',
+  max_referee_account_age INTERVAL NOT NULL DEFAULT interval '7 days', -- older accounts cannot claim a code
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one active rule set
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_reward_rules_active
+  ON public.referral_reward_rules(is_active) WHERE is_active;
+
+ALTER TABLE public.referral_reward_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view referral reward rules"
+  ON public.referral_reward_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage referral reward rules"
+  ON public.referral_reward_rules FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Matches the previous REFERRER_REWARD / REFERREE_REWARD constants
+INSERT INTO public.referral_reward_rules
+  (name, referrer_reward, referee_reward, monthly_referrer_cap, rapid_signup_limit, rapid_signup_window, is_active)
+VALUES ('default', 20, 20, 10, 5, interval '1 hour', true)
+ON CONFLICT (name) DO NOTHING;
+
+-- Referral outcome: pending (held for review), credited or rejected, with the reason and rewards paid
+ALTER TABLE public.referrals DROP CONSTRAINT IF EXISTS referrals_status_check;
+ALTER TABLE public.referrals
+  ADD CONSTRAINT referrals_status_check
+  CHECK (status IN ('clicked', 'signed_up', 'pending', 'credited', 'rejected'));
+
+ALTER TABLE public.referrals
+  ADD COLUMN IF NOT EXISTS reason TEXT,
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS referrer_reward INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS referee_reward INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+-- The old referrals function inserted after a separate select and credited on every call, so existing data
+-- can hold repeated (code, referred user) rows and several credited rows per referee. Keep one row per pair,
+-- preferring the credited one, and mark later credits of the same referee as rejected. Credits already paid
+-- for those rows stay in the ledger.
+DELETE FROM public.referrals r
+USING (
+  SELECT id, row_number() OVER (
+    PARTITION BY code, referred_user_id
+    ORDER BY (status = 'credited') IS TRUE DESC, created_at, id
+  ) AS rn
+  FROM public.referrals
+  WHERE referred_user_id IS NOT NULL
+) d
+WHERE r.id = d.id AND d.rn > 1;
+
+UPDATE public.referrals r
+SET status = 'rejected',
+    reason = 'already_referred',
+    processed_at = now()
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY referred_user_id ORDER BY created_at, id) AS rn
+  FROM public.referrals
+  WHERE status = 'credited'
+) d
+WHERE r.id = d.id AND d.rn > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_code_referred_user
+  ON public.referrals(code, referred_user_id);
+
+-- A user can be credited as a referee once, whichever code they arrived with
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referrals_credited_referee
+  ON public.referrals(referred_user_id) WHERE status = 'credited';
+
+CREATE INDEX IF NOT EXISTS idx_referrals_device_id ON public.referrals(device_id);
+
+-- Device the referrer created the code on, to catch referrers signing up their own second account
+ALTER TABLE public.referral_codes ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+CREATE POLICY "Referrers can view referrals for their codes"
+  ON public.referrals FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.referral_codes c
+    WHERE c.code = referrals.code AND c.referrer_user_id = auth.uid()
+  ));
+
+-- Ledger rows are written once per referral and side
+ALTER TABLE public.credits_ledger
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS referral_id UUID REFERENCES public.referrals(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credits_ledger_idempotency_key
+  ON public.credits_ledger(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- Users could previously insert their own credits
+DROP POLICY IF EXISTS "insert ledger" ON public.credits_ledger;
+
+CREATE OR REPLACE FUNCTION public.credit_referral(
+  p_code TEXT,
+  p_referred_user_id UUID,
+  p_device_id TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_rules public.referral_reward_rules%ROWTYPE;
+  v_code public.referral_codes%ROWTYPE;
+  v_referral public.referrals%ROWTYPE;
+  v_status TEXT := 'credited';
+  v_reason TEXT;
+  v_referrer_reward INTEGER;
+  v_recent INTEGER;
+  v_credited_this_month INTEGER;
+  v_account_created_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_code FROM public.referral_codes WHERE code = p_code;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown referral code';
+  END IF;
+
+  -- Serialize crediting per referrer so caps and rapid-signup counts cannot race
+  PERFORM pg_advisory_xact_lock(hashtext('referral:' || v_code.referrer_user_id::text));
+
+  INSERT INTO public.referrals (code, referred_user_id, status, device_id)
+  VALUES (p_code, p_referred_user_id, 'signed_up', p_device_id)
+  ON CONFLICT (code, referred_user_id) DO NOTHING;
+
+  SELECT * INTO v_referral FROM public.referrals
+  WHERE code = p_code AND referred_user_id = p_referred_user_id
+  FOR UPDATE;
+
+  -- Already decided: repeat calls return the original outcome
+  IF v_referral.status IN ('pending', 'credited', 'rejected') THEN
+    RETURN jsonb_build_object(
+      'referral_id', v_referral.id,
+      'status', v_referral.status,
+      'reason', v_referral.reason,
+      'referrer_reward', v_referral.referrer_reward,
+      'referee_reward', v_referral.referee_reward,
+      'already_processed', true
+    );
+  END IF;
+
+  SELECT * INTO v_rules FROM public.referral_reward_rules WHERE is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active referral reward rules';
+  END IF;
+
+  v_referrer_reward := v_rules.referrer_reward;
+
+  SELECT created_at INTO v_account_created_at FROM auth.users WHERE id = p_referred_user_id;
+
+  IF v_code.referrer_user_id = p_referred_user_id THEN
+    v_status := 'rejected';
+    v_reason := 'self_referral';
+  ELSIF p_device_id IS NOT NULL AND p_device_id = v_code.device_id THEN
+    v_status := 'rejected';
+    v_reason := 'self_referral_device';
+  -- Only new signups count: the account must postdate the code and be recent
+  ELSIF v_account_created_at IS NULL
+     OR v_account_created_at < v_code.created_at
+     OR v_account_created_at < now() - v_rules.max_referee_account_age THEN
+    v_status := 'rejected';
+    v_reason := 'existing_account';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.referrals
+    WHERE referred_user_id = p_referred_user_id AND status = 'credited' AND id <> v_referral.id
+  ) THEN
+    v_status := 'rejected';
+    v_reason := 'already_referred';
+  ELSIF p_device_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.referrals
+    WHERE device_id = p_device_id AND status IN ('pending', 'credited') AND id <> v_referral.id
+  ) THEN
+    v_status := 'rejected';
+    v_reason := 'duplicate_device';
+  ELSE
+    SELECT count(*) INTO v_recent
+    FROM public.referrals r
+    JOIN public.referral_codes c ON c.code = r.code
+    WHERE c.referrer_user_id = v_code.referrer_user_id
+      AND r.status IN ('pending', 'credited')
+      AND r.processed_at > now() - v_rules.rapid_signup_window;
+
+    IF v_recent >= v_rules.rapid_signup_limit THEN
+      v_status := 'pending';
+      v_reason := 'rapid_signups';
+    END IF;
+  END IF;
+
+  IF v_status = 'credited' THEN
+    SELECT count(*) INTO v_credited_this_month
+    FROM public.referrals r
+    JOIN public.referral_codes c ON c.code = r.code
+    WHERE c.referrer_user_id = v_code.referrer_user_id
+      AND r.status = 'credited'
+      AND r.referrer_reward > 0
+      AND r.processed_at >= date_trunc('month', now());
+
+    -- The referee is still rewarded once the referrer hits the cap
+    IF v_credited_this_month >= v_rules.monthly_referrer_cap THEN
+      v_referrer_reward := 0;
+      v_reason := 'monthly_cap_reached';
+    END IF;
+
+    IF v_referrer_reward > 0 THEN
+      INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, referral_id)
+      VALUES (v_code.referrer_user_id, v_referrer_reward, 'referral', 'referral:' || v_referral.id || ':referrer', v_referral.id)
+      ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+    END IF;
+
+    INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, referral_id)
+    VALUES (p_referred_user_id, v_rules.referee_reward, 'referred_signup', 'referral:' || v_referral.id || ':referee', v_referral.id)
+    ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+  END IF;
+
+  UPDATE public.referrals
+  SET status = v_status,
+      reason = v_reason,
+      device_id = COALESCE(p_device_id, device_id),
+      referrer_reward = CASE WHEN v_status = 'credited' THEN v_referrer_reward ELSE 0 END,
+      referee_reward = CASE WHEN v_status = 'credited' THEN v_rules.referee_reward ELSE 0 END,
+      processed_at = now()
+  WHERE id = v_referral.id
+  RETURNING * INTO v_referral;
+
+  RETURN jsonb_build_object(
+    'referral_id', v_referral.id,
+    'status', v_referral.status,
+    'reason', v_referral.reason,
+    'referrer_reward', v_referral.referrer_reward,
+    'referee_reward', v_referral.referee_reward,
+    'already_processed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.credit_referral(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_referral(TEXT, UUID, TEXT) TO service_role;
+
+-- Decide a referral held as pending (rapid_signups). Approval credits it under the same cap and
+-- idempotency rules as credit_referral; rejection records review_rejected. Run by an admin through
+-- the service role, e.g. select resolve_pending_referral('<referral id>', true).
+CREATE OR REPLACE FUNCTION public.resolve_pending_referral(
+  p_referral_id UUID,
+  p_approve BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_rules public.referral_reward_rules%ROWTYPE;
+  v_referral public.referrals%ROWTYPE;
+  v_referrer_user_id UUID;
+  v_status TEXT := 'rejected';
+  v_reason TEXT := 'review_rejected';
+  v_referrer_reward INTEGER := 0;
+  v_referee_reward INTEGER := 0;
+  v_credited_this_month INTEGER;
+BEGIN
+  SELECT c.referrer_user_id INTO v_referrer_user_id
+  FROM public.referrals r
+  JOIN public.referral_codes c ON c.code = r.code
+  WHERE r.id = p_referral_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown referral';
+  END IF;
+
+  -- Same lock as credit_referral, so the monthly cap stays exact
+  PERFORM pg_advisory_xact_lock(hashtext('referral:' || v_referrer_user_id::text));
+
+  SELECT * INTO v_referral FROM public.referrals WHERE id = p_referral_id FOR UPDATE;
+  IF v_referral.status <> 'pending' THEN
+    RAISE EXCEPTION 'Referral % is %, not pending', p_referral_id, v_referral.status;
+  END IF;
+
+  IF p_approve THEN
+    SELECT * INTO v_rules FROM public.referral_reward_rules WHERE is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No active referral reward rules';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.referrals
+      WHERE referred_user_id = v_referral.referred_user_id AND status = 'credited' AND id <> v_referral.id
+    ) THEN
+      v_reason := 'already_referred';
+    ELSE
+      v_status := 'credited';
+      v_reason := NULL;
+      v_referrer_reward := v_rules.referrer_reward;
+      v_referee_reward := v_rules.referee_reward;
+
+      SELECT count(*) INTO v_credited_this_month
+      FROM public.referrals r
+      JOIN public.referral_codes c ON c.code = r.code
+      WHERE c.referrer_user_id = v_referrer_user_id
+        AND r.status = 'credited'
+        AND r.referrer_reward > 0
+        AND r.processed_at >= date_trunc('month', now());
+
+      IF v_credited_this_month >= v_rules.monthly_referrer_cap THEN
+        v_referrer_reward := 0;
+        v_reason := 'monthly_cap_reached';
+      END IF;
+
+      IF v_referrer_reward > 0 THEN
+        INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, referral_id)
+        VALUES (v_referrer_user_id, v_referrer_reward, 'referral', 'referral:' || v_referral.id || ':referrer', v_referral.id)
+        ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+      END IF;
+
+      INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, referral_id)
+      VALUES (v_referral.referred_user_id, v_referee_reward, 'referred_signup', 'referral:' || v_referral.id || ':referee', v_referral.id)
+      ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+    END IF;
+  END IF;
+
+  UPDATE public.referrals
+  SET status = v_status,
+      reason = v_reason,
+      referrer_reward = v_referrer_reward,
+      referee_reward = v_referee_reward,
+      processed_at = now()
+  WHERE id = v_referral.id
+  RETURNING * INTO v_referral;
+
+  RETURN jsonb_build_object(
+    'referral_id', v_referral.id,
+    'status', v_referral.status,
+    'reason', v_referral.reason,
+    'referrer_reward', v_referral.referrer_reward,
+    'referee_reward', v_referral.referee_reward,
+    'already_processed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.resolve_pending_referral(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_pending_referral(UUID, BOOLEAN) TO service_role;
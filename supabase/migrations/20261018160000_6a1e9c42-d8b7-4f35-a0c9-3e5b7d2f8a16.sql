@@ -0,0 +1,229 @@
+-- Unified credits wallet: the AI credit balance is the sum of credits_ledger entries.
+-- Monthly tier grants, referral bonuses and per-call debits are all ledger rows. Unused grant credits
+-- expire when the next month's grant is issued; referral bonuses carry over until spent.
+
+-- Monthly AI credits per tier (mirrors aiCreditsPerMonth in SubscriptionContext)
+CREATE TABLE IF NOT EXISTS public.credit_tier_grants (
+  tier TEXT PRIMARY KEY,
+  monthly_credits INTEGER NOT NULL CHECK (monthly_credits >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credit_tier_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view credit tier grants"
+  ON public.credit_tier_grants FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage credit tier grants"
+  ON public.credit_tier_grants FOR ALL
+  USING (auth.role() = 'service_role');
+
+INSERT INTO public.credit_tier_grants (tier, monthly_credits) VALUES
+  ('free', 50),
+  ('basic', 500),
+  ('pro', 3000),
+  ('enterprise', 10000)
+ON CONFLICT (tier) DO NOTHING;
+
+-- What a debit paid for (operation, session) or which tier a grant was for
+ALTER TABLE public.credits_ledger
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_credits_ledger_user_created
+  ON public.credits_ledger(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.credit_balance(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(delta), 0)::int
+  FROM public.credits_ledger
+  WHERE user_id = _user_id
+    AND (auth.role() = 'service_role' OR _user_id = auth.uid())
+$$;
+
+-- Issue this month's grant for the tier, topping up after an upgrade, and expire last period's unused grant.
+-- Without an explicit tier the user's role is used.
+CREATE OR REPLACE FUNCTION public.ensure_monthly_grant(_user_id UUID, _tier TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier TEXT;
+  v_month_start TIMESTAMPTZ := date_trunc('month', now());
+  v_month TEXT := to_char(now(), 'YYYY-MM');
+  v_amount INTEGER;
+  v_granted INTEGER;
+  v_last_start TIMESTAMPTZ;
+  v_last_granted INTEGER;
+  v_last_spent INTEGER;
+  v_expire INTEGER;
+BEGIN
+  v_tier := COALESCE(_tier, public.get_user_role(_user_id)::text, 'free');
+  SELECT monthly_credits INTO v_amount FROM public.credit_tier_grants WHERE tier = v_tier;
+  IF NOT FOUND THEN
+    SELECT monthly_credits INTO v_amount FROM public.credit_tier_grants WHERE tier = 'free';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || _user_id::text));
+
+  SELECT COALESCE(SUM(delta), 0) INTO v_granted
+  FROM public.credits_ledger
+  WHERE user_id = _user_id AND reason = 'monthly_grant' AND created_at >= v_month_start;
+
+  IF v_granted = 0 THEN
+    SELECT date_trunc('month', MAX(created_at)) INTO v_last_start
+    FROM public.credits_ledger
+    WHERE user_id = _user_id AND reason = 'monthly_grant' AND created_at < v_month_start;
+
+    IF v_last_start IS NOT NULL THEN
+      SELECT
+        COALESCE(SUM(delta) FILTER (WHERE reason = 'monthly_grant'), 0),
+        COALESCE(-SUM(delta) FILTER (WHERE reason = 'ai_usage'), 0)
+      INTO v_last_granted, v_last_spent
+      FROM public.credits_ledger
+      WHERE user_id = _user_id AND created_at >= v_last_start AND created_at < v_last_start + interval '1 month';
+
+      -- Debits draw on the grant first, so only the unspent part of it expires
+      v_expire := LEAST(public.credit_balance(_user_id), GREATEST(0, v_last_granted - v_last_spent));
+      IF v_expire > 0 THEN
+        INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, metadata)
+        VALUES (_user_id, -v_expire, 'grant_expired', 'expire:' || _user_id || ':' || to_char(v_last_start, 'YYYY-MM'),
+                jsonb_build_object('period', to_char(v_last_start, 'YYYY-MM')))
+        ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_amount > v_granted THEN
+    INSERT INTO public.credits_ledger (user_id, delta, reason, idempotency_key, metadata)
+    VALUES (_user_id, v_amount - v_granted, 'monthly_grant', 'grant:' || _user_id || ':' || v_month || ':' || v_tier,
+            jsonb_build_object('tier', v_tier, 'period', v_month))
+    ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING;
+  END IF;
+
+  RETURN public.credit_balance(_user_id);
+END;
+$$;
+
+-- Atomically debit AI credits. Returns the remaining balance, or NULL when the balance is too low
+-- (nothing is written in that case).
+CREATE OR REPLACE FUNCTION public.debit_credits(
+  _user_id UUID,
+  _amount INTEGER,
+  _operation TEXT DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND _user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot debit another user''s credits';
+  END IF;
+  IF _amount <= 0 THEN
+    RAISE EXCEPTION 'Debit amount must be positive';
+  END IF;
+
+  v_balance := public.ensure_monthly_grant(_user_id);
+
+  -- ensure_monthly_grant took the per-user lock, so the balance cannot change before the insert
+  IF v_balance < _amount THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.credits_ledger (user_id, delta, reason, metadata)
+  VALUES (_user_id, -_amount, 'ai_usage', COALESCE(_metadata, '{}'::jsonb) || jsonb_build_object('operation', _operation));
+
+  RETURN v_balance - _amount;
+END;
+$$;
+
+-- increment_usage keeps its counters, but AI credits are now debited from the wallet.
+-- Callers may only touch their own usage unless they use the service role.
+CREATE OR REPLACE FUNCTION public.increment_usage(
+  _user_id uuid,
+  _type text,
+  _amount integer DEFAULT 1
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND _user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot update another user''s usage';
+  END IF;
+  -- A negative amount would reset the counters requireQuota reads
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Usage amount must be positive';
+  END IF;
+
+  -- Initialize if needed
+  PERFORM public.initialize_usage_limits(_user_id);
+
+  -- Update the appropriate counter
+  IF _type = 'ideas' THEN
+    UPDATE public.usage_limits
+    SET ideas_used = ideas_used + _amount, updated_at = now()
+    WHERE user_id = _user_id;
+  ELSIF _type = 'ai_credits' THEN
+    IF public.debit_credits(_user_id, _amount, 'increment_usage') IS NULL THEN
+      RETURN false;
+    END IF;
+    UPDATE public.usage_limits
+    SET ai_credits_used = ai_credits_used + _amount, updated_at = now()
+    WHERE user_id = _user_id;
+  ELSIF _type = 'exports' THEN
+    UPDATE public.usage_limits
+    SET exports_used = exports_used + _amount, updated_at = now()
+    WHERE user_id = _user_id;
+  ELSIF _type = 'projects' THEN
+    UPDATE public.usage_limits
+    SET projects_used = projects_used + _amount, updated_at = now()
+    WHERE user_id = _user_id;
+  ELSE
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Client-facing debit: same as increment_usage('ai_credits') but returns the remaining balance
+CREATE OR REPLACE FUNCTION public.spend_ai_credits(_user_id UUID, _amount INTEGER DEFAULT 1, _operation TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining INTEGER;
+BEGIN
+  PERFORM public.initialize_usage_limits(_user_id);
+
+  v_remaining := public.debit_credits(_user_id, _amount, _operation);
+  IF v_remaining IS NOT NULL THEN
+    UPDATE public.usage_limits
+    SET ai_credits_used = ai_credits_used + _amount, updated_at = now()
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN v_remaining;
+END;
+$$;
+
+-- Grants are issued by check-subscription (which knows the Stripe tier) or lazily on the first debit
+REVOKE ALL ON FUNCTION public.ensure_monthly_grant(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ensure_monthly_grant(UUID, TEXT) TO service_role;
@@ -0,0 +1,12 @@
+-- Token accounting for the shared LLM gateway (supabase/functions/_shared/llm-gateway.ts).
+-- Every gateway call writes one ai_credits_usage row; calls served from llm_cache are marked cached
+-- and record zero tokens.
+ALTER TABLE public.ai_credits_usage
+  ADD COLUMN IF NOT EXISTS provider text,
+  ADD COLUMN IF NOT EXISTS model text,
+  ADD COLUMN IF NOT EXISTS prompt_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS completion_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cached boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_ai_credits_usage_user_created
+  ON public.ai_credits_usage (user_id, created_at DESC);
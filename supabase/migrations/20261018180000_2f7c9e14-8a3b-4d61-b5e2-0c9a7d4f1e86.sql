@@ -0,0 +1,40 @@
+-- Prompt registry evaluations and promotions.
+-- Prompt text and versions live in supabase/functions/_shared/prompt-registry.ts. groq-benchmark's
+-- evaluate action runs two versions over a sample set and stores the comparison here; promote only
+-- accepts a version whose stored evaluation over a named (not caller-supplied) set recommends it,
+-- and prompt_promotions overrides the registry's default version until it is rolled back.
+
+CREATE TABLE IF NOT EXISTS public.prompt_evaluations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_name TEXT NOT NULL,
+  baseline_version INTEGER NOT NULL,
+  candidate_version INTEGER NOT NULL,
+  sample_set TEXT NOT NULL,
+  sample_count INTEGER NOT NULL,
+  baseline_accuracy NUMERIC(5,4) NOT NULL,
+  candidate_accuracy NUMERIC(5,4) NOT NULL,
+  recommendation TEXT NOT NULL CHECK (recommendation IN ('promote', 'keep', 'inconclusive')),
+  report JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_evaluations_prompt
+  ON public.prompt_evaluations(prompt_name, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.prompt_promotions (
+  prompt_name TEXT PRIMARY KEY,
+  version INTEGER NOT NULL,
+  evaluation_id UUID NOT NULL REFERENCES public.prompt_evaluations(id),
+  promoted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.prompt_evaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage prompt evaluations"
+  ON public.prompt_evaluations FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage prompt promotions"
+  ON public.prompt_promotions FOR ALL
+  USING (auth.role() = 'service_role');
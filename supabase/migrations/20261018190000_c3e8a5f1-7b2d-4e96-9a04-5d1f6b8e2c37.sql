@@ -0,0 +1,34 @@
+-- Tile chat conversations, one per user and idea.
+-- tile-ai-chat answers from all of the idea's cached tiles, so a conversation is keyed by the idea
+-- (idea_hash matches data_hub_cache) rather than by the tile it was opened from; tile records where
+-- each question was asked. Assistant rows keep the citations, recalculated what-if scenarios and
+-- follow-up suggestions so TileAIChat can restore them as they were shown. A question and its answer
+-- are inserted together and share created_at, so conversations are ordered by seq.
+
+CREATE TABLE IF NOT EXISTS public.tile_chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idea_hash TEXT NOT NULL,
+  idea_text TEXT NOT NULL,
+  tile TEXT,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  citations JSONB,
+  what_ifs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  suggestions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tile_chat_messages_conversation
+  ON public.tile_chat_messages(user_id, idea_hash, seq);
+
+ALTER TABLE public.tile_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tile chat messages"
+  ON public.tile_chat_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage tile chat messages"
+  ON public.tile_chat_messages FOR ALL
+  USING (auth.role() = 'service_role');
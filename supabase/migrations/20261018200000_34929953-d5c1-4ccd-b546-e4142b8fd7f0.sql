@@ -0,0 +1,52 @@
+-- Atomic monthly quota use.
+-- requireQuota reads usage_limits and increment_usage bumps it later, so two concurrent exports could
+-- both pass the check. consume_quota checks and increments under the row lock and returns false,
+-- writing nothing, when the amount would go over the plan's limit (-1 = unlimited).
+
+CREATE OR REPLACE FUNCTION public.consume_quota(
+  _user_id uuid,
+  _type text,
+  _limit integer,
+  _amount integer DEFAULT 1
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used integer;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Usage amount must be positive';
+  END IF;
+  IF _type NOT IN ('ideas', 'exports') THEN
+    RAISE EXCEPTION 'Unknown quota %', _type;
+  END IF;
+
+  -- Creates the row, or resets the counters of a lapsed billing period
+  PERFORM public.initialize_usage_limits(_user_id);
+
+  SELECT CASE WHEN _type = 'ideas' THEN ideas_used ELSE exports_used END
+  INTO v_used
+  FROM public.usage_limits
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF _limit <> -1 AND v_used + _amount > _limit THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.usage_limits
+  SET ideas_used = ideas_used + CASE WHEN _type = 'ideas' THEN _amount ELSE 0 END,
+      exports_used = exports_used + CASE WHEN _type = 'exports' THEN _amount ELSE 0 END,
+      updated_at = now()
+  WHERE user_id = _user_id;
+
+  RETURN true;
+END;
+$$;
+
+-- The limit comes from the caller's plan, so only edge functions may pass it
+REVOKE ALL ON FUNCTION public.consume_quota(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_quota(uuid, text, integer, integer) TO service_role;
@@ -0,0 +1,24 @@
+-- Personal API keys.
+-- A request authenticated with an x-api-key header instead of a session is an API call, which needs the
+-- plan's apiAccess feature (resolveEntitlements in _shared/entitlements.ts). Only a SHA-256 digest of
+-- each key is stored; the key itself is shown once, when the api-keys function issues it.
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT NOT NULL, -- first characters of the key, to tell keys apart
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are issued and revoked through the api-keys function (service role)
+CREATE POLICY "Users can view their API keys"
+  ON public.api_keys FOR SELECT
+  USING (auth.uid() = user_id);